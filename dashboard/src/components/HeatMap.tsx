@@ -111,7 +111,7 @@ export function HeatMap({ data, onSymbolClick, isLoading }: HeatMapProps) {
                     <div className="col-span-1 text-center">Lev</div>
                     <div className="col-span-2 text-center">Consensus</div>
                     <div className="col-span-1 text-center">Conf.</div>
-                    <div className="col-span-2 text-right">Volume</div>
+                    <div className="col-span-2 text-right">Volume / AUM</div>
                 </div>
 
                 {/* Data Rows */}
@@ -221,9 +221,16 @@ export function HeatMap({ data, onSymbolClick, isLoading }: HeatMapProps) {
                             <ConfidenceBar score={item.confidenceScore} />
                         </div>
 
-                        {/* Volume */}
-                        <div className="col-span-2 text-right text-slate-300 font-mono text-sm">
-                            ${formatNumber(Math.abs(item.totalVolume))}
+                        {/* Volume + follower AUM */}
+                        <div className="col-span-2 flex flex-col items-end gap-0.5">
+                            <span className="text-slate-300 font-mono text-sm">
+                                ${formatNumber(Math.abs(item.totalVolume))}
+                            </span>
+                            {!!item.followerAum && (
+                                <span className="text-[9px] text-cyan-400" title="AUM of copiers following traders in this symbol">
+                                    AUM ${formatNumber(item.followerAum)} · {item.crowdingPct ?? 0}%
+                                </span>
+                            )}
                         </div>
                     </div>
                 ))}
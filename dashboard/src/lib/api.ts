@@ -279,6 +279,10 @@ export interface HeatMapData {
     dataSource?: 'VISIBLE' | 'HIDDEN_DERIVED' | 'MIXED';
     visibleTraderCount?: number;
     hiddenTraderCount?: number;
+    // Copier capital following the symbol's traders
+    followerAum?: number;
+    followerCopiers?: number;
+    crowdingPct?: number;           // % of all traders' AUM
     topTraders: HeatMapTrader[];
 }
 
@@ -883,6 +887,7 @@ export interface TraderDiagnostic {
             confidenceFactor: number;
             winAdj: number;
             availabilityPenalty: number;
+            liquidationPenalty: number;
         } | null;
     };
     issues: string[];
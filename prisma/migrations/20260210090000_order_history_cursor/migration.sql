@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "OrderHistoryCursor" (
+    "leadId" TEXT NOT NULL,
+    "platform" TEXT NOT NULL DEFAULT 'binance',
+    "lastOrderUpdateTime" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OrderHistoryCursor_pkey" PRIMARY KEY ("leadId")
+);
+
+-- AddForeignKey
+ALTER TABLE "OrderHistoryCursor" ADD CONSTRAINT "OrderHistoryCursor_leadId_fkey" FOREIGN KEY ("leadId") REFERENCES "LeadTrader"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "TrackedTrader" (
+    "leadId" TEXT NOT NULL,
+    "platform" TEXT NOT NULL DEFAULT 'binance',
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "notes" TEXT,
+    "scrapePriority" INTEGER NOT NULL DEFAULT 0,
+    "addedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TrackedTrader_pkey" PRIMARY KEY ("leadId")
+);
+
+-- CreateIndex
+CREATE INDEX "TrackedTrader_platform_enabled_scrapePriority_idx" ON "TrackedTrader"("platform", "enabled", "scrapePriority" DESC);
@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "ScrapeCycle" (
+    "id" TEXT NOT NULL,
+    "cycle" INTEGER NOT NULL,
+    "platform" TEXT NOT NULL DEFAULT 'binance',
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+    "durationMs" INTEGER,
+    "tradersScheduled" INTEGER NOT NULL DEFAULT 0,
+    "tradersProcessed" INTEGER NOT NULL DEFAULT 0,
+    "tradersErrored" INTEGER NOT NULL DEFAULT 0,
+    "positionsInserted" INTEGER NOT NULL DEFAULT 0,
+    "eventsInserted" INTEGER NOT NULL DEFAULT 0,
+    "eventsSkipped" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "ScrapeCycle_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ScrapeAttempt" (
+    "id" TEXT NOT NULL,
+    "cycleId" TEXT NOT NULL,
+    "leadId" TEXT NOT NULL,
+    "platform" TEXT NOT NULL DEFAULT 'binance',
+    "status" TEXT NOT NULL,
+    "endpoints" JSONB NOT NULL,
+    "failedEndpoints" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "error" TEXT,
+    "latencyMs" INTEGER,
+    "positionsCount" INTEGER,
+    "ordersCount" INTEGER,
+    "eventsInserted" INTEGER,
+    "eventsSkipped" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ScrapeAttempt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ScrapeCycle_startedAt_idx" ON "ScrapeCycle"("startedAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "ScrapeAttempt_leadId_createdAt_idx" ON "ScrapeAttempt"("leadId", "createdAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "ScrapeAttempt_cycleId_idx" ON "ScrapeAttempt"("cycleId");
+
+-- AddForeignKey
+ALTER TABLE "ScrapeAttempt" ADD CONSTRAINT "ScrapeAttempt_cycleId_fkey" FOREIGN KEY ("cycleId") REFERENCES "ScrapeCycle"("id") ON DELETE CASCADE ON UPDATE CASCADE;
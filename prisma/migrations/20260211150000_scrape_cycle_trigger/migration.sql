@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ScrapeCycle" ADD COLUMN     "trigger" TEXT NOT NULL DEFAULT 'SCHEDULED';
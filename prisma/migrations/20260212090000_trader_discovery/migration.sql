@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "TraderCandidate" (
+    "leadId" TEXT NOT NULL,
+    "platform" TEXT NOT NULL DEFAULT 'binance',
+    "status" TEXT NOT NULL DEFAULT 'CANDIDATE',
+    "nickname" TEXT,
+    "roiPct" DOUBLE PRECISION,
+    "maxDrawdownPct" DOUBLE PRECISION,
+    "aumUsdt" DOUBLE PRECISION,
+    "daysActive" INTEGER,
+    "positionShow" BOOLEAN,
+    "copierCount" INTEGER,
+    "listing" JSONB NOT NULL,
+    "firstSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewNote" TEXT,
+
+    CONSTRAINT "TraderCandidate_pkey" PRIMARY KEY ("leadId")
+);
+
+-- CreateIndex
+CREATE INDEX "TraderCandidate_platform_status_lastSeenAt_idx" ON "TraderCandidate"("platform", "status", "lastSeenAt" DESC);
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "RawIngest" ADD COLUMN     "sectionHashes" JSONB,
+ADD COLUMN     "changedSections" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "RawIngestSection" (
+    "hash" TEXT NOT NULL,
+    "content" JSONB NOT NULL,
+    "sizeBytes" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RawIngestSection_pkey" PRIMARY KEY ("hash")
+);
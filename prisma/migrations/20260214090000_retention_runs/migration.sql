@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "RetentionRun" (
+    "id" TEXT NOT NULL,
+    "trigger" TEXT NOT NULL DEFAULT 'SCHEDULED',
+    "status" TEXT NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+    "durationMs" INTEGER,
+    "rowsDeleted" INTEGER NOT NULL DEFAULT 0,
+    "rowsArchived" INTEGER NOT NULL DEFAULT 0,
+    "bytesReclaimed" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "tables" JSONB,
+    "error" TEXT,
+
+    CONSTRAINT "RetentionRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RetentionRun_startedAt_idx" ON "RetentionRun"("startedAt" DESC);
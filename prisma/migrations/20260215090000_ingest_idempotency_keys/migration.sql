@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "IngestIdempotencyKey" (
+    "key" TEXT NOT NULL,
+    "route" TEXT NOT NULL,
+    "leadId" TEXT,
+    "derived" BOOLEAN NOT NULL DEFAULT false,
+    "bodyHash" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "statusCode" INTEGER,
+    "response" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "IngestIdempotencyKey_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "IngestIdempotencyKey_expiresAt_idx" ON "IngestIdempotencyKey"("expiresAt");
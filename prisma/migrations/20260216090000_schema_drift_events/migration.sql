@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "SchemaDriftEvent" (
+    "id" TEXT NOT NULL,
+    "platform" TEXT NOT NULL DEFAULT 'binance',
+    "specVersion" INTEGER NOT NULL,
+    "section" TEXT NOT NULL,
+    "endpoint" TEXT NOT NULL,
+    "field" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "expectedType" TEXT,
+    "observedType" TEXT,
+    "sample" JSONB,
+    "occurrences" INTEGER NOT NULL DEFAULT 1,
+    "firstSeenAt" TIMESTAMP(3) NOT NULL,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL,
+    "lastLeadId" TEXT,
+
+    CONSTRAINT "SchemaDriftEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SchemaDriftEvent_platform_specVersion_section_field_kind_key" ON "SchemaDriftEvent"("platform", "specVersion", "section", "field", "kind");
+
+-- CreateIndex
+CREATE INDEX "SchemaDriftEvent_platform_lastSeenAt_idx" ON "SchemaDriftEvent"("platform", "lastSeenAt" DESC);
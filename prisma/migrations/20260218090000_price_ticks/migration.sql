@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "PriceTick" (
+    "id" TEXT NOT NULL,
+    "platform" TEXT NOT NULL DEFAULT 'binance',
+    "symbol" TEXT NOT NULL,
+    "markPrice" DOUBLE PRECISION NOT NULL,
+    "indexPrice" DOUBLE PRECISION,
+    "fundingRate" DOUBLE PRECISION,
+    "at" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PriceTick_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PriceTick_platform_symbol_at_key" ON "PriceTick"("platform", "symbol", "at");
+
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "SimulatedPosition" ADD COLUMN     "maePct" DOUBLE PRECISION,
+ADD COLUMN     "mfePct" DOUBLE PRECISION,
+ADD COLUMN     "timeToMfeSec" INTEGER,
+ADD COLUMN     "stopEfficiency" DOUBLE PRECISION,
+ADD COLUMN     "excursionInterval" TEXT,
+ADD COLUMN     "excursionAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "Kline" (
+    "id" TEXT NOT NULL,
+    "platform" TEXT NOT NULL DEFAULT 'binance',
+    "symbol" TEXT NOT NULL,
+    "interval" TEXT NOT NULL,
+    "openTime" TIMESTAMP(3) NOT NULL,
+    "closeTime" TIMESTAMP(3) NOT NULL,
+    "open" DOUBLE PRECISION NOT NULL,
+    "high" DOUBLE PRECISION NOT NULL,
+    "low" DOUBLE PRECISION NOT NULL,
+    "close" DOUBLE PRECISION NOT NULL,
+    "volume" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Kline_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Kline_platform_symbol_interval_openTime_key" ON "Kline"("platform", "symbol", "interval", "openTime");
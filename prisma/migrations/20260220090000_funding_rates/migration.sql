@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "SimulatedPosition" ADD COLUMN     "fundingUSDT" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "fundingSettlements" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "fundingAccruedUntil" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "PortfolioMetric" ADD COLUMN     "totalFunding" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "BacktestResult" ADD COLUMN     "totalFunding" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "FundingRate" (
+    "id" TEXT NOT NULL,
+    "platform" TEXT NOT NULL DEFAULT 'binance',
+    "symbol" TEXT NOT NULL,
+    "fundingTime" TIMESTAMP(3) NOT NULL,
+    "fundingRate" DOUBLE PRECISION NOT NULL,
+    "markPrice" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FundingRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FundingRate_platform_symbol_fundingTime_key" ON "FundingRate"("platform", "symbol", "fundingTime");
@@ -0,0 +1,41 @@
+-- AlterTable
+ALTER TABLE "PositionState" ADD COLUMN     "currentAmount" DOUBLE PRECISION,
+ADD COLUMN     "currentEntryPrice" DOUBLE PRECISION,
+ADD COLUMN     "legCount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "PositionLeg" (
+    "id" TEXT NOT NULL,
+    "positionStateId" TEXT NOT NULL,
+    "platform" TEXT NOT NULL DEFAULT 'binance',
+    "leadId" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "direction" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "previousAmount" DOUBLE PRECISION NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "deltaAmount" DOUBLE PRECISION NOT NULL,
+    "markPrice" DOUBLE PRECISION,
+    "reportedEntryPrice" DOUBLE PRECISION,
+    "inferredEntryPrice" DOUBLE PRECISION NOT NULL,
+    "previousSeenAt" TIMESTAMP(3) NOT NULL,
+    "detectedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PositionLeg_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PositionLeg_positionStateId_detectedAt_idx" ON "PositionLeg"("positionStateId", "detectedAt");
+
+-- CreateIndex
+CREATE INDEX "PositionLeg_platform_leadId_detectedAt_idx" ON "PositionLeg"("platform", "leadId", "detectedAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "PositionLeg_symbol_detectedAt_idx" ON "PositionLeg"("symbol", "detectedAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "PositionLeg_detectedAt_idx" ON "PositionLeg"("detectedAt" DESC);
+
+-- AddForeignKey
+ALTER TABLE "PositionLeg" ADD CONSTRAINT "PositionLeg_positionStateId_fkey" FOREIGN KEY ("positionStateId") REFERENCES "PositionState"("id") ON DELETE CASCADE ON UPDATE CASCADE;
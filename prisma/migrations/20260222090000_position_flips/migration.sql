@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "PositionFlip" (
+    "id" TEXT NOT NULL,
+    "platform" TEXT NOT NULL DEFAULT 'binance',
+    "leadId" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "flipType" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "closedStateId" TEXT,
+    "openedStateId" TEXT,
+    "closedAt" TIMESTAMP(3) NOT NULL,
+    "openedAt" TIMESTAMP(3) NOT NULL,
+    "gapMs" INTEGER NOT NULL,
+    "entryPrice" DOUBLE PRECISION,
+    "amount" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PositionFlip_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PositionFlip_closedStateId_key" ON "PositionFlip"("closedStateId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PositionFlip_openedStateId_key" ON "PositionFlip"("openedStateId");
+
+-- CreateIndex
+CREATE INDEX "PositionFlip_platform_leadId_openedAt_idx" ON "PositionFlip"("platform", "leadId", "openedAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "PositionFlip_symbol_openedAt_idx" ON "PositionFlip"("symbol", "openedAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "PositionFlip_openedAt_idx" ON "PositionFlip"("openedAt" DESC);
+
+-- AddForeignKey
+ALTER TABLE "PositionFlip" ADD CONSTRAINT "PositionFlip_closedStateId_fkey" FOREIGN KEY ("closedStateId") REFERENCES "PositionState"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PositionFlip" ADD CONSTRAINT "PositionFlip_openedStateId_fkey" FOREIGN KEY ("openedStateId") REFERENCES "PositionState"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "TradeRoundTrip" (
+    "id" TEXT NOT NULL,
+    "platform" TEXT NOT NULL DEFAULT 'binance',
+    "leadId" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "direction" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "openFills" INTEGER NOT NULL,
+    "closeFills" INTEGER NOT NULL,
+    "openedAt" TIMESTAMP(3) NOT NULL,
+    "closedAt" TIMESTAMP(3),
+    "entryPrice" DOUBLE PRECISION NOT NULL,
+    "exitPrice" DOUBLE PRECISION,
+    "openedSize" DOUBLE PRECISION NOT NULL,
+    "closedSize" DOUBLE PRECISION NOT NULL,
+    "maxSize" DOUBLE PRECISION NOT NULL,
+    "realizedPnl" DOUBLE PRECISION NOT NULL,
+    "holdSeconds" INTEGER,
+    "partiallyClosed" BOOLEAN NOT NULL,
+    "firstEventKey" TEXT NOT NULL,
+    "lastEventKey" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TradeRoundTrip_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TradeRoundTrip_leadId_firstEventKey_key" ON "TradeRoundTrip"("leadId", "firstEventKey");
+
+-- CreateIndex
+CREATE INDEX "TradeRoundTrip_platform_leadId_status_closedAt_idx" ON "TradeRoundTrip"("platform", "leadId", "status", "closedAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "TradeRoundTrip_leadId_openedAt_idx" ON "TradeRoundTrip"("leadId", "openedAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "TradeRoundTrip_symbol_closedAt_idx" ON "TradeRoundTrip"("symbol", "closedAt" DESC);
+
+-- AddForeignKey
+ALTER TABLE "TradeRoundTrip" ADD CONSTRAINT "TradeRoundTrip_leadId_fkey" FOREIGN KEY ("leadId") REFERENCES "LeadTrader"("id") ON DELETE CASCADE ON UPDATE CASCADE;
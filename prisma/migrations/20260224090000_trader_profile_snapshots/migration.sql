@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "TraderProfileSnapshot" (
+    "id" TEXT NOT NULL,
+    "platform" TEXT NOT NULL DEFAULT 'binance',
+    "leadId" TEXT NOT NULL,
+    "capturedAt" TIMESTAMP(3) NOT NULL,
+    "positionShow" BOOLEAN,
+    "nickname" TEXT,
+    "aumAmount" DOUBLE PRECISION,
+    "marginBalance" DOUBLE PRECISION,
+    "copierCount" INTEGER,
+    "maxCopyCount" INTEGER,
+    "profitSharingRate" DOUBLE PRECISION,
+    "badgeName" TEXT,
+    "status" TEXT,
+    "changedFields" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "changes" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TraderProfileSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TraderProfileSnapshot_leadId_capturedAt_idx" ON "TraderProfileSnapshot"("leadId", "capturedAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "TraderProfileSnapshot_platform_capturedAt_idx" ON "TraderProfileSnapshot"("platform", "capturedAt" DESC);
+
+-- AddForeignKey
+ALTER TABLE "TraderProfileSnapshot" ADD CONSTRAINT "TraderProfileSnapshot_leadId_fkey" FOREIGN KEY ("leadId") REFERENCES "LeadTrader"("id") ON DELETE CASCADE ON UPDATE CASCADE;
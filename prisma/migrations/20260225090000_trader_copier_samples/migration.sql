@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "TraderCopierSample" (
+    "id" TEXT NOT NULL,
+    "platform" TEXT NOT NULL DEFAULT 'binance',
+    "leadId" TEXT NOT NULL,
+    "sampledAt" TIMESTAMP(3) NOT NULL,
+    "copierCount" INTEGER,
+    "maxCopyCount" INTEGER,
+    "aumAmount" DOUBLE PRECISION,
+    "marginBalance" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TraderCopierSample_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TraderCopierSample_leadId_sampledAt_idx" ON "TraderCopierSample"("leadId", "sampledAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "TraderCopierSample_sampledAt_idx" ON "TraderCopierSample"("sampledAt");
+
+-- AddForeignKey
+ALTER TABLE "TraderCopierSample" ADD CONSTRAINT "TraderCopierSample_leadId_fkey" FOREIGN KEY ("leadId") REFERENCES "LeadTrader"("id") ON DELETE CASCADE ON UPDATE CASCADE;
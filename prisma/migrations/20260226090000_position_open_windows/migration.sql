@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "LeadTrader" ADD COLUMN     "lastFetchedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "PositionState" ADD COLUMN     "closeWindowEnd" TIMESTAMP(3),
+ADD COLUMN     "closeWindowStart" TIMESTAMP(3),
+ADD COLUMN     "openWindowEnd" TIMESTAMP(3),
+ADD COLUMN     "openWindowStart" TIMESTAMP(3);
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "PositionSnapshot" ADD COLUMN     "liqPrice" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "TraderScore" ADD COLUMN     "liquidations" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "PositionState" ADD COLUMN     "closeReason" TEXT,
+ADD COLUMN     "closeWorstPrice" DOUBLE PRECISION,
+ADD COLUMN     "liquidationPrice" DOUBLE PRECISION;
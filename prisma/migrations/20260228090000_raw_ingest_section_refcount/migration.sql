@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "RawIngestSection" ADD COLUMN     "refCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastUsedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Backfill reference counts from existing rows
+UPDATE "RawIngestSection" s
+SET "refCount" = c.refs
+FROM (
+  SELECT h.value AS hash, COUNT(*)::int AS refs
+  FROM "RawIngest" r, jsonb_each_text(r."sectionHashes") h
+  WHERE r."sectionHashes" IS NOT NULL
+  GROUP BY h.value
+) c
+WHERE s."hash" = c.hash;
+
+-- CreateIndex
+CREATE INDEX "RawIngestSection_refCount_lastUsedAt_idx" ON "RawIngestSection"("refCount", "lastUsedAt");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Event" ALTER COLUMN "eventTimeText" DROP NOT NULL;
@@ -0,0 +1,86 @@
+/**
+ * Local stand-in for the Binance copy-trading leaderboard, for running
+ * discovery offline
+ *
+ *   npx tsx scripts/leaderboard-fixture-server.ts [port] [fixtureDir]
+ *
+ * then start the backend with
+ *
+ *   DISCOVERY_BASE_URL=http://localhost:4010/bapi/futures/v1
+ *
+ * Serves (wrapped in Binance's { code, success, data } envelope):
+ *   POST .../home-page/query-list          → <fixtureDir>/leaderboard.json list, paged by pageNumber/pageSize
+ *   GET  .../lead-portfolio/detail?portfolioId=<id> → <fixtureDir>/details/<id>.json (404 if missing)
+ *
+ * Detail fixtures may give "startDaysAgo" instead of "startTime" so a
+ * trader's age stays fixed no matter when the fixtures are served.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const port = parseInt(process.argv[2] || process.env.PORT || '4010', 10);
+const fixtureDir = process.argv[3] || 'fixtures/binance-leaderboard';
+
+async function readJson(file: string): Promise<Record<string, unknown> | null> {
+  try {
+    return JSON.parse(await readFile(path.join(fixtureDir, file), 'utf8'));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw err;
+  }
+}
+
+async function readBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  let body = '';
+  for await (const chunk of req) body += chunk;
+  return body ? JSON.parse(body) : {};
+}
+
+function send(res: ServerResponse, status: number, data: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(
+    status === 200
+      ? { code: '000000', message: null, success: true, data }
+      : { code: String(status), message: String(data), success: false, data: null },
+  ));
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const url = new URL(req.url || '/', `http://localhost:${port}`);
+
+  if (req.method === 'POST' && url.pathname.endsWith('/copy-trade/home-page/query-list')) {
+    const body = await readBody(req);
+    const pageNumber = Math.max(Number(body.pageNumber) || 1, 1);
+    const pageSize = Math.max(Number(body.pageSize) || 20, 1);
+    const list = ((await readJson('leaderboard.json'))?.list ?? []) as unknown[];
+    const start = (pageNumber - 1) * pageSize;
+    return send(res, 200, { indexValue: null, total: list.length, list: list.slice(start, start + pageSize) });
+  }
+
+  if (req.method === 'GET' && url.pathname.endsWith('/copy-trade/lead-portfolio/detail')) {
+    const id = url.searchParams.get('portfolioId') || '';
+    const detail = /^\d+$/.test(id) ? await readJson(path.join('details', `${id}.json`)) : null;
+    if (!detail) return send(res, 404, `No fixture for portfolio ${id}`);
+
+    const { startDaysAgo, ...rest } = detail;
+    if (typeof startDaysAgo === 'number') rest.startTime = Date.now() - startDaysAgo * DAY_MS;
+    return send(res, 200, rest);
+  }
+
+  send(res, 404, `No fixture route for ${req.method} ${url.pathname}`);
+}
+
+const server = createServer((req, res) => {
+  handle(req, res).catch((err) => {
+    console.error(err);
+    send(res, 500, err instanceof Error ? err.message : String(err));
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Leaderboard fixtures from ${fixtureDir} on http://localhost:${port}/bapi/futures/v1`);
+});
@@ -0,0 +1,149 @@
+/**
+ * Local stand-in for the Binance futures premium index, klines and funding
+ * rate history, for running the price feed, kline and funding sync offline
+ *
+ *   npx tsx scripts/price-feed-fixture-server.ts [port]
+ *
+ * then start the backend with
+ *
+ *   PRICE_FEED_BASE_URL=http://localhost:4020   (klines / funding follow it unless KLINES_BASE_URL / FUNDING_BASE_URL is set)
+ *
+ * Serves (a bare array / object, like the real endpoint):
+ *   GET /fapi/v1/premiumIndex               → every symbol
+ *   GET /fapi/v1/premiumIndex?symbol=<sym>  → one symbol (400 if unknown)
+ *   GET /fapi/v1/klines?symbol=&interval=1m|5m[&startTime&endTime&limit]
+ *   GET /fapi/v1/fundingRate?symbol=[&startTime&endTime&limit]  → 8h settlements
+ *
+ * Premium-index prices start from the table below and take a small random
+ * step on every request, so consecutive polls store distinct ticks. Candles
+ * follow a deterministic wave around the same base prices, so a candle is
+ * the same every time it is fetched; so are funding settlements.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+
+const HOUR_MS = 60 * 60 * 1000;
+const INTERVAL_MS: Record<string, number> = { '1m': 60 * 1000, '5m': 5 * 60 * 1000 };
+
+const port = parseInt(process.argv[2] || process.env.PORT || '4020', 10);
+
+const basePrices: Record<string, number> = {
+  BTCUSDT: 65000,
+  ETHUSDT: 3200,
+  SOLUSDT: 150,
+  BNBUSDT: 580,
+  XRPUSDT: 0.52,
+  DOGEUSDT: 0.12,
+};
+const prices = { ...basePrices };
+
+function step(symbol: string): number {
+  const next = prices[symbol] * (1 + (Math.random() - 0.5) * 0.002);
+  prices[symbol] = next;
+  return next;
+}
+
+function row(symbol: string, now: number) {
+  const mark = step(symbol);
+  const index = mark * (1 + (Math.random() - 0.5) * 0.0004);
+  return {
+    symbol,
+    markPrice: mark.toFixed(8),
+    indexPrice: index.toFixed(8),
+    estimatedSettlePrice: index.toFixed(8),
+    lastFundingRate: ((Math.random() - 0.3) * 0.0002).toFixed(8),
+    interestRate: '0.00010000',
+    nextFundingTime: Math.ceil(now / (8 * HOUR_MS)) * 8 * HOUR_MS,
+    time: now,
+  };
+}
+
+/** Deterministic price of a symbol at time t (two overlapping waves) */
+function waveAt(symbol: string, t: number): number {
+  return basePrices[symbol] * (1 + 0.01 * Math.sin(t / (6 * HOUR_MS)) + 0.003 * Math.sin(t / (23 * 60 * 1000)));
+}
+
+function klines(symbol: string, intervalMs: number, params: URLSearchParams): unknown[] {
+  const limit = Math.min(Math.max(parseInt(params.get('limit') || '500', 10) || 500, 1), 1500);
+  const now = Date.now();
+  const end = Math.min(Number(params.get('endTime')) || now, now);
+  const start = Number(params.get('startTime')) || end - limit * intervalMs;
+
+  const rows: unknown[] = [];
+  for (let t = Math.ceil(start / intervalMs) * intervalMs; t <= end && rows.length < limit; t += intervalMs) {
+    const open = waveAt(symbol, t);
+    const close = waveAt(symbol, t + intervalMs);
+    const high = Math.max(open, close, waveAt(symbol, t + intervalMs / 2)) * 1.0005;
+    const low = Math.min(open, close, waveAt(symbol, t + intervalMs / 2)) * 0.9995;
+    rows.push([
+      t, open.toFixed(8), high.toFixed(8), low.toFixed(8), close.toFixed(8), '1000.000',
+      t + intervalMs - 1, '0', 100, '500.000', '0', '0',
+    ]);
+  }
+  return rows;
+}
+
+function fundingRates(symbol: string, params: URLSearchParams): unknown[] {
+  const stepMs = 8 * HOUR_MS;
+  const limit = Math.min(Math.max(parseInt(params.get('limit') || '100', 10) || 100, 1), 1000);
+  const now = Date.now();
+  const end = Math.min(Number(params.get('endTime')) || now, now);
+  const start = Number(params.get('startTime')) || end - limit * stepMs;
+
+  const rows: unknown[] = [];
+  for (let t = Math.ceil(start / stepMs) * stepMs; t <= end && rows.length < limit; t += stepMs) {
+    rows.push({
+      symbol,
+      fundingTime: t,
+      fundingRate: (0.0001 + 0.00015 * Math.sin(t / (3 * 24 * HOUR_MS))).toFixed(8),
+      markPrice: waveAt(symbol, t).toFixed(8),
+    });
+  }
+  return rows;
+}
+
+function send(res: ServerResponse, status: number, data: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(status === 200 ? data : { code: -1121, msg: String(data) }));
+}
+
+function handle(req: IncomingMessage, res: ServerResponse): void {
+  const url = new URL(req.url || '/', `http://localhost:${port}`);
+
+  if (req.method === 'GET' && url.pathname === '/fapi/v1/premiumIndex') {
+    const now = Date.now();
+    const symbol = url.searchParams.get('symbol')?.toUpperCase();
+    if (!symbol) return send(res, 200, Object.keys(prices).map((s) => row(s, now)));
+    if (!(symbol in prices)) return send(res, 400, 'Invalid symbol.');
+    return send(res, 200, row(symbol, now));
+  }
+
+  if (req.method === 'GET' && url.pathname === '/fapi/v1/klines') {
+    const symbol = url.searchParams.get('symbol')?.toUpperCase() || '';
+    const intervalMs = INTERVAL_MS[url.searchParams.get('interval') || ''];
+    if (!(symbol in basePrices)) return send(res, 400, 'Invalid symbol.');
+    if (!intervalMs) return send(res, 400, 'Invalid interval.');
+    return send(res, 200, klines(symbol, intervalMs, url.searchParams));
+  }
+
+  if (req.method === 'GET' && url.pathname === '/fapi/v1/fundingRate') {
+    const symbol = url.searchParams.get('symbol')?.toUpperCase() || '';
+    if (!(symbol in basePrices)) return send(res, 400, 'Invalid symbol.');
+    return send(res, 200, fundingRates(symbol, url.searchParams));
+  }
+
+  send(res, 404, `No fixture route for ${req.method} ${url.pathname}`);
+}
+
+const server = createServer((req, res) => {
+  try {
+    handle(req, res);
+  } catch (err) {
+    console.error(err);
+    send(res, 500, err instanceof Error ? err.message : String(err));
+  }
+});
+
+server.listen(port, () => {
+  console.log(`Premium index / kline / funding fixtures on http://localhost:${port}/fapi/v1`);
+});
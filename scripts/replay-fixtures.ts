@@ -0,0 +1,58 @@
+/**
+ * Replay recorded scraper fixtures through the ingest pipeline
+ *
+ * Record first by running the backend with SCRAPER_RECORD_DIR set, then:
+ *
+ *   npx tsx scripts/replay-fixtures.ts <dir>                      # every cycle, in order
+ *   npx tsx scripts/replay-fixtures.ts <dir> <cycleKey>           # one cycle
+ *   npx tsx scripts/replay-fixtures.ts <dir> <cycleKey> <leadId>  # one trader
+ *
+ * Writes to DATABASE_URL — point it at a scratch database.
+ */
+
+import { prisma } from '../src/db/prisma.js';
+import {
+  replayFixtureDir,
+  replayFixtureCycle,
+  type TraderReplayResult,
+} from '../src/services/scrapeReplay.js';
+
+async function main() {
+  const [dir, cycleKey, leadId] = process.argv.slice(2);
+  if (!dir) {
+    console.error('Usage: npx tsx scripts/replay-fixtures.ts <dir> [cycleKey] [leadId]');
+    process.exit(1);
+  }
+
+  let results: TraderReplayResult[];
+  if (cycleKey) {
+    results = await replayFixtureCycle({ dir, cycleKey }, leadId ? { leadIds: [leadId] } : {});
+  } else {
+    results = await replayFixtureDir(dir);
+  }
+
+  for (const r of results) {
+    const failed = r.endpoints.filter((e) => !e.success).map((e) => e.endpoint);
+    if (r.error) {
+      console.log(`✗ ${r.cycleKey} ${r.leadId} @ ${r.fetchedAt}: ${r.error}`);
+      continue;
+    }
+    console.log(
+      `✓ ${r.cycleKey} ${r.leadId} @ ${r.fetchedAt}: ` +
+      `positions=${r.stats!.positionsInserted} events=${r.stats!.eventsInserted} ` +
+      `skipped=${r.stats!.eventsSkipped} ` +
+      `states(new=${r.stats!.positionStateUpdate.newPositions} closed=${r.stats!.positionStateUpdate.closedPositions}) ` +
+      `hidden(new=${r.stats!.hiddenPositionStateUpdate.newPositions} closed=${r.stats!.hiddenPositionStateUpdate.closedPositions})` +
+      (failed.length > 0 ? ` failedEndpoints=${failed.join(',')}` : ''),
+    );
+  }
+
+  console.log(`\nReplayed ${results.length} trader scrape(s).`);
+}
+
+main()
+  .catch((err) => {
+    console.error(err);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
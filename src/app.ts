@@ -11,6 +11,7 @@ import { symbolsRoutes } from './routes/symbols.js';
 import { tradersRoutes } from './routes/traders.js';
 import { signalsRoutes } from './routes/signals.js';
 import { simulationRoutes } from './routes/simulation.js';
+import { adminRoutes } from './routes/admin.js';
 
 export async function buildApp(): Promise<FastifyInstance> {
     const fastify = Fastify({
@@ -31,7 +32,7 @@ export async function buildApp(): Promise<FastifyInstance> {
     // Register CORS
     await fastify.register(cors, {
         origin: true, // Allow all origins for MVP
-        methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+        methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
         allowedHeaders: ['Content-Type', 'X-API-Key', 'Authorization'],
     });
 
@@ -61,6 +62,7 @@ export async function buildApp(): Promise<FastifyInstance> {
                 { name: 'Ingest', description: 'Data ingestion endpoints (protected)' },
                 { name: 'Symbols', description: 'Symbol aggregation and feed endpoints' },
                 { name: 'Traders', description: 'Trader information endpoints' },
+                { name: 'Admin', description: 'Operator endpoints (protected)' },
             ],
             components: {
                 securitySchemes: {
@@ -90,6 +92,7 @@ export async function buildApp(): Promise<FastifyInstance> {
     await fastify.register(tradersRoutes);
     await fastify.register(signalsRoutes); // FAZ 2: Signal aggregation
     await fastify.register(simulationRoutes); // Sprint 1: Risk management & portfolios
+    await fastify.register(adminRoutes);
 
     // Global error handler
     fastify.setErrorHandler((error, _request, reply) => {
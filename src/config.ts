@@ -32,6 +32,57 @@ export const config = {
 
         /** Maximum age in hours to consider a position as "recently opened" for filtering */
         recentlyOpenedMaxHours: parseInt(process.env.RECENTLY_OPENED_MAX_HOURS || '24', 10),
+
+        /** Minimum size change between snapshots, as % of the previous amount, recorded as a PositionLeg */
+        minLegDeltaPct: parseFloat(process.env.POSITION_LEG_MIN_DELTA_PCT || '0.1'),
+
+        /** Max gap between closing one side and opening the other (same trader / symbol) to count as a flip (default 2 min) */
+        flipWindowMs: parseInt(process.env.POSITION_FLIP_WINDOW_MS || '120000', 10),
+    },
+
+    // ─── Profile History ───────────────────────────────────
+    profileHistory: {
+        /** Min AUM / margin balance change, % of the previous value, that counts as a profile change (other fields: any change) */
+        minBalanceChangePct: parseFloat(process.env.PROFILE_MIN_BALANCE_CHANGE_PCT || '5'),
+    },
+
+    // ─── Copier Stats ──────────────────────────────────────
+    copierStats: {
+        /** Min ms between copier count / AUM samples of a trader (default 15 min) */
+        sampleIntervalMs: parseInt(process.env.COPIER_SAMPLE_INTERVAL_MS || '900000', 10),
+    },
+
+    // ─── Liquidations ──────────────────────────────────────
+    liquidation: {
+        /** Maintenance margin rate used in liquidation price estimates (Binance's lowest tier: 0.4%) */
+        maintenanceMarginRate: parseFloat(process.env.LIQUIDATION_MAINT_MARGIN_RATE || '0.004'),
+
+        /** How close (% of the estimate) the price must get to the liquidation price for a disappearance to count as a liquidation */
+        proximityPct: parseFloat(process.env.LIQUIDATION_PROXIMITY_PCT || '1'),
+
+        /** Slack around a close window when matching close orders (event times vs fetch times, default 1 min) */
+        orderMatchSlackMs: parseInt(process.env.LIQUIDATION_ORDER_MATCH_SLACK_MS || '60000', 10),
+
+        /** Hours after a close during which the classification is re-checked (late orderHistory) */
+        recheckHours: parseInt(process.env.LIQUIDATION_RECHECK_HOURS || '24', 10),
+    },
+
+    // ─── Batch Ingest ──────────────────────────────────────
+    batchIngest: {
+        /** Max POST /ingest/batch body size in bytes, compressed and decompressed (default 50 MB) */
+        maxBodyBytes: parseInt(process.env.BATCH_INGEST_MAX_BYTES || '52428800', 10),
+
+        /** Max NDJSON lines (trader payloads) per batch */
+        maxLines: parseInt(process.env.BATCH_INGEST_MAX_LINES || '5000', 10),
+    },
+
+    // ─── Ingest Idempotency ────────────────────────────────
+    idempotency: {
+        /** How long a processed request's response is kept for replay (default 24h) */
+        ttlHours: parseInt(process.env.IDEMPOTENCY_TTL_HOURS || '24', 10),
+
+        /** A request still PROCESSING after this long is treated as abandoned and its key can be reclaimed */
+        staleAfterMs: parseInt(process.env.IDEMPOTENCY_STALE_AFTER_MS || '120000', 10),
     },
 
     // ─── Binance Scraper ───────────────────────────────────
@@ -51,7 +102,60 @@ export const config = {
         /** Per-endpoint timeout in ms */
         timeoutMs: parseInt(process.env.SCRAPER_TIMEOUT_MS || '15000', 10),
 
-        /** Comma-separated list of Binance portfolio IDs to track */
+        /** Binance bapi base URL (override to point the scraper at a local stand-in server) */
+        baseUrl: process.env.SCRAPER_BASE_URL || 'https://www.binance.com/bapi/futures/v1',
+
+        /** Retries for transient failures (timeouts, network errors, HTTP 429/5xx) */
+        retry: {
+            maxRetries: parseInt(process.env.SCRAPER_MAX_RETRIES || '2', 10),
+            baseDelayMs: parseInt(process.env.SCRAPER_RETRY_BASE_MS || '500', 10),
+            maxDelayMs: parseInt(process.env.SCRAPER_RETRY_MAX_MS || '10000', 10),
+        },
+
+        /** Per-endpoint circuit breaker */
+        breaker: {
+            /** Consecutive transient failures before the endpoint is short-circuited */
+            failureThreshold: parseInt(process.env.SCRAPER_BREAKER_THRESHOLD || '5', 10),
+            /** How long an open breaker rejects requests before a probe (ms) */
+            cooldownMs: parseInt(process.env.SCRAPER_BREAKER_COOLDOWN_MS || '60000', 10),
+        },
+
+        /** Window size in hours for chunked order-history fetches (delta + backfill) */
+        orderChunkHours: parseInt(process.env.SCRAPER_ORDER_CHUNK_HOURS || '24', 10),
+
+        /** Delta fetches re-request this much history before the high-water mark (ms) */
+        orderOverlapMs: parseInt(process.env.SCRAPER_ORDER_OVERLAP_MS || '300000', 10),
+
+        /** Default depth of POST /admin/backfill/:leadId in days */
+        backfillDays: parseInt(process.env.SCRAPER_BACKFILL_DAYS || '90', 10),
+
+        /** Days of ScrapeCycle / ScrapeAttempt history to keep (0 = keep forever) */
+        historyRetentionDays: parseInt(process.env.SCRAPER_HISTORY_RETENTION_DAYS || '14', 10),
+
+        /** Record every Binance response to this dir, keyed by cycle and leadId (empty = off; see scripts/replay-fixtures.ts) */
+        recordDir: process.env.SCRAPER_RECORD_DIR || '',
+
+        /** Adaptive per-trader cadence (set SCRAPER_ADAPTIVE_CADENCE=false to scrape everyone every interval) */
+        cadence: {
+            enabled: process.env.SCRAPER_ADAPTIVE_CADENCE !== 'false',
+
+            /** How often the scheduler wakes to scrape due traders (ms) */
+            tickMs: parseInt(process.env.SCRAPER_CADENCE_TICK_MS || '15000', 10),
+
+            /** Interval for the most active traders (ms) */
+            minIntervalMs: parseInt(process.env.SCRAPER_CADENCE_MIN_MS || '20000', 10),
+
+            /** Interval for dormant traders (ms) */
+            maxIntervalMs: parseInt(process.env.SCRAPER_CADENCE_MAX_MS || '600000', 10),
+
+            /** Global Binance request budget per minute */
+            requestBudgetPerMinute: parseInt(process.env.SCRAPER_REQUEST_BUDGET_PER_MIN || '600', 10),
+        },
+
+        /**
+         * Comma-separated list of Binance portfolio IDs to track.
+         * Only seeds the TrackedTrader roster on first start — manage it via /admin/traders afterwards.
+         */
         leadIds: (process.env.SCRAPER_LEAD_IDS || [
             // Original 9 traders
             '4897589091850209025',
@@ -164,6 +268,200 @@ export const config = {
             '3977981893335066369',
         ].join(',')).split(',').map(s => s.trim()).filter(Boolean),
     },
+
+    // ─── Events ────────────────────────────────────────────
+    events: {
+        /** IANA time zone of eventTimeText ("MM-DD, HH:MM:SS") for events without an order epoch */
+        textTimeZone: process.env.EVENT_TIME_TEXT_TZ || 'UTC',
+
+        /** Rows per statement for the eventTime re-derivation job */
+        migrationBatchSize: parseInt(process.env.EVENT_TIME_MIGRATION_BATCH_SIZE || '500', 10),
+    },
+
+    // ─── Raw Ingest Storage ────────────────────────────────
+    rawIngest: {
+        /** Store payload sections content-addressed in RawIngestSection (set RAW_INGEST_DELTA_STORAGE=false to store full payloads) */
+        deltaStorage: process.env.RAW_INGEST_DELTA_STORAGE !== 'false',
+    },
+
+    // ─── Price Feed ────────────────────────────────────────
+    priceFeed: {
+        /** Poll mark prices on a timer (set PRICE_FEED_ENABLED=false to disable) */
+        enabled: process.env.PRICE_FEED_ENABLED !== 'false',
+
+        /** Interval between polls in ms (default 1 min) */
+        intervalMs: parseInt(process.env.PRICE_FEED_INTERVAL_MS || '60000', 10),
+
+        /** USDⓈ-M futures API base URL (point at scripts/price-feed-fixture-server.ts to run offline) */
+        baseUrl: process.env.PRICE_FEED_BASE_URL || 'https://fapi.binance.com',
+
+        /** Timeout per poll request in ms */
+        timeoutMs: parseInt(process.env.PRICE_FEED_TIMEOUT_MS || '10000', 10),
+
+        /** Symbols always polled */
+        symbols: (process.env.PRICE_FEED_SYMBOLS || 'BTCUSDT,ETHUSDT,SOLUSDT,BNBUSDT,XRPUSDT,DOGEUSDT')
+            .split(',').map(s => s.trim().toUpperCase()).filter(Boolean),
+
+        /** Also poll symbols held in an ACTIVE PositionState or an OPEN SimulatedPosition */
+        includeHeldSymbols: process.env.PRICE_FEED_INCLUDE_HELD !== 'false',
+
+        /** Ticks older than this (before the requested time) are ignored; getPrice then falls back to snapshots */
+        maxTickAgeMs: parseInt(process.env.PRICE_FEED_MAX_TICK_AGE_MS || '300000', 10),
+    },
+
+    // ─── Klines ────────────────────────────────────────────
+    klines: {
+        /** Sync candles on a timer (set KLINES_ENABLED=false to disable) */
+        enabled: process.env.KLINES_ENABLED !== 'false',
+
+        /** Interval between syncs in ms (default 5 min) */
+        intervalMs: parseInt(process.env.KLINES_INTERVAL_MS || '300000', 10),
+
+        /** USDⓈ-M futures API base URL (the price feed fixture server serves klines too) */
+        baseUrl: process.env.KLINES_BASE_URL || process.env.PRICE_FEED_BASE_URL || 'https://fapi.binance.com',
+
+        /** Timeout per request in ms */
+        timeoutMs: parseInt(process.env.KLINES_TIMEOUT_MS || '10000', 10),
+
+        /** Candle intervals stored (1m and/or 5m) */
+        intervals: (process.env.KLINE_INTERVALS || '1m,5m')
+            .split(',').map(s => s.trim()).filter((s): s is '1m' | '5m' => s === '1m' || s === '5m'),
+
+        /** Symbols always synced (defaults to the price feed symbols) */
+        symbols: (process.env.KLINE_SYMBOLS || process.env.PRICE_FEED_SYMBOLS || 'BTCUSDT,ETHUSDT,SOLUSDT,BNBUSDT,XRPUSDT,DOGEUSDT')
+            .split(',').map(s => s.trim().toUpperCase()).filter(Boolean),
+
+        /** Also sync symbols held in an ACTIVE PositionState or an OPEN SimulatedPosition */
+        includeHeldSymbols: process.env.KLINE_INCLUDE_HELD !== 'false',
+
+        /** History fetched the first time a symbol / interval is synced */
+        backfillDays: parseInt(process.env.KLINE_BACKFILL_DAYS || '7', 10),
+
+        /** Pause between paged requests in ms (the klines endpoint is weight-limited) */
+        requestDelayMs: parseInt(process.env.KLINE_REQUEST_DELAY_MS || '250', 10),
+
+        /** Closed simulated positions measured (MAE / MFE) per sync */
+        excursionBatchSize: parseInt(process.env.KLINE_EXCURSION_BATCH_SIZE || '200', 10),
+    },
+
+    // ─── Funding Rates ─────────────────────────────────────
+    funding: {
+        /** Sync funding rates and accrue funding on simulated positions on a timer (set FUNDING_ENABLED=false to disable) */
+        enabled: process.env.FUNDING_ENABLED !== 'false',
+
+        /** Interval between syncs in ms (default 1h; settlements are every 8h for most symbols) */
+        intervalMs: parseInt(process.env.FUNDING_INTERVAL_MS || '3600000', 10),
+
+        /** USDⓈ-M futures API base URL (the price feed fixture server serves funding rates too) */
+        baseUrl: process.env.FUNDING_BASE_URL || process.env.PRICE_FEED_BASE_URL || 'https://fapi.binance.com',
+
+        /** Timeout per request in ms */
+        timeoutMs: parseInt(process.env.FUNDING_TIMEOUT_MS || '10000', 10),
+
+        /** History fetched the first time a symbol is synced */
+        backfillDays: parseInt(process.env.FUNDING_BACKFILL_DAYS || '30', 10),
+
+        /** Positions closed within this window still pick up settlements synced after the close */
+        lateSettlementHours: parseInt(process.env.FUNDING_LATE_SETTLEMENT_HOURS || '24', 10),
+    },
+
+    // ─── Schema Drift ──────────────────────────────────────
+    schemaDrift: {
+        /** Check raw payloads against schemas/payloadSpec.ts (set SCHEMA_DRIFT_ENABLED=false to disable) */
+        enabled: process.env.SCHEMA_DRIFT_ENABLED !== 'false',
+
+        /** Rows checked per array section (positions, orders, ROI points) */
+        maxRowsChecked: parseInt(process.env.SCHEMA_DRIFT_MAX_ROWS || '50', 10),
+
+        /** Min ms between writes for the same drift; occurrences in between are batched */
+        writeIntervalMs: parseInt(process.env.SCHEMA_DRIFT_WRITE_INTERVAL_MS || '60000', 10),
+    },
+
+    // ─── Retention ─────────────────────────────────────────
+    retention: {
+        /** Run the retention job on a timer (set RETENTION_ENABLED=false to disable) */
+        enabled: process.env.RETENTION_ENABLED !== 'false',
+
+        /** Interval between retention runs in ms (default 1h) */
+        intervalMs: parseInt(process.env.RETENTION_INTERVAL_MS || '3600000', 10),
+
+        /** Rows read / deleted per statement */
+        batchSize: parseInt(process.env.RETENTION_BATCH_SIZE || '1000', 10),
+
+        /** Archived rows go to <archiveDir>/<table>/<YYYY-MM-DD>.ndjson.gz */
+        archiveDir: process.env.RETENTION_ARCHIVE_DIR || 'archive',
+
+        /** Per-table policies; 0 days = keep forever */
+        positionSnapshot: {
+            /** Keep every snapshot this long */
+            fullResolutionDays: parseInt(process.env.RETENTION_SNAPSHOT_FULL_DAYS || '7', 10),
+            /** Then one snapshot per trader/symbol/side/hour until this age; older ones are deleted */
+            hourlyDays: parseInt(process.env.RETENTION_SNAPSHOT_HOURLY_DAYS || '90', 10),
+        },
+        rawIngest: {
+            /** Payloads older than this are archived to disk and deleted */
+            archiveAfterDays: parseInt(process.env.RETENTION_RAW_INGEST_DAYS || '30', 10),
+        },
+        positionState: {
+            /** CLOSED states that disappeared longer ago than this are archived and deleted (ACTIVE ones are kept) */
+            archiveClosedAfterDays: parseInt(process.env.RETENTION_POSITION_STATE_DAYS || '180', 10),
+        },
+        priceTick: {
+            /** Price feed ticks older than this are deleted */
+            keepDays: parseInt(process.env.RETENTION_PRICE_TICK_DAYS || '30', 10),
+        },
+        fundingRate: {
+            /** Funding rate settlements older than this are deleted */
+            keepDays: parseInt(process.env.RETENTION_FUNDING_RATE_DAYS || '365', 10),
+        },
+        copierSample: {
+            /** Copier count / AUM samples older than this are deleted */
+            keepDays: parseInt(process.env.RETENTION_COPIER_SAMPLE_DAYS || '365', 10),
+        },
+        kline: {
+            /** 1m candles older than this are deleted (MAE / MFE then falls back to 5m) */
+            oneMinuteDays: parseInt(process.env.RETENTION_KLINE_1M_DAYS || '30', 10),
+            /** 5m candles older than this are deleted */
+            fiveMinuteDays: parseInt(process.env.RETENTION_KLINE_5M_DAYS || '365', 10),
+        },
+    },
+
+    // ─── Leaderboard Discovery ─────────────────────────────
+    discovery: {
+        /** Run the discovery job on a timer (off by default; POST /admin/discovery/run works either way) */
+        enabled: process.env.DISCOVERY_ENABLED === 'true',
+
+        /** Interval between discovery runs in ms (default 6h) */
+        intervalMs: parseInt(process.env.DISCOVERY_INTERVAL_MS || '21600000', 10),
+
+        /** Leaderboard base URL (point at scripts/leaderboard-fixture-server.ts to run offline) */
+        baseUrl: process.env.DISCOVERY_BASE_URL || process.env.SCRAPER_BASE_URL || 'https://www.binance.com/bapi/futures/v1',
+
+        /** Leaderboard pages fetched per run, and rows per page */
+        maxPages: parseInt(process.env.DISCOVERY_MAX_PAGES || '5', 10),
+        pageSize: parseInt(process.env.DISCOVERY_PAGE_SIZE || '20', 10),
+
+        /** Leaderboard ranking window (7D | 30D | 90D) */
+        timeRange: process.env.DISCOVERY_TIME_RANGE || '30D',
+
+        /** Admission criteria a leaderboard trader must meet to become a candidate */
+        criteria: {
+            minRoiPct: parseFloat(process.env.DISCOVERY_MIN_ROI_PCT || '20'),
+            minDaysActive: parseInt(process.env.DISCOVERY_MIN_DAYS_ACTIVE || '30', 10),
+            maxDrawdownPct: parseFloat(process.env.DISCOVERY_MAX_DRAWDOWN_PCT || '30'),
+            minAumUsdt: parseFloat(process.env.DISCOVERY_MIN_AUM_USDT || '10000'),
+            /** Only admit traders whose open positions are public */
+            requirePositionShow: process.env.DISCOVERY_REQUIRE_POSITION_SHOW !== 'false',
+        },
+    },
+
+    // ─── Other Platforms ───────────────────────────────────
+    platforms: {
+        bybit: {
+            /** Directory of <leadId>.json fixtures served by the Bybit-style adapter */
+            fixtureDir: process.env.BYBIT_FIXTURE_DIR || 'fixtures/bybit',
+        },
+    },
 } as const;
 
 // Validate required config in production
@@ -1,7 +1,13 @@
 import { buildApp } from './app.js';
 import { config } from './config.js';
 import { prisma } from './db/prisma.js';
-import { BinanceScheduler } from './services/scheduler.js';
+import { BinanceScheduler, setActiveScheduler } from './services/scheduler.js';
+import { seedTrackedTraders } from './services/traderRoster.js';
+import { startDiscoveryTimer, stopDiscoveryTimer } from './services/traderDiscovery.js';
+import { startRetentionTimer, stopRetentionTimer } from './services/retention.js';
+import { startPriceFeedTimer, stopPriceFeedTimer } from './services/priceFeed.js';
+import { startKlineTimer, stopKlineTimer } from './services/klineStore.js';
+import { startFundingTimer, stopFundingTimer } from './services/fundingRates.js';
 
 let scheduler: BinanceScheduler | null = null;
 
@@ -31,23 +37,66 @@ async function main() {
         process.exit(1);
     }
 
+    // Seed the trader roster from SCRAPER_LEAD_IDS on first start
+    try {
+        await seedTrackedTraders(config.scraper.leadIds);
+    } catch (error) {
+        app.log.error({ err: error }, 'Failed to seed tracked trader roster');
+    }
+
     // Start the Binance scraper scheduler
     scheduler = new BinanceScheduler({
         enabled: config.scraper.enabled,
         intervalMs: config.scraper.intervalMs,
+        cadence: { ...config.scraper.cadence },
         leadIds: config.scraper.leadIds,
         concurrency: config.scraper.concurrency,
         orderPageSize: config.scraper.orderPageSize,
         timeoutMs: config.scraper.timeoutMs,
+        orderChunkMs: config.scraper.orderChunkHours * 60 * 60 * 1000,
+        orderOverlapMs: config.scraper.orderOverlapMs,
+        historyRetentionDays: config.scraper.historyRetentionDays,
+        recordDir: config.scraper.recordDir || null,
     });
+    setActiveScheduler(scheduler);
     scheduler.start();
 
+    // Leaderboard discovery (candidates only; approval is manual via /admin/discovery)
+    if (config.discovery.enabled) {
+        startDiscoveryTimer(config.discovery.intervalMs);
+    }
+
+    // Mark-price feed for getPrice (simulation, signal rules, position monitor)
+    if (config.priceFeed.enabled) {
+        startPriceFeedTimer(config.priceFeed.intervalMs);
+    }
+
+    // Candles for MAE / MFE of simulated positions and backtest trades
+    if (config.klines.enabled) {
+        startKlineTimer(config.klines.intervalMs);
+    }
+
+    // Funding rate history and funding accrual on open simulated positions
+    if (config.funding.enabled) {
+        startFundingTimer(config.funding.intervalMs);
+    }
+
+    // Retention: downsample / archive / delete old time-series rows
+    if (config.retention.enabled) {
+        startRetentionTimer(config.retention.intervalMs);
+    }
+
     // Graceful shutdown
     const signals: NodeJS.Signals[] = ['SIGINT', 'SIGTERM'];
     signals.forEach((signal) => {
         process.on(signal, async () => {
             app.log.info(`Received ${signal}, shutting down gracefully...`);
             scheduler?.stop();
+            stopDiscoveryTimer();
+            stopRetentionTimer();
+            stopPriceFeedTimer();
+            stopKlineTimer();
+            stopFundingTimer();
             await app.close();
             await prisma.$disconnect();
             process.exit(0);
@@ -0,0 +1,1184 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { apiKeyAuth } from '../middleware/auth.js';
+import { config } from '../config.js';
+import {
+    backfillRequestSchema,
+    trackedTradersQuerySchema,
+    createTrackedTraderSchema,
+    updateTrackedTraderSchema,
+    scrapeCyclesQuerySchema,
+    traderAttemptsQuerySchema,
+    schedulerSettingsSchema,
+    discoveryRunSchema,
+    candidatesQuerySchema,
+    approveCandidateSchema,
+    rejectCandidateSchema,
+    retentionReportQuerySchema,
+    schemaDriftQuerySchema,
+    eventTimeMigrationSchema,
+    klineBackfillSchema,
+    roundTripRebuildSchema,
+    type BackfillRequest,
+    type TrackedTradersQuery,
+    type CreateTrackedTraderRequest,
+    type UpdateTrackedTraderRequest,
+    type ScrapeCyclesQuery,
+    type TraderAttemptsQuery,
+    type SchedulerSettingsRequest,
+    type DiscoveryRunRequest,
+    type CandidatesQuery,
+    type ApproveCandidateRequest,
+    type RejectCandidateRequest,
+    type RetentionReportQuery,
+    type SchemaDriftQuery,
+    type EventTimeMigrationRequest,
+    type KlineBackfillRequest,
+    type RoundTripRebuildRequest,
+} from '../schemas/admin.js';
+import { startBackfill, getBackfillJob } from '../services/orderBackfill.js';
+import { getLeadTrader } from '../services/leadTrader.js';
+import { startRoundTripRebuild, getRoundTripRebuild } from '../services/roundTripRebuild.js';
+import {
+    listTrackedTraders,
+    getTrackedTrader,
+    addTrackedTrader,
+    updateTrackedTrader,
+    removeTrackedTrader,
+} from '../services/traderRoster.js';
+import {
+    startDiscovery,
+    discoveryOptions,
+    getDiscoveryRun,
+    listCandidates,
+    getCandidate,
+    approveCandidate,
+    rejectCandidate,
+} from '../services/traderDiscovery.js';
+import { startRetention, getRetentionReport } from '../services/retention.js';
+import { listSchemaDrift } from '../services/schemaDrift.js';
+import { startEventTimeMigration, getEventTimeMigration } from '../services/eventTimeMigration.js';
+import { startKlineBackfill, getKlineBackfill } from '../services/klineStore.js';
+import { listScrapeCycles, listTraderAttempts } from '../services/scrapeHistory.js';
+import { getActiveScheduler, type BinanceScheduler } from '../services/scheduler.js';
+import { getPlatformAdapter, listPlatforms } from '../services/platformAdapter.js';
+import { fetchAndIngestTrader } from '../services/platformIngest.js';
+
+const leadIdParamsSchema = {
+    type: 'object',
+    required: ['leadId'],
+    properties: {
+        leadId: { type: 'string' },
+    },
+} as const;
+
+/**
+ * Resolve the running scheduler, or answer 503 when the process has none
+ * (e.g. the API was started without src/index.ts).
+ */
+function requireScheduler(reply: FastifyReply): BinanceScheduler | null {
+    const scheduler = getActiveScheduler();
+    if (!scheduler) {
+        reply.code(503).send({ success: false, error: 'Scheduler is not available in this process' });
+        return null;
+    }
+    return scheduler;
+}
+
+export async function adminRoutes(fastify: FastifyInstance) {
+    // Admin routes are operator-only
+    fastify.addHook('preHandler', apiKeyAuth);
+
+    // ═══════════════════════════════════════════════════════════════
+    // ORDER HISTORY BACKFILL
+    // ═══════════════════════════════════════════════════════════════
+
+    // POST /admin/backfill/:leadId - Rebuild order history for a trader in chunks
+    fastify.post(
+        '/admin/backfill/:leadId',
+        {
+            schema: {
+                description: 'Start a chunked order-history backfill for a tracked or already-ingested trader (404 otherwise). Runs in the background; poll GET /admin/backfill/:leadId for progress. A job with failed windows ends PARTIAL (FAILED if none succeeded) and lists their ranges in failedRanges.',
+                tags: ['Admin'],
+                security: [{ apiKey: [] }],
+                params: leadIdParamsSchema,
+            },
+        },
+        async (
+            request: FastifyRequest<{ Params: { leadId: string }; Body: BackfillRequest | undefined }>,
+            reply: FastifyReply
+        ) => {
+            const { leadId } = request.params;
+            const parseResult = backfillRequestSchema.safeParse(request.body ?? {});
+
+            if (!parseResult.success) {
+                return reply.code(400).send({
+                    success: false,
+                    error: 'Invalid backfill request',
+                    details: parseResult.error.errors,
+                });
+            }
+
+            // Only known traders: a typo would otherwise create a LeadTrader row
+            const known = (await getTrackedTrader(leadId)) ?? (await getLeadTrader(leadId));
+            if (!known) {
+                return reply.code(404).send({ success: false, error: 'Unknown trader: not on the roster or ingested' });
+            }
+
+            const job = startBackfill(leadId, {
+                days: parseResult.data.days ?? config.scraper.backfillDays,
+                pageSize: config.scraper.orderPageSize,
+                timeoutMs: config.scraper.timeoutMs,
+                chunkMs: config.scraper.orderChunkHours * 60 * 60 * 1000,
+            });
+
+            if (!job) {
+                return reply.code(409).send({
+                    success: false,
+                    error: `Backfill already running for ${leadId}`,
+                    data: getBackfillJob(leadId),
+                });
+            }
+
+            return reply.code(202).send({ success: true, data: job });
+        }
+    );
+
+    // GET /admin/backfill/:leadId - Progress of the latest backfill for a trader
+    fastify.get(
+        '/admin/backfill/:leadId',
+        {
+            schema: {
+                description: 'Get progress of the latest order-history backfill for a trader',
+                tags: ['Admin'],
+                security: [{ apiKey: [] }],
+                params: leadIdParamsSchema,
+            },
+        },
+        async (
+            request: FastifyRequest<{ Params: { leadId: string } }>,
+            reply: FastifyReply
+        ) => {
+            const job = getBackfillJob(request.params.leadId);
+
+            if (!job) {
+                return reply.code(404).send({
+                    success: false,
+                    error: 'No backfill found for this trader',
+                });
+            }
+
+            return reply.send({ success: true, data: job });
+        }
+    );
+
+    // ═══════════════════════════════════════════════════════════════
+    // TRACKED TRADER ROSTER
+    // ═══════════════════════════════════════════════════════════════
+
+    // GET /admin/traders - List the scraper roster
+    fastify.get(
+        '/admin/traders',
+        {
+            schema: {
+                description: 'List tracked traders (scraper roster), highest scrape priority first',
+                tags: ['Admin'],
+                security: [{ apiKey: [] }],
+                querystring: {
+                    type: 'object',
+                    properties: {
+                        platform: { type: 'string', default: 'binance' },
+                        enabled: { type: 'string', enum: ['true', 'false'] },
+                        tag: { type: 'string' },
+                    },
+                },
+            },
+        },
+        async (
+            request: FastifyRequest<{ Querystring: TrackedTradersQuery }>,
+            reply: FastifyReply
+        ) => {
+            const parseResult = trackedTradersQuerySchema.safeParse(request.query);
+
+            if (!parseResult.success) {
+                return reply.code(400).send({
+                    success: false,
+                    error: 'Invalid query parameters',
+                    details: parseResult.error.errors,
+                });
+            }
+
+            const traders = await listTrackedTraders(parseResult.data);
+
+            return reply.send({
+                success: true,
+                data: traders,
+                meta: {
+                    total: traders.length,
+                    enabled: traders.filter((t) => t.enabled).length,
+                },
+            });
+        }
+    );
+
+    // GET /admin/traders/:leadId - Single roster entry
+    fastify.get(
+        '/admin/traders/:leadId',
+        {
+            schema: {
+                description: 'Get a tracked trader roster entry',
+                tags: ['Admin'],
+                security: [{ apiKey: [] }],
+                params: leadIdParamsSchema,
+            },
+        },
+        async (
+            request: FastifyRequest<{ Params: { leadId: string } }>,
+            reply: FastifyReply
+        ) => {
+            const trader = await getTrackedTrader(request.params.leadId);
+
+            if (!trader) {
+                return reply.code(404).send({ success: false, error: 'Trader is not tracked' });
+            }
+
+            return reply.send({ success: true, data: trader });
+        }
+    );
+
+    // POST /admin/traders - Add a trader to the roster (picked up next cycle)
+    fastify.post(
+        '/admin/traders',
+        {
+            schema: {
+                description: 'Add a trader to the scraper roster. Takes effect on the next scrape cycle.',
+                tags: ['Admin'],
+                security: [{ apiKey: [] }],
+            },
+        },
+        async (
+            request: FastifyRequest<{ Body: CreateTrackedTraderRequest }>,
+            reply: FastifyReply
+        ) => {
+            const parseResult = createTrackedTraderSchema.safeParse(request.body ?? {});
+
+            if (!parseResult.success) {
+                return reply.code(400).send({
+                    success: false,
+                    error: 'Invalid trader',
+                    details: parseResult.error.errors,
+                });
+            }
+
+            const trader = await addTrackedTrader(parseResult.data);
+
+            if (!trader) {
+                return reply.code(409).send({
+                    success: false,
+                    error: `Trader ${parseResult.data.leadId} is already tracked`,
+                });
+            }
+
+            return reply.code(201).send({ success: true, data: trader });
+        }
+    );
+
+    // PATCH /admin/traders/:leadId - Enable/disable, retag or reprioritize
+    fastify.patch(
+        '/admin/traders/:leadId',
+        {
+            schema: {
+                description: 'Update a tracked trader (enabled, tags, notes, scrapePriority)',
+                tags: ['Admin'],
+                security: [{ apiKey: [] }],
+                params: leadIdParamsSchema,
+            },
+        },
+        async (
+            request: FastifyRequest<{ Params: { leadId: string }; Body: UpdateTrackedTraderRequest }>,
+            reply: FastifyReply
+        ) => {
+            const parseResult = updateTrackedTraderSchema.safeParse(request.body ?? {});
+
+            if (!parseResult.success) {
+                return reply.code(400).send({
+                    success: false,
+                    error: 'Invalid update',
+                    details: parseResult.error.errors,
+                });
+            }
+
+            const trader = await updateTrackedTrader(request.params.leadId, parseResult.data);
+
+            if (!trader) {
+                return reply.code(404).send({ success: false, error: 'Trader is not tracked' });
+            }
+
+            return reply.send({ success: true, data: trader });
+        }
+    );
+
+    // DELETE /admin/traders/:leadId - Stop tracking (collected data is kept)
+    fastify.delete(
+        '/admin/traders/:leadId',
+        {
+            schema: {
+                description: 'Remove a trader from the scraper roster. Historical data is kept.',
+                tags: ['Admin'],
+                security: [{ apiKey: [] }],
+                params: leadIdParamsSchema,
+            },
+        },
+        async (
+            request: FastifyRequest<{ Params: { leadId: string } }>,
+            reply: FastifyReply
+        ) => {
+            const removed = await removeTrackedTrader(request.params.leadId);
+
+            if (!removed) {
+                return reply.code(404).send({ success: false, error: 'Trader is not tracked' });
+            }
+
+            return reply.send({ success: true, data: { leadId: request.params.leadId, removed: true } });
+        }
+    );
+
+    // ═══════════════════════════════════════════════════════════════
+    // LEADERBOARD DISCOVERY
+    // ═══════════════════════════════════════════════════════════════
+
+    // POST /admin/discovery/run - Screen the leaderboard for new candidates
+    fastify.post(
+        '/admin/discovery/run',
+        {
+            schema: {
+                description: 'Start a leaderboard discovery run. Traders meeting the admission criteria become candidates for review. Runs in the background; poll GET /admin/discovery for progress.',
+                tags: ['Admin'],
+                security: [{ apiKey: [] }],
+            },
+        },
+        async (
+            request: FastifyRequest<{ Body: DiscoveryRunRequest | undefined }>,
+            reply: FastifyReply
+        ) => {
+            const parseResult = discoveryRunSchema.safeParse(request.body ?? {});
+
+            if (!parseResult.success) {
+                return reply.code(400).send({
+                    success: false,
+                    error: 'Invalid discovery request',
+                    details: parseResult.error.errors,
+                });
+            }
+
+            const run = startDiscovery(discoveryOptions(parseResult.data));
+
+            if (!run) {
+                return reply.code(409).send({
+                    success: false,
+                    error: 'Discovery run already in progress',
+                    data: getDiscoveryRun(),
+                });
+            }
+
+            return reply.code(202).send({ success: true, data: run });
+        }
+    );
+
+    // GET /admin/discovery - Latest discovery run
+    fastify.get(
+        '/admin/discovery',
+        {
+            schema: {
+                description: 'Get progress / summary of the latest leaderboard discovery run',
+                tags: ['Admin'],
+                security: [{ apiKey: [] }],
+            },
+        },
+        async (_request: FastifyRequest, reply: FastifyReply) => {
+            const run = getDiscoveryRun();
+
+            if (!run) {
+                return reply.code(404).send({ success: false, error: 'No discovery run yet' });
+            }
+
+            return reply.send({ success: true, data: run });
+        }
+    );
+
+    // GET /admin/discovery/candidates - Discovered traders awaiting review
+    fastify.get(
+        '/admin/discovery/candidates',
+        {
+            schema: {
+                description: 'List discovered traders, most recently seen first',
+                tags: ['Admin'],
+                security: [{ apiKey: [] }],
+                querystring: {
+                    type: 'object',
+                    properties: {
+                        platform: { type: 'string', default: 'binance' },
+                        status: { type: 'string', enum: ['CANDIDATE', 'APPROVED', 'REJECTED'] },
+                        limit: { type: 'integer', minimum: 1, maximum: 500, default: 100 },
+                    },
+                },
+            },
+        },
+        async (
+            request: FastifyRequest<{ Querystring: CandidatesQuery }>,
+            reply: FastifyReply
+        ) => {
+            const parseResult = candidatesQuerySchema.safeParse(request.query);
+
+            if (!parseResult.success) {
+                return reply.code(400).send({
+                    success: false,
+                    error: 'Invalid query parameters',
+                    details: parseResult.error.errors,
+                });
+            }
+
+            const candidates = await listCandidates(parseResult.data);
+
+            return reply.send({
+                success: true,
+                data: candidates,
+                meta: { total: candidates.length },
+            });
+        }
+    );
+
+    // POST /admin/discovery/candidates/:leadId/approve - Add a candidate to the roster
+    fastify.post(
+        '/admin/discovery/candidates/:leadId/approve',
+        {
+            schema: {
+                description: 'Approve a discovered trader into the scraper roster (tagged "discovered"). Takes effect on the next scrape cycle.',
+                tags: ['Admin'],
+                security: [{ apiKey: [] }],
+                params: leadIdParamsSchema,
+            },
+        },
+        async (
+            request: FastifyRequest<{ Params: { leadId: string }; Body: ApproveCandidateRequest | undefined }>,
+            reply: FastifyReply
+        ) => {
+            const { leadId } = request.params;
+            const parseResult = approveCandidateSchema.safeParse(request.body ?? {});
+
+            if (!parseResult.success) {
+                return reply.code(400).send({
+                    success: false,
+                    error: 'Invalid approval',
+                    details: parseResult.error.errors,
+                });
+            }
+
+            const candidate = await getCandidate(leadId);
+
+            if (!candidate) {
+                return reply.code(404).send({ success: false, error: 'Trader is not a discovery candidate' });
+            }
+            if (candidate.status === 'APPROVED') {
+                return reply.code(409).send({ success: false, error: `Candidate ${leadId} is already approved` });
+            }
+
+            const result = await approveCandidate(leadId, parseResult.data);
+
+            return reply.send({ success: true, data: result });
+        }
+    );
+
+    // POST /admin/discovery/candidates/:leadId/reject - Dismiss a candidate
+    fastify.post(
+        '/admin/discovery/candidates/:leadId/reject',
+        {
+            schema: {
+                description: 'Reject a discovered trader. Later discovery runs keep it rejected.',
+                tags: ['Admin'],
+                security: [{ apiKey: [] }],
+                params: leadIdParamsSchema,
+            },
+        },
+        async (
+            request: FastifyRequest<{ Params: { leadId: string }; Body: RejectCandidateRequest | undefined }>,
+            reply: FastifyReply
+        ) => {
+            const parseResult = rejectCandidateSchema.safeParse(request.body ?? {});
+
+            if (!parseResult.success) {
+                return reply.code(400).send({
+                    success: false,
+                    error: 'Invalid rejection',
+                    details: parseResult.error.errors,
+                });
+            }
+
+            const candidate = await rejectCandidate(request.params.leadId, parseResult.data.note ?? null);
+
+            if (!candidate) {
+                return reply.code(404).send({ success: false, error: 'Trader is not a discovery candidate' });
+            }
+
+            return reply.send({ success: true, data: candidate });
+        }
+    );
+
+    // ═══════════════════════════════════════════════════════════════
+    // RETENTION
+    // ═══════════════════════════════════════════════════════════════
+
+    // GET /admin/retention/report - Table sizes, archives and bytes reclaimed
+    fastify.get(
+        '/admin/retention/report',
+        {
+            schema: {
+                description: 'Retention report: policy, row counts and on-disk size of the time-series tables, archive files, recent runs and totals reclaimed',
+                tags: ['Admin'],
+                security: [{ apiKey: [] }],
+                querystring: {
+                    type: 'object',
+                    properties: {
+                        runs: { type: 'integer', minimum: 1, maximum: 100, default: 10 },
+                    },
+                },
+            },
+        },
+        async (
+            request: FastifyRequest<{ Querystring: RetentionReportQuery }>,
+            reply: FastifyReply
+        ) => {
+            const parseResult = retentionReportQuerySchema.safeParse(request.query);
+
+            if (!parseResult.success) {
+                return reply.code(400).send({
+                    success: false,
+                    error: 'Invalid query parameters',
+                    details: parseResult.error.errors,
+                });
+            }
+
+            try {
+                const report = await getRetentionReport(parseResult.data.runs);
+                return reply.send({ success: true, data: report });
+            } catch (error) {
+                fastify.log.error(error, 'Error building retention report');
+                return reply.code(500).send({
+                    success: false,
+                    error: error instanceof Error ? error.message : 'Internal server error',
+                });
+            }
+        }
+    );
+
+    // POST /admin/retention/run - Apply the retention policy now
+    fastify.post(
+        '/admin/retention/run',
+        {
+            schema: {
+                description: 'Start a retention run now (downsample, archive and delete per policy). Runs in the background; see GET /admin/retention/report.',
+                tags: ['Admin'],
+                security: [{ apiKey: [] }],
+            },
+        },
+        async (_request: FastifyRequest, reply: FastifyReply) => {
+            const run = await startRetention('MANUAL');
+
+            if (!run) {
+                return reply.code(409).send({ success: false, error: 'Retention run already in progress' });
+            }
+
+            return reply.code(202).send({ success: true, data: run });
+        }
+    );
+
+    // ═══════════════════════════════════════════════════════════════
+    // EVENT TIME MIGRATION
+    // ═══════════════════════════════════════════════════════════════
+
+    // POST /admin/events/time-migration - Re-derive Event.eventTime for existing rows
+    fastify.post(
+        '/admin/events/time-migration',
+        {
+            schema: {
+                description: 'Re-derive eventTime for existing events: from the order epoch in stored RawIngest payloads, else by re-parsing eventTimeText in EVENT_TIME_TEXT_TZ. dryRun=true only counts. Runs in the background; poll GET /admin/events/time-migration.',
+                tags: ['Admin'],
+                security: [{ apiKey: [] }],
+            },
+        },
+        async (
+            request: FastifyRequest<{ Body: EventTimeMigrationRequest | undefined }>,
+            reply: FastifyReply
+        ) => {
+            const parseResult = eventTimeMigrationSchema.safeParse(request.body ?? {});
+
+            if (!parseResult.success) {
+                return reply.code(400).send({
+                    success: false,
+                    error: 'Invalid migration request',
+                    details: parseResult.error.errors,
+                });
+            }
+
+            const job = startEventTimeMigration(parseResult.data.dryRun);
+
+            if (!job) {
+                return reply.code(409).send({
+                    success: false,
+                    error: 'Event time migration already running',
+                    data: getEventTimeMigration(),
+                });
+            }
+
+            return reply.code(202).send({ success: true, data: job });
+        }
+    );
+
+    // GET /admin/events/time-migration - Progress of the latest migration
+    fastify.get(
+        '/admin/events/time-migration',
+        {
+            schema: {
+                description: 'Progress / result of the latest event time migration',
+                tags: ['Admin'],
+                security: [{ apiKey: [] }],
+            },
+        },
+        async (_request: FastifyRequest, reply: FastifyReply) => {
+            const job = getEventTimeMigration();
+
+            if (!job) {
+                return reply.code(404).send({ success: false, error: 'No event time migration has run' });
+            }
+
+            return reply.send({ success: true, data: job });
+        }
+    );
+
+    // ═══════════════════════════════════════════════════════════════
+    // KLINES
+    // ═══════════════════════════════════════════════════════════════
+
+    // POST /admin/klines/backfill - Fetch candle history for MAE / MFE
+    fastify.post(
+        '/admin/klines/backfill',
+        {
+            schema: {
+                description: 'Fetch `days` of 1m / 5m candles (default: the kline universe and every configured interval); stored candles are skipped. Closed simulated positions are measured afterwards. Runs in the background; poll GET /admin/klines/backfill.',
+                tags: ['Admin'],
+                security: [{ apiKey: [] }],
+            },
+        },
+        async (
+            request: FastifyRequest<{ Body: KlineBackfillRequest | undefined }>,
+            reply: FastifyReply
+        ) => {
+            const parseResult = klineBackfillSchema.safeParse(request.body ?? {});
+
+            if (!parseResult.success) {
+                return reply.code(400).send({
+                    success: false,
+                    error: 'Invalid backfill request',
+                    details: parseResult.error.errors,
+                });
+            }
+
+            try {
+                const job = await startKlineBackfill(parseResult.data);
+
+                if (!job) {
+                    return reply.code(409).send({
+                        success: false,
+                        error: 'Kline backfill already running',
+                        data: getKlineBackfill(),
+                    });
+                }
+
+                return reply.code(202).send({ success: true, data: job });
+            } catch (error) {
+                fastify.log.error(error, 'Error starting kline backfill');
+                return reply.code(500).send({
+                    success: false,
+                    error: error instanceof Error ? error.message : 'Internal server error',
+                });
+            }
+        }
+    );
+
+    // GET /admin/klines/backfill - Progress of the latest kline backfill
+    fastify.get(
+        '/admin/klines/backfill',
+        {
+            schema: {
+                description: 'Progress / result of the latest kline backfill',
+                tags: ['Admin'],
+                security: [{ apiKey: [] }],
+            },
+        },
+        async (_request: FastifyRequest, reply: FastifyReply) => {
+            const job = getKlineBackfill();
+
+            if (!job) {
+                return reply.code(404).send({ success: false, error: 'No kline backfill has run' });
+            }
+
+            return reply.send({ success: true, data: job });
+        }
+    );
+
+    // ═══════════════════════════════════════════════════════════════
+    // ROUND TRIPS
+    // ═══════════════════════════════════════════════════════════════
+
+    // POST /admin/round-trips/rebuild - Rebuild round trips from stored events
+    fastify.post(
+        '/admin/round-trips/rebuild',
+        {
+            schema: {
+                description: 'Rebuild the round-trip trades of `leadIds` (default: every trader) from stored events and refresh their TraderScore. Run once after deploying and after backfilling order history. Runs in the background; poll GET /admin/round-trips/rebuild.',
+                tags: ['Admin'],
+                security: [{ apiKey: [] }],
+            },
+        },
+        async (
+            request: FastifyRequest<{ Body: RoundTripRebuildRequest | undefined }>,
+            reply: FastifyReply
+        ) => {
+            const parseResult = roundTripRebuildSchema.safeParse(request.body ?? {});
+
+            if (!parseResult.success) {
+                return reply.code(400).send({
+                    success: false,
+                    error: 'Invalid rebuild request',
+                    details: parseResult.error.errors,
+                });
+            }
+
+            try {
+                const job = await startRoundTripRebuild(parseResult.data);
+
+                if (!job) {
+                    return reply.code(409).send({
+                        success: false,
+                        error: 'Round trip rebuild already running',
+                        data: getRoundTripRebuild(),
+                    });
+                }
+
+                return reply.code(202).send({ success: true, data: job });
+            } catch (error) {
+                fastify.log.error(error, 'Error starting round trip rebuild');
+                return reply.code(500).send({
+                    success: false,
+                    error: error instanceof Error ? error.message : 'Internal server error',
+                });
+            }
+        }
+    );
+
+    // GET /admin/round-trips/rebuild - Progress of the latest round trip rebuild
+    fastify.get(
+        '/admin/round-trips/rebuild',
+        {
+            schema: {
+                description: 'Progress / result of the latest round trip rebuild',
+                tags: ['Admin'],
+                security: [{ apiKey: [] }],
+            },
+        },
+        async (_request: FastifyRequest, reply: FastifyReply) => {
+            const job = getRoundTripRebuild();
+
+            if (!job) {
+                return reply.code(404).send({ success: false, error: 'No round trip rebuild has run' });
+            }
+
+            return reply.send({ success: true, data: job });
+        }
+    );
+
+    // ═══════════════════════════════════════════════════════════════
+    // SCHEMA DRIFT
+    // ═══════════════════════════════════════════════════════════════
+
+    // GET /admin/schema-drift - Payload fields that differ from the field spec
+    fastify.get(
+        '/admin/schema-drift',
+        {
+            schema: {
+                description: 'Fields in scraped payloads that differ from the versioned field spec (new, missing or changed type), with first-seen / last-seen times and occurrence counts. Most recently seen first; only the current spec version unless allVersions=true.',
+                tags: ['Admin'],
+                security: [{ apiKey: [] }],
+                querystring: {
+                    type: 'object',
+                    properties: {
+                        platform: { type: 'string', default: 'binance' },
+                        kind: { type: 'string', enum: ['NEW_FIELD', 'MISSING_FIELD', 'TYPE_CHANGE'] },
+                        endpoint: { type: 'string' },
+                        sinceHours: { type: 'integer', minimum: 1 },
+                        allVersions: { type: 'string', enum: ['true', 'false'] },
+                        limit: { type: 'integer', minimum: 1, maximum: 500, default: 100 },
+                    },
+                },
+            },
+        },
+        async (
+            request: FastifyRequest<{ Querystring: SchemaDriftQuery }>,
+            reply: FastifyReply
+        ) => {
+            const parseResult = schemaDriftQuerySchema.safeParse(request.query);
+
+            if (!parseResult.success) {
+                return reply.code(400).send({
+                    success: false,
+                    error: 'Invalid query parameters',
+                    details: parseResult.error.errors,
+                });
+            }
+
+            try {
+                const drift = await listSchemaDrift(parseResult.data);
+                return reply.send({ success: true, data: drift });
+            } catch (error) {
+                fastify.log.error(error, 'Error listing schema drift');
+                return reply.code(500).send({
+                    success: false,
+                    error: error instanceof Error ? error.message : 'Internal server error',
+                });
+            }
+        }
+    );
+
+    // ═══════════════════════════════════════════════════════════════
+    // SCRAPE HISTORY
+    // ═══════════════════════════════════════════════════════════════
+
+    // GET /admin/scheduler/cycles - Recent scrape cycles, newest first
+    fastify.get(
+        '/admin/scheduler/cycles',
+        {
+            schema: {
+                description: 'List persisted scrape cycles, newest first. includeAttempts=true embeds per-trader attempts.',
+                tags: ['Admin'],
+                security: [{ apiKey: [] }],
+                querystring: {
+                    type: 'object',
+                    properties: {
+                        limit: { type: 'integer', default: 20 },
+                        offset: { type: 'integer', default: 0 },
+                        includeAttempts: { type: 'string', enum: ['true', 'false'] },
+                    },
+                },
+            },
+        },
+        async (
+            request: FastifyRequest<{ Querystring: ScrapeCyclesQuery }>,
+            reply: FastifyReply
+        ) => {
+            const parseResult = scrapeCyclesQuerySchema.safeParse(request.query);
+
+            if (!parseResult.success) {
+                return reply.code(400).send({
+                    success: false,
+                    error: 'Invalid query parameters',
+                    details: parseResult.error.errors,
+                });
+            }
+
+            const { cycles, total } = await listScrapeCycles(parseResult.data);
+
+            return reply.send({
+                success: true,
+                data: cycles,
+                meta: {
+                    total,
+                    limit: parseResult.data.limit,
+                    offset: parseResult.data.offset,
+                    retentionDays: config.scraper.historyRetentionDays,
+                },
+            });
+        }
+    );
+
+    // GET /admin/scheduler/traders/:leadId/attempts - A trader's scrape attempts
+    fastify.get(
+        '/admin/scheduler/traders/:leadId/attempts',
+        {
+            schema: {
+                description: 'List scrape attempts for a trader, newest first, with per-endpoint outcomes and last success time',
+                tags: ['Admin'],
+                security: [{ apiKey: [] }],
+                params: leadIdParamsSchema,
+                querystring: {
+                    type: 'object',
+                    properties: {
+                        limit: { type: 'integer', default: 50 },
+                        status: { type: 'string', enum: ['SUCCESS', 'PARTIAL', 'SCRAPE_FAILED', 'PIPELINE_FAILED'] },
+                    },
+                },
+            },
+        },
+        async (
+            request: FastifyRequest<{ Params: { leadId: string }; Querystring: TraderAttemptsQuery }>,
+            reply: FastifyReply
+        ) => {
+            const parseResult = traderAttemptsQuerySchema.safeParse(request.query);
+
+            if (!parseResult.success) {
+                return reply.code(400).send({
+                    success: false,
+                    error: 'Invalid query parameters',
+                    details: parseResult.error.errors,
+                });
+            }
+
+            const { attempts, lastSuccessAt, lastFailureAt, lastError } = await listTraderAttempts(
+                request.params.leadId,
+                parseResult.data
+            );
+
+            return reply.send({
+                success: true,
+                data: attempts,
+                meta: {
+                    leadId: request.params.leadId,
+                    count: attempts.length,
+                    lastSuccessAt,
+                    lastFailureAt,
+                    lastError,
+                    stale: lastSuccessAt === null || (lastFailureAt !== null && lastFailureAt > lastSuccessAt),
+                },
+            });
+        }
+    );
+
+    // ═══════════════════════════════════════════════════════════════
+    // SCHEDULER CONTROL
+    // ═══════════════════════════════════════════════════════════════
+
+    // GET /admin/scheduler - Current scheduler status
+    fastify.get(
+        '/admin/scheduler',
+        {
+            schema: {
+                description: 'Get scheduler status (paused, running cycle, last cycle, settings, cadence plan)',
+                tags: ['Admin'],
+                security: [{ apiKey: [] }],
+            },
+        },
+        async (_request: FastifyRequest, reply: FastifyReply) => {
+            const scheduler = requireScheduler(reply);
+            if (!scheduler) return reply;
+
+            return reply.send({ success: true, data: scheduler.getStatus() });
+        }
+    );
+
+    // PATCH /admin/scheduler - Change intervalMs / concurrency at runtime
+    fastify.patch(
+        '/admin/scheduler',
+        {
+            schema: {
+                description: 'Change scheduler intervalMs and/or concurrency at runtime. Not persisted across restarts.',
+                tags: ['Admin'],
+                security: [{ apiKey: [] }],
+            },
+        },
+        async (
+            request: FastifyRequest<{ Body: SchedulerSettingsRequest }>,
+            reply: FastifyReply
+        ) => {
+            const scheduler = requireScheduler(reply);
+            if (!scheduler) return reply;
+
+            const parseResult = schedulerSettingsSchema.safeParse(request.body ?? {});
+
+            if (!parseResult.success) {
+                return reply.code(400).send({
+                    success: false,
+                    error: 'Invalid scheduler settings',
+                    details: parseResult.error.errors,
+                });
+            }
+
+            scheduler.updateSettings(parseResult.data);
+
+            return reply.send({ success: true, data: scheduler.getStatus() });
+        }
+    );
+
+    // POST /admin/scheduler/pause - Stop ticking (an in-flight cycle finishes)
+    fastify.post(
+        '/admin/scheduler/pause',
+        {
+            schema: {
+                description: 'Pause the scheduler timer. A cycle already in progress runs to completion.',
+                tags: ['Admin'],
+                security: [{ apiKey: [] }],
+            },
+        },
+        async (_request: FastifyRequest, reply: FastifyReply) => {
+            const scheduler = requireScheduler(reply);
+            if (!scheduler) return reply;
+
+            if (!scheduler.pause()) {
+                return reply.code(409).send({
+                    success: false,
+                    error: 'Scheduler is not running (already paused or disabled)',
+                    data: scheduler.getStatus(),
+                });
+            }
+
+            return reply.send({ success: true, data: scheduler.getStatus() });
+        }
+    );
+
+    // POST /admin/scheduler/resume - Restart ticking after a pause
+    fastify.post(
+        '/admin/scheduler/resume',
+        {
+            schema: {
+                description: 'Resume a paused scheduler. The next cycle runs on the next tick.',
+                tags: ['Admin'],
+                security: [{ apiKey: [] }],
+            },
+        },
+        async (_request: FastifyRequest, reply: FastifyReply) => {
+            const scheduler = requireScheduler(reply);
+            if (!scheduler) return reply;
+
+            if (!scheduler.resume()) {
+                return reply.code(409).send({
+                    success: false,
+                    error: 'Scheduler is not paused',
+                    data: scheduler.getStatus(),
+                });
+            }
+
+            return reply.send({ success: true, data: scheduler.getStatus() });
+        }
+    );
+
+    // POST /admin/scheduler/run - Start a full-roster cycle now
+    fastify.post(
+        '/admin/scheduler/run',
+        {
+            schema: {
+                description: 'Start a scrape cycle over the whole enabled roster immediately (ignores per-trader cadence). Runs in the background; see GET /admin/scheduler/cycles.',
+                tags: ['Admin'],
+                security: [{ apiKey: [] }],
+            },
+        },
+        async (_request: FastifyRequest, reply: FastifyReply) => {
+            const scheduler = requireScheduler(reply);
+            if (!scheduler) return reply;
+
+            if (!scheduler.runNow()) {
+                return reply.code(409).send({
+                    success: false,
+                    error: 'A scrape cycle is already running',
+                    data: scheduler.getStatus(),
+                });
+            }
+
+            return reply.code(202).send({ success: true, data: scheduler.getStatus() });
+        }
+    );
+
+    // POST /admin/scheduler/traders/:leadId/scrape - Scrape + ingest one trader now
+    fastify.post(
+        '/admin/scheduler/traders/:leadId/scrape',
+        {
+            schema: {
+                description: 'Scrape a single trader now and run it through the ingest pipeline. Waits for completion and returns the attempt.',
+                tags: ['Admin'],
+                security: [{ apiKey: [] }],
+                params: leadIdParamsSchema,
+            },
+        },
+        async (
+            request: FastifyRequest<{ Params: { leadId: string } }>,
+            reply: FastifyReply
+        ) => {
+            const scheduler = requireScheduler(reply);
+            if (!scheduler) return reply;
+
+            const result = await scheduler.scrapeTraderNow(request.params.leadId);
+
+            if (!result) {
+                return reply.code(409).send({
+                    success: false,
+                    error: 'A scrape cycle is already running',
+                    data: scheduler.getStatus(),
+                });
+            }
+
+            return reply.send({
+                success: true,
+                data: {
+                    cycle: result,
+                    status: scheduler.getStatus(),
+                },
+            });
+        }
+    );
+
+    // GET /admin/platforms - Registered platform adapters
+    fastify.get(
+        '/admin/platforms',
+        {
+            schema: {
+                description: 'List the platforms with a registered adapter. Any of them can be passed as ?platform= to the consensus, heatmap and simulation endpoints.',
+                tags: ['Admin'],
+                security: [{ apiKey: [] }],
+            },
+        },
+        async (_request: FastifyRequest, reply: FastifyReply) => {
+            return reply.send({ success: true, data: listPlatforms() });
+        }
+    );
+
+    // POST /admin/platforms/:platform/traders/:leadId/scrape - Fetch + ingest one trader via its adapter
+    fastify.post(
+        '/admin/platforms/:platform/traders/:leadId/scrape',
+        {
+            schema: {
+                description: 'Fetch one trader through the platform adapter and run it through the ingest pipeline. Unlike /admin/scheduler/traders/:leadId/scrape this does not create a scrape cycle.',
+                tags: ['Admin'],
+                security: [{ apiKey: [] }],
+                params: {
+                    type: 'object',
+                    required: ['platform', 'leadId'],
+                    properties: {
+                        platform: { type: 'string' },
+                        leadId: { type: 'string' },
+                    },
+                },
+            },
+        },
+        async (
+            request: FastifyRequest<{ Params: { platform: string; leadId: string } }>,
+            reply: FastifyReply
+        ) => {
+            const { platform, leadId } = request.params;
+
+            if (!getPlatformAdapter(platform)) {
+                return reply.code(400).send({
+                    success: false,
+                    error: `Unsupported platform: ${platform}`,
+                    details: { platforms: listPlatforms() },
+                });
+            }
+
+            try {
+                const result = await fetchAndIngestTrader(platform, leadId);
+                return reply.send({ success: true, data: result });
+            } catch (error) {
+                fastify.log.error(error, 'Error scraping platform trader');
+                return reply.code(502).send({
+                    success: false,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            }
+        }
+    );
+}
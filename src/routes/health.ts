@@ -1,4 +1,5 @@
 import { FastifyInstance } from 'fastify';
+import { getEndpointHealth } from '../services/resilientFetch.js';
 
 export async function healthRoutes(fastify: FastifyInstance) {
     fastify.get(
@@ -14,6 +15,11 @@ export async function healthRoutes(fastify: FastifyInstance) {
                             status: { type: 'string' },
                             timestamp: { type: 'string' },
                             uptime: { type: 'number' },
+                            scraper: {
+                                type: 'object',
+                                description: 'Per-endpoint circuit breaker state and request stats for the Binance scraper',
+                                additionalProperties: true,
+                            },
                         },
                     },
                 },
@@ -24,6 +30,7 @@ export async function healthRoutes(fastify: FastifyInstance) {
                 status: 'healthy',
                 timestamp: new Date().toISOString(),
                 uptime: process.uptime(),
+                scraper: getEndpointHealth(),
             });
         }
     );
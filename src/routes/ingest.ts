@@ -7,24 +7,57 @@ import {
     transformBinancePayload,
     type IngestPayload
 } from '../schemas/ingest.js';
-import { upsertLeadTrader } from '../services/leadTrader.js';
-import { insertPositionSnapshots } from '../services/position.js';
-import { insertEvents } from '../services/event.js';
-import { recomputeAggregations } from '../services/aggregation.js';
-import { updateTraderScore } from '../services/traderScore.js';
-import { updateTraderWeight } from '../services/traderWeight.js';
-import { trackPositionStates } from '../services/positionState.js';
-import { trackHiddenPositionStates } from '../services/hiddenPositionState.js';
+import { ingestNormalizedPayload } from '../services/platformIngest.js';
+import { readPayloadProfile } from '../services/platformAdapter.js';
+import { checkPayloadDrift } from '../services/schemaDrift.js';
+import { decodeBatchBody, splitNdjson, ingestBatch } from '../services/batchIngest.js';
+import {
+    claimIdempotencyKey,
+    completeIdempotencyKey,
+    releaseIdempotencyKey,
+    IDEMPOTENCY_HEADER,
+    IDEMPOTENT_REPLAY_HEADER,
+    type IdempotencyOutcome,
+} from '../services/ingestIdempotency.js';
+import { config } from '../config.js';
+
+const NDJSON_CONTENT_TYPES = [
+    'application/x-ndjson',
+    'application/ndjson',
+    'application/jsonl',
+    'application/gzip',
+    'application/octet-stream',
+];
+
+/**
+ * Send the stored response (replay) or the conflict for a request whose
+ * idempotency key was not claimed.
+ */
+function sendIdempotencyReply(
+    reply: FastifyReply,
+    outcome: Extract<IdempotencyOutcome, { outcome: 'reply' }>
+) {
+    const { statusCode, replayed, body } = outcome.reply;
+    if (replayed) reply.header(IDEMPOTENT_REPLAY_HEADER, 'true');
+    return reply.code(statusCode).send(body);
+}
 
 export async function ingestRoutes(fastify: FastifyInstance) {
     // Add API key authentication hook for all ingest routes
     fastify.addHook('preHandler', apiKeyAuth);
 
+    // NDJSON bodies (optionally gzip-compressed) reach /ingest/batch as raw buffers
+    fastify.addContentTypeParser(
+        NDJSON_CONTENT_TYPES,
+        { parseAs: 'buffer', bodyLimit: config.batchIngest.maxBodyBytes },
+        (_request, body, done) => done(null, body)
+    );
+
     fastify.post(
         '/ingest/binance-copytrade',
         {
             schema: {
-                description: 'Ingest positions and events from Binance Copy Trading scraper. Accepts both raw Binance format (with activePositions/orderHistory) and normalized format (with positions/events).',
+                description: 'Ingest positions and events from Binance Copy Trading scraper. Accepts both raw Binance format (with activePositions/orderHistory) and normalized format (with positions/events). Idempotent: a retry with the same Idempotency-Key header (or, without one, the same leadId and fetchedAt) returns the original response without writing again; the same key with a different body is rejected with 422.',
                 tags: ['Ingest'],
                 security: [{ apiKey: [] }],
                 body: {
@@ -138,54 +171,34 @@ export async function ingestRoutes(fastify: FastifyInstance) {
                 payload = parseResult.data;
             }
 
-            const fetchedAt = new Date(payload.fetchedAt);
+            const idempotency = await claimIdempotencyKey({
+                route: '/ingest/binance-copytrade',
+                header: request.headers[IDEMPOTENCY_HEADER],
+                leadId: payload.leadId,
+                fetchedAt: payload.fetchedAt,
+                body: request.body,
+            });
+            if (idempotency.outcome === 'reply') {
+                return sendIdempotencyReply(reply, idempotency);
+            }
+            const claim = idempotency.outcome === 'claimed' ? idempotency.claim : null;
 
             try {
-                // 1. Upsert lead trader (FAZ 0: extract positionShow + nickname from raw body)
-                const rawBody = request.body as Record<string, any>;
-                const portfolioDetail = rawBody?.portfolioDetail;
-                const positionShow = typeof portfolioDetail?.positionShow === 'boolean'
-                    ? portfolioDetail.positionShow as boolean
-                    : undefined;
-                const nickname = typeof portfolioDetail?.nickname === 'string'
-                    ? portfolioDetail.nickname as string
-                    : undefined;
-
-                await upsertLeadTrader(payload.leadId, 'binance', { positionShow, nickname });
-
-                // 2. Insert position snapshots
-                const positionsInserted = await insertPositionSnapshots(
-                    payload.positions,
-                    fetchedAt
-                );
-
-                // 2b. YOL 2: Track position states (VISIBLE traders - from activePositions)
-                const positionStateUpdate = await trackPositionStates(
-                    payload.positions,
-                    fetchedAt,
-                    'binance'
-                );
-
-                // 3. Insert events (with deduplication)
-                const { inserted: eventsInserted, skipped: eventsSkipped } =
-                    await insertEvents(payload.events, fetchedAt);
-
-                // 3b. FAZ 1+2: Track HIDDEN trader positions (from orderHistory events)
-                const hiddenPositionStateUpdate = await trackHiddenPositionStates(
-                    payload.leadId,
-                    payload.events,
-                    fetchedAt,
-                    'binance'
-                );
-
-                // 4. Recompute symbol aggregations
-                const symbolsAggregated = await recomputeAggregations('binance');
-
-                // 5. Update trader score
-                const traderScore = await updateTraderScore(payload.leadId, 'binance');
-
-                // 6. FAZ 0: Update consensus weight
-                await updateTraderWeight(payload.leadId, 'binance');
+                // FAZ 0: positionShow + nickname come from the raw body's portfolioDetail
+                const profile = readPayloadProfile('binance', request.body);
+                if (format === 'raw_binance') {
+                    await checkPayloadDrift('binance', request.body, payload.leadId);
+                }
+
+                const {
+                    positionsInserted,
+                    eventsInserted,
+                    eventsSkipped,
+                    positionStateUpdate,
+                    hiddenPositionStateUpdate,
+                    symbolsAggregated,
+                    traderScore,
+                } = await ingestNormalizedPayload('binance', payload, profile);
 
                 fastify.log.info({
                     leadId: payload.leadId,
@@ -197,7 +210,7 @@ export async function ingestRoutes(fastify: FastifyInstance) {
                     hiddenPositionStates: hiddenPositionStateUpdate,
                 }, 'Ingest completed');
 
-                return reply.send({
+                const response = {
                     success: true,
                     data: {
                         leadId: payload.leadId,
@@ -210,8 +223,12 @@ export async function ingestRoutes(fastify: FastifyInstance) {
                         positionStates: positionStateUpdate,
                         hiddenPositionStates: hiddenPositionStateUpdate,
                     },
-                });
+                };
+                if (claim) await completeIdempotencyKey(claim, 200, response);
+
+                return reply.send(response);
             } catch (error) {
+                if (claim) await releaseIdempotencyKey(claim);
                 fastify.log.error(error, 'Error processing ingest');
                 return reply.code(500).send({
                     success: false,
@@ -220,4 +237,91 @@ export async function ingestRoutes(fastify: FastifyInstance) {
             }
         }
     );
+
+    /**
+     * POST /ingest/batch
+     *
+     * Many trader payloads in one NDJSON body, one payload per line
+     */
+    fastify.post(
+        '/ingest/batch',
+        {
+            bodyLimit: config.batchIngest.maxBodyBytes,
+            schema: {
+                description: 'Ingest many trader payloads from one NDJSON body (Content-Type application/x-ndjson; gzip-compressed bodies are detected automatically). Each line is a raw platform payload or a normalized { leadId, fetchedAt, positions, events } payload. Aggregations are recomputed once at the end; the response reports success or failure per line. Each line is deduplicated by its leadId and fetchedAt: a line already ingested returns its stored result with replayed=true. Send an Idempotency-Key header to make retries return the original report.',
+                tags: ['Ingest'],
+                security: [{ apiKey: [] }],
+                consumes: NDJSON_CONTENT_TYPES,
+            },
+        },
+        async (
+            request: FastifyRequest<{ Body: unknown }>,
+            reply: FastifyReply
+        ) => {
+            if (!Buffer.isBuffer(request.body)) {
+                return reply.code(415).send({
+                    success: false,
+                    error: `Send NDJSON with Content-Type ${NDJSON_CONTENT_TYPES[0]} (optionally gzip-compressed)`,
+                });
+            }
+
+            let text: string;
+            try {
+                text = await decodeBatchBody(request.body, config.batchIngest.maxBodyBytes);
+            } catch (error) {
+                return reply.code(400).send({
+                    success: false,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            }
+
+            const lines = splitNdjson(text);
+            if (lines.length === 0) {
+                return reply.code(400).send({ success: false, error: 'Batch contains no payloads' });
+            }
+            if (lines.length > config.batchIngest.maxLines) {
+                return reply.code(413).send({
+                    success: false,
+                    error: `Batch has ${lines.length} payloads; the limit is ${config.batchIngest.maxLines}`,
+                });
+            }
+
+            // Batches span many traders: the header keys the whole batch, and
+            // each line claims its own (leadId, fetchedAt) key in ingestBatch
+            const idempotency = await claimIdempotencyKey({
+                route: '/ingest/batch',
+                header: request.headers[IDEMPOTENCY_HEADER],
+                leadId: null,
+                fetchedAt: null,
+                body: text,
+            });
+            if (idempotency.outcome === 'reply') {
+                return sendIdempotencyReply(reply, idempotency);
+            }
+            const claim = idempotency.outcome === 'claimed' ? idempotency.claim : null;
+
+            try {
+                const report = await ingestBatch(lines);
+
+                if (report.failed > 0) {
+                    fastify.log.warn({
+                        failed: report.failed,
+                        lines: report.results.filter((r) => !r.success).map((r) => r.line),
+                    }, 'Batch ingest had failing lines');
+                }
+
+                const response = { success: report.failed === 0, data: report };
+                if (claim) await completeIdempotencyKey(claim, 200, response);
+
+                return reply.send(response);
+            } catch (error) {
+                if (claim) await releaseIdempotencyKey(claim);
+                fastify.log.error(error, 'Error processing batch ingest');
+                return reply.code(500).send({
+                    success: false,
+                    error: error instanceof Error ? error.message : 'Internal server error',
+                });
+            }
+        }
+    );
 }
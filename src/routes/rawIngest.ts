@@ -1,6 +1,15 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { apiKeyAuth } from '../middleware/auth.js';
 import { prisma } from '../db/prisma.js';
+import { storeRawIngest, hydrateRawIngests } from '../services/rawIngestStore.js';
+import { checkPayloadDrift } from '../services/schemaDrift.js';
+import {
+    claimIdempotencyKey,
+    completeIdempotencyKey,
+    releaseIdempotencyKey,
+    IDEMPOTENCY_HEADER,
+    IDEMPOTENT_REPLAY_HEADER,
+} from '../services/ingestIdempotency.js';
 
 // Minimal validation - just require leadId and fetchedAt
 interface RawIngestBody {
@@ -48,7 +57,7 @@ export async function rawIngestRoutes(fastify: FastifyInstance) {
         '/ingest/raw',
         {
             schema: {
-                description: 'Store raw n8n payload without any transformation. Ensures complete data capture.',
+                description: 'Store raw n8n payload without any transformation. Ensures complete data capture. Idempotent on the Idempotency-Key header, or on leadId + fetchedAt without one.',
                 tags: ['Ingest'],
                 security: [{ apiKey: [] }],
                 body: {
@@ -144,20 +153,34 @@ export async function rawIngestRoutes(fastify: FastifyInstance) {
                     ? null
                     : filteredActivePositionsCount === positionsCount;
 
+            const idempotency = await claimIdempotencyKey({
+                route: '/ingest/raw',
+                header: request.headers[IDEMPOTENCY_HEADER],
+                leadId: body.leadId,
+                fetchedAt: body.fetchedAt,
+                body,
+            });
+            if (idempotency.outcome === 'reply') {
+                const { statusCode, replayed, body: stored } = idempotency.reply;
+                if (replayed) reply.header(IDEMPOTENT_REPLAY_HEADER, 'true');
+                return reply.code(statusCode).send(stored);
+            }
+            const claim = idempotency.outcome === 'claimed' ? idempotency.claim : null;
+
             try {
-                // Store the COMPLETE payload as-is
-                const rawIngest = await prisma.rawIngest.create({
-                    data: {
-                        leadId: body.leadId,
-                        platform: 'binance',
-                        fetchedAt,
-                        payload: body as object, // Store entire body
-                        positionsCount,
-                        ordersCount,
-                        timeRange: body.timeRange || null,
-                    },
+                // Store the COMPLETE payload (unchanged sections as references)
+                const rawIngest = await storeRawIngest({
+                    leadId: body.leadId,
+                    platform: 'binance',
+                    fetchedAt,
+                    payload: body,
+                    positionsCount,
+                    ordersCount,
+                    timeRange: body.timeRange || null,
                 });
 
+                await checkPayloadDrift('binance', body, body.leadId);
+
                 // Calculate payload size for logging
                 const payloadSize = JSON.stringify(body).length;
 
@@ -185,7 +208,7 @@ export async function rawIngestRoutes(fastify: FastifyInstance) {
                     }, '✅ Position parity check passed (n8n audit vs stored raw payload)');
                 }
 
-                return reply.send({
+                const response = {
                     success: true,
                     data: {
                         id: rawIngest.id,
@@ -202,8 +225,12 @@ export async function rawIngestRoutes(fastify: FastifyInstance) {
                         },
                         message: 'Raw payload stored successfully. No data lost.',
                     },
-                });
+                };
+                if (claim) await completeIdempotencyKey(claim, 200, response);
+
+                return reply.send(response);
             } catch (error) {
+                if (claim) await releaseIdempotencyKey(claim);
                 fastify.log.error(error, 'Error storing raw payload');
                 return reply.code(500).send({
                     success: false,
@@ -267,7 +294,7 @@ export async function rawIngestRoutes(fastify: FastifyInstance) {
             const limit = request.query.limit || 10;
             const includePayload = request.query.includePayload || false;
 
-            const rawIngests = await prisma.rawIngest.findMany({
+            const rows = await prisma.rawIngest.findMany({
                 where: { leadId },
                 orderBy: { fetchedAt: 'desc' },
                 take: limit,
@@ -278,10 +305,15 @@ export async function rawIngestRoutes(fastify: FastifyInstance) {
                     positionsCount: true,
                     ordersCount: true,
                     timeRange: true,
+                    changedSections: true,
                     createdAt: true,
                     payload: includePayload,
+                    sectionHashes: includePayload,
                 },
             });
+            const rawIngests = includePayload
+                ? (await hydrateRawIngests(rows)).map(({ sectionHashes: _refs, ...row }) => row)
+                : rows;
 
             const total = await prisma.rawIngest.count({ where: { leadId } });
 
@@ -332,6 +364,7 @@ export async function rawIngestRoutes(fastify: FastifyInstance) {
                     positionsCount: true,
                     ordersCount: true,
                     timeRange: true,
+                    changedSections: true,
                     createdAt: true,
                 },
             });
@@ -3,6 +3,10 @@ import { Prisma } from '@prisma/client';
 import { prisma } from '../db/prisma.js';
 import { config } from '../config.js';
 import { computeTraderMetrics } from '../services/traderMetrics.js';
+import { getMetricRoundTrips } from '../services/tradeRoundTrip.js';
+import { getMetricLiquidations } from '../services/liquidation.js';
+import { getVisibilityChanges, visibilityChangeSeverity } from '../services/traderProfile.js';
+import { computeSymbolCrowding } from '../services/copierStats.js';
 import { computeTraderWeight } from '../services/traderWeight.js';
 // Sprint 2: Advanced analytics services
 import { computeAdvancedMetrics } from '../services/advancedMetrics.js';
@@ -14,12 +18,27 @@ import {
     getActivePositionStates,
     getPositionStateHistory,
     getRecentlyClosedPositions,
-    calculateUncertaintyRange
+    getPositionStateWithLegs,
+    getRecentPositionLegs,
+    getRecentPositionFlips,
+    calculateUncertaintyRange,
+    holdDurationRange
 } from '../services/positionState.js';
 // Leverage estimation for hidden traders
 import { batchEstimateLeverages } from '../services/leverageEstimation.js';
 // Trader performance metrics
 import { batchCalculatePerformance } from '../services/traderPerformance.js';
+// Platform adapters (binance, bybit, ...)
+import {
+    resolvePlatform,
+    readPayloadSignals,
+    readPayloadProfile,
+} from '../services/platformAdapter.js';
+// RawIngest delta storage (payload sections stored by hash)
+import { hydrateRawIngest, hydrateRawIngests } from '../services/rawIngestStore.js';
+import { getPrice } from '../services/priceFeed.js';
+import { measureExcursion, summarizeExcursions } from '../services/excursion.js';
+import { accrueFunding, measureFunding } from '../services/fundingRates.js';
 
 interface HeatmapQuery {
     timeRange?: string;      // 1h, 4h, 24h, 7d, ALL
@@ -28,11 +47,13 @@ interface HeatmapQuery {
     leverage?: string;       // ALL, <20x, 20-50x, 50-100x, >100x
     segment?: string;        // VISIBLE, HIDDEN, BOTH
     recentlyOpened?: string; // YOL 2: 10m, 30m, 1h, 6h - filter to positions opened in last X
+    platform?: string;       // binance (default), bybit
 }
 
 interface SymbolQuery {
     timeRange?: string;
     segment?: string;    // VISIBLE, HIDDEN, BOTH
+    platform?: string;   // binance (default), bybit
 }
 
 interface FeedQuery {
@@ -41,6 +62,8 @@ interface FeedQuery {
     symbol?: string;    // optional symbol filter (e.g. BTCUSDT)
     timeRange?: string; // 1h, 4h, 24h, 7d, ALL
     segment?: string;   // VISIBLE, HIDDEN, BOTH
+    legs?: string;      // events feed: include scale-in / scale-out legs (default true)
+    flips?: string;     // events feed: include position flips (default true)
 }
 
 interface InsightsQuery {
@@ -48,6 +71,7 @@ interface InsightsQuery {
     segment?: string;   // VISIBLE, HIDDEN, BOTH
     top?: string;       // leaderboard rows (max 50)
     mode?: string;      // conservative, balanced, aggressive
+    platform?: string;  // binance (default), bybit
 }
 
 interface InsightsRuleUpdateBody {
@@ -63,6 +87,11 @@ interface SimulationPositionsQuery {
     status?: string; // OPEN, CLOSED, ALL
     limit?: string;
     reconcile?: string; // true to run auto-close before listing
+    platform?: string;  // binance (default), bybit
+}
+
+interface SimulationPlatformQuery {
+    platform?: string;
 }
 
 interface SimulationOpenBody {
@@ -72,6 +101,7 @@ interface SimulationOpenBody {
     notional?: number;
     entryPrice?: number;
     notes?: string;
+    platform?: string;
 }
 
 interface SimulationCloseBody {
@@ -81,6 +111,7 @@ interface SimulationCloseBody {
 
 interface AutoRuleUpdateBody {
     enabled?: boolean;
+    platform?: string;
     segment?: 'VISIBLE' | 'HIDDEN' | 'BOTH';
     timeRange?: '1h' | '4h' | '24h' | '7d' | 'ALL';
     minTraders?: number;
@@ -110,6 +141,9 @@ interface BacktestLiteQuery {
     equityCurve?: string;
     numSimulations?: string;
     persist?: string;
+    platform?: string;
+    /** Hypothetical stop distance (% of entry) for the trades' stopEfficiency */
+    stopLossPct?: string;
 }
 
 interface AggregatedPosition {
@@ -151,6 +185,8 @@ interface TraderPosition {
     // YOL 2: Position timing data
     openedAt?: string | null;
     holdDurationSeconds?: number | null;
+    /** Bounds of holdDurationSeconds from the open window (max null when unbounded) */
+    holdDurationRangeSeconds?: { min: number; max: number | null } | null;
 }
 
 type TraderSegment = 'VISIBLE' | 'HIDDEN' | 'UNKNOWN';
@@ -399,53 +435,30 @@ function computeSimulationPerformance(params: {
     exitPrice: number;
     leverage: number;
     marginNotional: number;
+    // Accrued funding, positive = paid; deducted from PnL
+    fundingUSDT?: number;
 }) {
-    const { direction, entryPrice, exitPrice, leverage, marginNotional } = params;
+    const { direction, entryPrice, exitPrice, leverage, marginNotional, fundingUSDT = 0 } = params;
     if (entryPrice <= 0 || marginNotional <= 0) {
-        return { positionNotional: 0, pnlUSDT: 0, roiPct: 0 };
+        return { positionNotional: 0, pnlUSDT: 0, roiPct: 0, fundingUSDT: 0 };
     }
     const positionNotional = marginNotional * Math.max(leverage, 1);
     const rawMove =
         direction === 'LONG'
             ? (exitPrice - entryPrice) / entryPrice
             : (entryPrice - exitPrice) / entryPrice;
-    const pnlUSDT = positionNotional * rawMove;
+    const pnlUSDT = positionNotional * rawMove - fundingUSDT;
     const roiPct = marginNotional > 0 ? (pnlUSDT / marginNotional) * 100 : 0;
     return {
         positionNotional: round4(positionNotional),
         pnlUSDT: round4(pnlUSDT),
         roiPct: round4(roiPct),
+        fundingUSDT: round4(fundingUSDT),
     };
 }
 
-async function getReferenceEntryPrice(symbol: string): Promise<number | null> {
-    const s = symbol.toUpperCase();
-    const latestPositions = await prisma.positionSnapshot.findMany({
-        where: { symbol: s, platform: 'binance' },
-        orderBy: { fetchedAt: 'desc' },
-        take: 60,
-        select: { markPrice: true, entryPrice: true },
-    });
-    const prices = latestPositions
-        .map((p) => (p.markPrice && p.markPrice > 0 ? p.markPrice : p.entryPrice))
-        .filter((v): v is number => Number.isFinite(v) && v > 0);
-    if (prices.length > 0) {
-        const avg = prices.reduce((sum, v) => sum + v, 0) / prices.length;
-        return round4(avg);
-    }
-
-    const latestEvent = await prisma.event.findFirst({
-        where: { symbol: s, platform: 'binance', price: { not: null } },
-        orderBy: [{ eventTime: 'desc' }, { fetchedAt: 'desc' }],
-        select: { price: true },
-    });
-    if (latestEvent?.price && latestEvent.price > 0) {
-        return round4(latestEvent.price);
-    }
-    return null;
-}
-
 async function findFirstCloseEventForSimulation(position: {
+    platform: string;
     symbol: string;
     direction: string;
     openedAt: Date;
@@ -463,7 +476,7 @@ async function findFirstCloseEventForSimulation(position: {
         COALESCE("eventTime", "fetchedAt") as "eventTs",
         price
       FROM "Event"
-      WHERE platform = 'binance'
+      WHERE platform = ${position.platform}
         AND symbol = ${position.symbol}
         AND "eventType" = ${targetEventType}
         AND COALESCE("eventTime", "fetchedAt") >= ${position.openedAt}
@@ -649,6 +662,7 @@ function normalizeInsightsRule(row: {
 async function computeLiveConsensusSnapshot(params: {
     timeRange: string;
     segmentFilter: TraderSegmentFilter;
+    platform: string;
 }) {
     const timeRangeMs = getTimeRangeMs(params.timeRange);
     const cutoffTime = timeRangeMs === Infinity
@@ -656,18 +670,20 @@ async function computeLiveConsensusSnapshot(params: {
         : new Date(Date.now() - timeRangeMs);
     const cutoffMs = cutoffTime.getTime();
 
-    const latestIngests = timeRangeMs === Infinity
-        ? await prisma.$queryRaw<Array<{ leadId: string; payload: any }>>`
-      SELECT DISTINCT ON ("leadId") "leadId", payload
+    const latestIngests = await hydrateRawIngests(timeRangeMs === Infinity
+        ? await prisma.$queryRaw<Array<{ leadId: string; payload: any; sectionHashes: unknown }>>`
+      SELECT DISTINCT ON ("leadId") "leadId", payload, "sectionHashes"
       FROM "RawIngest"
+      WHERE platform = ${params.platform}
       ORDER BY "leadId", "fetchedAt" DESC
     `
-        : await prisma.$queryRaw<Array<{ leadId: string; payload: any }>>`
-      SELECT DISTINCT ON ("leadId") "leadId", payload
+        : await prisma.$queryRaw<Array<{ leadId: string; payload: any; sectionHashes: unknown }>>`
+      SELECT DISTINCT ON ("leadId") "leadId", payload, "sectionHashes"
       FROM "RawIngest"
-      WHERE "fetchedAt" >= ${cutoffTime}
+      WHERE platform = ${params.platform}
+        AND "fetchedAt" >= ${cutoffTime}
       ORDER BY "leadId", "fetchedAt" DESC
-    `;
+    `);
 
     const leadIds = latestIngests.map((i) => i.leadId);
     const [leadTraders, traderScores] = await Promise.all([
@@ -715,13 +731,12 @@ async function computeLiveConsensusSnapshot(params: {
     };
 
     for (const ingest of latestIngests) {
-        const payload = ingest.payload || {};
+        const { positions, orders } = readPayloadSignals(params.platform, ingest.payload);
         const segment = segmentMap.get(ingest.leadId) ?? 'UNKNOWN';
         if (!shouldIncludeSegment(segment, params.segmentFilter)) continue;
         const traderWeight = weightMap.get(ingest.leadId) ?? 0;
 
         if (segment !== 'HIDDEN') {
-            const positions = payload.activePositions || [];
             for (const pos of positions) {
                 const normalizedSide = normalizePositionSide(pos.positionSide, pos.positionAmount);
                 if (!normalizedSide) continue;
@@ -730,7 +745,6 @@ async function computeLiveConsensusSnapshot(params: {
             continue;
         }
 
-        const orders = payload.orderHistory?.allOrders || [];
         const hiddenStates = deriveHiddenStatesFromOrders(orders, timeRangeMs === Infinity ? 0 : cutoffMs);
         for (const state of hiddenStates.values()) {
             if (!state.side) continue;
@@ -800,9 +814,9 @@ function parseBool(raw: string | undefined): boolean {
 }
 
 export async function signalsRoutes(fastify: FastifyInstance) {
-    async function reconcileOpenSimulatedPositions() {
+    async function reconcileOpenSimulatedPositions(platform: string) {
         const openPositions = await prisma.simulatedPosition.findMany({
-            where: { platform: 'binance', status: 'OPEN' },
+            where: { platform, status: 'OPEN' },
             orderBy: { openedAt: 'asc' },
             take: 500,
         });
@@ -810,6 +824,7 @@ export async function signalsRoutes(fastify: FastifyInstance) {
         const closed: any[] = [];
         for (const pos of openPositions) {
             const closeEvent = await findFirstCloseEventForSimulation({
+                platform: pos.platform,
                 symbol: pos.symbol,
                 direction: pos.direction,
                 openedAt: pos.openedAt,
@@ -819,12 +834,14 @@ export async function signalsRoutes(fastify: FastifyInstance) {
             const exitPrice = closeEvent.price && closeEvent.price > 0
                 ? closeEvent.price
                 : pos.entryPrice;
+            const fundingUSDT = await accrueFunding(pos, closeEvent.eventTs);
             const perf = computeSimulationPerformance({
                 direction: pos.direction as 'LONG' | 'SHORT',
                 entryPrice: pos.entryPrice,
                 exitPrice,
                 leverage: pos.leverage,
                 marginNotional: pos.marginNotional,
+                fundingUSDT,
             });
 
             const updated = await prisma.simulatedPosition.update({
@@ -866,20 +883,21 @@ export async function signalsRoutes(fastify: FastifyInstance) {
             };
         }
 
-        const reconciled = options.dryRun ? [] : await reconcileOpenSimulatedPositions();
+        const reconciled = options.dryRun ? [] : await reconcileOpenSimulatedPositions(rule.platform);
         const snapshot = await computeLiveConsensusSnapshot({
             timeRange: rule.timeRange,
             segmentFilter,
+            platform: rule.platform,
         });
 
         const openAutoPositions = await prisma.simulatedPosition.findMany({
-            where: { platform: 'binance', status: 'OPEN', source: 'AUTO' },
+            where: { platform: rule.platform, status: 'OPEN', source: 'AUTO' },
             orderBy: { openedAt: 'desc' },
         });
         const openBySymbol = new Map(openAutoPositions.map((p) => [p.symbol, p]));
 
         const recentAuto = await prisma.simulatedPosition.findMany({
-            where: { platform: 'binance', source: 'AUTO' },
+            where: { platform: rule.platform, source: 'AUTO' },
             orderBy: { openedAt: 'desc' },
             take: 1000,
         });
@@ -912,20 +930,23 @@ export async function signalsRoutes(fastify: FastifyInstance) {
                 }
 
                 if (!options.dryRun) {
-                    const exitPrice = (await getReferenceEntryPrice(existing.symbol)) || existing.entryPrice;
+                    const exitPrice = (await getPrice(existing.symbol, null, rule.platform)) || existing.entryPrice;
+                    const closedAt = new Date();
+                    const fundingUSDT = await accrueFunding(existing, closedAt);
                     const perf = computeSimulationPerformance({
                         direction: existing.direction as 'LONG' | 'SHORT',
                         entryPrice: existing.entryPrice,
                         exitPrice,
                         leverage: existing.leverage,
                         marginNotional: existing.marginNotional,
+                        fundingUSDT,
                     });
                     const updated = await prisma.simulatedPosition.update({
                         where: { id: existing.id },
                         data: {
                             status: 'CLOSED',
                             exitPrice,
-                            closedAt: new Date(),
+                            closedAt,
                             closeReason: 'AUTO_REVERSE_SIGNAL',
                             closeTriggerLeadId: null,
                             closeTriggerEventType: null,
@@ -950,7 +971,7 @@ export async function signalsRoutes(fastify: FastifyInstance) {
                 }
             }
 
-            const entryPrice = await getReferenceEntryPrice(c.symbol);
+            const entryPrice = await getPrice(c.symbol, null, rule.platform);
             if (!entryPrice) {
                 skipped.push({ symbol: c.symbol, reason: 'no_reference_price' });
                 continue;
@@ -967,7 +988,7 @@ export async function signalsRoutes(fastify: FastifyInstance) {
             if (!options.dryRun) {
                 const created = await prisma.simulatedPosition.create({
                     data: {
-                        platform: 'binance',
+                        platform: rule.platform,
                         symbol: c.symbol,
                         direction,
                         status: 'OPEN',
@@ -1014,6 +1035,7 @@ export async function signalsRoutes(fastify: FastifyInstance) {
     }
 
     async function runBacktestLite(params: {
+        platform: string;
         timeRange: string;
         segmentFilter: TraderSegmentFilter;
         minTraders: number;
@@ -1028,6 +1050,7 @@ export async function signalsRoutes(fastify: FastifyInstance) {
         equityCurve?: boolean;
         numSimulations?: number;
         persist?: boolean;
+        stopLossPct?: number | null;
     }) {
         const timeRangeMs = getTimeRangeMs(params.timeRange);
         const startTime = timeRangeMs === Infinity
@@ -1036,7 +1059,7 @@ export async function signalsRoutes(fastify: FastifyInstance) {
 
         const events = await prisma.event.findMany({
             where: {
-                platform: 'binance',
+                platform: params.platform,
                 eventType: { in: ['OPEN_LONG', 'OPEN_SHORT', 'CLOSE_LONG', 'CLOSE_SHORT'] },
                 OR: [
                     { eventTime: { gte: startTime } },
@@ -1096,11 +1119,16 @@ export async function signalsRoutes(fastify: FastifyInstance) {
             exitPrice: number;
             pnlUSDT: number;
             roiPct: number;
+            fundingUSDT: number;
             triggerCount: number;
             confidenceScore: number;
             sentimentScore: number;
             closeEventType: string;
             closeLeadId: string;
+            maePct: number | null;
+            mfePct: number | null;
+            timeToMfeSec: number | null;
+            stopEfficiency: number | null;
         }> = [];
 
         const sumWeights = (ids: Set<string>) => {
@@ -1150,11 +1178,16 @@ export async function signalsRoutes(fastify: FastifyInstance) {
                         exitPrice: round4(exitPrice),
                         pnlUSDT: perf.pnlUSDT,
                         roiPct: perf.roiPct,
+                        fundingUSDT: 0,
                         triggerCount: state.active.triggerCount,
                         confidenceScore: state.active.confidenceScore,
                         sentimentScore: state.active.sentimentScore,
                         closeEventType: ev.eventType,
                         closeLeadId: ev.leadId,
+                        maePct: null,
+                        mfePct: null,
+                        timeToMfeSec: null,
+                        stopEfficiency: null,
                     });
                     state.active = null;
                 }
@@ -1196,6 +1229,43 @@ export async function signalsRoutes(fastify: FastifyInstance) {
             };
         }
 
+        // Funding from stored settlements, deducted from each trade's PnL
+        const positionNotional = params.marginNotional * Math.max(params.leverage, 1);
+        for (const t of trades) {
+            const fundingUSDT = await measureFunding({
+                symbol: t.symbol,
+                direction: t.direction,
+                entryPrice: t.entryPrice,
+                positionNotional,
+                from: new Date(t.openedAt),
+                to: new Date(t.closedAt),
+            });
+            if (fundingUSDT === 0) continue;
+            t.fundingUSDT = fundingUSDT;
+            t.pnlUSDT = round4(t.pnlUSDT - fundingUSDT);
+            t.roiPct = round4((t.pnlUSDT / params.marginNotional) * 100);
+        }
+
+        // MAE / MFE from stored klines (stays null where candles don't cover a trade)
+        for (const t of trades) {
+            const stopDistance = params.stopLossPct ? params.stopLossPct / 100 : 0;
+            const excursion = await measureExcursion({
+                symbol: t.symbol,
+                direction: t.direction,
+                entryPrice: t.entryPrice,
+                openedAt: new Date(t.openedAt),
+                closedAt: new Date(t.closedAt),
+                stopLossPrice: stopDistance > 0
+                    ? t.entryPrice * (t.direction === 'LONG' ? 1 - stopDistance : 1 + stopDistance)
+                    : null,
+            });
+            if (!excursion) continue;
+            t.maePct = excursion.maePct;
+            t.mfePct = excursion.mfePct;
+            t.timeToMfeSec = excursion.timeToMfeSec;
+            t.stopEfficiency = excursion.stopEfficiency;
+        }
+
         const wins = trades.filter((t) => t.pnlUSDT > 0).length;
         const losses = trades.filter((t) => t.pnlUSDT < 0).length;
         const breakeven = trades.length - wins - losses;
@@ -1205,6 +1275,7 @@ export async function signalsRoutes(fastify: FastifyInstance) {
             ? round4(trades.reduce((sum, t) => sum + t.roiPct, 0) / trades.length)
             : 0;
         const winRate = trades.length > 0 ? round4((wins / trades.length) * 100) : 0;
+        const totalFunding = round4(trades.reduce((sum, t) => sum + t.fundingUSDT, 0));
 
         const bySymbolPerf = new Map<string, { trades: number; pnl: number; wins: number }>();
         for (const t of trades) {
@@ -1238,7 +1309,9 @@ export async function signalsRoutes(fastify: FastifyInstance) {
                 totalPnl,
                 avgPnl,
                 avgRoiPct,
+                totalFunding,
             },
+            excursion: summarizeExcursions(trades),
             bySymbol: bySymbolRows,
             trades: trades.slice(-200).reverse(),
         };
@@ -1306,6 +1379,7 @@ export async function signalsRoutes(fastify: FastifyInstance) {
                         avgLoss: losses > 0 ? Math.abs(trades.filter((t) => t.pnlUSDT < 0).reduce((sum, t) => sum + t.pnlUSDT, 0) / losses) : 0,
                         profitFactor: result.advancedMetrics.profitFactor,
                         netPnl: totalPnl,
+                        totalFunding,
                         maxDrawdown: result.advancedMetrics.maxDrawdown,
                         sharpeRatio: result.advancedMetrics.sharpeRatio,
                         sortinoRatio: result.advancedMetrics.sortinoRatio,
@@ -1333,6 +1407,7 @@ export async function signalsRoutes(fastify: FastifyInstance) {
     }
 
     async function runPhase6Insights(params: {
+        platform: string;
         timeRange: string;
         segmentFilter: TraderSegmentFilter;
         top: number;
@@ -1346,14 +1421,15 @@ export async function signalsRoutes(fastify: FastifyInstance) {
             ? new Date(0)
             : new Date(Date.now() - timeRangeMs);
 
-        const [consensusSnapshot, rawEvents, snapshotRows, leadRows] = await Promise.all([
+        const [consensusSnapshot, rawEvents, snapshotRows, leadRows, positionFlips, visibilityChanges] = await Promise.all([
             computeLiveConsensusSnapshot({
                 timeRange: params.timeRange,
                 segmentFilter: params.segmentFilter,
+                platform: params.platform,
             }),
             prisma.event.findMany({
                 where: {
-                    platform: 'binance',
+                    platform: params.platform,
                     eventType: { in: ['OPEN_LONG', 'OPEN_SHORT', 'CLOSE_LONG', 'CLOSE_SHORT'] },
                     OR: [
                         { eventTime: { gte: startTime } },
@@ -1372,7 +1448,7 @@ export async function signalsRoutes(fastify: FastifyInstance) {
             }),
             prisma.positionSnapshot.findMany({
                 where: {
-                    platform: 'binance',
+                    platform: params.platform,
                     fetchedAt: { gte: startTime },
                 },
                 select: {
@@ -1382,7 +1458,7 @@ export async function signalsRoutes(fastify: FastifyInstance) {
                 },
             }),
             prisma.leadTrader.findMany({
-                where: { platform: 'binance' },
+                where: { platform: params.platform },
                 include: {
                     traderScore: {
                         select: {
@@ -1394,6 +1470,8 @@ export async function signalsRoutes(fastify: FastifyInstance) {
                     },
                 },
             }),
+            getRecentPositionFlips({ since: startTime, platform: params.platform }),
+            getVisibilityChanges({ since: startTime, platform: params.platform }),
         ]);
 
         const segmentByLead = new Map(leadRows.map((t) => [t.id, resolveSegment(t.positionShow)]));
@@ -1410,6 +1488,19 @@ export async function signalsRoutes(fastify: FastifyInstance) {
             return shouldIncludeSegment(segment, params.segmentFilter);
         });
 
+        // Trader-level flips (close one side + open the other within one scrape window)
+        const traderFlipsBySymbol = new Map<string, { total: number; toLong: number; toShort: number }>();
+        for (const flip of positionFlips) {
+            const segment = segmentByLead.get(flip.leadId) ?? 'UNKNOWN';
+            if (!shouldIncludeSegment(segment, params.segmentFilter)) continue;
+            const symbol = flip.symbol.toUpperCase();
+            const agg = traderFlipsBySymbol.get(symbol) ?? { total: 0, toLong: 0, toShort: 0 };
+            agg.total += 1;
+            if (flip.flipType === 'FLIP_TO_LONG') agg.toLong += 1;
+            else agg.toShort += 1;
+            traderFlipsBySymbol.set(symbol, agg);
+        }
+
         const sumWeights = (ids: Set<string>) => {
             let total = 0;
             for (const id of ids) total += weightByLead.get(id) ?? 0;
@@ -1469,20 +1560,28 @@ export async function signalsRoutes(fastify: FastifyInstance) {
             }
         }
 
-        const stability = Array.from(symbolState.entries())
-            .map(([symbol, s]) => {
-                const flipRate = s.updates > 1 ? s.flips / (s.updates - 1) : 0;
+        const stabilitySymbols = new Set([...symbolState.keys(), ...traderFlipsBySymbol.keys()]);
+        const stability = Array.from(stabilitySymbols)
+            .map((symbol) => {
+                const s = symbolState.get(symbol);
+                const updates = s?.updates ?? 0;
+                const flips = s?.flips ?? 0;
+                const traderFlips = traderFlipsBySymbol.get(symbol);
+                const flipRate = updates > 1 ? flips / (updates - 1) : 0;
                 const stabilityScore = Math.max(0, Math.round((1 - Math.min(1, flipRate * 1.5)) * 100));
                 return {
                     symbol,
-                    updates: s.updates,
-                    flips: s.flips,
+                    updates,
+                    flips,
                     flipRate: round4(flipRate),
                     stabilityScore,
-                    lastDirection: s.lastDirection,
+                    lastDirection: s?.lastDirection ?? 'NEUTRAL',
+                    traderFlips: traderFlips?.total ?? 0,
+                    traderFlipsToLong: traderFlips?.toLong ?? 0,
+                    traderFlipsToShort: traderFlips?.toShort ?? 0,
                 };
             })
-            .sort((a, b) => a.stabilityScore - b.stabilityScore || b.flips - a.flips);
+            .sort((a, b) => a.stabilityScore - b.stabilityScore || b.flips - a.flips || b.traderFlips - a.traderFlips);
 
         const leverageBySymbol = new Map<string, { count: number; leverageSum: number; maxLeverage: number }>();
         const leverageByLead = new Map<string, { count: number; leverageSum: number; maxLeverage: number }>();
@@ -1511,11 +1610,13 @@ export async function signalsRoutes(fastify: FastifyInstance) {
             message: string;
             metric: string;
             value: number;
+            /** Set on trader-level anomalies, whose symbol is the trader's nickname */
+            leadId?: string;
         }
 
         const anomalyMap = new Map<string, InsightAnomaly>();
         const upsertAnomaly = (item: InsightAnomaly) => {
-            const key = `${item.type}:${item.symbol}`;
+            const key = `${item.type}:${item.leadId ?? item.symbol}`;
             const existing = anomalyMap.get(key);
             if (!existing || getAnomalySeverityRank(item.severity) > getAnomalySeverityRank(existing.severity)) {
                 anomalyMap.set(key, item);
@@ -1595,6 +1696,46 @@ export async function signalsRoutes(fastify: FastifyInstance) {
                     value: row.stabilityScore,
                 });
             }
+            if (row.traderFlips >= preset.unstableMinFlips) {
+                upsertAnomaly({
+                    type: 'TRADER_FLIP_CLUSTER',
+                    severity: 'MEDIUM',
+                    symbol: row.symbol,
+                    message: `${row.symbol} trader yön çevirme kümesi (position flip)`,
+                    metric: 'traderFlips',
+                    value: row.traderFlips,
+                });
+            }
+        }
+
+        // Newest first, so each trader keeps its latest change of each kind
+        for (const change of visibilityChanges) {
+            const type = change.positionShow ? 'TRADER_SHOWED_POSITIONS' : 'TRADER_HID_POSITIONS';
+            if (anomalyMap.has(`${type}:${change.leadId}`)) continue;
+
+            const label = change.nickname || `Trader ${change.leadId.slice(-6)}`;
+            const severity = visibilityChangeSeverity(change);
+            upsertAnomaly(change.positionShow
+                ? {
+                    type,
+                    severity,
+                    symbol: label,
+                    message: `${label} pozisyonlarını yeniden gösterdi`,
+                    metric: 'recentRealizedPnl',
+                    value: change.recentRealizedPnl,
+                    leadId: change.leadId,
+                }
+                : {
+                    type,
+                    severity,
+                    symbol: label,
+                    message: severity === 'HIGH'
+                        ? `${label} kayıp serisinin ardından pozisyonlarını gizledi`
+                        : `${label} pozisyonlarını gizledi`,
+                    metric: 'recentRealizedPnl',
+                    value: change.recentRealizedPnl,
+                    leadId: change.leadId,
+                });
         }
 
         const anomalies = Array.from(anomalyMap.values())
@@ -1696,6 +1837,8 @@ export async function signalsRoutes(fastify: FastifyInstance) {
                 highLeverageSymbols,
                 unstableSymbols,
                 lowConfidenceSymbols,
+                traderFlips: stability.reduce((sum, row) => sum + row.traderFlips, 0),
+                visibilityChanges: visibilityChanges.length,
             },
             anomalies,
             stability: stability.slice(0, 30),
@@ -1717,6 +1860,14 @@ export async function signalsRoutes(fastify: FastifyInstance) {
             recentlyOpened, // YOL 2: filter to recently opened positions
         } = request.query;
 
+        const platform = resolvePlatform(request.query.platform);
+        if (!platform) {
+            return reply.status(400).send({
+                success: false,
+                error: `Unsupported platform: ${request.query.platform}`,
+            });
+        }
+
         const minTradersNum = parseInt(minTraders) || 1;
         const timeRangeMs = getTimeRangeMs(timeRange);
         const segmentFilter = parseSegmentFilter(segment);
@@ -1732,12 +1883,13 @@ export async function signalsRoutes(fastify: FastifyInstance) {
             : null;
 
         // Get latest ingests for each trader
-        const latestIngests = await prisma.$queryRaw<Array<{ id: string; leadId: string; payload: any }>>`
-      SELECT DISTINCT ON ("leadId") id, "leadId", payload
+        const latestIngests = await hydrateRawIngests(await prisma.$queryRaw<Array<{ id: string; leadId: string; payload: any; sectionHashes: unknown }>>`
+      SELECT DISTINCT ON ("leadId") id, "leadId", payload, "sectionHashes"
       FROM "RawIngest"
-      WHERE "fetchedAt" >= ${cutoffTime}
+      WHERE platform = ${platform}
+        AND "fetchedAt" >= ${cutoffTime}
       ORDER BY "leadId", "fetchedAt" DESC
-    `;
+    `);
 
         // FAZ 1: Batch-fetch trader weights + segment + YOL 2: position states
         const leadIds = latestIngests.map(i => i.leadId);
@@ -1759,6 +1911,7 @@ export async function signalsRoutes(fastify: FastifyInstance) {
             // YOL 2: Get active position states for open times (sorted newest first)
             prisma.positionState.findMany({
                 where: {
+                    platform,
                     leadId: { in: leadIds },
                     status: 'ACTIVE',
                 },
@@ -1767,7 +1920,12 @@ export async function signalsRoutes(fastify: FastifyInstance) {
                     symbol: true,
                     direction: true,
                     firstSeenAt: true,
+                    lastSeenAt: true,
+                    disappearedAt: true,
                     estimatedOpenTime: true,
+                    estimatedCloseTime: true,
+                    openWindowStart: true,
+                    openWindowEnd: true,
                     entryPrice: true,
                 },
                 orderBy: {
@@ -1796,23 +1954,24 @@ export async function signalsRoutes(fastify: FastifyInstance) {
 
         // Aggregate positions by symbol
         const symbolMap = new Map<string, AggregatedPosition>();
+        // Copier count / AUM of every included trader, for symbol crowding
+        const followers = new Map<string, { aumAmount?: number; copierCount?: number }>();
 
         for (const ingest of latestIngests) {
             if (!ingest.payload) continue;
 
-            const payload = ingest.payload;
-            const portfolio = payload.portfolioDetail || {};
-            const positions = payload.activePositions || [];
-            // const orders = payload.orderHistory?.allOrders || []; // Unused for now
+            const profile = readPayloadProfile(platform, ingest.payload);
+            const { positions } = readPayloadSignals(platform, ingest.payload);
             const lt = ltMap.get(ingest.leadId);
             const score = scoreMap.get(ingest.leadId);
             const weight = score?.traderWeight ?? null;
             const positionShow = lt?.positionShow ?? null;
             const traderSegment = resolveSegment(positionShow);
             if (!shouldIncludeSegment(traderSegment, segmentFilter)) continue;
+            followers.set(ingest.leadId, { aumAmount: profile.aumAmount, copierCount: profile.copierCount });
 
-            const nickname = portfolio.nickname || lt?.nickname || `Trader ${ingest.leadId.slice(-6)}`;
-            const avatarUrl = portfolio.avatarUrl || '';
+            const nickname = profile.nickname || lt?.nickname || `Trader ${ingest.leadId.slice(-6)}`;
+            const avatarUrl = profile.avatarUrl || '';
 
             if (traderSegment !== 'HIDDEN') {
                 for (const pos of positions) {
@@ -1873,6 +2032,7 @@ export async function signalsRoutes(fastify: FastifyInstance) {
                     const holdDurationSeconds = openedAt
                         ? Math.floor((Date.now() - openedAt.getTime()) / 1000)
                         : null;
+                    const holdRange = posState ? holdDurationRange(posState) : null;
 
                     // YOL 2: Filter by recentlyOpened if specified
                     if (recentlyOpenedCutoff && openedAt) {
@@ -1912,6 +2072,9 @@ export async function signalsRoutes(fastify: FastifyInstance) {
                         // YOL 2: Position timing data
                         openedAt: openedAt?.toISOString() ?? null,
                         holdDurationSeconds,
+                        holdDurationRangeSeconds: holdRange
+                            ? { min: holdRange.minSeconds, max: holdRange.maxSeconds }
+                            : null,
                     });
                 }
                 continue;
@@ -1920,7 +2083,7 @@ export async function signalsRoutes(fastify: FastifyInstance) {
             // FAZ 1: Hidden trader - get positions from PositionState table (sorted newest first)
             const hiddenPositions = await prisma.positionState.findMany({
                 where: {
-                    platform: 'binance',
+                    platform,
                     leadId: ingest.leadId,
                     status: 'ACTIVE',
                     firstSeenAt: timeRangeMs === Infinity ? undefined : { gte: cutoffTime },
@@ -1984,6 +2147,7 @@ export async function signalsRoutes(fastify: FastifyInstance) {
                 const holdDurationSeconds = openedAt
                     ? Math.floor((Date.now() - openedAt.getTime()) / 1000)
                     : null;
+                const holdRange = holdDurationRange(hiddenPos);
 
                 // YOL 2: Filter by recentlyOpened if specified
                 if (recentlyOpenedCutoff && openedAt) {
@@ -2021,10 +2185,17 @@ export async function signalsRoutes(fastify: FastifyInstance) {
                     // FAZ 2: Timing data from PositionState
                     openedAt: openedAt?.toISOString() ?? null,
                     holdDurationSeconds,
+                    holdDurationRangeSeconds: { min: holdRange.minSeconds, max: holdRange.maxSeconds },
                 });
             }
         }
 
+        const crowding = computeSymbolCrowding(
+            Array.from(symbolMap.values()).flatMap(agg =>
+                agg.traders.map(t => ({ symbol: agg.symbol, leadId: t.leadId }))),
+            followers,
+        );
+
         // Filter by minTraders, compute consensus, convert to array
         const results = Array.from(symbolMap.values())
             .filter(agg => agg.totalTraders >= minTradersNum)
@@ -2127,6 +2298,7 @@ export async function signalsRoutes(fastify: FastifyInstance) {
                         roe: t.roe ?? null,
                         openedAt: t.openedAt ?? null,
                         holdDurationSeconds: t.holdDurationSeconds ?? null,
+                        holdDurationRangeSeconds: t.holdDurationRangeSeconds ?? null,
                         holdDurationFormatted: t.holdDurationSeconds
                             ? formatDuration(t.holdDurationSeconds)
                             : null,
@@ -2228,6 +2400,10 @@ export async function signalsRoutes(fastify: FastifyInstance) {
                     dataSource,
                     visibleTraderCount: agg.visibleTraderCount,
                     hiddenTraderCount: agg.hiddenTraderCount,
+                    // Copier capital following this symbol's traders
+                    followerAum: crowding.get(agg.symbol)?.followerAum ?? 0,
+                    followerCopiers: crowding.get(agg.symbol)?.followerCopiers ?? 0,
+                    crowdingPct: crowding.get(agg.symbol)?.crowdingPct ?? 0,
                     // YOL 2: P&L and timing aggregates
                     totalUnrealizedPnl: Math.round(totalUnrealizedPnl * 100) / 100,
                     avgRoe,
@@ -2273,6 +2449,7 @@ export async function signalsRoutes(fastify: FastifyInstance) {
                 totalSymbols: results.length,
                 totalTraders: latestIngests.length,
                 filters: {
+                    platform,
                     timeRange,
                     side,
                     minTraders: minTradersNum,
@@ -2293,6 +2470,14 @@ export async function signalsRoutes(fastify: FastifyInstance) {
         const { symbol } = request.params;
         const { timeRange = '24h', segment = 'BOTH' } = request.query;
 
+        const platform = resolvePlatform(request.query.platform);
+        if (!platform) {
+            return reply.status(400).send({
+                success: false,
+                error: `Unsupported platform: ${request.query.platform}`,
+            });
+        }
+
         const timeRangeMs = getTimeRangeMs(timeRange);
         const segmentFilter = parseSegmentFilter(segment);
         const cutoffTime = timeRangeMs === Infinity
@@ -2302,12 +2487,13 @@ export async function signalsRoutes(fastify: FastifyInstance) {
         const targetSymbol = String(symbol || '').toUpperCase();
 
         // Get latest ingests for each trader
-        const latestIngests = await prisma.$queryRaw<Array<{ id: string; leadId: string; payload: any }>>`
-      SELECT DISTINCT ON ("leadId") id, "leadId", payload
+        const latestIngests = await hydrateRawIngests(await prisma.$queryRaw<Array<{ id: string; leadId: string; payload: any; sectionHashes: unknown }>>`
+      SELECT DISTINCT ON ("leadId") id, "leadId", payload, "sectionHashes"
       FROM "RawIngest"
-      WHERE "fetchedAt" >= ${cutoffTime}
+      WHERE platform = ${platform}
+        AND "fetchedAt" >= ${cutoffTime}
       ORDER BY "leadId", "fetchedAt" DESC
-    `;
+    `);
 
         // FAZ 1: Batch-fetch weights + segment
         const leadIds = latestIngests.map(i => i.leadId);
@@ -2355,17 +2541,15 @@ export async function signalsRoutes(fastify: FastifyInstance) {
         for (const ingest of latestIngests) {
             if (!ingest.payload) continue;
 
-            const payload = ingest.payload;
-            const portfolio = payload.portfolioDetail || {};
-            const positions = payload.activePositions || [];
-            // const orders = payload.orderHistory?.allOrders || []; // Unused for now
+            const profile = readPayloadProfile(platform, ingest.payload);
+            const { positions } = readPayloadSignals(platform, ingest.payload);
             const lt = ltMap.get(ingest.leadId);
             const score = scoreMap.get(ingest.leadId);
             const weight = score?.traderWeight ?? null;
             const traderSegment = resolveSegment(lt?.positionShow ?? null);
             if (!shouldIncludeSegment(traderSegment, segmentFilter)) continue;
-            const nickname = portfolio.nickname || lt?.nickname || `Trader ${ingest.leadId.slice(-6)}`;
-            const avatarUrl = portfolio.avatarUrl || '';
+            const nickname = profile.nickname || lt?.nickname || `Trader ${ingest.leadId.slice(-6)}`;
+            const avatarUrl = profile.avatarUrl || '';
 
             if (traderSegment !== 'HIDDEN') {
                 for (const pos of positions) {
@@ -2421,7 +2605,7 @@ export async function signalsRoutes(fastify: FastifyInstance) {
             // Get HIDDEN trader positions from PositionState table (matches heat map logic)
             const hiddenPosition = await prisma.positionState.findFirst({
                 where: {
-                    platform: 'binance',
+                    platform,
                     leadId: ingest.leadId,
                     symbol: targetSymbol,
                     status: 'ACTIVE',
@@ -2529,7 +2713,7 @@ export async function signalsRoutes(fastify: FastifyInstance) {
                 },
                 traders
             },
-            meta: { timeRange, segment: segmentFilter }
+            meta: { timeRange, segment: segmentFilter, platform }
         });
     });
 
@@ -2541,11 +2725,11 @@ export async function signalsRoutes(fastify: FastifyInstance) {
         const includePerformance = request.query.includePerformance === 'true';
         const daysBack = parseInt(request.query.daysBack || '30');
         // Get latest ingest for each trader
-        const latestIngests = await prisma.$queryRaw<Array<{ id: string; leadId: string; payload: any; fetchedAt: Date }>>`
-      SELECT DISTINCT ON ("leadId") id, "leadId", payload, "fetchedAt"
+        const latestIngests = await hydrateRawIngests(await prisma.$queryRaw<Array<{ id: string; leadId: string; payload: any; sectionHashes: unknown; fetchedAt: Date }>>`
+      SELECT DISTINCT ON ("leadId") id, "leadId", payload, "sectionHashes", "fetchedAt"
       FROM "RawIngest"
       ORDER BY "leadId", "fetchedAt" DESC
-    `;
+    `);
 
         // Batch-fetch LeadTrader + TraderScore for segment/weight data
         const leadIds = latestIngests.map(i => i.leadId);
@@ -2648,18 +2832,18 @@ export async function signalsRoutes(fastify: FastifyInstance) {
             ? new Date(0)
             : new Date(Date.now() - timeRangeMs);
 
-        const latestIngests = timeRangeMs === Infinity
-            ? await prisma.$queryRaw<Array<{ id: string; leadId: string; payload: any; fetchedAt: Date }>>`
-        SELECT DISTINCT ON ("leadId") id, "leadId", payload, "fetchedAt"
+        const latestIngests = await hydrateRawIngests(timeRangeMs === Infinity
+            ? await prisma.$queryRaw<Array<{ id: string; leadId: string; payload: any; sectionHashes: unknown; fetchedAt: Date }>>`
+        SELECT DISTINCT ON ("leadId") id, "leadId", payload, "sectionHashes", "fetchedAt"
         FROM "RawIngest"
         ORDER BY "leadId", "fetchedAt" DESC
       `
-            : await prisma.$queryRaw<Array<{ id: string; leadId: string; payload: any; fetchedAt: Date }>>`
-        SELECT DISTINCT ON ("leadId") id, "leadId", payload, "fetchedAt"
+            : await prisma.$queryRaw<Array<{ id: string; leadId: string; payload: any; sectionHashes: unknown; fetchedAt: Date }>>`
+        SELECT DISTINCT ON ("leadId") id, "leadId", payload, "sectionHashes", "fetchedAt"
         FROM "RawIngest"
         WHERE "fetchedAt" >= ${cutoffTime}
         ORDER BY "leadId", "fetchedAt" DESC
-      `;
+      `);
 
         const leadIds = latestIngests.map(i => i.leadId);
         const [leadTraders, traderScores] = await Promise.all([
@@ -2944,12 +3128,14 @@ export async function signalsRoutes(fastify: FastifyInstance) {
         });
     });
 
-    // GET /signals/events/feed - Real event timeline (OPEN/CLOSE from Event table)
+    // GET /signals/events/feed - Real event timeline (OPEN/CLOSE from Event table, ADD/REDUCE from PositionLeg, FLIP_TO_* from PositionFlip)
     fastify.get('/signals/events/feed', async (
         request: FastifyRequest<{ Querystring: FeedQuery }>,
         reply: FastifyReply
     ) => {
-        const { limit = '100', symbol, timeRange = '24h', segment = 'BOTH' } = request.query;
+        const { limit = '100', symbol, timeRange = '24h', segment = 'BOTH', legs = 'true', flips = 'true' } = request.query;
+        const includeLegs = legs !== 'false';
+        const includeFlips = flips !== 'false';
         const limitNum = Math.min(parseInt(limit) || 100, 500); // Max 500
         const symbolFilter = (symbol || '').trim().toUpperCase();
         const timeRangeMs = getTimeRangeMs(timeRange);
@@ -2974,25 +3160,54 @@ export async function signalsRoutes(fastify: FastifyInstance) {
             take: limitNum * 2, // Fetch extra in case of segment filtering
         });
 
+        // Scale-ins / scale-outs detected between snapshots
+        const positionLegs = includeLegs
+            ? await getRecentPositionLegs({
+                since: cutoffTime,
+                symbol: symbolFilter || undefined,
+                limit: limitNum * 2,
+            })
+            : [];
+
+        // Close-then-open on the other side within one scrape window
+        const positionFlips = includeFlips
+            ? await getRecentPositionFlips({
+                since: cutoffTime,
+                symbol: symbolFilter || undefined,
+                limit: limitNum * 2,
+            })
+            : [];
+
         // Get trader scores for all unique leadIds
-        const leadIds = [...new Set(events.map(e => e.leadId))];
-        const traderScores = await prisma.traderScore.findMany({
-            where: { leadId: { in: leadIds } },
-            select: {
-                leadId: true,
-                traderWeight: true,
-                qualityScore: true,
-                confidence: true,
-                winRate: true,
-            },
-        });
+        const leadIds = [...new Set([...events, ...positionLegs, ...positionFlips].map(e => e.leadId))];
+        const [traderScores, feedTraders] = await Promise.all([
+            prisma.traderScore.findMany({
+                where: { leadId: { in: leadIds } },
+                select: {
+                    leadId: true,
+                    traderWeight: true,
+                    qualityScore: true,
+                    confidence: true,
+                    winRate: true,
+                },
+            }),
+            prisma.leadTrader.findMany({
+                where: { id: { in: [...new Set([...positionLegs, ...positionFlips].map(l => l.leadId))] } },
+                select: { id: true, nickname: true, positionShow: true },
+            }),
+        ]);
         const scoreMap = new Map(traderScores.map(s => [s.leadId, s]));
+        const feedTraderMap = new Map(feedTraders.map(t => [t.id, t]));
 
         interface EventFeedItem {
             eventId: string;
             leadId: string;
             nickname: string;
-            eventType: 'OPEN_LONG' | 'OPEN_SHORT' | 'CLOSE_LONG' | 'CLOSE_SHORT';
+            eventType: 'OPEN_LONG' | 'OPEN_SHORT' | 'CLOSE_LONG' | 'CLOSE_SHORT'
+                | 'ADD_LONG' | 'ADD_SHORT' | 'REDUCE_LONG' | 'REDUCE_SHORT'
+                | 'FLIP_TO_LONG' | 'FLIP_TO_SHORT';
+            source: 'ORDER_HISTORY' | 'POSITION_LEG' | 'POSITION_FLIP';
+            positionStateId: string | null;
             symbol: string;
             price: number;
             amount: number;
@@ -3006,29 +3221,76 @@ export async function signalsRoutes(fastify: FastifyInstance) {
             winRate: number | null;
         }
 
-        const feed: EventFeedItem[] = [];
-
-        for (const event of events) {
-            const positionShow = event.leadTrader?.positionShow ?? null;
-            const traderSegment = resolveSegment(positionShow);
-
-            // Apply segment filter
-            if (!shouldIncludeSegment(traderSegment, segmentFilter)) continue;
-
-            const score = scoreMap.get(event.leadId);
-            const nickname = event.leadTrader?.nickname || `Trader ${event.leadId.slice(-6)}`;
+        type FeedCandidate = Omit<EventFeedItem, 'segment' | 'traderWeight' | 'qualityScore' | 'confidence' | 'winRate'> & {
+            positionShow: boolean | null;
+        };
 
-            feed.push({
+        const candidates: FeedCandidate[] = [
+            ...events.map((event): FeedCandidate => ({
                 eventId: event.id,
                 leadId: event.leadId,
-                nickname,
+                nickname: event.leadTrader?.nickname || `Trader ${event.leadId.slice(-6)}`,
                 eventType: event.eventType as 'OPEN_LONG' | 'OPEN_SHORT' | 'CLOSE_LONG' | 'CLOSE_SHORT',
+                source: 'ORDER_HISTORY',
+                positionStateId: null,
                 symbol: event.symbol,
                 price: event.price || 0,
                 amount: event.amount || 0,
                 leverage: null, // Events don't track leverage
                 realizedPnl: event.realizedPnl,
                 eventTime: event.eventTime ? event.eventTime.getTime() : Date.now(),
+                positionShow: event.leadTrader?.positionShow ?? null,
+            })),
+            ...positionLegs.map((leg): FeedCandidate => {
+                const trader = feedTraderMap.get(leg.leadId);
+                return {
+                    eventId: leg.id,
+                    leadId: leg.leadId,
+                    nickname: trader?.nickname || `Trader ${leg.leadId.slice(-6)}`,
+                    eventType: `${leg.kind}_${leg.direction}` as 'ADD_LONG' | 'ADD_SHORT' | 'REDUCE_LONG' | 'REDUCE_SHORT',
+                    source: 'POSITION_LEG',
+                    positionStateId: leg.positionStateId,
+                    symbol: leg.symbol,
+                    price: leg.markPrice ?? leg.inferredEntryPrice,
+                    amount: Math.abs(leg.deltaAmount),
+                    leverage: leg.positionState.leverage,
+                    realizedPnl: null,
+                    eventTime: leg.detectedAt.getTime(),
+                    positionShow: trader?.positionShow ?? null,
+                };
+            }),
+            ...positionFlips.map((flip): FeedCandidate => {
+                const trader = feedTraderMap.get(flip.leadId);
+                return {
+                    eventId: flip.id,
+                    leadId: flip.leadId,
+                    nickname: trader?.nickname || `Trader ${flip.leadId.slice(-6)}`,
+                    eventType: flip.flipType as 'FLIP_TO_LONG' | 'FLIP_TO_SHORT',
+                    source: 'POSITION_FLIP',
+                    positionStateId: flip.openedStateId,
+                    symbol: flip.symbol,
+                    price: flip.entryPrice ?? 0,
+                    amount: flip.amount ?? 0,
+                    leverage: null,
+                    realizedPnl: null,
+                    eventTime: flip.openedAt.getTime(),
+                    positionShow: trader?.positionShow ?? null,
+                };
+            }),
+        ].sort((a, b) => b.eventTime - a.eventTime);
+
+        const feed: EventFeedItem[] = [];
+
+        for (const { positionShow, ...item } of candidates) {
+            const traderSegment = resolveSegment(positionShow);
+
+            // Apply segment filter
+            if (!shouldIncludeSegment(traderSegment, segmentFilter)) continue;
+
+            const score = scoreMap.get(item.leadId);
+
+            feed.push({
+                ...item,
                 segment: traderSegment,
                 traderWeight: score?.traderWeight ?? null,
                 qualityScore: score?.qualityScore ?? null,
@@ -3049,6 +3311,8 @@ export async function signalsRoutes(fastify: FastifyInstance) {
                 segment: segmentFilter,
                 symbol: symbolFilter || null,
                 timeRange,
+                legs: includeLegs,
+                flips: includeFlips,
             }
         });
     });
@@ -3128,12 +3392,20 @@ export async function signalsRoutes(fastify: FastifyInstance) {
     ) => {
         const ruleRow = await getOrCreateInsightsRule();
         const rule = normalizeInsightsRule(ruleRow);
+        const platform = resolvePlatform(request.query.platform || rule.platform);
+        if (!platform) {
+            return reply.status(400).send({
+                success: false,
+                error: `Unsupported platform: ${request.query.platform}`,
+            });
+        }
         const timeRange = normalizeTimeRange(request.query.timeRange);
         const segmentFilter = parseSegmentFilter(request.query.segment);
         const top = parseTopLimit(request.query.top, 10);
         const mode = normalizeInsightsMode(request.query.mode || rule.defaultMode);
 
         const data = await runPhase6Insights({
+            platform,
             timeRange,
             segmentFilter,
             top,
@@ -3145,6 +3417,7 @@ export async function signalsRoutes(fastify: FastifyInstance) {
             success: true,
             data,
             meta: {
+                platform,
                 timeRange,
                 segment: segmentFilter,
                 top,
@@ -3164,11 +3437,15 @@ export async function signalsRoutes(fastify: FastifyInstance) {
         reply: FastifyReply,
     ) => {
         const body = request.body || ({} as SimulationOpenBody);
+        const platform = resolvePlatform(body.platform);
         const symbol = String(body.symbol || '').trim().toUpperCase();
         const direction = body.direction;
         const leverage = Number(body.leverage ?? 10);
         const marginNotional = Number(body.notional ?? 100);
 
+        if (!platform) {
+            return reply.status(400).send({ success: false, error: `Unsupported platform: ${body.platform}` });
+        }
         if (!symbol) {
             return reply.status(400).send({ success: false, error: 'symbol is required' });
         }
@@ -3184,7 +3461,7 @@ export async function signalsRoutes(fastify: FastifyInstance) {
 
         let entryPrice = Number(body.entryPrice ?? 0);
         if (!Number.isFinite(entryPrice) || entryPrice <= 0) {
-            const reference = await getReferenceEntryPrice(symbol);
+            const reference = await getPrice(symbol, null, platform);
             if (!reference) {
                 return reply.status(400).send({
                     success: false,
@@ -3204,7 +3481,7 @@ export async function signalsRoutes(fastify: FastifyInstance) {
 
         const created = await prisma.simulatedPosition.create({
             data: {
-                platform: 'binance',
+                platform,
                 symbol,
                 direction,
                 status: 'OPEN',
@@ -3235,16 +3512,19 @@ export async function signalsRoutes(fastify: FastifyInstance) {
 
         let exitPrice = Number(body.exitPrice ?? 0);
         if (!Number.isFinite(exitPrice) || exitPrice <= 0) {
-            const reference = await getReferenceEntryPrice(openPos.symbol);
+            const reference = await getPrice(openPos.symbol, null, openPos.platform);
             exitPrice = reference && reference > 0 ? reference : openPos.entryPrice;
         }
 
+        const closedAt = new Date();
+        const fundingUSDT = await accrueFunding(openPos, closedAt);
         const perf = computeSimulationPerformance({
             direction: openPos.direction as 'LONG' | 'SHORT',
             entryPrice: openPos.entryPrice,
             exitPrice,
             leverage: openPos.leverage,
             marginNotional: openPos.marginNotional,
+            fundingUSDT,
         });
 
         const updated = await prisma.simulatedPosition.update({
@@ -3252,7 +3532,7 @@ export async function signalsRoutes(fastify: FastifyInstance) {
             data: {
                 status: 'CLOSED',
                 exitPrice: round4(exitPrice),
-                closedAt: new Date(),
+                closedAt,
                 closeReason: body.reason || 'MANUAL_CLOSE',
                 closeTriggerLeadId: null,
                 closeTriggerEventType: null,
@@ -3267,10 +3547,14 @@ export async function signalsRoutes(fastify: FastifyInstance) {
 
     // POST /signals/simulation/reconcile - auto-close when first trader closes
     fastify.post('/signals/simulation/reconcile', async (
-        _request: FastifyRequest,
+        request: FastifyRequest<{ Querystring: SimulationPlatformQuery }>,
         reply: FastifyReply,
     ) => {
-        const closed = await reconcileOpenSimulatedPositions();
+        const platform = resolvePlatform(request.query.platform);
+        if (!platform) {
+            return reply.status(400).send({ success: false, error: `Unsupported platform: ${request.query.platform}` });
+        }
+        const closed = await reconcileOpenSimulatedPositions(platform);
         return reply.send({
             success: true,
             data: {
@@ -3282,10 +3566,14 @@ export async function signalsRoutes(fastify: FastifyInstance) {
 
     // GET /signals/simulation/reconcile - convenience alias
     fastify.get('/signals/simulation/reconcile', async (
-        _request: FastifyRequest,
+        request: FastifyRequest<{ Querystring: SimulationPlatformQuery }>,
         reply: FastifyReply,
     ) => {
-        const closed = await reconcileOpenSimulatedPositions();
+        const platform = resolvePlatform(request.query.platform);
+        if (!platform) {
+            return reply.status(400).send({ success: false, error: `Unsupported platform: ${request.query.platform}` });
+        }
+        const closed = await reconcileOpenSimulatedPositions(platform);
         return reply.send({
             success: true,
             data: {
@@ -3300,17 +3588,21 @@ export async function signalsRoutes(fastify: FastifyInstance) {
         request: FastifyRequest<{ Querystring: SimulationPositionsQuery }>,
         reply: FastifyReply,
     ) => {
+        const platform = resolvePlatform(request.query.platform);
+        if (!platform) {
+            return reply.status(400).send({ success: false, error: `Unsupported platform: ${request.query.platform}` });
+        }
         const status = parseSimulationStatus(request.query.status);
         const limit = Math.max(1, Math.min(parseInt(request.query.limit || '100') || 100, 500));
         const shouldReconcile = request.query.reconcile === '1' || request.query.reconcile === 'true';
 
         if (shouldReconcile) {
-            await reconcileOpenSimulatedPositions();
+            await reconcileOpenSimulatedPositions(platform);
         }
 
         const where = status === 'ALL'
-            ? { platform: 'binance' as const }
-            : { platform: 'binance' as const, status };
+            ? { platform }
+            : { platform, status };
 
         const positions = await prisma.simulatedPosition.findMany({
             where,
@@ -3321,23 +3613,28 @@ export async function signalsRoutes(fastify: FastifyInstance) {
         return reply.send({
             success: true,
             data: positions,
-            meta: { status, returned: positions.length, reconcile: shouldReconcile },
+            meta: { platform, status, returned: positions.length, reconcile: shouldReconcile },
         });
     });
 
     // GET /signals/simulation/report
     fastify.get('/signals/simulation/report', async (
-        _request: FastifyRequest,
+        request: FastifyRequest<{ Querystring: SimulationPlatformQuery }>,
         reply: FastifyReply,
     ) => {
+        const platform = resolvePlatform(request.query.platform);
+        if (!platform) {
+            return reply.status(400).send({ success: false, error: `Unsupported platform: ${request.query.platform}` });
+        }
+
         // Keep report fresh by reconciling open positions first.
-        await reconcileOpenSimulatedPositions();
+        await reconcileOpenSimulatedPositions(platform);
 
         const [all, open, closed] = await Promise.all([
-            prisma.simulatedPosition.count({ where: { platform: 'binance' } }),
-            prisma.simulatedPosition.count({ where: { platform: 'binance', status: 'OPEN' } }),
+            prisma.simulatedPosition.count({ where: { platform } }),
+            prisma.simulatedPosition.count({ where: { platform, status: 'OPEN' } }),
             prisma.simulatedPosition.findMany({
-                where: { platform: 'binance', status: 'CLOSED' },
+                where: { platform, status: 'CLOSED' },
                 orderBy: { closedAt: 'desc' },
             }),
         ]);
@@ -3384,9 +3681,11 @@ export async function signalsRoutes(fastify: FastifyInstance) {
                     avgPnl,
                     avgRoiPct,
                 },
+                excursion: summarizeExcursions(closed),
                 bySymbol,
                 recentClosed: closed.slice(0, 20),
             },
+            meta: { platform },
         });
     });
 
@@ -3408,6 +3707,13 @@ export async function signalsRoutes(fastify: FastifyInstance) {
         const body = request.body || {};
         const updateData: Record<string, unknown> = {};
 
+        if (body.platform !== undefined) {
+            const platform = resolvePlatform(body.platform);
+            if (!platform) {
+                return reply.status(400).send({ success: false, error: `Unsupported platform: ${body.platform}` });
+            }
+            updateData.platform = platform;
+        }
         if (typeof body.enabled === 'boolean') updateData.enabled = body.enabled;
         if (body.segment && ['VISIBLE', 'HIDDEN', 'BOTH'].includes(body.segment)) updateData.segment = body.segment;
         if (body.timeRange && ['1h', '4h', '24h', '7d', 'ALL'].includes(body.timeRange)) updateData.timeRange = body.timeRange;
@@ -3445,6 +3751,10 @@ export async function signalsRoutes(fastify: FastifyInstance) {
         reply: FastifyReply,
     ) => {
         const rule = await getOrCreateAutoTriggerRule();
+        const platform = resolvePlatform(request.query.platform || rule.platform);
+        if (!platform) {
+            return reply.status(400).send({ success: false, error: `Unsupported platform: ${request.query.platform}` });
+        }
         const timeRange = request.query.timeRange || rule.timeRange;
         const segmentFilter = parseSegmentFilter(request.query.segment || rule.segment);
         const minTraders = Math.max(1, parseInt(request.query.minTraders || String(rule.minTraders)) || rule.minTraders);
@@ -3460,8 +3770,10 @@ export async function signalsRoutes(fastify: FastifyInstance) {
         const equityCurve = parseBool(request.query.equityCurve);
         const numSimulations = Math.max(100, Math.min(10000, parseInt(request.query.numSimulations || '1000')));
         const persist = parseBool(request.query.persist);
+        const stopLossPct = request.query.stopLossPct ? parseFloat(request.query.stopLossPct) : NaN;
 
         const result = await runBacktestLite({
+            platform,
             timeRange,
             segmentFilter,
             minTraders,
@@ -3476,6 +3788,7 @@ export async function signalsRoutes(fastify: FastifyInstance) {
             equityCurve,
             numSimulations,
             persist,
+            stopLossPct: Number.isFinite(stopLossPct) && stopLossPct > 0 ? stopLossPct : null,
         });
         return reply.send({ success: true, data: result });
     });
@@ -3488,22 +3801,25 @@ export async function signalsRoutes(fastify: FastifyInstance) {
     ) => {
         const { leadId } = request.params;
 
-        const latestIngest = await prisma.rawIngest.findFirst({
+        const latestIngest = await hydrateRawIngest(await prisma.rawIngest.findFirst({
             where: { leadId },
             orderBy: { fetchedAt: 'desc' },
-        });
+        }));
 
         if (!latestIngest) {
             return reply.status(404).send({ success: false, error: 'Trader not found' });
         }
 
-        const metrics = computeTraderMetrics(latestIngest.payload);
+        const roundTrips = await getMetricRoundTrips(leadId, latestIngest.platform);
+        const liquidations = await getMetricLiquidations(leadId, latestIngest.platform);
+        const metrics = computeTraderMetrics(latestIngest.payload, roundTrips, liquidations);
 
         return reply.send({
             success: true,
             data: {
                 leadId,
                 nickname: metrics.nickname,
+                tradeBasis: metrics.tradeBasis,
                 tradeCounts: metrics.tradeCounts,
                 winLoss: metrics.winLoss,
                 streaks: metrics.streaks,
@@ -3512,6 +3828,7 @@ export async function signalsRoutes(fastify: FastifyInstance) {
                     avgPnlPerTrade: metrics.avgPnlPerTrade,
                 },
                 leverage: metrics.leverage,
+                liquidations: metrics.liquidations,
                 qualityScore: {
                     score: metrics.qualityScore,
                     confidence: metrics.confidence,
@@ -3646,6 +3963,45 @@ export async function signalsRoutes(fastify: FastifyInstance) {
         });
     });
 
+    // GET /signals/position-states/:id/legs - Scale-in / scale-out history of one position
+    fastify.get('/signals/position-states/:id/legs', async (
+        request: FastifyRequest<{ Params: { id: string } }>,
+        reply: FastifyReply
+    ) => {
+        const state = await getPositionStateWithLegs(request.params.id);
+        if (!state) {
+            return reply.code(404).send({ success: false, error: 'Position state not found' });
+        }
+
+        const { legs, ...position } = state;
+        const added = legs.filter(l => l.kind === 'ADD').reduce((sum, l) => sum + l.deltaAmount, 0);
+        const reduced = legs.filter(l => l.kind === 'REDUCE').reduce((sum, l) => sum - l.deltaAmount, 0);
+        // position.amount keeps Binance's sign (negative for SHORT); leg amounts are absolute
+        const initialAmount = Math.abs(position.amount);
+        const amounts = [initialAmount, ...legs.map(l => l.amount)];
+
+        return reply.send({
+            success: true,
+            data: {
+                position: {
+                    ...position,
+                    uncertaintyRange: calculateUncertaintyRange(position),
+                },
+                summary: {
+                    legs: legs.length,
+                    adds: legs.filter(l => l.kind === 'ADD').length,
+                    reduces: legs.filter(l => l.kind === 'REDUCE').length,
+                    initialAmount,
+                    currentAmount: Math.abs(position.currentAmount ?? position.amount),
+                    maxAmount: Math.max(...amounts),
+                    totalAdded: Math.round(added * 1e8) / 1e8,
+                    totalReduced: Math.round(reduced * 1e8) / 1e8,
+                },
+                legs,
+            },
+        });
+    });
+
     // GET /signals/position-states/recently-closed - Recently closed positions across all traders
     fastify.get('/signals/position-states/recently-closed', async (
         request: FastifyRequest<{
@@ -3666,6 +4022,7 @@ export async function signalsRoutes(fastify: FastifyInstance) {
             durationSeconds: pos.disappearedAt
                 ? (pos.disappearedAt.getTime() - pos.firstSeenAt.getTime()) / 1000
                 : null,
+            durationRangeSeconds: holdDurationRange(pos),
         }));
 
         // Calculate aggregate stats
@@ -3713,8 +4070,8 @@ async function buildDiagnostic(leadId: string) {
         prisma.rawIngest.findFirst({
             where: { leadId },
             orderBy: { fetchedAt: 'desc' },
-            select: { fetchedAt: true, payload: true, positionsCount: true, ordersCount: true },
-        }),
+            select: { fetchedAt: true, payload: true, sectionHashes: true, positionsCount: true, ordersCount: true },
+        }).then(hydrateRawIngest),
         prisma.event.count({
             where: {
                 leadId,
@@ -3770,6 +4127,7 @@ async function buildDiagnostic(leadId: string) {
             confidence: (score.confidence as 'low' | 'medium' | 'high') ?? 'low',
             winRate: score.winRate,
             positionShow,
+            liquidations30d: score.liquidations,
         });
         weightBreakdown = result.breakdown;
     }
@@ -25,6 +25,8 @@ import {
 } from '../services/riskCalculator.js';
 import { applySlippage } from '../services/executionModel.js'; // computeCommission unused
 import { monitorOpenPositions } from '../services/positionMonitor.js';
+import { resolvePlatform } from '../services/platformAdapter.js';
+import { getPrice } from '../services/priceFeed.js';
 import {
   // getOrCreateDefaultPortfolio, // Unused
   createPortfolio,
@@ -38,37 +40,6 @@ function round4(value: number): number {
   return Math.round(value * 10000) / 10000;
 }
 
-async function getReferenceEntryPrice(symbol: string): Promise<number | null> {
-  const s = symbol.toUpperCase();
-  const latestPositions = await prisma.positionSnapshot.findMany({
-    where: { symbol: s, platform: 'binance' },
-    orderBy: { fetchedAt: 'desc' },
-    take: 60,
-    select: { markPrice: true, entryPrice: true },
-  });
-
-  const prices = latestPositions
-    .map((p) => (p.markPrice && p.markPrice > 0 ? p.markPrice : p.entryPrice))
-    .filter((v) => Number.isFinite(v) && v > 0);
-
-  if (prices.length > 0) {
-    const avg = prices.reduce((sum, v) => sum + v, 0) / prices.length;
-    return round4(avg);
-  }
-
-  const latestEvent = await prisma.event.findFirst({
-    where: { symbol: s, platform: 'binance', price: { not: null } },
-    orderBy: [{ eventTime: 'desc' }, { fetchedAt: 'desc' }],
-    select: { price: true },
-  });
-
-  if (latestEvent?.price && latestEvent.price > 0) {
-    return round4(latestEvent.price);
-  }
-
-  return null;
-}
-
 export async function simulationRoutes(fastify: FastifyInstance) {
   // ========================================================================
   // Portfolio Management
@@ -94,33 +65,44 @@ export async function simulationRoutes(fastify: FastifyInstance) {
     }
   );
 
-  // GET /simulation/portfolios - List all portfolios
-  fastify.get('/simulation/portfolios', async (_request, reply: FastifyReply) => {
-    try {
-      const portfolios = await prisma.portfolio.findMany({
-        where: { platform: 'binance' },
-        orderBy: { createdAt: 'desc' },
-        include: {
-          metrics: true,
-          _count: {
-            select: {
-              positions: { where: { status: 'OPEN' } },
+  // GET /simulation/portfolios - List all portfolios (?platform=binance|bybit)
+  fastify.get(
+    '/simulation/portfolios',
+    async (request: FastifyRequest<{ Querystring: { platform?: string } }>, reply: FastifyReply) => {
+      try {
+        const platform = resolvePlatform(request.query.platform);
+        if (!platform) {
+          return reply.status(400).send({
+            success: false,
+            error: `Unsupported platform: ${request.query.platform}`,
+          });
+        }
+
+        const portfolios = await prisma.portfolio.findMany({
+          where: { platform },
+          orderBy: { createdAt: 'desc' },
+          include: {
+            metrics: true,
+            _count: {
+              select: {
+                positions: { where: { status: 'OPEN' } },
+              },
             },
           },
-        },
-      });
+        });
 
-      return reply.send({
-        success: true,
-        data: portfolios,
-        meta: { total: portfolios.length },
-      });
-    } catch (error) {
-      const msg = error instanceof Error ? error.message : String(error);
-      logger.error({ error: msg }, 'Failed to list portfolios');
-      return reply.status(500).send({ success: false, error: msg });
+        return reply.send({
+          success: true,
+          data: portfolios,
+          meta: { total: portfolios.length, platform },
+        });
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        logger.error({ error: msg }, 'Failed to list portfolios');
+        return reply.status(500).send({ success: false, error: msg });
+      }
     }
-  });
+  );
 
   // GET /simulation/portfolios/:id - Get portfolio details
   fastify.get(
@@ -193,7 +175,7 @@ export async function simulationRoutes(fastify: FastifyInstance) {
         }
 
         // Get current price if not provided
-        const entryPrice = params.entryPrice || await getReferenceEntryPrice(params.symbol);
+        const entryPrice = params.entryPrice || await getPrice(params.symbol, null, portfolio.platform);
         if (!entryPrice) {
           return reply.status(400).send({
             success: false,
@@ -324,7 +306,7 @@ export async function simulationRoutes(fastify: FastifyInstance) {
         }
 
         // Get entry price
-        let entryPrice = params.entryPrice || await getReferenceEntryPrice(params.symbol);
+        let entryPrice = params.entryPrice || await getPrice(params.symbol, null, portfolio.platform);
         if (!entryPrice) {
           return reply.status(400).send({
             success: false,
@@ -448,7 +430,7 @@ export async function simulationRoutes(fastify: FastifyInstance) {
         // Create position
         const position = await prisma.simulatedPosition.create({
           data: {
-            platform: 'binance',
+            platform: portfolio.platform,
             symbol: params.symbol,
             direction: params.direction,
             status: 'OPEN',
@@ -134,7 +134,7 @@ export async function symbolsRoutes(fastify: FastifyInstance) {
                                     type: 'object',
                                     properties: {
                                         eventType: { type: 'string' },
-                                        eventTimeText: { type: 'string' },
+                                        eventTimeText: { type: 'string', nullable: true },
                                         eventTime: { type: 'string', nullable: true },
                                         leadId: { type: 'string' },
                                         price: { type: 'number', nullable: true },
@@ -2,12 +2,34 @@ import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import {
     tradersTopQuerySchema,
     traderPositionsQuerySchema,
+    traderTradesQuerySchema,
+    traderProfileHistoryQuerySchema,
     type TradersTopQuery,
     type TraderPositionsQuery,
+    type TraderTradesQuery,
+    type TraderProfileHistoryQuery,
 } from '../schemas/ingest.js';
 import { getTopTraders } from '../services/traderScore.js';
 import { getLatestPositionsForTrader } from '../services/position.js';
 import { getLeadTrader } from '../services/leadTrader.js';
+import { listRoundTrips } from '../services/tradeRoundTrip.js';
+import { getProfileHistory, PROFILE_FIELDS } from '../services/traderProfile.js';
+import { getCopierStats } from '../services/copierStats.js';
+
+const copierFlowSchema = {
+    type: 'object',
+    properties: {
+        samples: { type: 'integer' },
+        partial: { type: 'boolean' },
+        copierInflow: { type: 'integer' },
+        copierOutflow: { type: 'integer' },
+        copierNetChange: { type: 'integer' },
+        aumStart: { type: 'number', nullable: true },
+        aumEnd: { type: 'number', nullable: true },
+        aumChange: { type: 'number', nullable: true },
+        aumGrowthPct: { type: 'number', nullable: true },
+    },
+};
 
 export async function tradersRoutes(fastify: FastifyInstance) {
     // GET /traders/top - Get top traders by score
@@ -84,7 +106,7 @@ export async function tradersRoutes(fastify: FastifyInstance) {
         '/traders/:leadId',
         {
             schema: {
-                description: 'Get trader information by leadId',
+                description: 'Get trader information by leadId, with the latest copier count / AUM and copier flows and AUM growth over 24h / 7d / 30d (copiers is null until a sample is stored)',
                 tags: ['Traders'],
                 params: {
                     type: 'object',
@@ -112,6 +134,25 @@ export async function tradersRoutes(fastify: FastifyInstance) {
                                     score30d: { type: 'number', nullable: true },
                                     createdAt: { type: 'string' },
                                     updatedAt: { type: 'string' },
+                                    copiers: {
+                                        type: 'object',
+                                        nullable: true,
+                                        properties: {
+                                            sampledAt: { type: 'string' },
+                                            copierCount: { type: 'integer', nullable: true },
+                                            maxCopyCount: { type: 'integer', nullable: true },
+                                            aumAmount: { type: 'number', nullable: true },
+                                            marginBalance: { type: 'number', nullable: true },
+                                            flows: {
+                                                type: 'object',
+                                                properties: {
+                                                    '24h': copierFlowSchema,
+                                                    '7d': copierFlowSchema,
+                                                    '30d': copierFlowSchema,
+                                                },
+                                            },
+                                        },
+                                    },
                                 },
                             },
                         },
@@ -145,6 +186,8 @@ export async function tradersRoutes(fastify: FastifyInstance) {
                     });
                 }
 
+                const copiers = await getCopierStats(leadId);
+
                 return reply.send({
                     success: true,
                     data: {
@@ -153,6 +196,10 @@ export async function tradersRoutes(fastify: FastifyInstance) {
                         score30d: trader.traderScore?.score30d ?? null,
                         createdAt: trader.createdAt.toISOString(),
                         updatedAt: trader.updatedAt.toISOString(),
+                        copiers: copiers && {
+                            ...copiers,
+                            sampledAt: copiers.sampledAt.toISOString(),
+                        },
                     },
                 });
             } catch (error) {
@@ -277,4 +324,278 @@ export async function tradersRoutes(fastify: FastifyInstance) {
             }
         }
     );
+
+    // GET /traders/:leadId/trades - Round-trip trades rebuilt from order history
+    fastify.get(
+        '/traders/:leadId/trades',
+        {
+            schema: {
+                description: 'Round-trip trades of a trader (open → flat per symbol / side), rebuilt from order history; newest first. The summary covers the CLOSED trips returned.',
+                tags: ['Traders'],
+                params: {
+                    type: 'object',
+                    required: ['leadId'],
+                    properties: {
+                        leadId: { type: 'string' },
+                    },
+                },
+                querystring: {
+                    type: 'object',
+                    properties: {
+                        platform: { type: 'string', default: 'binance' },
+                        status: { type: 'string', enum: ['OPEN', 'CLOSED'] },
+                        symbol: { type: 'string' },
+                        limit: { type: 'integer', minimum: 1, maximum: 500, default: 100 },
+                    },
+                },
+                response: {
+                    200: {
+                        type: 'object',
+                        properties: {
+                            success: { type: 'boolean' },
+                            data: {
+                                type: 'array',
+                                items: {
+                                    type: 'object',
+                                    properties: {
+                                        id: { type: 'string' },
+                                        symbol: { type: 'string' },
+                                        direction: { type: 'string' },
+                                        status: { type: 'string' },
+                                        openFills: { type: 'integer' },
+                                        closeFills: { type: 'integer' },
+                                        openedAt: { type: 'string' },
+                                        closedAt: { type: 'string', nullable: true },
+                                        entryPrice: { type: 'number' },
+                                        exitPrice: { type: 'number', nullable: true },
+                                        openedSize: { type: 'number' },
+                                        closedSize: { type: 'number' },
+                                        maxSize: { type: 'number' },
+                                        realizedPnl: { type: 'number' },
+                                        holdSeconds: { type: 'integer', nullable: true },
+                                        partiallyClosed: { type: 'boolean' },
+                                    },
+                                },
+                            },
+                            meta: {
+                                type: 'object',
+                                properties: {
+                                    leadId: { type: 'string' },
+                                    count: { type: 'integer' },
+                                    closed: { type: 'integer' },
+                                    wins: { type: 'integer' },
+                                    losses: { type: 'integer' },
+                                    winRate: { type: 'number', nullable: true },
+                                    totalRealizedPnl: { type: 'number' },
+                                    avgHoldSeconds: { type: 'integer', nullable: true },
+                                    partiallyClosed: { type: 'integer' },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        async (
+            request: FastifyRequest<{
+                Params: { leadId: string };
+                Querystring: TraderTradesQuery;
+            }>,
+            reply: FastifyReply
+        ) => {
+            const { leadId } = request.params;
+            const parseResult = traderTradesQuerySchema.safeParse(request.query);
+
+            if (!parseResult.success) {
+                return reply.code(400).send({
+                    success: false,
+                    error: 'Invalid query parameters',
+                    details: parseResult.error.errors,
+                });
+            }
+
+            try {
+                const trader = await getLeadTrader(leadId);
+
+                if (!trader) {
+                    return reply.code(404).send({
+                        success: false,
+                        error: 'Trader not found',
+                    });
+                }
+
+                const trips = await listRoundTrips({ leadId, ...parseResult.data });
+                const closed = trips.filter((t) => t.status === 'CLOSED');
+                const wins = closed.filter((t) => t.realizedPnl > 0).length;
+                const losses = closed.filter((t) => t.realizedPnl < 0).length;
+                const holds = closed.flatMap((t) => (t.holdSeconds === null ? [] : [t.holdSeconds]));
+
+                return reply.send({
+                    success: true,
+                    data: trips.map((t) => ({
+                        id: t.id,
+                        symbol: t.symbol,
+                        direction: t.direction,
+                        status: t.status,
+                        openFills: t.openFills,
+                        closeFills: t.closeFills,
+                        openedAt: t.openedAt.toISOString(),
+                        closedAt: t.closedAt?.toISOString() ?? null,
+                        entryPrice: t.entryPrice,
+                        exitPrice: t.exitPrice,
+                        openedSize: t.openedSize,
+                        closedSize: t.closedSize,
+                        maxSize: t.maxSize,
+                        realizedPnl: t.realizedPnl,
+                        holdSeconds: t.holdSeconds,
+                        partiallyClosed: t.partiallyClosed,
+                    })),
+                    meta: {
+                        leadId,
+                        count: trips.length,
+                        closed: closed.length,
+                        wins,
+                        losses,
+                        winRate: wins + losses > 0 ? Math.round((wins / (wins + losses)) * 10000) / 10000 : null,
+                        totalRealizedPnl: Math.round(closed.reduce((sum, t) => sum + t.realizedPnl, 0) * 100) / 100,
+                        avgHoldSeconds: holds.length > 0
+                            ? Math.round(holds.reduce((sum, h) => sum + h, 0) / holds.length)
+                            : null,
+                        partiallyClosed: closed.filter((t) => t.partiallyClosed).length,
+                    },
+                });
+            } catch (error) {
+                fastify.log.error(error, 'Error fetching trader trades');
+                return reply.code(500).send({
+                    success: false,
+                    error: 'Internal server error',
+                });
+            }
+        }
+    );
+
+    // GET /traders/:leadId/profile-history - Profile changes (visibility, AUM, copiers, ...)
+    fastify.get(
+        '/traders/:leadId/profile-history',
+        {
+            schema: {
+                description: 'Snapshots of a trader\'s profile (positionShow, nickname, AUM / margin balance, copier counts, profit-share rate, badge, status), one per change, newest first. `field` keeps only snapshots where that field changed. The first snapshot has no changes.',
+                tags: ['Traders'],
+                params: {
+                    type: 'object',
+                    required: ['leadId'],
+                    properties: {
+                        leadId: { type: 'string' },
+                    },
+                },
+                querystring: {
+                    type: 'object',
+                    properties: {
+                        field: { type: 'string', enum: [...PROFILE_FIELDS] },
+                        limit: { type: 'integer', minimum: 1, maximum: 500, default: 100 },
+                    },
+                },
+                response: {
+                    200: {
+                        type: 'object',
+                        properties: {
+                            success: { type: 'boolean' },
+                            data: {
+                                type: 'array',
+                                items: {
+                                    type: 'object',
+                                    properties: {
+                                        id: { type: 'string' },
+                                        capturedAt: { type: 'string' },
+                                        positionShow: { type: 'boolean', nullable: true },
+                                        nickname: { type: 'string', nullable: true },
+                                        aumAmount: { type: 'number', nullable: true },
+                                        marginBalance: { type: 'number', nullable: true },
+                                        copierCount: { type: 'integer', nullable: true },
+                                        maxCopyCount: { type: 'integer', nullable: true },
+                                        profitSharingRate: { type: 'number', nullable: true },
+                                        badgeName: { type: 'string', nullable: true },
+                                        status: { type: 'string', nullable: true },
+                                        changedFields: { type: 'array', items: { type: 'string' } },
+                                        changes: { type: 'object', nullable: true, additionalProperties: true },
+                                    },
+                                },
+                            },
+                            meta: {
+                                type: 'object',
+                                properties: {
+                                    leadId: { type: 'string' },
+                                    count: { type: 'integer' },
+                                    positionShow: { type: 'boolean', nullable: true },
+                                    visibilityChanges: { type: 'integer' },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        async (
+            request: FastifyRequest<{
+                Params: { leadId: string };
+                Querystring: TraderProfileHistoryQuery;
+            }>,
+            reply: FastifyReply
+        ) => {
+            const { leadId } = request.params;
+            const parseResult = traderProfileHistoryQuerySchema.safeParse(request.query);
+
+            if (!parseResult.success) {
+                return reply.code(400).send({
+                    success: false,
+                    error: 'Invalid query parameters',
+                    details: parseResult.error.errors,
+                });
+            }
+
+            try {
+                const trader = await getLeadTrader(leadId);
+
+                if (!trader) {
+                    return reply.code(404).send({
+                        success: false,
+                        error: 'Trader not found',
+                    });
+                }
+
+                const snapshots = await getProfileHistory({ leadId, ...parseResult.data });
+
+                return reply.send({
+                    success: true,
+                    data: snapshots.map((s) => ({
+                        id: s.id,
+                        capturedAt: s.capturedAt.toISOString(),
+                        positionShow: s.positionShow,
+                        nickname: s.nickname,
+                        aumAmount: s.aumAmount,
+                        marginBalance: s.marginBalance,
+                        copierCount: s.copierCount,
+                        maxCopyCount: s.maxCopyCount,
+                        profitSharingRate: s.profitSharingRate,
+                        badgeName: s.badgeName,
+                        status: s.status,
+                        changedFields: s.changedFields,
+                        changes: s.changes,
+                    })),
+                    meta: {
+                        leadId,
+                        count: snapshots.length,
+                        positionShow: trader.positionShow,
+                        visibilityChanges: snapshots.filter((s) => s.changedFields.includes('positionShow')).length,
+                    },
+                });
+            } catch (error) {
+                fastify.log.error(error, 'Error fetching trader profile history');
+                return reply.code(500).send({
+                    success: false,
+                    error: 'Internal server error',
+                });
+            }
+        }
+    );
 }
@@ -0,0 +1,162 @@
+/**
+ * Zod schemas for operator-only /admin/* endpoints
+ */
+
+import { z } from 'zod';
+
+// ────────────────────────────────────────────────────────────
+// Order history backfill
+// ────────────────────────────────────────────────────────────
+
+export const backfillRequestSchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).optional(),
+});
+export type BackfillRequest = z.infer<typeof backfillRequestSchema>;
+
+// ────────────────────────────────────────────────────────────
+// Tracked trader roster
+// ────────────────────────────────────────────────────────────
+
+const leadIdSchema = z.string().regex(/^\d{6,32}$/, 'leadId must be a numeric Binance portfolio ID');
+const tagsSchema = z.array(z.string().trim().min(1).max(40)).max(20);
+
+export const trackedTradersQuerySchema = z.object({
+  platform: z.string().default('binance'),
+  enabled: z.enum(['true', 'false']).transform((v) => v === 'true').optional(),
+  tag: z.string().optional(),
+});
+export type TrackedTradersQuery = z.input<typeof trackedTradersQuerySchema>;
+
+export const createTrackedTraderSchema = z.object({
+  leadId: leadIdSchema,
+  platform: z.string().default('binance'),
+  enabled: z.boolean().default(true),
+  tags: tagsSchema.default([]),
+  notes: z.string().max(2000).nullable().optional(),
+  scrapePriority: z.number().int().min(-100).max(100).default(0),
+});
+export type CreateTrackedTraderRequest = z.input<typeof createTrackedTraderSchema>;
+
+export const updateTrackedTraderSchema = z.object({
+  enabled: z.boolean().optional(),
+  tags: tagsSchema.optional(),
+  notes: z.string().max(2000).nullable().optional(),
+  scrapePriority: z.number().int().min(-100).max(100).optional(),
+}).refine((v) => Object.keys(v).length > 0, { message: 'At least one field is required' });
+export type UpdateTrackedTraderRequest = z.input<typeof updateTrackedTraderSchema>;
+
+// ────────────────────────────────────────────────────────────
+// Scrape history
+// ────────────────────────────────────────────────────────────
+
+export const scrapeCyclesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+  includeAttempts: z.enum(['true', 'false']).transform((v) => v === 'true').default('false'),
+});
+export type ScrapeCyclesQuery = z.input<typeof scrapeCyclesQuerySchema>;
+
+export const traderAttemptsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  status: z.enum(['SUCCESS', 'PARTIAL', 'SCRAPE_FAILED', 'PIPELINE_FAILED']).optional(),
+});
+export type TraderAttemptsQuery = z.input<typeof traderAttemptsQuerySchema>;
+
+// ────────────────────────────────────────────────────────────
+// Scheduler control
+// ────────────────────────────────────────────────────────────
+
+export const schedulerSettingsSchema = z.object({
+  intervalMs: z.number().int().min(5_000).max(24 * 60 * 60 * 1000).optional(),
+  concurrency: z.number().int().min(1).max(50).optional(),
+}).refine((v) => Object.keys(v).length > 0, { message: 'At least one field is required' });
+export type SchedulerSettingsRequest = z.input<typeof schedulerSettingsSchema>;
+
+// ────────────────────────────────────────────────────────────
+// Leaderboard discovery
+// ────────────────────────────────────────────────────────────
+
+export const discoveryRunSchema = z.object({
+  maxPages: z.number().int().min(1).max(50).optional(),
+  timeRange: z.enum(['7D', '30D', '90D']).optional(),
+  /** Overrides for this run only; unset fields come from config.discovery.criteria */
+  criteria: z.object({
+    minRoiPct: z.number().optional(),
+    minDaysActive: z.number().int().min(0).optional(),
+    maxDrawdownPct: z.number().min(0).optional(),
+    minAumUsdt: z.number().min(0).optional(),
+    requirePositionShow: z.boolean().optional(),
+  }).strict().optional(),
+});
+export type DiscoveryRunRequest = z.input<typeof discoveryRunSchema>;
+
+export const candidatesQuerySchema = z.object({
+  platform: z.string().default('binance'),
+  status: z.enum(['CANDIDATE', 'APPROVED', 'REJECTED']).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+export type CandidatesQuery = z.input<typeof candidatesQuerySchema>;
+
+export const approveCandidateSchema = z.object({
+  tags: tagsSchema.default([]),
+  notes: z.string().max(2000).nullable().optional(),
+  scrapePriority: z.number().int().min(-100).max(100).default(0),
+});
+export type ApproveCandidateRequest = z.input<typeof approveCandidateSchema>;
+
+export const rejectCandidateSchema = z.object({
+  note: z.string().max(2000).nullable().optional(),
+});
+export type RejectCandidateRequest = z.input<typeof rejectCandidateSchema>;
+
+// ────────────────────────────────────────────────────────────
+// Retention
+// ────────────────────────────────────────────────────────────
+
+export const retentionReportQuerySchema = z.object({
+  runs: z.coerce.number().int().min(1).max(100).default(10),
+});
+export type RetentionReportQuery = z.input<typeof retentionReportQuerySchema>;
+
+// ────────────────────────────────────────────────────────────
+// Event time migration
+// ────────────────────────────────────────────────────────────
+
+export const eventTimeMigrationSchema = z.object({
+  dryRun: z.boolean().default(false),
+});
+export type EventTimeMigrationRequest = z.input<typeof eventTimeMigrationSchema>;
+
+// ────────────────────────────────────────────────────────────
+// Schema drift
+// ────────────────────────────────────────────────────────────
+
+export const schemaDriftQuerySchema = z.object({
+  platform: z.string().default('binance'),
+  kind: z.enum(['NEW_FIELD', 'MISSING_FIELD', 'TYPE_CHANGE']).optional(),
+  endpoint: z.string().optional(),
+  sinceHours: z.coerce.number().int().min(1).max(24 * 365).optional(),
+  allVersions: z.enum(['true', 'false']).transform((v) => v === 'true').default('false'),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+export type SchemaDriftQuery = z.input<typeof schemaDriftQuerySchema>;
+
+// ────────────────────────────────────────────────────────────
+// Klines
+// ────────────────────────────────────────────────────────────
+
+export const klineBackfillSchema = z.object({
+  symbols: z.array(z.string().trim().regex(/^[A-Za-z0-9]{2,30}$/, 'Invalid symbol')).max(200).optional(),
+  intervals: z.array(z.enum(['1m', '5m'])).min(1).optional(),
+  days: z.number().int().min(1).max(365).default(30),
+});
+export type KlineBackfillRequest = z.input<typeof klineBackfillSchema>;
+
+// ────────────────────────────────────────────────────────────
+// Round trips
+// ────────────────────────────────────────────────────────────
+
+export const roundTripRebuildSchema = z.object({
+  leadIds: z.array(z.string().trim().min(1)).max(1000).optional(),
+});
+export type RoundTripRebuildRequest = z.input<typeof roundTripRebuildSchema>;
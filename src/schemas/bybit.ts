@@ -0,0 +1,57 @@
+/**
+ * Zod schemas for the Bybit-style copy-trading payload (bybitAdapter.ts)
+ *
+ * Mirrors Bybit's conventions: "Buy"/"Sell" sides, numbers as strings,
+ * epoch-ms timestamps as strings, reduceOnly marking closing fills.
+ */
+
+import { z } from 'zod';
+
+const numericString = z.union([z.string(), z.number()]).transform(String);
+
+export const bybitPositionSchema = z.object({
+  symbol: z.string(),
+  side: z.enum(['Buy', 'Sell']),
+  size: numericString,
+  entryPrice: numericString,
+  markPrice: numericString,
+  leverage: numericString,
+  positionValue: numericString.optional(),
+  unrealisedPnl: numericString.optional(),
+  /** 0 = cross margin, 1 = isolated */
+  tradeMode: z.number().int().optional(),
+});
+export type BybitPosition = z.infer<typeof bybitPositionSchema>;
+
+export const bybitOrderSchema = z.object({
+  orderId: z.string(),
+  symbol: z.string(),
+  side: z.enum(['Buy', 'Sell']),
+  reduceOnly: z.boolean(),
+  execQty: numericString,
+  avgPrice: numericString,
+  closedPnl: numericString.optional(),
+  createdTime: numericString,
+  updatedTime: numericString,
+});
+export type BybitOrder = z.infer<typeof bybitOrderSchema>;
+
+export const bybitLeaderSchema = z.object({
+  nickName: z.string().optional(),
+  avatar: z.string().optional(),
+  /** false when the leader hides open positions */
+  openPositionVisible: z.boolean().optional(),
+});
+
+export const bybitPayloadSchema = z.object({
+  leadId: z.string(),
+  fetchedAt: z.string().datetime(),
+  timeRange: z.string().optional(),
+  leaderInfo: bybitLeaderSchema.nullable().optional(),
+  positions: z.array(bybitPositionSchema).default([]),
+  orders: z.array(bybitOrderSchema).default([]),
+});
+export type BybitPayload = z.infer<typeof bybitPayloadSchema>;
+
+/** On-disk fixture: a payload without the fetch envelope */
+export const bybitFixtureSchema = bybitPayloadSchema.omit({ leadId: true, fetchedAt: true });
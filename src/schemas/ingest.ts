@@ -99,7 +99,9 @@ export type EventType = z.infer<typeof eventTypeEnum>;
 export const eventSchema = z.object({
     platform: z.string().default('binance'),
     leadId: z.string(),
-    eventTimeText: z.string(),
+    eventTimeText: z.string().nullable(),
+    // Epoch ms of the order (orderUpdateTime); preferred over eventTimeText when present
+    eventTimeMs: z.number().optional().nullable(),
     eventType: eventTypeEnum,
     symbol: z.string(),
     price: z.number().optional().nullable(),
@@ -137,13 +139,37 @@ export function isRawBinancePayload(payload: unknown): boolean {
 }
 
 /**
- * Transform raw Binance format to normalized format
+ * Format an epoch-ms timestamp as eventTimeText ("MM-DD, HH:MM:SS", UTC)
  */
-export function transformBinancePayload(raw: BinanceRawPayload): IngestPayload {
-    const { leadId, fetchedAt, activePositions, orderHistory } = raw;
+export function formatEventTimeText(ms: number): string {
+    const date = new Date(ms);
+    const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+    const day = String(date.getUTCDate()).padStart(2, '0');
+    const hours = String(date.getUTCHours()).padStart(2, '0');
+    const minutes = String(date.getUTCMinutes()).padStart(2, '0');
+    const seconds = String(date.getUTCSeconds()).padStart(2, '0');
+    return `${month}-${day}, ${hours}:${minutes}:${seconds}`;
+}
+
+/**
+ * Binance event deduplication key
+ */
+export function binanceEventKey(
+    leadId: string,
+    eventType: EventType,
+    order: { symbol: string; executedQty: number; avgPrice: number },
+    eventTimeText: string | null,
+): string {
+    return `binance|${leadId}|${eventType}|${order.symbol}|${eventTimeText}|${order.executedQty}|${order.avgPrice}`;
+}
 
-    // Transform activePositions → positions
-    const positions: PositionInput[] = (activePositions || []).map((pos) => {
+/**
+ * Transform raw Binance activePositions → normalized positions
+ */
+export function normalizeBinancePositions(raw: BinanceRawPayload): PositionInput[] {
+    const { leadId, fetchedAt, activePositions } = raw;
+
+    return (activePositions || []).map((pos) => {
         const positionAmount = parseFloat(String(pos.positionAmount));
         // In one-way mode (BOTH), infer side from signed position amount
         const normalizedSide = pos.positionSide === 'BOTH'
@@ -172,9 +198,15 @@ export function transformBinancePayload(raw: BinanceRawPayload): IngestPayload {
             fetchedAt,
         };
     });
+}
+
+/**
+ * Transform raw Binance orderHistory.allOrders → normalized events
+ */
+export function normalizeBinanceOrders(raw: BinanceRawPayload): EventInput[] {
+    const { leadId, fetchedAt, orderHistory } = raw;
 
-    // Transform orderHistory.allOrders → events
-    const events: EventInput[] = (orderHistory?.allOrders || []).map((order) => {
+    return (orderHistory?.allOrders || []).map((order) => {
         // Determine event type based on side + positionSide
         let eventType: EventType = 'UNKNOWN';
         if (order.side === 'BUY' && order.positionSide === 'LONG') {
@@ -187,38 +219,41 @@ export function transformBinancePayload(raw: BinanceRawPayload): IngestPayload {
             eventType = 'OPEN_SHORT';
         }
 
-        // Format timestamp to "MM-DD, HH:MM:SS"
-        const orderDate = new Date(order.orderUpdateTime);
-        const month = String(orderDate.getUTCMonth() + 1).padStart(2, '0');
-        const day = String(orderDate.getUTCDate()).padStart(2, '0');
-        const hours = String(orderDate.getUTCHours()).padStart(2, '0');
-        const minutes = String(orderDate.getUTCMinutes()).padStart(2, '0');
-        const seconds = String(orderDate.getUTCSeconds()).padStart(2, '0');
-        const eventTimeText = `${month}-${day}, ${hours}:${minutes}:${seconds}`;
-
-        // Generate unique event_key
-        const event_key = `binance|${leadId}|${eventType}|${order.symbol}|${eventTimeText}|${order.executedQty}|${order.avgPrice}`;
+        const eventTimeMs = Number.isFinite(order.orderUpdateTime)
+            ? order.orderUpdateTime
+            : Number.isFinite(order.orderTime) ? order.orderTime! : null;
+        // Formatted from the resolved time so text and epoch always agree
+        const eventTimeText = eventTimeMs !== null ? formatEventTimeText(eventTimeMs) : null;
 
         return {
             platform: 'binance',
             leadId,
             eventTimeText,
+            eventTimeMs,
             eventType,
             symbol: order.symbol,
             price: order.avgPrice,
             amount: order.executedQty,
             amountAsset: order.baseAsset || order.symbol.replace('USDT', ''),
-            realizedPnl: order.totalPnl && order.totalPnl > 0 ? order.totalPnl : null,
+            // Signed: a losing close is as much a result as a winning one
+            realizedPnl: eventType.startsWith('CLOSE_') && Number.isFinite(order.totalPnl)
+                ? order.totalPnl
+                : null,
             fetchedAt,
-            event_key,
+            event_key: binanceEventKey(leadId, eventType, order, eventTimeText),
         };
     });
+}
 
+/**
+ * Transform raw Binance format to normalized format
+ */
+export function transformBinancePayload(raw: BinanceRawPayload): IngestPayload {
     return {
-        leadId,
-        fetchedAt,
-        positions,
-        events,
+        leadId: raw.leadId,
+        fetchedAt: raw.fetchedAt,
+        positions: normalizeBinancePositions(raw),
+        events: normalizeBinanceOrders(raw),
     };
 }
 
@@ -254,3 +289,29 @@ export const traderPositionsQuerySchema = z.object({
 });
 
 export type TraderPositionsQuery = z.infer<typeof traderPositionsQuerySchema>;
+
+export const traderTradesQuerySchema = z.object({
+    platform: z.string().default('binance'),
+    status: z.enum(['OPEN', 'CLOSED']).optional(),
+    symbol: z.string().trim().toUpperCase().optional(),
+    limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+export type TraderTradesQuery = z.infer<typeof traderTradesQuerySchema>;
+
+export const traderProfileHistoryQuerySchema = z.object({
+    field: z.enum([
+        'positionShow',
+        'nickname',
+        'aumAmount',
+        'marginBalance',
+        'copierCount',
+        'maxCopyCount',
+        'profitSharingRate',
+        'badgeName',
+        'status',
+    ]).optional(),
+    limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+export type TraderProfileHistoryQuery = z.infer<typeof traderProfileHistoryQuerySchema>;
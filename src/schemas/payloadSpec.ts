@@ -0,0 +1,188 @@
+/**
+ * Versioned field specs for raw platform payloads, checked by schemaDrift.ts.
+ *
+ * Sections and required fields follow dashboard/src/lib/payload-checklist.spec.json;
+ * the backend spec adds types and the fields we know about but don't require.
+ * Field types are written as 'string', 'number|string', 'object?' etc.:
+ *   - `|` separates accepted JSON types
+ *   - a trailing `?` marks a field that may be absent
+ *   - null is accepted for every field (a failed or empty value, not drift)
+ *
+ * Bump `version` whenever a spec changes: drift events are recorded per spec
+ * version, so events against the old spec stay visible but stop growing.
+ */
+
+export type JsonType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+export interface PayloadSpecSection {
+  /** Scraper endpoint the section comes from ('payload' for top-level fields) */
+  endpoint: string;
+  /** Where the section lives in the payload; `[]` means every element of the array */
+  path: string;
+  fields: Record<string, string>;
+}
+
+export interface PayloadSpec {
+  platform: string;
+  version: number;
+  sections: Record<string, PayloadSpecSection>;
+}
+
+export const binancePayloadSpec: PayloadSpec = {
+  platform: 'binance',
+  version: 1,
+  sections: {
+    topLevel: {
+      endpoint: 'payload',
+      path: '',
+      fields: {
+        leadId: 'string',
+        fetchedAt: 'string',
+        timeRange: 'string',
+        startTime: 'number',
+        endTime: 'number',
+        leadCommon: 'object',
+        portfolioDetail: 'object',
+        roiSeries: 'array',
+        assetPreferences: 'object',
+        activePositions: 'array',
+        orderHistory: 'object',
+        positionAudit: 'object?',
+        orderHistoryDelta: 'object?',
+      },
+    },
+    leadCommon: {
+      endpoint: 'leadCommon',
+      path: 'leadCommon',
+      fields: {
+        leadOwner: 'boolean',
+        futuresPublicLPId: 'string',
+        futuresPublicLPStatus: 'string',
+        futuresPrivateLPId: 'string',
+        futuresPrivateLPStatus: 'string',
+        spotPublicLPId: 'string',
+        spotPublicLPStatus: 'string',
+        spotPrivateLPId: 'string',
+        spotPrivateLPStatus: 'string',
+      },
+    },
+    portfolioDetail: {
+      endpoint: 'portfolioDetail',
+      path: 'portfolioDetail',
+      fields: {
+        leadPortfolioId: 'string',
+        publicLeadPortfolioId: 'string',
+        privateLeadPortfolioId: 'string',
+        status: 'string',
+        portfolioType: 'string',
+        futuresType: 'string',
+        currentCopyCount: 'number',
+        maxCopyCount: 'number',
+        riskControlMaxCopyCount: 'number',
+        finalEffectiveMaxCopyCount: 'number',
+        fixedAmountMinCopyUsd: 'number|string',
+        fixedRadioMinCopyUsd: 'number|string',
+        lockPeriod: 'number',
+        copierLockPeriodTime: 'number',
+        copierUnlockExpiredTime: 'number',
+        enableTradingSignal: 'boolean',
+        feedShareSwitch: 'boolean',
+        feedAgreement: 'boolean',
+        syncSetting: 'boolean|string',
+        syncSettingCount: 'number',
+        inviteCodeCount: 'number',
+        lastTradeTime: 'number',
+        // Read by the profile / feed code, not required by the checklist
+        nickname: 'string?',
+        avatarUrl: 'string?',
+        description: 'string?',
+        badgeName: 'string?',
+        positionShow: 'boolean?',
+        startTime: 'number?',
+        marginBalance: 'number|string?',
+        aumAmount: 'number|string?',
+        copierPnl: 'number|string?',
+        profitSharingRate: 'number|string?',
+        rebateFee: 'number|string?',
+        sharpRatio: 'number|string?',
+        mockCopyCount: 'number?',
+        totalCopyCount: 'number?',
+        favoriteCount: 'number?',
+        tag: 'array?',
+        tagItemVos: 'array?',
+      },
+    },
+    assetPreferences: {
+      endpoint: 'assetPreferences',
+      path: 'assetPreferences',
+      fields: {
+        data: 'array',
+        timeRange: 'string',
+        updateTime: 'number',
+      },
+    },
+    orderHistory: {
+      endpoint: 'orderHistory',
+      path: 'orderHistory',
+      fields: {
+        total: 'number',
+        allOrders: 'array',
+      },
+    },
+    orderRow: {
+      endpoint: 'orderHistory',
+      path: 'orderHistory.allOrders[]',
+      fields: {
+        symbol: 'string',
+        baseAsset: 'string',
+        quoteAsset: 'string',
+        side: 'string',
+        type: 'string',
+        positionSide: 'string',
+        executedQty: 'number',
+        avgPrice: 'number',
+        totalPnl: 'number',
+        orderTime: 'number',
+        orderUpdateTime: 'number',
+      },
+    },
+    positionRow: {
+      endpoint: 'positions',
+      path: 'activePositions[]',
+      fields: {
+        id: 'string',
+        symbol: 'string',
+        collateral: 'string',
+        positionAmount: 'string|number',
+        entryPrice: 'string|number',
+        markPrice: 'string|number',
+        leverage: 'number',
+        isolated: 'boolean',
+        positionSide: 'string',
+        unrealizedProfit: 'string|number',
+        cumRealized: 'string|number',
+        notionalValue: 'string|number',
+        breakEvenPrice: 'string|number',
+        adl: 'number',
+      },
+    },
+    roiRow: {
+      endpoint: 'roiSeries',
+      path: 'roiSeries[]',
+      fields: {
+        value: 'number|string',
+        dataType: 'string',
+        dateTime: 'number',
+      },
+    },
+  },
+};
+
+const PAYLOAD_SPECS: Record<string, PayloadSpec> = {
+  binance: binancePayloadSpec,
+};
+
+/** Spec for a platform's raw payload, or undefined when it has none */
+export function getPayloadSpec(platform: string): PayloadSpec | undefined {
+  return PAYLOAD_SPECS[platform];
+}
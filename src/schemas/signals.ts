@@ -44,6 +44,8 @@ export const feedQuerySchema = z.object({
   symbol: z.string().optional(),
   timeRange: z.enum(['1h', '4h', '24h', '7d', 'ALL']).default('24h'),
   segment: z.enum(['VISIBLE', 'HIDDEN', 'BOTH']).default('BOTH'),
+  legs: z.enum(['true', 'false']).default('true'),
+  flips: z.enum(['true', 'false']).default('true'),
 });
 
 export const insightsQuerySchema = z.object({
@@ -136,6 +138,10 @@ export const heatmapItemSchema = z.object({
   dataSource: z.enum(['VISIBLE', 'HIDDEN_DERIVED', 'MIXED']).optional(),
   visibleTraderCount: z.number().int().optional(),
   hiddenTraderCount: z.number().int().optional(),
+  // Copier capital: AUM / copiers of the traders holding the symbol, AUM as % of all traders'
+  followerAum: z.number().min(0).optional(),
+  followerCopiers: z.number().int().min(0).optional(),
+  crowdingPct: z.number().min(0).max(100).optional(),
   topTraders: z.array(heatmapTraderSchema),          // traders sorted by weight
 });
 export type HeatmapItem = z.infer<typeof heatmapItemSchema>;
@@ -357,6 +363,8 @@ export const insightsAnomalySchema = z.object({
   message: z.string(),
   metric: z.string(),
   value: z.number(),
+  /** Set on trader-level anomalies (symbol holds the trader's nickname) */
+  leadId: z.string().optional(),
 });
 export type InsightsAnomaly = z.infer<typeof insightsAnomalySchema>;
 
@@ -367,6 +375,9 @@ export const insightsStabilitySchema = z.object({
   flipRate: z.number().min(0),
   stabilityScore: z.number().int().min(0).max(100),
   lastDirection: consensusDirectionEnum,
+  traderFlips: z.number().int().min(0),
+  traderFlipsToLong: z.number().int().min(0),
+  traderFlipsToShort: z.number().int().min(0),
 });
 export type InsightsStability = z.infer<typeof insightsStabilitySchema>;
 
@@ -401,6 +412,8 @@ export const insightsResponseSchema = z.object({
     highLeverageSymbols: z.number().int().min(0),
     unstableSymbols: z.number().int().min(0),
     lowConfidenceSymbols: z.number().int().min(0),
+    traderFlips: z.number().int().min(0),
+    visibilityChanges: z.number().int().min(0),
   }),
   anomalies: z.array(insightsAnomalySchema),
   stability: z.array(insightsStabilitySchema),
@@ -427,6 +440,7 @@ export const weightBreakdownSchema = z.object({
   confidenceFactor: z.number(),
   winAdj: z.number(),
   availabilityPenalty: z.number(),
+  liquidationPenalty: z.number(),
 });
 
 export const diagnosticSchema = z.object({
@@ -44,6 +44,7 @@ export type Portfolio = z.infer<typeof portfolioSchema>;
 
 export const createPortfolioSchema = z.object({
   name: z.string().min(1).max(50),
+  platform: z.string().trim().toLowerCase().default('binance'),
   initialBalance: z.number().min(100).default(10000),
   maxRiskPerTrade: z.number().min(0.5).max(10).default(2),
   maxPortfolioRisk: z.number().min(1).max(50).default(10),
@@ -0,0 +1,236 @@
+/**
+ * Batch Ingest
+ *
+ * Runs many trader payloads from one NDJSON body (optionally gzip-compressed)
+ * through the ingest pipeline for POST /ingest/batch. Each non-blank line is
+ * one payload, in any format the single-trader endpoints accept:
+ *   - raw platform payload (Binance activePositions / orderHistory, or any
+ *     registered platform's shape with a "platform" field) → adapter pipeline,
+ *     including RawIngest storage
+ *   - normalized { leadId, fetchedAt, positions, events } → same steps as
+ *     /ingest/binance-copytrade
+ *
+ * Lines are processed in order (state tracking depends on it) and a failing
+ * line doesn't stop the batch. Symbol aggregations are recomputed once per
+ * platform at the end instead of once per trader.
+ *
+ * Each line claims an idempotency key derived from its (leadId, fetchedAt)
+ * (see ingestIdempotency.ts), so a retried batch without an Idempotency-Key
+ * replays the stored result of lines already ingested instead of writing
+ * their snapshots and raw payloads again.
+ */
+
+import { gunzip } from 'node:zlib';
+import { promisify } from 'node:util';
+import { ZodError } from 'zod';
+import {
+  ingestPayloadSchema,
+  isRawBinancePayload,
+} from '../schemas/ingest.js';
+import { recomputeAggregations } from './aggregation.js';
+import {
+  getPlatformAdapter,
+  readPayloadProfile,
+  resolvePlatform,
+} from './platformAdapter.js';
+import {
+  ingestNormalizedPayload,
+  ingestPlatformPayload,
+  type IngestStats,
+} from './platformIngest.js';
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey,
+} from './ingestIdempotency.js';
+import { logger } from '../utils/logger.js';
+
+/** Idempotency scope of batch lines */
+const LINE_ROUTE = '/ingest/batch';
+
+const gunzipAsync = promisify(gunzip);
+
+// ────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────
+
+export interface BatchLineResult {
+  /** 1-based line number in the (decompressed) body */
+  line: number;
+  success: boolean;
+  leadId: string | null;
+  platform: string | null;
+  format: 'raw' | 'normalized' | null;
+  stats?: IngestStats;
+  /** The line was ingested by an earlier request; this is its stored result */
+  replayed?: boolean;
+  error?: string;
+  details?: unknown;
+}
+
+export interface BatchIngestReport {
+  lines: number;
+  succeeded: number;
+  failed: number;
+  /** Symbols aggregated per platform by the final recompute */
+  aggregations: Record<string, number>;
+  durationMs: number;
+  results: BatchLineResult[];
+}
+
+export interface NdjsonLine {
+  line: number;
+  text: string;
+}
+
+// ────────────────────────────────────────────────────────────
+// Body decoding
+// ────────────────────────────────────────────────────────────
+
+function isGzip(body: Buffer): boolean {
+  return body.length >= 2 && body[0] === 0x1f && body[1] === 0x8b;
+}
+
+/**
+ * Decode a batch body to text, gunzipping it when it is gzip-compressed
+ * (detected from the magic bytes, so Content-Encoding is optional). Throws
+ * when the decompressed body exceeds maxBytes or is not valid gzip.
+ */
+export async function decodeBatchBody(body: Buffer, maxBytes: number): Promise<string> {
+  if (!isGzip(body)) return body.toString('utf8');
+
+  try {
+    const inflated = await gunzipAsync(body, { maxOutputLength: maxBytes });
+    return inflated.toString('utf8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new Error(`Decompressed body exceeds ${maxBytes} bytes`);
+    }
+    throw new Error(`Invalid gzip body: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/**
+ * Split NDJSON into numbered lines, skipping blank ones.
+ */
+export function splitNdjson(text: string): NdjsonLine[] {
+  return text
+    .split('\n')
+    .map((raw, i) => ({ line: i + 1, text: raw.trim() }))
+    .filter((l) => l.text.length > 0);
+}
+
+// ────────────────────────────────────────────────────────────
+// Ingest
+// ────────────────────────────────────────────────────────────
+
+async function ingestLine(
+  { line, text }: NdjsonLine,
+  touched: Set<string>,
+): Promise<BatchLineResult> {
+  const result: BatchLineResult = { line, success: false, leadId: null, platform: null, format: null };
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch (err) {
+    result.error = `Invalid JSON: ${err instanceof Error ? err.message : String(err)}`;
+    return result;
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    result.error = 'Line is not a JSON object';
+    return result;
+  }
+
+  const record = body as Record<string, unknown>;
+  result.leadId = typeof record.leadId === 'string' ? record.leadId : null;
+
+  const platform = resolvePlatform(typeof record.platform === 'string' ? record.platform : undefined);
+  if (!platform) {
+    result.error = `Unsupported platform: ${String(record.platform)}`;
+    return result;
+  }
+  result.platform = platform;
+
+  const idempotency = await claimIdempotencyKey({
+    route: LINE_ROUTE,
+    header: undefined,
+    leadId: result.leadId,
+    fetchedAt: typeof record.fetchedAt === 'string' ? record.fetchedAt : null,
+    body: record,
+  });
+  if (idempotency.outcome === 'reply') {
+    const { reply } = idempotency;
+    if (reply.replayed) return { ...(reply.body as BatchLineResult), line, replayed: true };
+    result.error = (reply.body as { error?: string }).error ?? `HTTP ${reply.statusCode}`;
+    return result;
+  }
+  const claim = idempotency.outcome === 'claimed' ? idempotency.claim : null;
+
+  try {
+    if (platform !== 'binance' || isRawBinancePayload(record)) {
+      result.format = 'raw';
+      const adapter = getPlatformAdapter(platform)!;
+      const payload = adapter.parsePayload(record);
+      result.stats = await ingestPlatformPayload(adapter, payload, { recomputeAggregations: false });
+    } else {
+      result.format = 'normalized';
+      const payload = ingestPayloadSchema.parse(record);
+      const { symbolsAggregated: _deferred, traderScore: _score, ...stats } = await ingestNormalizedPayload(
+        platform,
+        payload,
+        readPayloadProfile(platform, record),
+        { recomputeAggregations: false },
+      );
+      result.stats = stats;
+    }
+    result.success = true;
+    touched.add(platform);
+    if (claim) await completeIdempotencyKey(claim, 200, result);
+  } catch (err) {
+    if (claim) await releaseIdempotencyKey(claim);
+    if (err instanceof ZodError) {
+      result.error = `Validation failed (${result.format} ${platform} format)`;
+      result.details = err.errors;
+    } else {
+      result.error = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Ingest every line, then recompute aggregations once per platform that had
+ * at least one successful line.
+ */
+export async function ingestBatch(lines: NdjsonLine[]): Promise<BatchIngestReport> {
+  const t0 = performance.now();
+  const touched = new Set<string>();
+  const results: BatchLineResult[] = [];
+
+  for (const line of lines) {
+    results.push(await ingestLine(line, touched));
+  }
+
+  const aggregations: Record<string, number> = {};
+  for (const platform of touched) {
+    aggregations[platform] = await recomputeAggregations(platform);
+  }
+
+  const succeeded = results.filter((r) => r.success).length;
+  const report: BatchIngestReport = {
+    lines: results.length,
+    succeeded,
+    failed: results.length - succeeded,
+    aggregations,
+    durationMs: Math.round(performance.now() - t0),
+    results,
+  };
+
+  logger.info(
+    { lines: report.lines, succeeded, failed: report.failed, durationMs: report.durationMs },
+    'Batch ingest completed',
+  );
+  return report;
+}
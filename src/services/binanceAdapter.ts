@@ -0,0 +1,74 @@
+/**
+ * Binance Platform Adapter
+ *
+ * Live source: scrapes the Binance copy-trading endpoints (binanceScraper.ts)
+ * and normalizes with the same transforms /ingest uses, so event keys stay
+ * byte-identical to everything already stored.
+ */
+
+import {
+  binanceEventKey,
+  binanceRawPayloadSchema,
+  normalizeBinanceOrders,
+  normalizeBinancePositions,
+  type BinanceRawPayload,
+} from '../schemas/ingest.js';
+import { scrapeTraderDetailed, type BinanceScraperPayload, type RawOrder } from './binanceScraper.js';
+import type { PlatformAdapter } from './platformAdapter.js';
+
+/** portfolioDetail numbers arrive as numbers or numeric strings */
+function toNumber(value: unknown): number | undefined {
+  const n = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+}
+
+export const binanceAdapter: PlatformAdapter<BinanceScraperPayload, RawOrder> = {
+  platform: 'binance',
+
+  async fetchTrader(leadId, options = {}) {
+    return scrapeTraderDetailed(leadId, { now: options.now, timeoutMs: options.timeoutMs });
+  },
+
+  parsePayload(raw) {
+    // Validate, but keep the original object: the schema drops fields
+    // (positionAudit, orderHistoryDelta) that RawIngest should still store
+    binanceRawPayloadSchema.parse(raw);
+    return raw as BinanceScraperPayload;
+  },
+
+  readProfile(payload) {
+    const portfolio = payload.portfolioDetail ?? {};
+    const text = (value: unknown) => (typeof value === 'string' ? value : undefined);
+    return {
+      nickname: text(portfolio.nickname),
+      avatarUrl: text(portfolio.avatarUrl),
+      positionShow: typeof portfolio.positionShow === 'boolean' ? portfolio.positionShow : undefined,
+      aumAmount: toNumber(portfolio.aumAmount),
+      marginBalance: toNumber(portfolio.marginBalance),
+      copierCount: toNumber(portfolio.currentCopyCount),
+      maxCopyCount: toNumber(portfolio.maxCopyCount),
+      profitSharingRate: toNumber(portfolio.profitSharingRate),
+      badgeName: text(portfolio.badgeName),
+      status: text(portfolio.status),
+    };
+  },
+
+  readSignals(payload) {
+    return {
+      positions: payload.activePositions || [],
+      orders: payload.orderHistory?.allOrders || [],
+    };
+  },
+
+  normalizePositions(payload) {
+    return normalizeBinancePositions(payload as unknown as BinanceRawPayload);
+  },
+
+  normalizeOrders(payload) {
+    return normalizeBinanceOrders(payload as unknown as BinanceRawPayload);
+  },
+
+  eventKey(event, order) {
+    return binanceEventKey(event.leadId, event.eventType, order, event.eventTimeText);
+  },
+};
@@ -6,8 +6,23 @@
  * produces a payload identical to what n8n's "Build Final Payload" node produced.
  *
  * All endpoints are 100% public — zero authentication required.
+ *
+ * Requests can be recorded to / replayed from a fixture dir (see scrapeFixtures.ts).
  */
 
+import { config } from '../config.js';
+import {
+  fetchEndpointJson,
+  type FetchResult,
+  type ScraperEndpoint,
+} from './resilientFetch.js';
+import {
+  createRecorder,
+  createReplayRequester,
+  type EndpointRequester,
+  type FixtureTarget,
+  type TraderFixture,
+} from './scrapeFixtures.js';
 import { logger } from '../utils/logger.js';
 
 // ────────────────────────────────────────────────────────────
@@ -30,6 +45,12 @@ export interface BinanceScraperPayload {
     total: number;
     allOrders: RawOrder[];
   };
+  /** Present when orderHistory only holds the delta since `since` */
+  orderHistoryDelta?: {
+    since: number;
+    requests: number;
+    failedWindows: number;
+  };
 }
 
 export interface RawPosition {
@@ -77,13 +98,70 @@ export interface ScraperOptions {
   timeRange?: string; // default '30D'
   orderPageSize?: number; // default 100 (max Binance allows)
   timeoutMs?: number; // default 15_000
+  /**
+   * Order high-water mark (epoch ms). When set, order history is fetched
+   * chunk-by-chunk from this point instead of a single 30D page.
+   */
+  orderSince?: number;
+  orderChunkMs?: number; // default 24h
+  /** Injected clock (epoch ms); defaults to Date.now */
+  now?: () => number;
+  /** Record every endpoint response under this fixture dir/cycle */
+  record?: FixtureTarget;
+  /** Serve responses from a recorded fixture instead of Binance (clock defaults to the recorded time) */
+  replay?: TraderFixture;
+}
+
+/** Outcome of one endpoint call within a trader scrape */
+export interface EndpointOutcome {
+  endpoint: ScraperEndpoint;
+  success: boolean;
+  error: string | null;
+  status: number | null;
+  attempts: number;
+  latencyMs: number;
+  shortCircuited: boolean;
+}
+
+export interface ScrapeResult {
+  leadId: string;
+  payload?: BinanceScraperPayload;
+  /** Per-endpoint outcomes (absent if the scrape threw) */
+  endpoints?: EndpointOutcome[];
+  latencyMs?: number;
+  /** Requester the scrape used (see scrapeTraderDetailed) */
+  request?: EndpointRequester;
+  error?: string;
+}
+
+export interface OrderHistoryChunkProgress {
+  /** Fraction of the requested window already covered (0..1) */
+  progress: number;
+  requests: number;
+  ordersFetched: number;
+  failedWindows: number;
+}
+
+export interface ChunkedOrderHistory {
+  total: number;
+  allOrders: RawOrder[];
+  requests: number;
+  /** Windows that still returned a full page at the minimum chunk size */
+  truncatedWindows: number;
+  /** Windows whose request failed — their orders are missing */
+  failedWindows: number;
+  /** [from, to] epoch ms of each failed window, oldest first */
+  failedRanges: Array<[number, number]>;
 }
 
 // ────────────────────────────────────────────────────────────
 // Constants
 // ────────────────────────────────────────────────────────────
 
-const BASE = 'https://www.binance.com/bapi/futures/v1';
+const BASE = config.scraper.baseUrl;
+
+/** Smallest window the chunked order walker will bisect down to */
+const MIN_ORDER_CHUNK_MS = 60 * 1000;
 
 const ENDPOINTS = {
   leadCommon: (id: string) =>
@@ -100,43 +178,13 @@ const ENDPOINTS = {
     `${BASE}/friendly/future/copy-trade/lead-portfolio/order-history`,
 };
 
+/** Requests a single scrapeTrader() call makes (one per endpoint) */
+export const REQUESTS_PER_SCRAPE = Object.keys(ENDPOINTS).length;
+
 // ────────────────────────────────────────────────────────────
 // Helpers
 // ────────────────────────────────────────────────────────────
 
-async function fetchJson<T = unknown>(
-  url: string,
-  options: RequestInit = {},
-  timeoutMs: number = 15_000,
-): Promise<{ success: boolean; data: T | null; error?: string }> {
-  const controller = new AbortController();
-  const timer = setTimeout(() => controller.abort(), timeoutMs);
-
-  try {
-    const res = await fetch(url, {
-      headers: { 'Content-Type': 'application/json' },
-      signal: controller.signal,
-      ...options,
-    });
-    clearTimeout(timer);
-
-    if (!res.ok) {
-      return { success: false, data: null, error: `HTTP ${res.status}` };
-    }
-
-    const json = (await res.json()) as { success?: boolean; data?: T };
-    if (json.success === false) {
-      return { success: false, data: null, error: 'Binance API returned success=false' };
-    }
-
-    return { success: true, data: json.data ?? (json as unknown as T) };
-  } catch (err) {
-    clearTimeout(timer);
-    const message = err instanceof Error ? err.message : String(err);
-    return { success: false, data: null, error: message };
-  }
-}
-
 /**
  * Filter out zero-amount / zero-notional / zero-pnl positions
  * (mirrors the n8n "Filter Active Positions" node)
@@ -179,16 +227,16 @@ function filterActivePositions(raw: RawPosition[]): {
 }
 
 /**
- * Fetch order history (single page, max 100 orders — Binance's server-side limit).
- * Pagination cursors don't work from server-side, so we grab the max single page.
+ * Fetch a single order-history page for the [startTime, endTime] window.
  */
-async function fetchOrderHistory(
+async function fetchOrderPage(
   leadId: string,
   startTime: number,
   endTime: number,
   pageSize: number,
   timeoutMs: number,
-): Promise<{ total: number; allOrders: RawOrder[] }> {
+  request: EndpointRequester = fetchEndpointJson,
+): Promise<FetchResult<unknown> & { total: number; list: RawOrder[] }> {
   const body = {
     portfolioId: leadId,
     startTime,
@@ -196,23 +244,152 @@ async function fetchOrderHistory(
     pageSize: Math.min(pageSize, 100), // Binance max is 100
   };
 
-  const res = await fetchJson<{
+  const res = await request<{
     total?: number;
     list?: RawOrder[];
   }>(
+    'orderHistory',
     ENDPOINTS.orderHistory(),
     { method: 'POST', body: JSON.stringify(body) },
     timeoutMs,
   );
 
   if (!res.success || !res.data) {
-    logger.warn({ leadId, error: res.error }, 'Order history fetch failed');
-    return { total: 0, allOrders: [] };
+    return { ...res, success: false, total: 0, list: [] };
   }
 
   return {
+    ...res,
     total: res.data.total || 0,
-    allOrders: res.data.list || [],
+    list: res.data.list || [],
+  };
+}
+
+/**
+ * Fetch order history (single page, max 100 orders — Binance's server-side limit).
+ * Pagination cursors don't work from server-side, so we grab the max single page.
+ */
+async function fetchOrderHistory(
+  leadId: string,
+  startTime: number,
+  endTime: number,
+  pageSize: number,
+  timeoutMs: number,
+  request: EndpointRequester,
+): Promise<{ total: number; allOrders: RawOrder[]; outcome: EndpointOutcome }> {
+  const res = await fetchOrderPage(leadId, startTime, endTime, pageSize, timeoutMs, request);
+  const outcome = toOutcome('orderHistory', res);
+
+  if (!res.success) {
+    logger.warn({ leadId, error: res.error }, 'Order history fetch failed');
+    return { total: 0, allOrders: [], outcome };
+  }
+
+  return {
+    total: res.total,
+    allOrders: res.list,
+    outcome,
+  };
+}
+
+function toOutcome(endpoint: ScraperEndpoint, res: FetchResult<unknown>): EndpointOutcome {
+  return {
+    endpoint,
+    success: res.success,
+    error: res.error ?? null,
+    status: res.status ?? null,
+    attempts: res.attempts,
+    latencyMs: res.latencyMs,
+    shortCircuited: res.shortCircuited ?? false,
+  };
+}
+
+/** Identity of an order across overlapping windows */
+export function orderKey(order: RawOrder): string {
+  return `${order.symbol}|${order.side}|${order.positionSide}|${order.orderUpdateTime}|${order.executedQty}|${order.avgPrice}`;
+}
+
+/**
+ * Fetch the complete order history for [startTime, endTime] by walking the
+ * window in chunks. Since server-side pagination cursors don't work, a chunk
+ * that comes back as a full page is bisected until every sub-window fits in
+ * one page (or the window reaches MIN_ORDER_CHUNK_MS).
+ *
+ * Orders are de-duplicated and returned newest first.
+ */
+export async function fetchOrderHistoryChunked(
+  leadId: string,
+  startTime: number,
+  endTime: number,
+  options: {
+    pageSize?: number;
+    timeoutMs?: number;
+    chunkMs?: number;
+    onProgress?: (progress: OrderHistoryChunkProgress) => void;
+    request?: EndpointRequester;
+  } = {},
+): Promise<ChunkedOrderHistory> {
+  const {
+    pageSize = 100,
+    timeoutMs = 15_000,
+    chunkMs = 24 * 60 * 60 * 1000,
+    onProgress,
+    request = fetchEndpointJson,
+  } = options;
+  const limit = Math.min(pageSize, 100);
+  const totalMs = Math.max(endTime - startTime, 1);
+
+  // Oldest window first so progress moves forward in time
+  const pending: Array<[number, number]> = [];
+  for (let t = endTime; t > startTime; t -= chunkMs) {
+    pending.unshift([Math.max(startTime, t - chunkMs), t]);
+  }
+
+  const orders = new Map<string, RawOrder>();
+  let coveredMs = 0;
+  let requests = 0;
+  let truncatedWindows = 0;
+  const failedRanges: Array<[number, number]> = [];
+
+  while (pending.length > 0) {
+    const [from, to] = pending.shift()!;
+    const page = await fetchOrderPage(leadId, from, to, limit, timeoutMs, request);
+    requests++;
+
+    if (!page.success) {
+      failedRanges.push([from, to]);
+      coveredMs += to - from;
+      logger.warn({ leadId, from, to, error: page.error }, 'Order history chunk failed');
+    } else if (page.list.length >= limit && to - from > MIN_ORDER_CHUNK_MS) {
+      // Full page — there may be more orders in this window; split it
+      const mid = Math.floor((from + to) / 2);
+      pending.unshift([from, mid], [mid, to]);
+      continue;
+    } else {
+      if (page.list.length >= limit) truncatedWindows++;
+      for (const order of page.list) orders.set(orderKey(order), order);
+      coveredMs += to - from;
+    }
+
+    onProgress?.({
+      progress: Math.min(coveredMs / totalMs, 1),
+      requests,
+      ordersFetched: orders.size,
+      failedWindows: failedRanges.length,
+    });
+  }
+
+  const allOrders = [...orders.values()].sort(
+    (a, b) => b.orderUpdateTime - a.orderUpdateTime,
+  );
+
+  return {
+    total: allOrders.length,
+    allOrders,
+    requests,
+    truncatedWindows,
+    failedWindows: failedRanges.length,
+    failedRanges,
   };
 }
 
@@ -230,26 +407,89 @@ export async function scrapeTrader(
   leadId: string,
   options: ScraperOptions = {},
 ): Promise<BinanceScraperPayload> {
+  const { payload } = await scrapeTraderDetailed(leadId, options);
+  return payload;
+}
+
+/**
+ * Same as scrapeTrader, but also returns per-endpoint outcomes and total latency
+ * (used by the scheduler to persist scrape attempts), and the requester the
+ * scrape went through: follow-up requests for the same scrape (the
+ * scheduler's order gap fill) use it so they're recorded / replayed with it.
+ */
+export async function scrapeTraderDetailed(
+  leadId: string,
+  options: ScraperOptions = {},
+): Promise<{
+  payload: BinanceScraperPayload;
+  endpoints: EndpointOutcome[];
+  latencyMs: number;
+  request: EndpointRequester;
+}> {
+  const t0 = performance.now();
   const {
     timeRange = '30D',
     orderPageSize = 100,
     timeoutMs = 15_000,
+    orderSince,
+    orderChunkMs,
+    record,
+    replay,
   } = options;
 
-  const now = Date.now();
+  const now = options.now?.() ?? replay?.meta.now ?? Date.now();
   const endTime = now;
   const startTime = now - 30 * 24 * 60 * 60 * 1000; // 30 days
   const fetchedAt = new Date(now).toISOString();
 
-  // Fetch ALL endpoints in parallel (including order history — single page)
+  let request: EndpointRequester = fetchEndpointJson;
+  if (replay) {
+    request = createReplayRequester(replay);
+  } else if (record) {
+    request = createRecorder(record, leadId, {
+      now,
+      options: { timeRange, orderPageSize, timeoutMs, orderSince, orderChunkMs },
+    });
+  }
+
+  // Order history: delta since the high-water mark when known, else a single 30D page
+  let orderHistoryDelta: BinanceScraperPayload['orderHistoryDelta'];
+  const orderHistoryRequest = orderSince !== undefined
+    ? fetchOrderHistoryChunked(leadId, Math.max(orderSince, startTime), endTime, {
+      pageSize: orderPageSize,
+      timeoutMs,
+      chunkMs: orderChunkMs,
+      request,
+    }).then((history): { total: number; allOrders: RawOrder[]; outcome: EndpointOutcome } => {
+      orderHistoryDelta = {
+        since: orderSince,
+        requests: history.requests,
+        failedWindows: history.failedWindows,
+      };
+      return {
+        ...history,
+        outcome: {
+          endpoint: 'orderHistory',
+          success: history.failedWindows === 0,
+          error: history.failedWindows > 0 ? `${history.failedWindows} order window(s) failed` : null,
+          status: null,
+          attempts: history.requests,
+          latencyMs: Math.round(performance.now() - t0),
+          shortCircuited: false,
+        },
+      };
+    })
+    : fetchOrderHistory(leadId, startTime, endTime, orderPageSize, timeoutMs, request);
+
+  // Fetch ALL endpoints in parallel
   const [leadCommonRes, portfolioRes, positionsRes, roiRes, assetsRes, orderHistory] =
     await Promise.all([
-      fetchJson<Record<string, unknown>>(ENDPOINTS.leadCommon(leadId), {}, timeoutMs),
-      fetchJson<Record<string, unknown>>(ENDPOINTS.portfolioDetail(leadId), {}, timeoutMs),
-      fetchJson<RawPosition[]>(ENDPOINTS.positions(leadId), {}, timeoutMs),
-      fetchJson<Record<string, unknown>[]>(ENDPOINTS.roiSeries(leadId, timeRange), {}, timeoutMs),
-      fetchJson<Record<string, unknown>>(ENDPOINTS.assetPreferences(leadId, timeRange), {}, timeoutMs),
-      fetchOrderHistory(leadId, startTime, endTime, orderPageSize, timeoutMs),
+      request<Record<string, unknown>>('leadCommon', ENDPOINTS.leadCommon(leadId), {}, timeoutMs),
+      request<Record<string, unknown>>('portfolioDetail', ENDPOINTS.portfolioDetail(leadId), {}, timeoutMs),
+      request<RawPosition[]>('positions', ENDPOINTS.positions(leadId), {}, timeoutMs),
+      request<Record<string, unknown>[]>('roiSeries', ENDPOINTS.roiSeries(leadId, timeRange), {}, timeoutMs),
+      request<Record<string, unknown>>('assetPreferences', ENDPOINTS.assetPreferences(leadId, timeRange), {}, timeoutMs),
+      orderHistoryRequest,
     ]);
 
   // Filter active positions
@@ -273,7 +513,7 @@ export async function scrapeTrader(
     );
   }
 
-  return {
+  const payload: BinanceScraperPayload = {
     leadId,
     fetchedAt,
     timeRange,
@@ -285,7 +525,25 @@ export async function scrapeTrader(
     positionAudit,
     roiSeries: (roiRes.data as Record<string, unknown>[]) || [],
     assetPreferences: assetsRes.data ?? null,
-    orderHistory,
+    orderHistory: {
+      total: orderHistory.total,
+      allOrders: orderHistory.allOrders,
+    },
+    ...(orderHistoryDelta && { orderHistoryDelta }),
+  };
+
+  return {
+    payload,
+    endpoints: [
+      toOutcome('leadCommon', leadCommonRes),
+      toOutcome('portfolioDetail', portfolioRes),
+      toOutcome('positions', positionsRes),
+      toOutcome('roiSeries', roiRes),
+      toOutcome('assetPreferences', assetsRes),
+      orderHistory.outcome,
+    ],
+    latencyMs: Math.round(performance.now() - t0),
+    request,
   };
 }
 
@@ -294,23 +552,26 @@ export async function scrapeTrader(
  *
  * @param leadIds - Array of Binance portfolio IDs to scrape
  * @param concurrency - Max number of traders to scrape in parallel (default 5)
- * @param options - Per-trader scraper options
- * @returns Array of results (payload or error per trader)
+ * @param options - Scraper options, or a function resolving them per trader
+ * @returns Array of results (payload + endpoint outcomes, or error per trader)
  */
 export async function scrapeTraders(
   leadIds: string[],
   concurrency: number = 5,
-  options: ScraperOptions = {},
-): Promise<{ leadId: string; payload?: BinanceScraperPayload; error?: string }[]> {
-  const results: { leadId: string; payload?: BinanceScraperPayload; error?: string }[] = [];
+  options: ScraperOptions | ((leadId: string) => ScraperOptions) = {},
+): Promise<ScrapeResult[]> {
+  const results: ScrapeResult[] = [];
 
   // Process in batches of `concurrency`
   for (let i = 0; i < leadIds.length; i += concurrency) {
     const batch = leadIds.slice(i, i + concurrency);
     const batchResults = await Promise.allSettled(
       batch.map(async (leadId) => {
-        const payload = await scrapeTrader(leadId, options);
-        return { leadId, payload };
+        const detailed = await scrapeTraderDetailed(
+          leadId,
+          typeof options === 'function' ? options(leadId) : options,
+        );
+        return { leadId, ...detailed };
       }),
     );
 
@@ -0,0 +1,160 @@
+/**
+ * Bybit-style Platform Adapter (fixture-backed)
+ *
+ * Reads Bybit-format trader snapshots from config.platforms.bybit.fixtureDir
+ * (<leadId>.json, see fixtures/bybit/) instead of a live API. It exists to
+ * prove the PlatformAdapter contract end to end: a payload in a different
+ * shape ingests into the same tables and shows up in consensus, heatmap and
+ * simulation under platform=bybit.
+ *
+ * Mapping:
+ *   position side Buy/Sell         → LONG/SHORT (size signed like Binance)
+ *   order Buy,  reduceOnly=false   → OPEN_LONG
+ *   order Sell, reduceOnly=false   → OPEN_SHORT
+ *   order Sell, reduceOnly=true    → CLOSE_LONG
+ *   order Buy,  reduceOnly=true    → CLOSE_SHORT
+ *   event key                      → bybit|<leadId>|<orderId>
+ */
+
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { config } from '../config.js';
+import {
+  bybitFixtureSchema,
+  bybitPayloadSchema,
+  type BybitOrder,
+  type BybitPayload,
+} from '../schemas/bybit.js';
+import { formatEventTimeText, type EventType } from '../schemas/ingest.js';
+import type { RawOrder } from './binanceScraper.js';
+import type { PlatformAdapter } from './platformAdapter.js';
+
+const FIXTURE_ID_PATTERN = /^[\w-]{1,64}$/;
+
+function orderPositionSide(order: Pick<BybitOrder, 'side' | 'reduceOnly'>): 'LONG' | 'SHORT' {
+  if (order.reduceOnly) return order.side === 'Sell' ? 'LONG' : 'SHORT';
+  return order.side === 'Buy' ? 'LONG' : 'SHORT';
+}
+
+function orderEventType(order: Pick<BybitOrder, 'side' | 'reduceOnly'>): EventType {
+  const side = orderPositionSide(order);
+  if (order.reduceOnly) return side === 'LONG' ? 'CLOSE_LONG' : 'CLOSE_SHORT';
+  return side === 'LONG' ? 'OPEN_LONG' : 'OPEN_SHORT';
+}
+
+function signedSize(size: string, side: 'Buy' | 'Sell'): number {
+  const abs = Math.abs(parseFloat(size));
+  return side === 'Sell' ? -abs : abs;
+}
+
+function toRawOrder(order: BybitOrder): RawOrder {
+  return {
+    symbol: order.symbol,
+    side: order.side === 'Buy' ? 'BUY' : 'SELL',
+    positionSide: orderPositionSide(order),
+    executedQty: parseFloat(order.execQty),
+    avgPrice: parseFloat(order.avgPrice),
+    totalPnl: order.closedPnl !== undefined ? parseFloat(order.closedPnl) : undefined,
+    orderUpdateTime: Number(order.updatedTime),
+    orderTime: Number(order.createdTime),
+  };
+}
+
+export const bybitAdapter: PlatformAdapter<BybitPayload, BybitOrder> = {
+  platform: 'bybit',
+
+  async fetchTrader(leadId, options = {}) {
+    if (!FIXTURE_ID_PATTERN.test(leadId)) {
+      throw new Error(`Invalid bybit leadId: ${leadId}`);
+    }
+
+    const t0 = performance.now();
+    const file = path.join(config.platforms.bybit.fixtureDir, `${leadId}.json`);
+    const fixture = bybitFixtureSchema.parse(JSON.parse(await readFile(file, 'utf8')));
+    const now = options.now?.() ?? Date.now();
+
+    return {
+      payload: { ...fixture, leadId, fetchedAt: new Date(now).toISOString() },
+      latencyMs: Math.round(performance.now() - t0),
+    };
+  },
+
+  parsePayload(raw) {
+    return bybitPayloadSchema.parse(raw);
+  },
+
+  readProfile(payload) {
+    const leader = payload.leaderInfo ?? {};
+    return {
+      nickname: leader.nickName,
+      avatarUrl: leader.avatar,
+      positionShow: leader.openPositionVisible,
+    };
+  },
+
+  readSignals(payload) {
+    return {
+      positions: (payload.positions || []).map((pos) => ({
+        symbol: pos.symbol,
+        positionAmount: String(signedSize(pos.size, pos.side)),
+        entryPrice: pos.entryPrice,
+        markPrice: pos.markPrice,
+        leverage: parseFloat(pos.leverage),
+        isolated: pos.tradeMode === 1,
+        positionSide: pos.side === 'Buy' ? 'LONG' : 'SHORT',
+        unrealizedProfit: pos.unrealisedPnl,
+        notionalValue: pos.positionValue,
+      })),
+      orders: (payload.orders || []).map(toRawOrder),
+    };
+  },
+
+  normalizePositions(payload) {
+    return payload.positions.map((pos) => {
+      const leverage = Math.round(parseFloat(pos.leverage));
+      const positionValue = pos.positionValue !== undefined ? parseFloat(pos.positionValue) : null;
+
+      return {
+        platform: 'bybit',
+        leadId: payload.leadId,
+        symbol: pos.symbol,
+        contractType: 'PERP',
+        leverage,
+        size: signedSize(pos.size, pos.side),
+        sizeAsset: pos.symbol.replace('USDT', ''),
+        side: pos.side === 'Buy' ? 'LONG' : 'SHORT',
+        entryPrice: parseFloat(pos.entryPrice),
+        markPrice: parseFloat(pos.markPrice),
+        marginUSDT: positionValue !== null && leverage > 0 ? Math.abs(positionValue / leverage) : null,
+        marginType: pos.tradeMode === 1 ? 'ISOLATED' : 'CROSS',
+        pnlUSDT: pos.unrealisedPnl !== undefined ? parseFloat(pos.unrealisedPnl) : null,
+        roePct: null,
+        fetchedAt: payload.fetchedAt,
+      };
+    });
+  },
+
+  normalizeOrders(payload) {
+    return payload.orders.map((order) => {
+      const realizedPnl = order.closedPnl !== undefined ? parseFloat(order.closedPnl) : null;
+      const event = {
+        platform: 'bybit',
+        leadId: payload.leadId,
+        eventTimeText: formatEventTimeText(Number(order.updatedTime)),
+        eventTimeMs: Number(order.updatedTime),
+        eventType: orderEventType(order),
+        symbol: order.symbol,
+        price: parseFloat(order.avgPrice),
+        amount: parseFloat(order.execQty),
+        amountAsset: order.symbol.replace('USDT', ''),
+        realizedPnl: order.reduceOnly && realizedPnl !== null ? realizedPnl : null,
+        fetchedAt: payload.fetchedAt,
+      };
+      return { ...event, event_key: bybitAdapter.eventKey(event, order) };
+    });
+  },
+
+  eventKey(event, order) {
+    return `bybit|${event.leadId}|${order.orderId}`;
+  },
+};
@@ -0,0 +1,202 @@
+/**
+ * Adaptive Scrape Cadence Planner
+ *
+ * Gives every tracked trader its own scrape interval based on recent activity,
+ * so hyperactive scalpers are polled more often and dormant traders back off.
+ *
+ * Activity score (0..1) blends:
+ *   - events per hour over the lookback window        (50%)
+ *   - currently open positions (ACTIVE PositionState) (25%)
+ *   - consensus symbols touched (symbols ≥2 traders hold) (25%)
+ *
+ * Intervals are interpolated geometrically between minIntervalMs (score 1)
+ * and maxIntervalMs (score 0), then stretched uniformly if the planned
+ * request rate would exceed the global per-minute budget.
+ */
+
+import { prisma } from '../db/prisma.js';
+
+// ────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────
+
+export interface TraderActivity {
+  leadId: string;
+  eventsPerHour: number;
+  openPositions: number;
+  consensusSymbols: number;
+}
+
+export interface CadenceOptions {
+  /** Interval for the most active traders */
+  minIntervalMs: number;
+  /** Interval for fully dormant traders */
+  maxIntervalMs: number;
+  /** Global cap on Binance requests per minute across all traders */
+  requestBudgetPerMinute: number;
+  /** Requests one trader scrape costs */
+  requestsPerScrape: number;
+}
+
+export interface TraderCadence {
+  leadId: string;
+  score: number;
+  intervalMs: number;
+  activity: TraderActivity;
+}
+
+export interface CadencePlan {
+  cadences: Map<string, TraderCadence>;
+  /** Planned steady-state request rate after budget scaling */
+  plannedRequestsPerMinute: number;
+  /** Factor intervals were stretched by to fit the budget (1 = no stretch) */
+  budgetScale: number;
+}
+
+// ────────────────────────────────────────────────────────────
+// Constants
+// ────────────────────────────────────────────────────────────
+
+const ACTIVITY_LOOKBACK_HOURS = 6;
+
+// Activity levels that count as "fully active" for each factor
+const SATURATION = {
+  eventsPerHour: 6,
+  openPositions: 5,
+  consensusSymbols: 3,
+};
+
+const WEIGHTS = {
+  eventsPerHour: 0.5,
+  openPositions: 0.25,
+  consensusSymbols: 0.25,
+};
+
+// ────────────────────────────────────────────────────────────
+// Scoring
+// ────────────────────────────────────────────────────────────
+
+/**
+ * Blend activity factors into a 0..1 score.
+ */
+export function scoreActivity(activity: TraderActivity): number {
+  const score =
+    WEIGHTS.eventsPerHour * Math.min(activity.eventsPerHour / SATURATION.eventsPerHour, 1) +
+    WEIGHTS.openPositions * Math.min(activity.openPositions / SATURATION.openPositions, 1) +
+    WEIGHTS.consensusSymbols * Math.min(activity.consensusSymbols / SATURATION.consensusSymbols, 1);
+  return Math.round(score * 1000) / 1000;
+}
+
+/**
+ * Plan per-trader intervals from activity, then fit them into the request budget.
+ */
+export function planCadences(
+  activities: TraderActivity[],
+  options: CadenceOptions,
+): CadencePlan {
+  const { minIntervalMs, maxIntervalMs, requestBudgetPerMinute, requestsPerScrape } = options;
+  const ratio = minIntervalMs / maxIntervalMs;
+
+  const planned = activities.map((activity) => {
+    const score = scoreActivity(activity);
+    // Geometric interpolation: score 1 → min, score 0 → max
+    const intervalMs = Math.round(maxIntervalMs * Math.pow(ratio, score));
+    return { leadId: activity.leadId, score, intervalMs, activity };
+  });
+
+  const requestsPerMinute = (intervalMs: number) => (requestsPerScrape * 60_000) / intervalMs;
+  const demand = planned.reduce((sum, c) => sum + requestsPerMinute(c.intervalMs), 0);
+  const budgetScale = demand > requestBudgetPerMinute && requestBudgetPerMinute > 0
+    ? demand / requestBudgetPerMinute
+    : 1;
+
+  const cadences = new Map<string, TraderCadence>();
+  for (const c of planned) {
+    cadences.set(c.leadId, { ...c, intervalMs: Math.round(c.intervalMs * budgetScale) });
+  }
+
+  return {
+    cadences,
+    plannedRequestsPerMinute: Math.round(demand / budgetScale),
+    budgetScale: Math.round(budgetScale * 100) / 100,
+  };
+}
+
+/**
+ * Traders one tick may scrape within the request budget (at least one).
+ */
+export function maxTradersPerTick(
+  requestBudgetPerMinute: number,
+  tickMs: number,
+  requestsPerScrape: number,
+): number {
+  return Math.max(1, Math.floor((requestBudgetPerMinute * tickMs) / 60_000 / requestsPerScrape));
+}
+
+/**
+ * Traders due at `now`, most overdue first, at most maxPerTick of them.
+ */
+export function pickDueTraders(
+  schedule: { leadId: string; nextDueAt: number }[],
+  now: number,
+  maxPerTick: number,
+): string[] {
+  return schedule
+    .filter((s) => s.nextDueAt <= now)
+    .sort((a, b) => a.nextDueAt - b.nextDueAt)
+    .slice(0, maxPerTick)
+    .map((s) => s.leadId);
+}
+
+// ────────────────────────────────────────────────────────────
+// Activity loading
+// ────────────────────────────────────────────────────────────
+
+/**
+ * Load recent activity for a set of traders.
+ */
+export async function loadTraderActivity(
+  leadIds: string[],
+  platform: string = 'binance',
+): Promise<TraderActivity[]> {
+  if (leadIds.length === 0) return [];
+
+  const cutoff = new Date(Date.now() - ACTIVITY_LOOKBACK_HOURS * 60 * 60 * 1000);
+
+  const [eventCounts, activeStates, consensusRows] = await Promise.all([
+    prisma.event.groupBy({
+      by: ['leadId'],
+      where: { platform, leadId: { in: leadIds }, eventTime: { gte: cutoff } },
+      _count: { _all: true },
+    }),
+    prisma.positionState.findMany({
+      where: { platform, leadId: { in: leadIds }, status: 'ACTIVE' },
+      select: { leadId: true, symbol: true },
+    }),
+    prisma.symbolAggregation.findMany({
+      where: { platform, totalOpen: { gte: 2 } },
+      select: { symbol: true },
+    }),
+  ]);
+
+  const eventsByTrader = new Map(eventCounts.map((r) => [r.leadId, r._count._all]));
+  const consensusSet = new Set(consensusRows.map((r) => r.symbol));
+
+  const openByTrader = new Map<string, number>();
+  const consensusByTrader = new Map<string, Set<string>>();
+  for (const state of activeStates) {
+    openByTrader.set(state.leadId, (openByTrader.get(state.leadId) ?? 0) + 1);
+    if (consensusSet.has(state.symbol)) {
+      if (!consensusByTrader.has(state.leadId)) consensusByTrader.set(state.leadId, new Set());
+      consensusByTrader.get(state.leadId)!.add(state.symbol);
+    }
+  }
+
+  return leadIds.map((leadId) => ({
+    leadId,
+    eventsPerHour:
+      Math.round(((eventsByTrader.get(leadId) ?? 0) / ACTIVITY_LOOKBACK_HOURS) * 100) / 100,
+    openPositions: openByTrader.get(leadId) ?? 0,
+    consensusSymbols: consensusByTrader.get(leadId)?.size ?? 0,
+  }));
+}
@@ -0,0 +1,231 @@
+/**
+ * Copier Stats
+ *
+ * Keeps a time series of each trader's copier count and AUM from the
+ * payload profile (portfolioDetail), one TraderCopierSample per
+ * config.copierStats.sampleIntervalMs at most, and derives:
+ *   - copier flows per window (24h / 7d / 30d): inflow and outflow are the
+ *     rises and drops between consecutive samples, so copiers who join and
+ *     leave within one sample interval net out
+ *   - AUM growth per window: change and % change of aumAmount
+ *   - symbol crowding: the AUM of the traders holding a symbol (copied
+ *     capital that follows them into it), as an amount and as a share of the
+ *     AUM of every trader considered
+ *
+ * Each window starts from the last sample before it when there is one;
+ * otherwise from the first sample in it (`partial`).
+ */
+
+import { prisma } from '../db/prisma.js';
+import { config } from '../config.js';
+import type { PlatformProfile } from './platformAdapter.js';
+
+// ────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────
+
+export interface CopierSampleRow {
+  sampledAt: Date;
+  copierCount: number | null;
+  aumAmount: number | null;
+}
+
+export interface CopierFlow {
+  samples: number;
+  /** No sample before the window: it starts at the first sample in it */
+  partial: boolean;
+  copierInflow: number;
+  copierOutflow: number;
+  copierNetChange: number;
+  aumStart: number | null;
+  aumEnd: number | null;
+  aumChange: number | null;
+  aumGrowthPct: number | null;
+}
+
+export type CopierFlowWindow = '24h' | '7d' | '30d';
+
+export interface CopierStats {
+  sampledAt: Date;
+  copierCount: number | null;
+  maxCopyCount: number | null;
+  aumAmount: number | null;
+  marginBalance: number | null;
+  flows: Record<CopierFlowWindow, CopierFlow>;
+}
+
+export interface SymbolCrowding {
+  followerAum: number;
+  followerCopiers: number;
+  /** followerAum as a % of the AUM of every trader considered */
+  crowdingPct: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const COPIER_FLOW_WINDOWS: Record<CopierFlowWindow, number> = {
+  '24h': DAY_MS,
+  '7d': 7 * DAY_MS,
+  '30d': 30 * DAY_MS,
+};
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// ────────────────────────────────────────────────────────────
+// Computation
+// ────────────────────────────────────────────────────────────
+
+/**
+ * Copier flow and AUM growth since `from`. Pure; samples oldest first.
+ */
+export function computeCopierFlow(samples: CopierSampleRow[], from: Date): CopierFlow {
+  const fromMs = from.getTime();
+  const inWindow = samples.filter((s) => s.sampledAt.getTime() >= fromMs);
+  const before = samples.filter((s) => s.sampledAt.getTime() < fromMs);
+  const baseline = before[before.length - 1];
+  const series = baseline ? [baseline, ...inWindow] : inWindow;
+
+  let copierInflow = 0;
+  let copierOutflow = 0;
+  const copiers = series.flatMap((s) => (s.copierCount === null ? [] : [s.copierCount]));
+  for (let i = 1; i < copiers.length; i++) {
+    const delta = copiers[i] - copiers[i - 1];
+    if (delta > 0) copierInflow += delta;
+    else copierOutflow -= delta;
+  }
+
+  const aums = series.flatMap((s) => (s.aumAmount === null ? [] : [s.aumAmount]));
+  const aumStart = aums.length > 0 ? aums[0] : null;
+  const aumEnd = aums.length > 0 ? aums[aums.length - 1] : null;
+  const aumChange = aumStart !== null && aumEnd !== null ? round2(aumEnd - aumStart) : null;
+
+  return {
+    samples: inWindow.length,
+    partial: !baseline,
+    copierInflow,
+    copierOutflow,
+    copierNetChange: copierInflow - copierOutflow,
+    aumStart,
+    aumEnd,
+    aumChange,
+    aumGrowthPct: aumChange !== null && aumStart! > 0 ? round2((aumChange / aumStart!) * 100) : null,
+  };
+}
+
+/**
+ * AUM following each symbol's holders. Pure; a trader holding both sides
+ * of a symbol counts once.
+ */
+export function computeSymbolCrowding(
+  holdings: { symbol: string; leadId: string }[],
+  followers: Map<string, { aumAmount?: number; copierCount?: number }>,
+): Map<string, SymbolCrowding> {
+  let totalAum = 0;
+  for (const f of followers.values()) totalAum += f.aumAmount ?? 0;
+
+  const holdersBySymbol = new Map<string, Set<string>>();
+  for (const { symbol, leadId } of holdings) {
+    const holders = holdersBySymbol.get(symbol) ?? new Set<string>();
+    holders.add(leadId);
+    holdersBySymbol.set(symbol, holders);
+  }
+
+  const crowding = new Map<string, SymbolCrowding>();
+  for (const [symbol, holders] of holdersBySymbol) {
+    let followerAum = 0;
+    let followerCopiers = 0;
+    for (const leadId of holders) {
+      const f = followers.get(leadId);
+      followerAum += f?.aumAmount ?? 0;
+      followerCopiers += f?.copierCount ?? 0;
+    }
+    crowding.set(symbol, {
+      followerAum: round2(followerAum),
+      followerCopiers,
+      crowdingPct: totalAum > 0 ? round2((followerAum / totalAum) * 100) : 0,
+    });
+  }
+  return crowding;
+}
+
+// ────────────────────────────────────────────────────────────
+// Samples
+// ────────────────────────────────────────────────────────────
+
+/**
+ * Store a sample unless the profile has no copier / AUM fields or the
+ * trader's latest sample is less than sampleIntervalMs older. Returns
+ * whether a sample was stored.
+ */
+export async function recordCopierSample(
+  leadId: string,
+  platform: string,
+  profile: PlatformProfile,
+  sampledAt: Date,
+): Promise<boolean> {
+  const { copierCount, maxCopyCount, aumAmount, marginBalance } = profile;
+  if ([copierCount, aumAmount, marginBalance].every((v) => v === undefined)) return false;
+
+  const latest = await prisma.traderCopierSample.findFirst({
+    where: { leadId },
+    orderBy: { sampledAt: 'desc' },
+    select: { sampledAt: true },
+  });
+  if (latest && sampledAt.getTime() - latest.sampledAt.getTime() < config.copierStats.sampleIntervalMs) {
+    return false;
+  }
+
+  await prisma.traderCopierSample.create({
+    data: {
+      platform,
+      leadId,
+      sampledAt,
+      copierCount: copierCount !== undefined ? Math.round(copierCount) : null,
+      maxCopyCount: maxCopyCount !== undefined ? Math.round(maxCopyCount) : null,
+      aumAmount: aumAmount ?? null,
+      marginBalance: marginBalance ?? null,
+    },
+  });
+  return true;
+}
+
+/**
+ * Latest copier count / AUM of a trader and its flows over each window,
+ * or null without samples.
+ */
+export async function getCopierStats(leadId: string, now: Date = new Date()): Promise<CopierStats | null> {
+  const longest = Math.max(...Object.values(COPIER_FLOW_WINDOWS));
+  const since = new Date(now.getTime() - longest);
+
+  const [baseline, recent] = await Promise.all([
+    prisma.traderCopierSample.findFirst({
+      where: { leadId, sampledAt: { lt: since } },
+      orderBy: { sampledAt: 'desc' },
+    }),
+    prisma.traderCopierSample.findMany({
+      where: { leadId, sampledAt: { gte: since } },
+      orderBy: { sampledAt: 'asc' },
+    }),
+  ]);
+  const samples = baseline ? [baseline, ...recent] : recent;
+  const latest = samples[samples.length - 1];
+  if (!latest) return null;
+
+  const flows = Object.fromEntries(
+    Object.entries(COPIER_FLOW_WINDOWS).map(([window, ms]) => [
+      window,
+      computeCopierFlow(samples, new Date(now.getTime() - ms)),
+    ]),
+  ) as Record<CopierFlowWindow, CopierFlow>;
+
+  return {
+    sampledAt: latest.sampledAt,
+    copierCount: latest.copierCount,
+    maxCopyCount: latest.maxCopyCount,
+    aumAmount: latest.aumAmount,
+    marginBalance: latest.marginBalance,
+    flows,
+  };
+}
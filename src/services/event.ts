@@ -1,11 +1,88 @@
 import { prisma } from '../db/prisma.js';
+import { config } from '../config.js';
 import type { EventInput } from '../schemas/ingest.js';
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type EventTimeSource = 'ORDER_EPOCH' | 'TEXT';
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function zoneFormatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = zoneFormatters.get(timeZone);
+    if (!formatter) {
+        // Throws RangeError for an unknown time zone
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+            second: '2-digit',
+        });
+        zoneFormatters.set(timeZone, formatter);
+    }
+    return formatter;
+}
+
+/**
+ * Wall-clock fields of an instant in a time zone
+ */
+function zonedParts(ms: number, timeZone: string) {
+    const parts = zoneFormatter(timeZone).formatToParts(new Date(ms));
+    const get = (type: Intl.DateTimeFormatPartTypes) =>
+        parseInt(parts.find((p) => p.type === type)?.value ?? '0', 10);
+    return {
+        year: get('year'),
+        month: get('month'),
+        day: get('day'),
+        hour: get('hour'),
+        minute: get('minute'),
+        second: get('second'),
+    };
+}
+
+/**
+ * Offset (ms) of a time zone from UTC at an instant
+ */
+function zoneOffsetMs(ms: number, timeZone: string): number {
+    const p = zonedParts(ms, timeZone);
+    const wall = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+    return wall - Math.floor(ms / 1000) * 1000;
+}
+
+/**
+ * Instant of a wall-clock time in a time zone. The offset is re-checked at
+ * the result so times next to a DST switch land on the right side of it.
+ */
+function zonedTimeToUtc(
+    year: number,
+    month: number,
+    day: number,
+    hours: number,
+    minutes: number,
+    seconds: number,
+    timeZone: string
+): Date {
+    const wall = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+    const offset = zoneOffsetMs(wall, timeZone);
+    const corrected = zoneOffsetMs(wall - offset, timeZone);
+    return new Date(wall - corrected);
+}
+
 /**
  * Parse event time text to a Date object
- * Format: "MM-DD, HH:MM:SS" - we need to add the year from fetchedAt
+ * Format: "MM-DD, HH:MM:SS" in `timeZone`; the year comes from fetchedAt.
+ * Only used when the order's epoch time is unknown.
  */
-function parseEventTime(eventTimeText: string, fetchedAt: Date): Date | null {
+export function parseEventTimeText(
+    eventTimeText: string | null,
+    fetchedAt: Date,
+    timeZone: string = config.events.textTimeZone
+): Date | null {
+    if (!eventTimeText) return null;
     try {
         // Expected format: "02-04, 22:52:35"
         const match = eventTimeText.match(/(\d{2})-(\d{2}),\s*(\d{2}):(\d{2}):(\d{2})/);
@@ -13,30 +90,36 @@ function parseEventTime(eventTimeText: string, fetchedAt: Date): Date | null {
             return null;
         }
 
-        const [, month, day, hours, minutes, seconds] = match;
-        const year = fetchedAt.getFullYear();
-
-        // Create date with parsed values
-        const eventDate = new Date(
-            year,
-            parseInt(month, 10) - 1, // Month is 0-indexed
-            parseInt(day, 10),
-            parseInt(hours, 10),
-            parseInt(minutes, 10),
-            parseInt(seconds, 10)
-        );
-
-        // Handle year rollover: if event date is in the future, it's from last year
-        if (eventDate > fetchedAt) {
-            eventDate.setFullYear(year - 1);
+        const [month, day, hours, minutes, seconds] = match.slice(1).map((v) => parseInt(v, 10));
+        const year = zonedParts(fetchedAt.getTime(), timeZone).year;
+
+        let eventDate = zonedTimeToUtc(year, month, day, hours, minutes, seconds, timeZone);
+
+        // Handle year rollover: an event more than a day after the fetch is
+        // from last year (the day absorbs clock skew between order and fetch)
+        if (eventDate.getTime() - fetchedAt.getTime() > DAY_MS) {
+            eventDate = zonedTimeToUtc(year - 1, month, day, hours, minutes, seconds, timeZone);
         }
 
-        return eventDate;
+        return isNaN(eventDate.getTime()) ? null : eventDate;
     } catch {
         return null;
     }
 }
 
+/**
+ * Event time from the order's epoch time when known, else from eventTimeText
+ */
+export function resolveEventTime(
+    event: Pick<EventInput, 'eventTimeMs' | 'eventTimeText'>,
+    fetchedAt: Date
+): { eventTime: Date | null; eventTimeSource: EventTimeSource } {
+    if (typeof event.eventTimeMs === 'number' && Number.isFinite(event.eventTimeMs) && event.eventTimeMs > 0) {
+        return { eventTime: new Date(event.eventTimeMs), eventTimeSource: 'ORDER_EPOCH' };
+    }
+    return { eventTime: parseEventTimeText(event.eventTimeText, fetchedAt), eventTimeSource: 'TEXT' };
+}
+
 /**
  * Insert events with deduplication based on event_key
  * Returns count of newly inserted events
@@ -51,7 +134,7 @@ export async function insertEvents(
 
     // Prepare all event data
     const data = events.map((event) => {
-        const eventTime = parseEventTime(event.eventTimeText, fetchedAt);
+        const { eventTime, eventTimeSource } = resolveEventTime(event, fetchedAt);
         return {
             platform: event.platform || 'binance',
             leadId: event.leadId,
@@ -60,6 +143,7 @@ export async function insertEvents(
             symbol: event.symbol,
             eventTimeText: event.eventTimeText,
             eventTime,
+            eventTimeSource,
             price: event.price ?? null,
             amount: event.amount ?? null,
             amountAsset: event.amountAsset ?? null,
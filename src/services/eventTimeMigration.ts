@@ -0,0 +1,270 @@
+/**
+ * Event Time Re-derivation
+ *
+ * Events ingested before eventTimeSource existed had eventTime parsed from
+ * "MM-DD, HH:MM:SS" in the server's local time zone, so they can be off by
+ * hours. This job rewrites eventTime for existing rows in two passes:
+ *   1. RAW_INGEST: replay every stored RawIngest payload through its
+ *      platform adapter and set eventTime from the order epoch
+ *      (orderUpdateTime) of each event it produces, matched by eventKey
+ *   2. TEXT: events still without a source (e.g. posted in the normalized
+ *      format, or whose RawIngest was archived) are re-parsed from
+ *      eventTimeText in config.events.textTimeZone
+ * Rows are marked with eventTimeSource and rows already holding the same
+ * time and source are skipped, so a rerun only writes what changed. dryRun
+ * counts without writing (pass 2 then also counts the events pass 1 would
+ * have marked).
+ *
+ * The job runs in the background; progress is kept in memory and exposed
+ * through GET /admin/events/time-migration.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db/prisma.js';
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+import { parseEventTimeText } from './event.js';
+import { getPlatformAdapter } from './platformAdapter.js';
+import { hydrateRawIngests } from './rawIngestStore.js';
+
+// ────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────
+
+export type EventTimeMigrationPhase = 'RAW_INGEST' | 'TEXT' | 'DONE';
+
+export interface EventTimeMigrationJob {
+  status: 'RUNNING' | 'COMPLETED' | 'FAILED';
+  dryRun: boolean;
+  phase: EventTimeMigrationPhase;
+  textTimeZone: string;
+  startedAt: string;
+  completedAt: string | null;
+  rawIngestsScanned: number;
+  /** Events set from an order epoch in a RawIngest payload */
+  epochMatched: number;
+  /** Events set by re-parsing eventTimeText */
+  textReparsed: number;
+  /** Matched / re-parsed events whose eventTime actually changed */
+  shifted: number;
+  /** Re-parsed events whose text could not be parsed (eventTime null) */
+  unparseable: number;
+  error: string | null;
+}
+
+interface EventTimeUpdate {
+  key: string;
+  eventTime: Date | null;
+}
+
+// ────────────────────────────────────────────────────────────
+// Batch updates
+// ────────────────────────────────────────────────────────────
+
+function valuesList(updates: EventTimeUpdate[]): Prisma.Sql {
+  return Prisma.join(
+    updates.map((u) => Prisma.sql`(${u.key}, ${u.eventTime}::timestamp(3))`),
+  );
+}
+
+/**
+ * Set eventTime + eventTimeSource for a batch, matching rows by `column`
+ * (eventKey or id) and skipping rows that already hold both. Returns how
+ * many rows were set and how many of them changed eventTime. In dry-run mode
+ * nothing is written.
+ */
+async function applyEventTimes(
+  column: 'eventKey' | 'id',
+  updates: EventTimeUpdate[],
+  source: 'ORDER_EPOCH' | 'TEXT',
+  dryRun: boolean,
+): Promise<{ matched: number; shifted: number }> {
+  if (updates.length === 0) return { matched: 0, shifted: 0 };
+  const match = Prisma.raw(`"${column}"`);
+  const stale = Prisma.sql`(e."eventTimeSource" IS DISTINCT FROM ${source} OR e."eventTime" IS DISTINCT FROM v.t)`;
+
+  const [res] = dryRun
+    ? await prisma.$queryRaw<{ matched: number; shifted: number }[]>`
+        SELECT COUNT(*)::int AS matched,
+               COUNT(*) FILTER (WHERE e."eventTime" IS DISTINCT FROM v.t)::int AS shifted
+        FROM "Event" e
+        JOIN (VALUES ${valuesList(updates)}) AS v(k, t) ON e.${match} = v.k
+        WHERE ${stale}
+      `
+    // The second "Event" reference (o) reads the row as it was before the update
+    : await prisma.$queryRaw<{ matched: number; shifted: number }[]>`
+        WITH updated AS (
+          UPDATE "Event" e
+          SET "eventTime" = v.t, "eventTimeSource" = ${source}
+          FROM (VALUES ${valuesList(updates)}) AS v(k, t), "Event" o
+          WHERE e.${match} = v.k AND o.id = e.id AND ${stale}
+          RETURNING (o."eventTime" IS DISTINCT FROM v.t) AS shifted
+        )
+        SELECT COUNT(*)::int AS matched, COUNT(*) FILTER (WHERE shifted)::int AS shifted FROM updated
+      `;
+  return res ?? { matched: 0, shifted: 0 };
+}
+
+// ────────────────────────────────────────────────────────────
+// Passes
+// ────────────────────────────────────────────────────────────
+
+/**
+ * RawIngest rows after `cursor` in (fetchedAt, id) order
+ */
+function rawIngestPage(cursor: { fetchedAt: Date; id: string } | null, take: number) {
+  return prisma.rawIngest.findMany({
+    where: cursor
+      ? {
+        OR: [
+          { fetchedAt: { gt: cursor.fetchedAt } },
+          { fetchedAt: cursor.fetchedAt, id: { gt: cursor.id } },
+        ],
+      }
+      : undefined,
+    orderBy: [{ fetchedAt: 'asc' }, { id: 'asc' }],
+    take,
+    select: { id: true, platform: true, fetchedAt: true, payload: true, sectionHashes: true },
+  });
+}
+
+/**
+ * Pass 1: order epochs from RawIngest payloads, oldest first. Orders
+ * repeated by later payloads are already set and get skipped.
+ */
+async function migrateFromRawIngests(job: EventTimeMigrationJob, batchSize: number): Promise<void> {
+  let cursor: { fetchedAt: Date; id: string } | null = null;
+
+  for (;;) {
+    const rows = await rawIngestPage(cursor, batchSize);
+    if (rows.length === 0) break;
+
+    const epochs = new Map<string, number>();
+    for (const row of await hydrateRawIngests(rows)) {
+      const adapter = getPlatformAdapter(row.platform);
+      if (!adapter) continue;
+      try {
+        for (const event of adapter.normalizeOrders(row.payload as never)) {
+          if (typeof event.eventTimeMs === 'number' && Number.isFinite(event.eventTimeMs) && event.eventTimeMs > 0) {
+            epochs.set(event.event_key, event.eventTimeMs);
+          }
+        }
+      } catch (err) {
+        // Payloads stored before validation can have any shape
+        const msg = err instanceof Error ? err.message : String(err);
+        logger.debug({ rawIngestId: row.id, error: msg }, 'Skipping unreadable RawIngest payload');
+      }
+    }
+
+    const updates = [...epochs].map(([key, ms]) => ({ key, eventTime: new Date(ms) }));
+    for (let i = 0; i < updates.length; i += batchSize) {
+      const { matched, shifted } = await applyEventTimes('eventKey', updates.slice(i, i + batchSize), 'ORDER_EPOCH', job.dryRun);
+      job.epochMatched += matched;
+      job.shifted += shifted;
+    }
+
+    job.rawIngestsScanned += rows.length;
+    const last = rows[rows.length - 1];
+    cursor = { fetchedAt: last.fetchedAt, id: last.id };
+    if (rows.length < batchSize) break;
+  }
+}
+
+/**
+ * Pass 2: events no order epoch was found for, re-parsed from their text.
+ */
+async function migrateFromText(job: EventTimeMigrationJob, batchSize: number): Promise<void> {
+  let afterId = '';
+
+  for (;;) {
+    const rows = await prisma.event.findMany({
+      where: { eventTimeSource: null, id: { gt: afterId } },
+      orderBy: { id: 'asc' },
+      take: batchSize,
+      select: { id: true, eventTimeText: true, fetchedAt: true },
+    });
+    if (rows.length === 0) break;
+
+    const updates = rows.map((row) => ({
+      key: row.id,
+      eventTime: parseEventTimeText(row.eventTimeText, row.fetchedAt, job.textTimeZone),
+    }));
+    const { matched, shifted } = await applyEventTimes('id', updates, 'TEXT', job.dryRun);
+    job.textReparsed += matched;
+    job.shifted += shifted;
+    job.unparseable += updates.filter((u) => u.eventTime === null).length;
+
+    afterId = rows[rows.length - 1].id;
+    if (rows.length < batchSize) break;
+  }
+}
+
+// ────────────────────────────────────────────────────────────
+// Job
+// ────────────────────────────────────────────────────────────
+
+let currentJob: EventTimeMigrationJob | null = null;
+
+/**
+ * Latest migration job (running or finished).
+ */
+export function getEventTimeMigration(): EventTimeMigrationJob | null {
+  return currentJob;
+}
+
+/**
+ * Start the migration in the background. Returns null if one is already
+ * running.
+ */
+export function startEventTimeMigration(dryRun: boolean = false): EventTimeMigrationJob | null {
+  if (currentJob?.status === 'RUNNING') return null;
+
+  const job: EventTimeMigrationJob = {
+    status: 'RUNNING',
+    dryRun,
+    phase: 'RAW_INGEST',
+    textTimeZone: config.events.textTimeZone,
+    startedAt: new Date().toISOString(),
+    completedAt: null,
+    rawIngestsScanned: 0,
+    epochMatched: 0,
+    textReparsed: 0,
+    shifted: 0,
+    unparseable: 0,
+    error: null,
+  };
+  currentJob = job;
+
+  runMigration(job).catch((err) => {
+    job.status = 'FAILED';
+    job.error = err instanceof Error ? err.message : String(err);
+    job.completedAt = new Date().toISOString();
+    logger.error({ error: job.error, phase: job.phase }, 'Event time migration failed');
+  });
+
+  return job;
+}
+
+async function runMigration(job: EventTimeMigrationJob): Promise<void> {
+  const batchSize = config.events.migrationBatchSize;
+  logger.info({ dryRun: job.dryRun, textTimeZone: job.textTimeZone }, '🕒 Event time migration starting');
+
+  await migrateFromRawIngests(job, batchSize);
+  job.phase = 'TEXT';
+  await migrateFromText(job, batchSize);
+
+  job.phase = 'DONE';
+  job.status = 'COMPLETED';
+  job.completedAt = new Date().toISOString();
+
+  logger.info(
+    {
+      dryRun: job.dryRun,
+      rawIngestsScanned: job.rawIngestsScanned,
+      epochMatched: job.epochMatched,
+      textReparsed: job.textReparsed,
+      shifted: job.shifted,
+    },
+    '✅ Event time migration completed',
+  );
+}
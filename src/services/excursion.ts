@@ -0,0 +1,269 @@
+/**
+ * Trade Excursion (MAE / MFE)
+ *
+ * Measures how far price moved against and in favour of a trade while it
+ * was open, from the candles in the Kline store:
+ *   - maePct:         max adverse move from entry, % of entry price
+ *   - mfePct:         max favorable move from entry, % of entry price
+ *   - timeToMfeSec:   open → start of the candle where the MFE was reached
+ *                     (null when price never moved in favour)
+ *   - stopEfficiency: maePct / stop distance %, i.e. the share of the stop
+ *                     distance the trade used (1 = the stop was reached);
+ *                     null without a stop
+ *
+ * 1m candles are used when they cover the whole trade with none missing,
+ * else 5m. Candles overlapping the open / close time count in full, so
+ * excursions are slightly overstated at candle resolution. Candles come
+ * from Binance futures for every platform.
+ *
+ * Closed SimulatedPositions are measured once their candles are stored
+ * (fillSimulatedExcursions, run by the kline sync); backtest trades are
+ * measured on the fly.
+ */
+
+import { prisma } from '../db/prisma.js';
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+
+// ────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────
+
+export interface ExcursionTrade {
+  symbol: string;
+  direction: 'LONG' | 'SHORT';
+  entryPrice: number;
+  openedAt: Date;
+  closedAt: Date;
+  stopLossPrice?: number | null;
+}
+
+export interface ExcursionCandle {
+  openTime: Date;
+  closeTime: Date;
+  high: number;
+  low: number;
+}
+
+export interface Excursion {
+  maePct: number;
+  mfePct: number;
+  timeToMfeSec: number | null;
+  stopEfficiency: number | null;
+  interval: string;
+  candles: number;
+}
+
+export interface ExcursionSummary {
+  /** Trades with excursion metrics */
+  measured: number;
+  avgMaePct: number | null;
+  maxMaePct: number | null;
+  avgMfePct: number | null;
+  avgTimeToMfeSec: number | null;
+  /** Trades with a stop, and the mean share of the stop distance they used */
+  stopsMeasured: number;
+  avgStopEfficiency: number | null;
+}
+
+type ExcursionFields = Pick<Excursion, 'maePct' | 'mfePct' | 'timeToMfeSec' | 'stopEfficiency'>;
+
+/** Excursion columns of a SimulatedPosition / backtest trade (null until measured) */
+type ExcursionRow = { [K in keyof ExcursionFields]: ExcursionFields[K] | null };
+
+const KLINE_PLATFORM = 'binance';
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Trades longer than this skip 1m candles (1440 rows a day) and use 5m */
+const MAX_ONE_MINUTE_SPAN_MS = 72 * HOUR_MS;
+
+// ────────────────────────────────────────────────────────────
+// Measurement
+// ────────────────────────────────────────────────────────────
+
+function round4(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Excursion of one trade over its candles. Pure; null without a usable
+ * entry price or candles.
+ */
+export function computeExcursion(
+  trade: ExcursionTrade,
+  candles: ExcursionCandle[],
+): ExcursionFields | null {
+  const { entryPrice, direction } = trade;
+  if (!(entryPrice > 0) || candles.length === 0) return null;
+
+  const openMs = trade.openedAt.getTime();
+  let worst = 0;
+  let best = 0;
+  let bestAt: number | null = null;
+
+  for (const c of candles) {
+    const adverse = direction === 'LONG' ? entryPrice - c.low : c.high - entryPrice;
+    const favorable = direction === 'LONG' ? c.high - entryPrice : entryPrice - c.low;
+    if (adverse > worst) worst = adverse;
+    if (favorable > best) {
+      best = favorable;
+      bestAt = c.openTime.getTime();
+    }
+  }
+
+  const maePct = (worst / entryPrice) * 100;
+  const stopDistancePct = trade.stopLossPrice
+    ? (Math.abs(entryPrice - trade.stopLossPrice) / entryPrice) * 100
+    : 0;
+
+  return {
+    maePct: round4(maePct),
+    mfePct: round4((best / entryPrice) * 100),
+    timeToMfeSec: bestAt === null ? null : Math.max(0, Math.round((bestAt - openMs) / 1000)),
+    stopEfficiency: stopDistancePct > 0 ? round4(maePct / stopDistancePct) : null,
+  };
+}
+
+/**
+ * Whether candles (oldest first, one interval) cover the whole trade: the
+ * first at or before the open, the last reaching the close, and none missing
+ * in between (count = span of the candles / candle width). Pure.
+ */
+export function candlesCoverTrade(trade: ExcursionTrade, candles: ExcursionCandle[]): boolean {
+  if (candles.length === 0) return false;
+  const first = candles[0];
+  const last = candles[candles.length - 1];
+  const covered =
+    first.openTime.getTime() <= trade.openedAt.getTime() &&
+    last.closeTime.getTime() + 1 >= trade.closedAt.getTime();
+  if (!covered) return false;
+
+  // closeTime is the last ms of a candle
+  const widthMs = first.closeTime.getTime() + 1 - first.openTime.getTime();
+  if (widthMs <= 0) return false;
+  const expected = Math.round((last.closeTime.getTime() + 1 - first.openTime.getTime()) / widthMs);
+  return candles.length >= expected;
+}
+
+/**
+ * Stored candles of one interval overlapping [from, to], oldest first
+ */
+function loadCandles(symbol: string, interval: string, from: Date, to: Date) {
+  return prisma.kline.findMany({
+    where: {
+      platform: KLINE_PLATFORM,
+      symbol: symbol.toUpperCase(),
+      interval,
+      openTime: { lte: to },
+      closeTime: { gte: from },
+    },
+    orderBy: { openTime: 'asc' },
+    select: { openTime: true, closeTime: true, high: true, low: true },
+  });
+}
+
+/**
+ * Measure a trade from stored candles. Null until candles cover the whole
+ * trade without gaps (candlesCoverTrade).
+ */
+export async function measureExcursion(trade: ExcursionTrade): Promise<Excursion | null> {
+  const spanMs = trade.closedAt.getTime() - trade.openedAt.getTime();
+  if (spanMs < 0) return null;
+
+  for (const interval of config.klines.intervals) {
+    if (interval === '1m' && spanMs > MAX_ONE_MINUTE_SPAN_MS) continue;
+
+    const candles = await loadCandles(trade.symbol, interval, trade.openedAt, trade.closedAt);
+    if (!candlesCoverTrade(trade, candles)) continue;
+
+    const fields = computeExcursion(trade, candles);
+    if (fields) return { ...fields, interval, candles: candles.length };
+  }
+
+  return null;
+}
+
+/**
+ * Mean excursion metrics over trades (rows without metrics are skipped).
+ */
+export function summarizeExcursions(rows: ExcursionRow[]): ExcursionSummary {
+  const measured = rows.filter(
+    (r): r is ExcursionFields => r.maePct !== null && r.mfePct !== null,
+  );
+  const avg = (values: number[]) =>
+    values.length > 0 ? round4(values.reduce((sum, v) => sum + v, 0) / values.length) : null;
+
+  const timesToMfe = measured.flatMap((r) => (r.timeToMfeSec === null ? [] : [r.timeToMfeSec]));
+  const stops = measured.flatMap((r) => (r.stopEfficiency === null ? [] : [r.stopEfficiency]));
+
+  return {
+    measured: measured.length,
+    avgMaePct: avg(measured.map((r) => r.maePct)),
+    maxMaePct: measured.length > 0 ? Math.max(...measured.map((r) => r.maePct)) : null,
+    avgMfePct: avg(measured.map((r) => r.mfePct)),
+    avgTimeToMfeSec: timesToMfe.length > 0 ? Math.round(avg(timesToMfe)!) : null,
+    stopsMeasured: stops.length,
+    avgStopEfficiency: avg(stops),
+  };
+}
+
+// ────────────────────────────────────────────────────────────
+// Simulated positions
+// ────────────────────────────────────────────────────────────
+
+/**
+ * Measure closed SimulatedPositions that have no excursion yet, most
+ * recently closed first. Positions whose candles aren't stored yet are
+ * retried on the next call. Returns how many were measured.
+ */
+export async function fillSimulatedExcursions(
+  limit: number = config.klines.excursionBatchSize,
+): Promise<number> {
+  const positions = await prisma.simulatedPosition.findMany({
+    where: { status: 'CLOSED', excursionAt: null, closedAt: { not: null } },
+    orderBy: { closedAt: 'desc' },
+    take: limit,
+    select: {
+      id: true,
+      symbol: true,
+      direction: true,
+      entryPrice: true,
+      stopLossPrice: true,
+      openedAt: true,
+      closedAt: true,
+    },
+  });
+
+  let measured = 0;
+  for (const p of positions) {
+    try {
+      const excursion = await measureExcursion({
+        symbol: p.symbol,
+        direction: p.direction === 'SHORT' ? 'SHORT' : 'LONG',
+        entryPrice: p.entryPrice,
+        stopLossPrice: p.stopLossPrice,
+        openedAt: p.openedAt,
+        closedAt: p.closedAt!,
+      });
+      if (!excursion) continue;
+
+      await prisma.simulatedPosition.update({
+        where: { id: p.id },
+        data: {
+          maePct: excursion.maePct,
+          mfePct: excursion.mfePct,
+          timeToMfeSec: excursion.timeToMfeSec,
+          stopEfficiency: excursion.stopEfficiency,
+          excursionInterval: excursion.interval,
+          excursionAt: new Date(),
+        },
+      });
+      measured++;
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      logger.warn({ positionId: p.id, error: msg }, 'Failed to measure position excursion');
+    }
+  }
+
+  return measured;
+}
@@ -121,6 +121,7 @@ export interface ExecutionCostInput {
   positionNotional: number;
   slippageBps: number;
   commissionBps: number;
+  fundingUSDT?: number; // accrued funding (positive = paid, negative = received)
 }
 
 export interface ExecutionCostResult {
@@ -132,13 +133,14 @@ export interface ExecutionCostResult {
   entryCommissionUSDT: number;
   exitCommissionUSDT: number;
   totalCommissionUSDT: number;
+  fundingUSDT: number;
   grossPnlUSDT: number;
   netPnlUSDT: number;
   totalCostUSDT: number;
 }
 
 /**
- * Compute full execution cost including slippage and commission
+ * Compute full execution cost including slippage, commission and funding
  * Used when closing a position to get realistic net P&L
  */
 export function computeExecutionCost(params: ExecutionCostInput): ExecutionCostResult {
@@ -149,6 +151,7 @@ export function computeExecutionCost(params: ExecutionCostInput): ExecutionCostR
     positionNotional,
     slippageBps,
     commissionBps,
+    fundingUSDT = 0,
   } = params;
 
   // Apply slippage to entry
@@ -191,8 +194,8 @@ export function computeExecutionCost(params: ExecutionCostInput): ExecutionCostR
     grossPnlUSDT = positionNotional * rawMove;
   }
 
-  // Net P&L after costs
-  const totalCostUSDT = totalSlippageUSDT + totalCommissionUSDT;
+  // Net P&L after costs (funding received lowers the cost)
+  const totalCostUSDT = totalSlippageUSDT + totalCommissionUSDT + fundingUSDT;
   const netPnlUSDT = grossPnlUSDT - totalCostUSDT;
 
   return {
@@ -204,8 +207,57 @@ export function computeExecutionCost(params: ExecutionCostInput): ExecutionCostR
     entryCommissionUSDT: round4(entryCommission.commissionUSDT),
     exitCommissionUSDT: round4(exitCommission.commissionUSDT),
     totalCommissionUSDT: round4(totalCommissionUSDT),
+    fundingUSDT: round4(fundingUSDT),
     grossPnlUSDT: round4(grossPnlUSDT),
     netPnlUSDT: round4(netPnlUSDT),
     totalCostUSDT: round4(totalCostUSDT),
   };
 }
+
+// ============================================================================
+// Funding
+// ============================================================================
+
+export interface FundingSettlement {
+  fundingRate: number; // e.g. 0.0001 = 0.01% per settlement
+  markPrice: number | null; // mark price at settlement (entry price if unknown)
+}
+
+export interface FundingInput {
+  direction: 'LONG' | 'SHORT';
+  entryPrice: number;
+  positionNotional: number; // position size in USDT at entry
+  settlements: FundingSettlement[];
+}
+
+export interface FundingResult {
+  fundingUSDT: number; // positive = paid, negative = received
+  settlements: number;
+}
+
+/**
+ * Calculate perpetual funding over a set of settlements
+ * - Positive rate: longs pay shorts; negative rate: shorts pay longs
+ * - Payment = rate × notional at the settlement mark price
+ *   (quantity = positionNotional / entryPrice)
+ */
+export function computeFunding(params: FundingInput): FundingResult {
+  const { direction, entryPrice, positionNotional, settlements } = params;
+  if (entryPrice <= 0 || positionNotional <= 0) {
+    return { fundingUSDT: 0, settlements: 0 };
+  }
+
+  const quantity = positionNotional / entryPrice;
+  const sign = direction === 'LONG' ? 1 : -1;
+
+  let fundingUSDT = 0;
+  for (const s of settlements) {
+    const price = s.markPrice && s.markPrice > 0 ? s.markPrice : entryPrice;
+    fundingUSDT += sign * s.fundingRate * quantity * price;
+  }
+
+  return {
+    fundingUSDT: round4(fundingUSDT),
+    settlements: settlements.length,
+  };
+}
@@ -0,0 +1,324 @@
+/**
+ * Funding Rates
+ *
+ * Stores the funding rate history of every price feed symbol (GET
+ * /fapi/v1/fundingRate, one row per settlement) and accrues funding on
+ * simulated positions:
+ *   - OPEN positions get every settlement since the last one accrued
+ *     (fundingAccruedUntil, else openedAt)
+ *   - positions closed within config.funding.lateSettlementHours also get
+ *     settlements up to closedAt that were synced after the close; their
+ *     pnlUSDT / roiPct are adjusted
+ * fundingUSDT is positive when the position paid and negative when it
+ * received. Rates come from Binance futures for every platform.
+ *
+ * Close paths call accrueFunding first and pass the result to
+ * computeSimulationPerformance / computeExecutionCost, so PnL is net of
+ * funding. Backtests use measureFunding over a trade's lifetime.
+ */
+
+import { prisma } from '../db/prisma.js';
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+import { fetchEndpointJson } from './resilientFetch.js';
+import { getPriceUniverse } from './priceFeed.js';
+import { computeFunding } from './executionModel.js';
+
+// ────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────
+
+/** One element of the /fapi/v1/fundingRate response (numbers as strings) */
+interface FundingRateRow {
+  symbol: string;
+  fundingTime: number;
+  fundingRate: string;
+  markPrice?: string;
+}
+
+/** SimulatedPosition fields needed to accrue funding */
+export interface FundingPosition {
+  id: string;
+  symbol: string;
+  direction: string;
+  status: string;
+  entryPrice: number;
+  positionNotional: number;
+  marginNotional: number;
+  pnlUSDT: number | null;
+  openedAt: Date;
+  fundingUSDT: number;
+  fundingAccruedUntil: Date | null;
+}
+
+export interface FundingSyncResult {
+  symbols: number;
+  ratesStored: number;
+  failed: { symbol: string; error: string }[];
+}
+
+const FUNDING_PLATFORM = 'binance';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Max settlements per request accepted by the endpoint */
+const PAGE_LIMIT = 1000;
+
+const FUNDING_POSITION_SELECT = {
+  id: true,
+  symbol: true,
+  direction: true,
+  status: true,
+  entryPrice: true,
+  positionNotional: true,
+  marginNotional: true,
+  pnlUSDT: true,
+  openedAt: true,
+  closedAt: true,
+  fundingUSDT: true,
+  fundingAccruedUntil: true,
+} as const;
+
+function round4(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function toNumber(value: string | undefined): number | null {
+  if (value === undefined || value === '') return null;
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+// ────────────────────────────────────────────────────────────
+// Sync
+// ────────────────────────────────────────────────────────────
+
+/**
+ * Fetch and store settlements of one symbol after `fromMs`. Returns how
+ * many were stored; throws when a request fails.
+ */
+async function syncSymbol(symbol: string, fromMs: number): Promise<number> {
+  let start = fromMs;
+  let stored = 0;
+
+  for (;;) {
+    const params = new URLSearchParams({ symbol, startTime: String(start), limit: String(PAGE_LIMIT) });
+    const res = await fetchEndpointJson<FundingRateRow[]>(
+      'fundingRate',
+      `${config.funding.baseUrl}/fapi/v1/fundingRate?${params}`,
+      { method: 'GET' },
+      config.funding.timeoutMs,
+    );
+    if (!res.success || !Array.isArray(res.data)) {
+      throw new Error(`Funding rate request failed: ${res.error ?? 'unexpected response'}`);
+    }
+
+    const rows = res.data
+      .map((r) => ({
+        platform: FUNDING_PLATFORM,
+        symbol,
+        fundingTime: new Date(r.fundingTime),
+        fundingRate: toNumber(r.fundingRate),
+        markPrice: toNumber(r.markPrice),
+      }))
+      .filter((r): r is typeof r & { fundingRate: number } =>
+        r.fundingRate !== null && !isNaN(r.fundingTime.getTime()));
+
+    if (rows.length > 0) {
+      const { count } = await prisma.fundingRate.createMany({ data: rows, skipDuplicates: true });
+      stored += count;
+    }
+
+    if (res.data.length < PAGE_LIMIT) break;
+    start = res.data[res.data.length - 1].fundingTime + 1;
+  }
+
+  return stored;
+}
+
+/**
+ * Bring every price feed symbol up to date. A failing symbol doesn't stop
+ * the others.
+ */
+export async function syncFundingRates(): Promise<FundingSyncResult> {
+  const universe = await getPriceUniverse();
+  const failed: FundingSyncResult['failed'] = [];
+  let ratesStored = 0;
+
+  for (const symbol of universe) {
+    try {
+      const latest = await prisma.fundingRate.findFirst({
+        where: { platform: FUNDING_PLATFORM, symbol },
+        orderBy: { fundingTime: 'desc' },
+        select: { fundingTime: true },
+      });
+      const from = latest
+        ? latest.fundingTime.getTime() + 1
+        : Date.now() - config.funding.backfillDays * DAY_MS;
+      ratesStored += await syncSymbol(symbol, from);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      failed.push({ symbol, error: msg });
+    }
+  }
+
+  return { symbols: universe.length, ratesStored, failed };
+}
+
+// ────────────────────────────────────────────────────────────
+// Accrual
+// ────────────────────────────────────────────────────────────
+
+function settlementsBetween(symbol: string, after: Date, until: Date) {
+  return prisma.fundingRate.findMany({
+    where: {
+      platform: FUNDING_PLATFORM,
+      symbol: symbol.toUpperCase(),
+      fundingTime: { gt: after, lte: until },
+    },
+    orderBy: { fundingTime: 'asc' },
+    select: { fundingTime: true, fundingRate: true, markPrice: true },
+  });
+}
+
+/**
+ * Funding over [from, to] for a position of the given size. Pure read; used
+ * by backtests.
+ */
+export async function measureFunding(params: {
+  symbol: string;
+  direction: 'LONG' | 'SHORT';
+  entryPrice: number;
+  positionNotional: number;
+  from: Date;
+  to: Date;
+}): Promise<number> {
+  const settlements = await settlementsBetween(params.symbol, params.from, params.to);
+  return computeFunding({ ...params, settlements }).fundingUSDT;
+}
+
+/**
+ * Accrue stored settlements up to `until` on one position and return its
+ * total fundingUSDT. A CLOSED position also gets pnlUSDT / roiPct reduced by
+ * the newly accrued amount. The write is skipped when the position changed
+ * since it was read (another accrual or a close got there first).
+ */
+export async function accrueFunding(position: FundingPosition, until: Date): Promise<number> {
+  const after = position.fundingAccruedUntil ?? position.openedAt;
+  if (until.getTime() <= after.getTime()) return position.fundingUSDT;
+
+  const settlements = await settlementsBetween(position.symbol, after, until);
+  if (settlements.length === 0) return position.fundingUSDT;
+
+  const { fundingUSDT } = computeFunding({
+    direction: position.direction === 'SHORT' ? 'SHORT' : 'LONG',
+    entryPrice: position.entryPrice,
+    positionNotional: position.positionNotional,
+    settlements,
+  });
+  const total = round4(position.fundingUSDT + fundingUSDT);
+  const closedPnl = position.status === 'CLOSED' && position.pnlUSDT !== null
+    ? round4(position.pnlUSDT - fundingUSDT)
+    : null;
+
+  const { count } = await prisma.simulatedPosition.updateMany({
+    where: {
+      id: position.id,
+      status: position.status,
+      fundingAccruedUntil: position.fundingAccruedUntil,
+    },
+    data: {
+      fundingUSDT: total,
+      fundingSettlements: { increment: settlements.length },
+      fundingAccruedUntil: settlements[settlements.length - 1].fundingTime,
+      ...(closedPnl !== null && {
+        pnlUSDT: closedPnl,
+        roiPct: position.marginNotional > 0 ? round4((closedPnl / position.marginNotional) * 100) : 0,
+      }),
+    },
+  });
+
+  if (count === 0) {
+    const current = await prisma.simulatedPosition.findUnique({
+      where: { id: position.id },
+      select: { fundingUSDT: true },
+    });
+    return current?.fundingUSDT ?? position.fundingUSDT;
+  }
+  return total;
+}
+
+/**
+ * Accrue funding on every OPEN position, and on positions closed within
+ * the late-settlement window. Returns how many positions changed.
+ */
+export async function accrueSimulatedFunding(): Promise<number> {
+  const now = new Date();
+  const lateSince = new Date(now.getTime() - config.funding.lateSettlementHours * HOUR_MS);
+
+  const positions = await prisma.simulatedPosition.findMany({
+    where: {
+      OR: [
+        { status: 'OPEN' },
+        { status: 'CLOSED', closedAt: { gte: lateSince } },
+      ],
+    },
+    select: FUNDING_POSITION_SELECT,
+  });
+
+  let accrued = 0;
+  for (const p of positions) {
+    try {
+      const until = p.status === 'CLOSED' && p.closedAt ? p.closedAt : now;
+      const total = await accrueFunding(p, until);
+      if (total !== p.fundingUSDT) accrued++;
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      logger.warn({ positionId: p.id, error: msg }, 'Failed to accrue funding');
+    }
+  }
+
+  return accrued;
+}
+
+// ────────────────────────────────────────────────────────────
+// Timer
+// ────────────────────────────────────────────────────────────
+
+let timer: ReturnType<typeof setInterval> | null = null;
+let syncing = false;
+
+/**
+ * Sync funding rates and accrue them every intervalMs (skipped while a sync
+ * is in progress).
+ */
+export function startFundingTimer(intervalMs: number): void {
+  if (timer) return;
+
+  const tick = async () => {
+    if (syncing) return;
+    syncing = true;
+    try {
+      const result = await syncFundingRates();
+      const positionsAccrued = await accrueSimulatedFunding();
+      if (result.failed.length > 0 || positionsAccrued > 0) {
+        logger.info({ ...result, positionsAccrued }, 'Funding sync completed');
+      }
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      logger.warn({ error: msg }, 'Funding sync failed');
+    } finally {
+      syncing = false;
+    }
+  };
+
+  timer = setInterval(() => void tick(), intervalMs);
+  void tick();
+  logger.info({ intervalMs, baseUrl: config.funding.baseUrl }, 'Funding timer started');
+}
+
+export function stopFundingTimer(): void {
+  if (!timer) return;
+  clearInterval(timer);
+  timer = null;
+}
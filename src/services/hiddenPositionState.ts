@@ -8,14 +8,18 @@
  * 1. Creates PositionState records from OPEN events
  * 2. Closes PositionState records from CLOSE events
  * 3. Provides accurate timing data (from eventTime)
+ * 4. Links a close and an opposite-side open of the same symbol as a flip
+ *    (see linkPositionFlips in positionState.ts)
  */
 
 import { prisma } from '../db/prisma.js';
 import type { EventInput } from '../schemas/ingest.js';
+import { linkPositionFlips, type FlipCandidate } from './positionState.js';
 
 interface HiddenPositionStateUpdate {
   newPositions: number;
   closedPositions: number;
+  flipsDetected: number;
 }
 
 /**
@@ -34,6 +38,7 @@ export async function trackHiddenPositionStates(
 ): Promise<HiddenPositionStateUpdate> {
   let newCount = 0;
   let closedCount = 0;
+  const created: FlipCandidate[] = [];
 
   // Filter for OPEN events
   const openEvents = events.filter(e =>
@@ -66,7 +71,7 @@ export async function trackHiddenPositionStates(
 
     if (!existing) {
       // Create new PositionState from OPEN event
-      await prisma.positionState.create({
+      const state = await prisma.positionState.create({
         data: {
           platform,
           leadId,
@@ -79,9 +84,12 @@ export async function trackHiddenPositionStates(
           firstSeenAt: eventTime,
           lastSeenAt: eventTime,
           estimatedOpenTime: eventTime, // Use actual event time
+          openWindowStart: eventTime,
+          openWindowEnd: eventTime,
           openEventId: event.event_key, // Link to Event record
         },
       });
+      created.push(state);
       newCount++;
     } else {
       // Position already exists - just update lastSeenAt
@@ -126,6 +134,9 @@ export async function trackHiddenPositionStates(
           status: 'CLOSED',
           disappearedAt: eventTime,
           estimatedCloseTime: eventTime, // Use actual event time
+          closeWindowStart: eventTime,
+          closeWindowEnd: eventTime,
+          closeReason: 'CLOSED_BY_ORDER',
           closeEventId: event.event_key, // Link to Event record
         },
       });
@@ -133,9 +144,17 @@ export async function trackHiddenPositionStates(
     }
   }
 
+  // ================================================================
+  // 3. Link flips (closes are applied, so both sides are known)
+  // ================================================================
+  const flipCount = created.length > 0
+    ? await linkPositionFlips(created, 'ORDER_HISTORY')
+    : 0;
+
   return {
     newPositions: newCount,
     closedPositions: closedCount,
+    flipsDetected: flipCount,
   };
 }
 
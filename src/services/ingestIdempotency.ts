@@ -0,0 +1,220 @@
+/**
+ * Ingest Idempotency
+ *
+ * n8n retries a request that timed out, so the same payload can reach an
+ * ingest endpoint twice. Events are deduped by eventKey, but snapshots and
+ * RawIngest rows are not. Each ingest request therefore claims a key before
+ * writing anything:
+ *   - the Idempotency-Key header when present, otherwise
+ *   - one derived from the payload's (leadId, fetchedAt)
+ * Keys are scoped per route. Once the request has been processed, its response
+ * is stored on the key:
+ *   - same key, same body        → the stored response is replayed, nothing is written
+ *   - same key, different body   → 422 conflict
+ *   - same key, still processing → 409 (the client retries later)
+ * A failed request releases its key so a retry processes it again. Keys
+ * expire after config.idempotency.ttlHours; the retention job deletes them.
+ */
+
+import { createHash } from 'node:crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db/prisma.js';
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+import { canonicalJson } from './rawIngestStore.js';
+
+// ────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────
+
+export const IDEMPOTENCY_HEADER = 'idempotency-key';
+export const IDEMPOTENT_REPLAY_HEADER = 'idempotent-replayed';
+
+const MAX_KEY_LENGTH = 255;
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface IdempotencyKeyInput {
+  route: string;
+  /** Raw Idempotency-Key header value, if the client sent one */
+  header: string | string[] | undefined;
+  /** Used to derive the key when no header was sent */
+  leadId: string | null;
+  fetchedAt: string | null;
+  body: unknown;
+}
+
+export interface IdempotencyClaim {
+  key: string;
+  route: string;
+  leadId: string | null;
+  derived: boolean;
+  bodyHash: string;
+  /** createdAt of the claimed row; a takeover gets a new one */
+  claimedAt: Date;
+}
+
+/** Answer for a request that must not be processed: replay, conflict or invalid key */
+export interface IdempotencyReply {
+  statusCode: number;
+  replayed: boolean;
+  body: unknown;
+}
+
+export type IdempotencyOutcome =
+  | { outcome: 'claimed'; claim: IdempotencyClaim }
+  | { outcome: 'unkeyed' }
+  | { outcome: 'reply'; reply: IdempotencyReply };
+
+// ────────────────────────────────────────────────────────────
+// Keys
+// ────────────────────────────────────────────────────────────
+
+export function hashRequestBody(body: unknown): string {
+  return createHash('sha256').update(canonicalJson(body)).digest('hex');
+}
+
+function errorReply(statusCode: number, error: string, key: string): IdempotencyOutcome {
+  return { outcome: 'reply', reply: { statusCode, replayed: false, body: { success: false, error, key } } };
+}
+
+function readHeader(header: string | string[] | undefined): string | null {
+  const value = Array.isArray(header) ? header[0] : header;
+  return value === undefined ? null : value.trim();
+}
+
+function deriveKey(leadId: string | null, fetchedAt: string | null): string | null {
+  if (!leadId || !fetchedAt) return null;
+  const at = new Date(fetchedAt);
+  return isNaN(at.getTime()) ? null : `${leadId}@${at.toISOString()}`;
+}
+
+// ────────────────────────────────────────────────────────────
+// Claim / complete / release
+// ────────────────────────────────────────────────────────────
+
+/**
+ * Claim the request's key. Returns 'claimed' when the caller should process
+ * the request, 'unkeyed' when no key could be determined (processed without
+ * idempotency), or a reply to send as-is.
+ */
+export async function claimIdempotencyKey(input: IdempotencyKeyInput): Promise<IdempotencyOutcome> {
+  const header = readHeader(input.header);
+  if (header !== null && (header.length === 0 || header.length > MAX_KEY_LENGTH)) {
+    return errorReply(400, `Idempotency-Key must be 1-${MAX_KEY_LENGTH} characters`, header);
+  }
+
+  const id = header ?? deriveKey(input.leadId, input.fetchedAt);
+  if (!id) return { outcome: 'unkeyed' };
+
+  const key = `${input.route} ${id}`;
+  const fields = {
+    route: input.route,
+    leadId: input.leadId,
+    derived: header === null,
+    bodyHash: hashRequestBody(input.body),
+  };
+
+  // Two attempts: the existing key may expire or be released between create and read
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + config.idempotency.ttlHours * HOUR_MS);
+    const claim: IdempotencyClaim = { key, ...fields, claimedAt: now };
+
+    try {
+      await prisma.ingestIdempotencyKey.create({
+        data: { key, ...fields, status: 'PROCESSING', createdAt: now, expiresAt },
+      });
+      return { outcome: 'claimed', claim };
+    } catch (err) {
+      if (!(err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002')) throw err;
+    }
+
+    const existing = await prisma.ingestIdempotencyKey.findUnique({ where: { key: claim.key } });
+    if (!existing) continue;
+
+    const expired = existing.expiresAt.getTime() <= now.getTime();
+    const abandoned =
+      existing.status === 'PROCESSING' &&
+      now.getTime() - existing.createdAt.getTime() > config.idempotency.staleAfterMs;
+
+    if (!expired && existing.bodyHash !== claim.bodyHash) {
+      logger.warn({ key: claim.key, leadId: claim.leadId }, 'Idempotency key reused with a different body');
+      return errorReply(
+        422,
+        claim.derived
+          ? 'A different payload was already ingested for this leadId and fetchedAt'
+          : 'Idempotency-Key was already used with a different request body',
+        id,
+      );
+    }
+
+    if (expired || abandoned) {
+      // Take the key over only if nobody else did since we read it
+      const { count } = await prisma.ingestIdempotencyKey.updateMany({
+        where: { key: claim.key, createdAt: existing.createdAt },
+        data: {
+          ...fields,
+          status: 'PROCESSING',
+          statusCode: null,
+          response: Prisma.DbNull,
+          createdAt: now,
+          completedAt: null,
+          expiresAt,
+        },
+      });
+      if (count === 1) return { outcome: 'claimed', claim };
+      continue;
+    }
+
+    if (existing.status === 'COMPLETED' && existing.statusCode !== null) {
+      logger.info({ key: claim.key, leadId: claim.leadId }, 'Replaying stored ingest response');
+      return {
+        outcome: 'reply',
+        reply: { statusCode: existing.statusCode, replayed: true, body: existing.response },
+      };
+    }
+
+    return errorReply(409, 'A request with this key is still being processed; retry later', id);
+  }
+
+  return errorReply(409, 'Idempotency key is contended; retry later', id);
+}
+
+/**
+ * Store the response of a processed request for replay.
+ */
+export async function completeIdempotencyKey(
+  claim: IdempotencyClaim,
+  statusCode: number,
+  response: unknown,
+): Promise<void> {
+  try {
+    await prisma.ingestIdempotencyKey.updateMany({
+      where: { key: claim.key, createdAt: claim.claimedAt },
+      data: {
+        status: 'COMPLETED',
+        statusCode,
+        response: response as Prisma.InputJsonValue,
+        completedAt: new Date(),
+      },
+    });
+  } catch (err) {
+    // The data is written either way; a retry would just be processed again
+    const msg = err instanceof Error ? err.message : String(err);
+    logger.warn({ key: claim.key, error: msg }, 'Failed to store idempotent response');
+  }
+}
+
+/**
+ * Drop the key of a request that failed, so a retry processes it again.
+ */
+export async function releaseIdempotencyKey(claim: IdempotencyClaim): Promise<void> {
+  try {
+    await prisma.ingestIdempotencyKey.deleteMany({
+      where: { key: claim.key, createdAt: claim.claimedAt, status: 'PROCESSING' },
+    });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    logger.warn({ key: claim.key, error: msg }, 'Failed to release idempotency key');
+  }
+}
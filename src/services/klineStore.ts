@@ -0,0 +1,312 @@
+/**
+ * Kline Store
+ *
+ * Stores closed OHLC candles (config.klines.intervals: 1m / 5m) from the
+ * USDⓈ-M futures klines endpoint (GET /fapi/v1/klines) for a universe of:
+ *   - config.klines.symbols, plus
+ *   - symbols held in an ACTIVE PositionState or an OPEN SimulatedPosition
+ *     (config.klines.includeHeldSymbols), so every simulated trade has
+ *     candles for MAE / MFE
+ *
+ * Each sync continues every symbol / interval from its latest stored candle;
+ * a pair seen for the first time starts config.klines.backfillDays back.
+ * Longer history is fetched by a backfill job (POST /admin/klines/backfill).
+ * After each timed sync and each backfill, closed SimulatedPositions are
+ * measured (see excursion.ts).
+ */
+
+import { prisma } from '../db/prisma.js';
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+import { fetchEndpointJson } from './resilientFetch.js';
+import { getHeldSymbols } from './priceFeed.js';
+import { fillSimulatedExcursions } from './excursion.js';
+
+// ────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────
+
+export type KlineInterval = '1m' | '5m';
+
+/** One element of the /fapi/v1/klines response: [openTime, open, high, low, close, volume, closeTime, ...] */
+type KlineRow = [number, string, string, string, string, string, number, ...unknown[]];
+
+export interface KlineSyncResult {
+  pairs: number;
+  candlesStored: number;
+  failed: { symbol: string; interval: KlineInterval; error: string }[];
+}
+
+export interface KlineBackfillJob {
+  status: 'RUNNING' | 'COMPLETED' | 'FAILED';
+  symbols: string[];
+  intervals: KlineInterval[];
+  days: number;
+  startedAt: string;
+  completedAt: string | null;
+  pairsTotal: number;
+  pairsDone: number;
+  candlesStored: number;
+  failed: { symbol: string; interval: KlineInterval; error: string }[];
+  /** Closed simulated positions measured once the candles were in */
+  excursionsMeasured: number;
+  error: string | null;
+}
+
+const KLINE_PLATFORM = 'binance';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Max candles per request accepted by the endpoint */
+const PAGE_LIMIT = 1500;
+
+const KLINE_INTERVAL_MS: Record<KlineInterval, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+};
+
+// ────────────────────────────────────────────────────────────
+// Fetching
+// ────────────────────────────────────────────────────────────
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/**
+ * Symbols to sync: the configured list plus held symbols (if enabled).
+ */
+export async function getKlineUniverse(): Promise<string[]> {
+  const universe = new Set(config.klines.symbols);
+  if (config.klines.includeHeldSymbols) {
+    for (const symbol of await getHeldSymbols()) universe.add(symbol);
+  }
+  return [...universe];
+}
+
+async function fetchKlinePage(
+  symbol: string,
+  interval: KlineInterval,
+  startTime: number,
+  endTime: number,
+): Promise<KlineRow[]> {
+  const params = new URLSearchParams({
+    symbol,
+    interval,
+    startTime: String(startTime),
+    endTime: String(endTime),
+    limit: String(PAGE_LIMIT),
+  });
+  const res = await fetchEndpointJson<KlineRow[]>(
+    'klines',
+    `${config.klines.baseUrl}/fapi/v1/klines?${params}`,
+    { method: 'GET' },
+    config.klines.timeoutMs,
+  );
+  if (!res.success || !Array.isArray(res.data)) {
+    throw new Error(`Klines request failed: ${res.error ?? 'unexpected response'}`);
+  }
+  return res.data;
+}
+
+/**
+ * Fetch and store the closed candles of one symbol / interval in
+ * [fromMs, toMs]. Candles already stored are skipped. Returns how many
+ * were stored; throws when a request fails.
+ */
+export async function syncKlineRange(
+  symbol: string,
+  interval: KlineInterval,
+  fromMs: number,
+  toMs: number,
+): Promise<number> {
+  const stepMs = KLINE_INTERVAL_MS[interval];
+  let start = Math.floor(fromMs / stepMs) * stepMs;
+  let stored = 0;
+
+  while (start < toMs) {
+    const rows = await fetchKlinePage(symbol, interval, start, toMs);
+    const now = Date.now();
+
+    const candles = rows
+      .filter((r) => Array.isArray(r) && r[6] < now)
+      .map((r) => ({
+        platform: KLINE_PLATFORM,
+        symbol,
+        interval,
+        openTime: new Date(r[0]),
+        closeTime: new Date(r[6]),
+        open: parseFloat(r[1]),
+        high: parseFloat(r[2]),
+        low: parseFloat(r[3]),
+        close: parseFloat(r[4]),
+        volume: parseFloat(r[5]),
+      }))
+      .filter((c) => [c.open, c.high, c.low, c.close].every((v) => Number.isFinite(v) && v > 0));
+
+    if (candles.length > 0) {
+      const { count } = await prisma.kline.createMany({ data: candles, skipDuplicates: true });
+      stored += count;
+    }
+
+    if (rows.length < PAGE_LIMIT) break;
+    start = rows[rows.length - 1][0] + stepMs;
+    await sleep(config.klines.requestDelayMs);
+  }
+
+  return stored;
+}
+
+// ────────────────────────────────────────────────────────────
+// Sync
+// ────────────────────────────────────────────────────────────
+
+/**
+ * Bring every universe symbol / interval up to date. A failing pair doesn't
+ * stop the others.
+ */
+export async function syncKlines(): Promise<KlineSyncResult> {
+  const universe = await getKlineUniverse();
+  const result: KlineSyncResult = { pairs: 0, candlesStored: 0, failed: [] };
+  const now = Date.now();
+
+  for (const symbol of universe) {
+    for (const interval of config.klines.intervals) {
+      result.pairs++;
+      try {
+        const latest = await prisma.kline.findFirst({
+          where: { platform: KLINE_PLATFORM, symbol, interval },
+          orderBy: { openTime: 'desc' },
+          select: { openTime: true },
+        });
+        const from = latest
+          ? latest.openTime.getTime() + KLINE_INTERVAL_MS[interval]
+          : now - config.klines.backfillDays * DAY_MS;
+        result.candlesStored += await syncKlineRange(symbol, interval, from, now);
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        result.failed.push({ symbol, interval, error: msg });
+      }
+    }
+  }
+
+  return result;
+}
+
+let timer: ReturnType<typeof setInterval> | null = null;
+let syncing = false;
+
+/**
+ * Sync klines and measure closed simulated positions every intervalMs
+ * (skipped while a sync is in progress).
+ */
+export function startKlineTimer(intervalMs: number): void {
+  if (timer) return;
+
+  const tick = async () => {
+    if (syncing) return;
+    syncing = true;
+    try {
+      const result = await syncKlines();
+      const excursionsMeasured = await fillSimulatedExcursions();
+      if (result.failed.length > 0 || excursionsMeasured > 0) {
+        logger.info({ ...result, excursionsMeasured }, 'Kline sync completed');
+      }
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      logger.warn({ error: msg }, 'Kline sync failed');
+    } finally {
+      syncing = false;
+    }
+  };
+
+  timer = setInterval(() => void tick(), intervalMs);
+  void tick();
+  logger.info({ intervalMs, intervals: config.klines.intervals }, 'Kline timer started');
+}
+
+export function stopKlineTimer(): void {
+  if (!timer) return;
+  clearInterval(timer);
+  timer = null;
+}
+
+// ────────────────────────────────────────────────────────────
+// Backfill job
+// ────────────────────────────────────────────────────────────
+
+let currentBackfill: KlineBackfillJob | null = null;
+
+/**
+ * Latest backfill job (running or finished).
+ */
+export function getKlineBackfill(): KlineBackfillJob | null {
+  return currentBackfill;
+}
+
+/**
+ * Start fetching `days` of history in the background (default: the whole
+ * universe and every configured interval). Returns null if a backfill is
+ * already running.
+ */
+export async function startKlineBackfill(params: {
+  symbols?: string[];
+  intervals?: KlineInterval[];
+  days: number;
+}): Promise<KlineBackfillJob | null> {
+  const symbols = params.symbols?.length
+    ? params.symbols.map((s) => s.toUpperCase())
+    : await getKlineUniverse();
+  const intervals = params.intervals?.length ? params.intervals : config.klines.intervals;
+
+  // Checked after the universe lookup so nothing awaits between check and start
+  if (currentBackfill?.status === 'RUNNING') return null;
+
+  const job: KlineBackfillJob = {
+    status: 'RUNNING',
+    symbols,
+    intervals,
+    days: params.days,
+    startedAt: new Date().toISOString(),
+    completedAt: null,
+    pairsTotal: symbols.length * intervals.length,
+    pairsDone: 0,
+    candlesStored: 0,
+    failed: [],
+    excursionsMeasured: 0,
+    error: null,
+  };
+  currentBackfill = job;
+
+  runBackfill(job).catch((err) => {
+    job.status = 'FAILED';
+    job.error = err instanceof Error ? err.message : String(err);
+    job.completedAt = new Date().toISOString();
+    logger.error({ error: job.error }, 'Kline backfill failed');
+  });
+
+  return job;
+}
+
+async function runBackfill(job: KlineBackfillJob): Promise<void> {
+  const to = Date.now();
+  const from = to - job.days * DAY_MS;
+  logger.info({ symbols: job.symbols.length, intervals: job.intervals, days: job.days }, '🕯️ Kline backfill starting');
+
+  for (const symbol of job.symbols) {
+    for (const interval of job.intervals) {
+      try {
+        job.candlesStored += await syncKlineRange(symbol, interval, from, to);
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        job.failed.push({ symbol, interval, error: msg });
+      }
+      job.pairsDone++;
+    }
+  }
+  job.excursionsMeasured = await fillSimulatedExcursions();
+
+  job.status = 'COMPLETED';
+  job.completedAt = new Date().toISOString();
+  logger.info(
+    { candlesStored: job.candlesStored, failed: job.failed.length, excursionsMeasured: job.excursionsMeasured },
+    '✅ Kline backfill completed',
+  );
+}
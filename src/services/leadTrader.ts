@@ -30,6 +30,21 @@ export async function upsertLeadTrader(
     });
 }
 
+/**
+ * Record that a trader's payload at `fetchedAt` was tracked. lastFetchedAt
+ * only moves forward (a late batch ingest leaves it alone); a failed fetch
+ * never gets here, so the next payload's open windows span it.
+ */
+export async function markTraderFetched(leadId: string, fetchedAt: Date) {
+    await prisma.leadTrader.updateMany({
+        where: {
+            id: leadId,
+            OR: [{ lastFetchedAt: null }, { lastFetchedAt: { lt: fetchedAt } }],
+        },
+        data: { lastFetchedAt: fetchedAt },
+    });
+}
+
 /**
  * Get a lead trader by ID
  */
@@ -0,0 +1,268 @@
+/**
+ * Liquidation Detection
+ *
+ * Every PositionSnapshot gets an estimated liquidation price (liqPrice) from
+ * its entry and leverage. With margin per unit m = entry / leverage and
+ * maintenance margin rate mmr (config.liquidation.maintenanceMarginRate):
+ *   - LONG:  (entry − m) / (1 − mmr)
+ *   - SHORT: (entry + m) / (1 + mmr)
+ * The margin type doesn't change the estimate: marginUSDT is |notional| /
+ * leverage at the mark price, not the isolated wallet, and a CROSS position
+ * is backed by the whole account, so its estimate is only the nearest price
+ * it could be liquidated at. marginType only gates classifyDisappearance
+ * (CROSS → UNKNOWN).
+ *
+ * After each ingest's events are stored, the trader's visible positions that
+ * disappeared are classified (PositionState.closeReason):
+ *   - CLOSED_BY_ORDER: a CLOSE event of the symbol / side in the close window
+ *     (± config.liquidation.orderMatchSlackMs); linked as closeEventId
+ *   - LIQUIDATED: an ISOLATED position with no close order, where the price
+ *     closest to liquidation in the close window (closeWorstPrice: klines,
+ *     price ticks and the last snapshot's mark price) came within
+ *     config.liquidation.proximityPct of the last sighting's estimate
+ *   - UNKNOWN: neither (no close order, a CROSS position, no estimate or no
+ *     price data)
+ * orderHistory can lag, so LIQUIDATED / UNKNOWN states are re-checked on
+ * every ingest for config.liquidation.recheckHours after the close.
+ *
+ * Liquidations in the last 30 days lower the trader's qualityScore
+ * (computeTraderMetrics) and weight (computeTraderWeight).
+ */
+
+import { prisma } from '../db/prisma.js';
+import { config } from '../config.js';
+import type { LiquidationOutcome } from './traderMetrics.js';
+
+// ────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────
+
+export type CloseReason = 'LIQUIDATED' | 'CLOSED_BY_ORDER' | 'UNKNOWN';
+
+/** Position fields needed to estimate its liquidation price */
+export interface LiquidationInput {
+  side: string; // LONG | SHORT
+  entryPrice: number;
+  leverage?: number | null;
+}
+
+export interface CloseClassification {
+  liquidated: number;
+  closedByOrder: number;
+  unknown: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/** How far back liquidations feed the trader metrics and weight */
+const METRICS_LOOKBACK_DAYS = 30;
+
+function round8(value: number): number {
+  return Math.round(value * 1e8) / 1e8;
+}
+
+// ────────────────────────────────────────────────────────────
+// Estimation
+// ────────────────────────────────────────────────────────────
+
+/**
+ * Estimated liquidation price of a position from entry and leverage, or null
+ * without a positive entry and leverage. Pure.
+ */
+export function estimateLiquidationPrice(
+  pos: LiquidationInput,
+  maintenanceMarginRate: number = config.liquidation.maintenanceMarginRate,
+): number | null {
+  if (!(pos.entryPrice > 0) || !pos.leverage || pos.leverage <= 0) return null;
+  const marginPerUnit = pos.entryPrice / pos.leverage;
+
+  const price = pos.side === 'SHORT'
+    ? (pos.entryPrice + marginPerUnit) / (1 + maintenanceMarginRate)
+    : (pos.entryPrice - marginPerUnit) / (1 - maintenanceMarginRate);
+  return price > 0 ? round8(price) : null;
+}
+
+/**
+ * Classify a disappearance. Pure; worstPrice is the lowest (LONG) / highest
+ * (SHORT) price seen in the close window. Only ISOLATED positions can be
+ * LIQUIDATED: a CROSS estimate is too close to say the price got there.
+ */
+export function classifyDisappearance(params: {
+  direction: string;
+  marginType: string | null;
+  hasCloseOrder: boolean;
+  liquidationPrice: number | null;
+  worstPrice: number | null;
+  proximityPct?: number;
+}): CloseReason {
+  if (params.hasCloseOrder) return 'CLOSED_BY_ORDER';
+  if (params.marginType !== 'ISOLATED') return 'UNKNOWN';
+  const { liquidationPrice, worstPrice } = params;
+  if (liquidationPrice === null || worstPrice === null) return 'UNKNOWN';
+
+  const tolerance = (params.proximityPct ?? config.liquidation.proximityPct) / 100;
+  const reached = params.direction === 'SHORT'
+    ? worstPrice >= liquidationPrice * (1 - tolerance)
+    : worstPrice <= liquidationPrice * (1 + tolerance);
+  return reached ? 'LIQUIDATED' : 'UNKNOWN';
+}
+
+// ────────────────────────────────────────────────────────────
+// Prices
+// ────────────────────────────────────────────────────────────
+
+/**
+ * Lowest and highest price of a symbol over [from, to] from stored candles
+ * and price ticks, or nulls when none cover it.
+ */
+async function priceExtremes(symbol: string, from: Date, to: Date) {
+  const [candles, ticks] = await Promise.all([
+    prisma.kline.aggregate({
+      where: { symbol, openTime: { lte: to }, closeTime: { gte: from } },
+      _min: { low: true },
+      _max: { high: true },
+    }),
+    prisma.priceTick.aggregate({
+      where: { symbol, at: { gte: from, lte: to } },
+      _min: { markPrice: true },
+      _max: { markPrice: true },
+    }),
+  ]);
+
+  const lows = [candles._min.low, ticks._min.markPrice].filter((v): v is number => v !== null);
+  const highs = [candles._max.high, ticks._max.markPrice].filter((v): v is number => v !== null);
+  return {
+    low: lows.length > 0 ? Math.min(...lows) : null,
+    high: highs.length > 0 ? Math.max(...highs) : null,
+  };
+}
+
+// ────────────────────────────────────────────────────────────
+// Classification
+// ────────────────────────────────────────────────────────────
+
+/**
+ * Classify a trader's visible positions closed within recheckHours that
+ * aren't CLOSED_BY_ORDER yet. Run after the ingest's events are stored.
+ */
+export async function classifyClosedPositions(
+  leadId: string,
+  platform: string = 'binance',
+  now: Date = new Date(),
+): Promise<CloseClassification> {
+  const result: CloseClassification = { liquidated: 0, closedByOrder: 0, unknown: 0 };
+  const slackMs = config.liquidation.orderMatchSlackMs;
+
+  const states = await prisma.positionState.findMany({
+    where: {
+      platform,
+      leadId,
+      status: 'CLOSED',
+      closeWindowEnd: { gte: new Date(now.getTime() - config.liquidation.recheckHours * HOUR_MS) },
+      OR: [{ closeReason: null }, { closeReason: { in: ['LIQUIDATED', 'UNKNOWN'] } }],
+    },
+  });
+
+  for (const state of states) {
+    const windowEnd = state.closeWindowEnd!;
+    const windowStart = state.closeWindowStart ?? windowEnd;
+
+    const closeEvent = await prisma.event.findFirst({
+      where: {
+        platform,
+        leadId,
+        symbol: state.symbol,
+        eventType: state.direction === 'SHORT' ? 'CLOSE_SHORT' : 'CLOSE_LONG',
+        eventTime: {
+          gte: new Date(windowStart.getTime() - slackMs),
+          lte: new Date(windowEnd.getTime() + slackMs),
+        },
+      },
+      orderBy: { eventTime: 'desc' },
+      select: { id: true },
+    });
+
+    // Last sighting: its liquidation estimate and mark price
+    const snapshot = closeEvent ? null : await prisma.positionSnapshot.findFirst({
+      where: {
+        platform,
+        leadId,
+        symbol: state.symbol,
+        side: state.direction,
+        fetchedAt: { lte: windowStart },
+      },
+      orderBy: { fetchedAt: 'desc' },
+      select: {
+        markPrice: true,
+        entryPrice: true,
+        leverage: true,
+        marginType: true,
+      },
+    });
+
+    let liquidationPrice: number | null = null;
+    let worstPrice: number | null = null;
+    if (snapshot) {
+      // Re-estimated rather than read from liqPrice, which older rows
+      // computed from marginUSDT
+      liquidationPrice = estimateLiquidationPrice({ ...snapshot, side: state.direction });
+      const { low, high } = await priceExtremes(state.symbol, windowStart, windowEnd);
+      const observed = [state.direction === 'SHORT' ? high : low, snapshot.markPrice]
+        .filter((v): v is number => v !== null && v > 0);
+      if (observed.length > 0) {
+        worstPrice = state.direction === 'SHORT' ? Math.max(...observed) : Math.min(...observed);
+      }
+    }
+
+    const closeReason = classifyDisappearance({
+      direction: state.direction,
+      marginType: snapshot?.marginType ?? null,
+      hasCloseOrder: !!closeEvent,
+      liquidationPrice,
+      worstPrice,
+    });
+    if (closeReason === 'LIQUIDATED') result.liquidated++;
+    else if (closeReason === 'CLOSED_BY_ORDER') result.closedByOrder++;
+    else result.unknown++;
+
+    // Written on every check: candles for the close window may arrive later
+    await prisma.positionState.update({
+      where: { id: state.id },
+      data: {
+        closeReason,
+        ...(closeEvent
+          ? { closeEventId: closeEvent.id }
+          : { liquidationPrice, closeWorstPrice: worstPrice }),
+      },
+    });
+  }
+
+  return result;
+}
+
+// ────────────────────────────────────────────────────────────
+// Queries
+// ────────────────────────────────────────────────────────────
+
+/**
+ * A trader's LIQUIDATED positions of the METRICS_LOOKBACK_DAYS before `now`,
+ * oldest first (input for computeTraderMetrics).
+ */
+export async function getMetricLiquidations(
+  leadId: string,
+  platform: string = 'binance',
+  now: Date = new Date(),
+): Promise<LiquidationOutcome[]> {
+  const states = await prisma.positionState.findMany({
+    where: {
+      platform,
+      leadId,
+      closeReason: 'LIQUIDATED',
+      disappearedAt: { gte: new Date(now.getTime() - METRICS_LOOKBACK_DAYS * DAY_MS), lte: now },
+    },
+    orderBy: { disappearedAt: 'asc' },
+    select: { estimatedCloseTime: true, disappearedAt: true },
+  });
+  return states.map((s) => ({ liquidatedAt: s.estimatedCloseTime ?? s.disappearedAt! }));
+}
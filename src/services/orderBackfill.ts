@@ -0,0 +1,273 @@
+/**
+ * Order History Backfill Service
+ *
+ * Binance only serves 100 orders per order-history request, so a single 30D
+ * page silently drops orders for busy traders. This service keeps a persisted
+ * per-trader high-water mark (latest orderUpdateTime already ingested) so the
+ * scheduler can request just the delta each cycle, and rebuilds older history
+ * on demand by walking the window in chunks.
+ *
+ * Backfill jobs run in the background; their progress is kept in memory and
+ * exposed through GET /admin/backfill/:leadId. A backfill that inserted
+ * events rebuilds the trader's round trips. A job with failed windows ends
+ * PARTIAL (or FAILED if no window succeeded) and lists their ranges, so the
+ * operator knows what to re-run.
+ */
+
+import {
+  fetchOrderHistoryChunked,
+  orderKey,
+  type RawOrder,
+} from './binanceScraper.js';
+import { upsertLeadTrader } from './leadTrader.js';
+import { insertEvents } from './event.js';
+import { rebuildRoundTrips } from './tradeRoundTrip.js';
+import { transformBinancePayload, type BinanceRawPayload } from '../schemas/ingest.js';
+import { prisma } from '../db/prisma.js';
+import { logger } from '../utils/logger.js';
+
+// ────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────
+
+export type BackfillStatus = 'RUNNING' | 'COMPLETED' | 'PARTIAL' | 'FAILED';
+
+export interface BackfillWindow {
+  from: string;
+  to: string;
+}
+
+export interface BackfillJob {
+  leadId: string;
+  status: BackfillStatus;
+  days: number;
+  startTime: string;
+  endTime: string;
+  startedAt: string;
+  completedAt: string | null;
+  /** Fraction of the window already covered (0..1) */
+  progress: number;
+  requests: number;
+  ordersFetched: number;
+  eventsInserted: number;
+  eventsSkipped: number;
+  roundTripsRebuilt: number;
+  truncatedWindows: number;
+  failedWindows: number;
+  /** Windows whose orders are missing; re-run the backfill to fill them */
+  failedRanges: BackfillWindow[];
+  error: string | null;
+}
+
+export interface BackfillOptions {
+  days: number;
+  pageSize: number;
+  timeoutMs: number;
+  chunkMs: number;
+}
+
+// ────────────────────────────────────────────────────────────
+// High-water marks
+// ────────────────────────────────────────────────────────────
+
+/**
+ * Get the order high-water mark (epoch ms) for a trader, or null if we have
+ * never ingested an order for them.
+ */
+export async function getOrderCursor(leadId: string): Promise<number | null> {
+  const cursor = await prisma.orderHistoryCursor.findUnique({
+    where: { leadId },
+    select: { lastOrderUpdateTime: true },
+  });
+  return cursor?.lastOrderUpdateTime?.getTime() ?? null;
+}
+
+/**
+ * Load all high-water marks for a set of traders in one query.
+ */
+export async function getOrderCursors(leadIds: string[]): Promise<Map<string, number>> {
+  const rows = await prisma.orderHistoryCursor.findMany({
+    where: { leadId: { in: leadIds }, lastOrderUpdateTime: { not: null } },
+    select: { leadId: true, lastOrderUpdateTime: true },
+  });
+  return new Map(rows.map((r) => [r.leadId, r.lastOrderUpdateTime!.getTime()]));
+}
+
+/**
+ * Move a trader's high-water mark forward to the newest order in `orders`.
+ * Never moves the mark backwards.
+ */
+export async function advanceOrderCursor(
+  leadId: string,
+  orders: RawOrder[],
+  platform: string = 'binance',
+): Promise<number | null> {
+  if (orders.length === 0) return getOrderCursor(leadId);
+
+  const newest = Math.max(...orders.map((o) => o.orderUpdateTime));
+  const current = await getOrderCursor(leadId);
+  if (current !== null && current >= newest) return current;
+
+  await prisma.orderHistoryCursor.upsert({
+    where: { leadId },
+    update: { lastOrderUpdateTime: new Date(newest) },
+    create: { leadId, platform, lastOrderUpdateTime: new Date(newest) },
+  });
+  return newest;
+}
+
+/**
+ * Merge a delta of new orders into the previously known recent orders so the
+ * stored payload keeps the same "latest N orders in the window" shape that
+ * readers (trader metrics, dashboard) expect.
+ */
+export function mergeRecentOrders(
+  delta: RawOrder[],
+  previous: RawOrder[],
+  windowStart: number,
+  limit: number,
+): RawOrder[] {
+  const merged = new Map<string, RawOrder>();
+  for (const order of [...delta, ...previous]) {
+    if (order.orderUpdateTime < windowStart) continue;
+    merged.set(orderKey(order), order);
+  }
+  return [...merged.values()]
+    .sort((a, b) => b.orderUpdateTime - a.orderUpdateTime)
+    .slice(0, limit);
+}
+
+// ────────────────────────────────────────────────────────────
+// Backfill jobs
+// ────────────────────────────────────────────────────────────
+
+const jobs = new Map<string, BackfillJob>();
+
+/**
+ * Get the latest backfill job for a trader (running or finished).
+ */
+export function getBackfillJob(leadId: string): BackfillJob | null {
+  return jobs.get(leadId) ?? null;
+}
+
+/**
+ * Start a background backfill for a trader. Returns null if one is already
+ * running for the same leadId.
+ */
+export function startBackfill(leadId: string, options: BackfillOptions): BackfillJob | null {
+  const existing = jobs.get(leadId);
+  if (existing?.status === 'RUNNING') return null;
+
+  const endTime = Date.now();
+  const startTime = endTime - options.days * 24 * 60 * 60 * 1000;
+
+  const job: BackfillJob = {
+    leadId,
+    status: 'RUNNING',
+    days: options.days,
+    startTime: new Date(startTime).toISOString(),
+    endTime: new Date(endTime).toISOString(),
+    startedAt: new Date().toISOString(),
+    completedAt: null,
+    progress: 0,
+    requests: 0,
+    ordersFetched: 0,
+    eventsInserted: 0,
+    eventsSkipped: 0,
+    roundTripsRebuilt: 0,
+    truncatedWindows: 0,
+    failedWindows: 0,
+    failedRanges: [],
+    error: null,
+  };
+  jobs.set(leadId, job);
+
+  runBackfill(job, startTime, endTime, options).catch((err) => {
+    job.status = 'FAILED';
+    job.error = err instanceof Error ? err.message : String(err);
+    job.completedAt = new Date().toISOString();
+    logger.error({ leadId, error: job.error }, 'Order history backfill failed');
+  });
+
+  return job;
+}
+
+async function runBackfill(
+  job: BackfillJob,
+  startTime: number,
+  endTime: number,
+  options: BackfillOptions,
+): Promise<void> {
+  const { leadId } = job;
+  logger.info({ leadId, days: options.days }, '⏪ Order history backfill starting');
+
+  // Events reference LeadTrader, so a brand-new trader needs a row first
+  await upsertLeadTrader(leadId, 'binance');
+
+  const history = await fetchOrderHistoryChunked(leadId, startTime, endTime, {
+    pageSize: options.pageSize,
+    timeoutMs: options.timeoutMs,
+    chunkMs: options.chunkMs,
+    onProgress: (p) => {
+      job.progress = p.progress;
+      job.requests = p.requests;
+      job.ordersFetched = p.ordersFetched;
+      job.failedWindows = p.failedWindows;
+    },
+  });
+
+  const result = await ingestBackfilledOrders(leadId, history.allOrders, new Date(endTime));
+  // Only a gap-free history may move the mark the scheduler deltas from
+  if (history.failedWindows === 0) await advanceOrderCursor(leadId, history.allOrders);
+
+  job.requests = history.requests;
+  job.ordersFetched = history.allOrders.length;
+  job.truncatedWindows = history.truncatedWindows;
+  job.failedWindows = history.failedWindows;
+  job.failedRanges = history.failedRanges.map(([from, to]) => ({
+    from: new Date(from).toISOString(),
+    to: new Date(to).toISOString(),
+  }));
+  job.eventsInserted = result.inserted;
+  job.eventsSkipped = result.skipped;
+  if (result.inserted > 0) job.roundTripsRebuilt = await rebuildRoundTrips(leadId, 'binance');
+  job.progress = 1;
+  job.status = history.failedWindows === 0
+    ? 'COMPLETED'
+    : history.failedWindows === history.requests ? 'FAILED' : 'PARTIAL';
+  if (history.failedWindows > 0) job.error = `${history.failedWindows} order window(s) failed`;
+  job.completedAt = new Date().toISOString();
+
+  const summary = {
+    leadId,
+    orders: history.allOrders.length,
+    events: result.inserted,
+    requests: history.requests,
+    failedWindows: history.failedWindows,
+  };
+  if (job.status === 'COMPLETED') {
+    logger.info(summary, '✅ Order history backfill completed');
+  } else {
+    logger.warn({ ...summary, status: job.status }, 'Order history backfill finished with failed windows');
+  }
+}
+
+/**
+ * Turn backfilled orders into Event rows (deduplicated by eventKey).
+ */
+export async function ingestBackfilledOrders(
+  leadId: string,
+  orders: RawOrder[],
+  fetchedAt: Date,
+): Promise<{ inserted: number; skipped: number }> {
+  if (orders.length === 0) return { inserted: 0, skipped: 0 };
+
+  const { events } = transformBinancePayload({
+    leadId,
+    fetchedAt: fetchedAt.toISOString(),
+    activePositions: [],
+    orderHistory: { total: orders.length, allOrders: orders },
+  } as BinanceRawPayload);
+
+  return insertEvents(events, fetchedAt);
+}
@@ -0,0 +1,157 @@
+/**
+ * Platform Adapters
+ *
+ * A PlatformAdapter is everything the backend needs to know about one
+ * copy-trading source:
+ *   - fetching a trader (live scrape, or fixtures for offline sources)
+ *   - validating the stored payload
+ *   - normalizing positions and orders into PositionInput / EventInput
+ *   - generating the event dedup key
+ *   - exposing positions / orders in the reader shape used by consensus,
+ *     heatmap and simulation (Binance's raw activePositions / allOrders
+ *     shape, which the signal readers were written against)
+ *
+ * The platform string is stored on LeadTrader, RawIngest, Event,
+ * PositionSnapshot, PositionState etc.; readers pick the adapter from it.
+ */
+
+import type { EndpointOutcome, RawOrder, RawPosition } from './binanceScraper.js';
+import type { EventInput, PositionInput } from '../schemas/ingest.js';
+import { binanceAdapter } from './binanceAdapter.js';
+import { bybitAdapter } from './bybitAdapter.js';
+
+// ────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────
+
+/** Minimum every stored platform payload carries */
+export interface PlatformPayload {
+  leadId: string;
+  fetchedAt: string; // ISO 8601
+  timeRange?: string;
+}
+
+export interface PlatformFetchOptions {
+  /** Injected clock (epoch ms); defaults to Date.now */
+  now?: () => number;
+  timeoutMs?: number;
+}
+
+export interface PlatformFetchResult<TPayload extends PlatformPayload> {
+  payload: TPayload;
+  /** Per-endpoint outcomes, for sources scraped through resilientFetch */
+  endpoints?: EndpointOutcome[];
+  latencyMs: number;
+}
+
+/** Cached trader profile fields (LeadTrader.nickname / positionShow) */
+export interface PlatformProfile {
+  nickname?: string;
+  avatarUrl?: string;
+  positionShow?: boolean;
+  // Tracked in TraderProfileSnapshot (traderProfile.ts); undefined = not reported
+  aumAmount?: number;
+  marginBalance?: number;
+  copierCount?: number;
+  maxCopyCount?: number;
+  profitSharingRate?: number;
+  badgeName?: string;
+  status?: string;
+}
+
+/** Positions and orders in the reader shape used by the signal routes */
+export interface PlatformSignals {
+  positions: RawPosition[];
+  orders: RawOrder[];
+}
+
+export interface PlatformAdapter<
+  TPayload extends PlatformPayload = PlatformPayload,
+  TOrder = unknown,
+> {
+  readonly platform: string;
+
+  fetchTrader(leadId: string, options?: PlatformFetchOptions): Promise<PlatformFetchResult<TPayload>>;
+
+  /** Validate a stored / posted payload; throws on a payload of another shape */
+  parsePayload(raw: unknown): TPayload;
+
+  /**
+   * Readers run on every stored RawIngest payload (including ones posted
+   * before validation existed), so they read defensively instead of parsing.
+   */
+  readProfile(payload: TPayload): PlatformProfile;
+  readSignals(payload: TPayload): PlatformSignals;
+
+  normalizePositions(payload: TPayload): PositionInput[];
+  normalizeOrders(payload: TPayload): EventInput[];
+
+  /** Event dedup key for a platform order; must stay stable across fetches */
+  eventKey(event: Omit<EventInput, 'event_key'>, order: TOrder): string;
+}
+
+// ────────────────────────────────────────────────────────────
+// Registry
+// ────────────────────────────────────────────────────────────
+
+const adapters = new Map<string, PlatformAdapter<any, any>>([
+  [binanceAdapter.platform, binanceAdapter],
+  [bybitAdapter.platform, bybitAdapter],
+]);
+
+export const DEFAULT_PLATFORM = 'binance';
+
+/**
+ * Adapter for a platform, or null if the platform is unknown.
+ */
+export function getPlatformAdapter(platform: string): PlatformAdapter | null {
+  return adapters.get(platform.toLowerCase()) ?? null;
+}
+
+export function listPlatforms(): string[] {
+  return [...adapters.keys()];
+}
+
+/**
+ * Resolve a `platform` query/body value: missing → DEFAULT_PLATFORM,
+ * unknown → null so the route can answer 400.
+ */
+export function resolvePlatform(raw: string | undefined | null): string | null {
+  const platform = (raw || DEFAULT_PLATFORM).trim().toLowerCase();
+  return adapters.has(platform) ? platform : null;
+}
+
+/**
+ * Reader-shape signals for a stored payload of any platform. Unknown
+ * platforms and unreadable payloads read as empty.
+ */
+export function readPayloadSignals(platform: string, payload: unknown): PlatformSignals {
+  const adapter = getPlatformAdapter(platform);
+  if (!adapter || !payload || typeof payload !== 'object') return { positions: [], orders: [] };
+  return adapter.readSignals(payload as PlatformPayload);
+}
+
+/**
+ * Profile fields for a stored payload of any platform.
+ */
+export function readPayloadProfile(platform: string, payload: unknown): PlatformProfile {
+  const adapter = getPlatformAdapter(platform);
+  if (!adapter || !payload || typeof payload !== 'object') return {};
+  return adapter.readProfile(payload as PlatformPayload);
+}
+
+/**
+ * A stored payload re-expressed in the Binance raw shape, for readers that
+ * take the whole payload (computeTraderMetrics). Binance payloads pass through.
+ */
+export function toReaderPayload(platform: string, payload: unknown): unknown {
+  if (platform === 'binance') return payload;
+  const { positions, orders } = readPayloadSignals(platform, payload);
+  const profile = readPayloadProfile(platform, payload);
+  return {
+    ...(payload as object),
+    activePositions: positions,
+    orderHistory: { total: orders.length, allOrders: orders },
+    portfolioDetail: profile,
+  };
+}
@@ -0,0 +1,234 @@
+/**
+ * Platform Ingest Pipeline
+ *
+ * Runs one fetched trader payload of any platform through the ingest
+ * pipeline via its PlatformAdapter:
+ *   1. upsertLeadTrader (profile: positionShow + nickname)
+ *      + recordProfileSnapshot when a tracked profile field changed
+ *      + recordCopierSample (copier count / AUM series)
+ *   2. normalizePositions → insertPositionSnapshots + trackPositionStates
+ *      (open windows from the trader's lastFetchedAt) + markTraderFetched
+ *   3. normalizeOrders → insertEvents + trackHiddenPositionStates
+ *      + classifyClosedPositions (liquidated / closed by order / unknown)
+ *      + rebuildRoundTrips for the symbols in the events
+ *   4. storeRawIngest (payload sections content-hashed, see rawIngestStore.ts)
+ *      + checkPayloadDrift against the platform's field spec
+ *   5. recomputeAggregations + updateTraderScore + updateTraderWeight
+ *
+ * The Binance scheduler goes through here via processTraderPayload.
+ * /ingest/binance-copytrade and /ingest/batch run already-normalized
+ * payloads through the same steps minus 4 (ingestNormalizedPayload).
+ */
+
+import { upsertLeadTrader, markTraderFetched } from './leadTrader.js';
+import { recordProfileSnapshot } from './traderProfile.js';
+import { recordCopierSample } from './copierStats.js';
+import { insertPositionSnapshots } from './position.js';
+import { insertEvents } from './event.js';
+import { recomputeAggregations } from './aggregation.js';
+import { updateTraderScore } from './traderScore.js';
+import { updateTraderWeight } from './traderWeight.js';
+import { trackPositionStates } from './positionState.js';
+import { trackHiddenPositionStates } from './hiddenPositionState.js';
+import { classifyClosedPositions, type CloseClassification } from './liquidation.js';
+import { rebuildRoundTrips } from './tradeRoundTrip.js';
+import { storeRawIngest } from './rawIngestStore.js';
+import { checkPayloadDrift } from './schemaDrift.js';
+import {
+  getPlatformAdapter,
+  type PlatformAdapter,
+  type PlatformFetchOptions,
+  type PlatformPayload,
+  type PlatformProfile,
+} from './platformAdapter.js';
+import type { EventInput, IngestPayload, PositionInput } from '../schemas/ingest.js';
+
+export interface IngestStats {
+  /** Profile fields changed since the trader's previous snapshot */
+  profileFieldsChanged: string[];
+  positionsInserted: number;
+  eventsInserted: number;
+  eventsSkipped: number;
+  positionStateUpdate: {
+    newPositions: number;
+    updatedPositions: number;
+    closedPositions: number;
+    legsRecorded: number;
+    flipsDetected: number;
+  };
+  hiddenPositionStateUpdate: {
+    newPositions: number;
+    closedPositions: number;
+    flipsDetected: number;
+  };
+  /** Visible positions closed recently, by how they closed (see liquidation.ts) */
+  closeClassification: CloseClassification;
+  /** Round trips rebuilt for the symbols in this payload's events */
+  roundTripsRebuilt: number;
+}
+
+export interface IngestOptions {
+  /**
+   * Recompute the platform's symbol aggregations after this trader (default
+   * true). Batch ingest turns it off and recomputes once at the end.
+   */
+  recomputeAggregations?: boolean;
+  /**
+   * Clock for the time-windowed steps: the liquidation re-check window and
+   * the score / metric lookbacks (default: wall clock). Fixture replay pins
+   * it to the recorded fetch time.
+   */
+  now?: Date;
+}
+
+export interface NormalizedIngestResult extends IngestStats {
+  /** Symbols aggregated, or null when the recompute was deferred */
+  symbolsAggregated: number | null;
+  traderScore: number;
+}
+
+/**
+ * Steps 1–3: trader row, snapshots + state tracking, events + hidden tracking.
+ */
+async function writeTraderData(
+  platform: string,
+  leadId: string,
+  fetchedAt: Date,
+  profile: PlatformProfile,
+  positions: PositionInput[],
+  events: EventInput[],
+  now: Date = new Date(),
+): Promise<IngestStats> {
+  // 1. Upsert lead trader record (FAZ 0: positionShow + nickname)
+  const trader = await upsertLeadTrader(leadId, platform, {
+    positionShow: profile.positionShow,
+    nickname: profile.nickname,
+  });
+  // Previous tracked payload: new positions opened after it (unknown for a late payload)
+  const previousFetchAt = trader.lastFetchedAt && trader.lastFetchedAt < fetchedAt
+    ? trader.lastFetchedAt
+    : null;
+  const profileFieldsChanged = (await recordProfileSnapshot(leadId, platform, profile, fetchedAt)) ?? [];
+  await recordCopierSample(leadId, platform, profile, fetchedAt);
+
+  // 2. Insert position snapshots + YOL 2 state tracking for VISIBLE traders
+  const positionsInserted = await insertPositionSnapshots(positions, fetchedAt);
+  const positionStateUpdate = await trackPositionStates(positions, fetchedAt, platform, previousFetchAt);
+  await markTraderFetched(leadId, fetchedAt);
+
+  // 3. Insert events (with deduplication) + FAZ 1+2 HIDDEN trader tracking
+  const { inserted: eventsInserted, skipped: eventsSkipped } = await insertEvents(events, fetchedAt);
+  const hiddenPositionStateUpdate = await trackHiddenPositionStates(leadId, events, fetchedAt, platform);
+  const closeClassification = await classifyClosedPositions(leadId, platform, now);
+  const eventSymbols = [...new Set(events.map((e) => e.symbol))];
+  const roundTripsRebuilt = eventsInserted > 0
+    ? await rebuildRoundTrips(leadId, platform, eventSymbols)
+    : 0;
+
+  return {
+    profileFieldsChanged,
+    positionsInserted,
+    eventsInserted,
+    eventsSkipped,
+    positionStateUpdate,
+    hiddenPositionStateUpdate,
+    closeClassification,
+    roundTripsRebuilt,
+  };
+}
+
+/**
+ * Step 5: aggregations (unless deferred), trader score and consensus weight.
+ */
+async function refreshDerived(platform: string, leadId: string, options: IngestOptions) {
+  const symbolsAggregated = options.recomputeAggregations === false
+    ? null
+    : await recomputeAggregations(platform);
+  const now = options.now ?? new Date();
+  const traderScore = await updateTraderScore(leadId, platform, now);
+  await updateTraderWeight(leadId, platform, now);
+  return { symbolsAggregated, traderScore };
+}
+
+/**
+ * Ingest one payload already validated by adapter.parsePayload (or produced
+ * by adapter.fetchTrader).
+ */
+export async function ingestPlatformPayload<TPayload extends PlatformPayload>(
+  adapter: PlatformAdapter<TPayload, any>,
+  payload: TPayload,
+  options: IngestOptions = {},
+): Promise<IngestStats> {
+  const { platform } = adapter;
+  const { leadId, fetchedAt } = payload;
+  const fetchedAtDate = new Date(fetchedAt);
+
+  const stats = await writeTraderData(
+    platform,
+    leadId,
+    fetchedAtDate,
+    adapter.readProfile(payload),
+    adapter.normalizePositions(payload),
+    adapter.normalizeOrders(payload),
+    options.now,
+  );
+
+  // 4. Store the raw payload (dashboard reads it back hydrated); unchanged
+  //    sections are stored as references to the previous fetch
+  const signals = adapter.readSignals(payload);
+  await storeRawIngest({
+    leadId,
+    platform,
+    fetchedAt: fetchedAtDate,
+    payload: payload as unknown as Record<string, unknown>,
+    positionsCount: signals.positions.length,
+    ordersCount: signals.orders.length,
+    timeRange: payload.timeRange || null,
+  });
+  await checkPayloadDrift(platform, payload, leadId);
+
+  await refreshDerived(platform, leadId, options);
+  return stats;
+}
+
+/**
+ * Ingest a payload already in the normalized positions / events format.
+ */
+export async function ingestNormalizedPayload(
+  platform: string,
+  payload: IngestPayload,
+  profile: PlatformProfile = {},
+  options: IngestOptions = {},
+): Promise<NormalizedIngestResult> {
+  const stats = await writeTraderData(
+    platform,
+    payload.leadId,
+    new Date(payload.fetchedAt),
+    profile,
+    payload.positions,
+    payload.events,
+    options.now,
+  );
+  const derived = await refreshDerived(platform, payload.leadId, options);
+  return { ...stats, ...derived };
+}
+
+/**
+ * Fetch one trader from a platform and ingest it. Throws for an unknown
+ * platform or a failed fetch.
+ */
+export async function fetchAndIngestTrader(
+  platform: string,
+  leadId: string,
+  options: PlatformFetchOptions = {},
+) {
+  const adapter = getPlatformAdapter(platform);
+  if (!adapter) {
+    throw new Error(`Unsupported platform: ${platform}`);
+  }
+
+  const { payload, endpoints, latencyMs } = await adapter.fetchTrader(leadId, options);
+  const stats = await ingestPlatformPayload(adapter, payload);
+
+  return { platform: adapter.platform, leadId, fetchedAt: payload.fetchedAt, latencyMs, endpoints, stats };
+}
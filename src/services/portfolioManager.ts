@@ -6,6 +6,7 @@
 
 import { prisma } from '../db/prisma.js';
 import { logger } from '../utils/logger.js';
+import { summarizeExcursions } from './excursion.js';
 
 // ============================================================================
 // Utility Functions
@@ -62,6 +63,7 @@ export async function getPortfolio(portfolioId: string) {
  */
 export async function createPortfolio(data: {
   name: string;
+  platform?: string;
   initialBalance?: number;
   maxRiskPerTrade?: number;
   maxPortfolioRisk?: number;
@@ -75,7 +77,7 @@ export async function createPortfolio(data: {
   const portfolio = await prisma.portfolio.create({
     data: {
       name: data.name,
-      platform: 'binance',
+      platform: data.platform ?? 'binance',
       initialBalance: data.initialBalance ?? 10000,
       currentBalance: data.initialBalance ?? 10000,
       maxRiskPerTrade: data.maxRiskPerTrade ?? 2.0,
@@ -136,6 +138,7 @@ export async function updatePortfolioBalance(portfolioId: string): Promise<{
   const openPositions = await prisma.simulatedPosition.findMany({
     where: { portfolioId, status: 'OPEN' },
     select: {
+      platform: true,
       symbol: true,
       direction: true,
       entryPrice: true,
@@ -150,7 +153,7 @@ export async function updatePortfolioBalance(portfolioId: string): Promise<{
   for (const pos of openPositions) {
     // Get current price (simplified - reuses logic from positionMonitor)
     const latestSnapshot = await prisma.positionSnapshot.findFirst({
-      where: { symbol: pos.symbol, platform: 'binance' },
+      where: { symbol: pos.symbol, platform: pos.platform },
       orderBy: { fetchedAt: 'desc' },
       select: { markPrice: true, entryPrice: true },
     });
@@ -222,6 +225,7 @@ export async function updatePortfolioMetrics(portfolioId: string) {
     select: {
       pnlUSDT: true,
       totalCommissionUSDT: true,
+      fundingUSDT: true,
       slippageBps: true,
       closedAt: true,
     },
@@ -285,6 +289,8 @@ export async function updatePortfolioMetrics(portfolioId: string) {
     0
   );
 
+  const totalFunding = closedPositions.reduce((sum, p) => sum + p.fundingUSDT, 0);
+
   // Calculate max drawdown (simplified - based on cumulative PnL)
   let cumulativePnl = 0;
   let peak = 0;
@@ -316,6 +322,7 @@ export async function updatePortfolioMetrics(portfolioId: string) {
       maxConsecLosses,
       avgSlippageBps: round4(avgSlippageBps),
       totalCommission: round4(totalCommission),
+      totalFunding: round4(totalFunding),
       updatedAt: new Date(),
     },
     create: {
@@ -332,6 +339,7 @@ export async function updatePortfolioMetrics(portfolioId: string) {
       maxConsecLosses,
       avgSlippageBps: round4(avgSlippageBps),
       totalCommission: round4(totalCommission),
+      totalFunding: round4(totalFunding),
     },
   });
 
@@ -367,10 +375,16 @@ export async function getPortfolioPerformance(portfolioId: string) {
     orderBy: { openedAt: 'desc' },
   });
 
+  const closedExcursions = await prisma.simulatedPosition.findMany({
+    where: { portfolioId, status: 'CLOSED', excursionAt: { not: null } },
+    select: { maePct: true, mfePct: true, timeToMfeSec: true, stopEfficiency: true },
+  });
+
   return {
     portfolio,
     metrics,
     equityCurve,
     currentPositions,
+    excursion: summarizeExcursions(closedExcursions),
   };
 }
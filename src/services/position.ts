@@ -1,5 +1,6 @@
 import { prisma } from '../db/prisma.js';
 import type { PositionInput } from '../schemas/ingest.js';
+import { estimateLiquidationPrice } from './liquidation.js';
 
 /**
  * Insert position snapshots from ingest payload
@@ -28,6 +29,7 @@ export async function insertPositionSnapshots(
         marginType: pos.marginType ?? null,
         pnlUSDT: pos.pnlUSDT ?? null,
         roePct: pos.roePct ?? null,
+        liqPrice: estimateLiquidationPrice(pos),
         raw: pos as object, // Store raw for debugging
     }));
 
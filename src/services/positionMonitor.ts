@@ -8,6 +8,8 @@ import { prisma } from '../db/prisma.js';
 import { logger } from '../utils/logger.js';
 import { updateTrailingStop } from './riskCalculator.js';
 import { computeExecutionCost } from './executionModel.js';
+import { getPrice } from './priceFeed.js';
+import { accrueFunding } from './fundingRates.js';
 
 // ============================================================================
 // Utility Functions
@@ -17,46 +19,9 @@ function round4(value: number): number {
   return Math.round(value * 10000) / 10000;
 }
 
-/**
- * Get current market price for a symbol
- * Reuses the existing getReferenceEntryPrice logic from signals.ts
- */
-async function getCurrentPrice(symbol: string): Promise<number | null> {
-  const s = symbol.toUpperCase();
-
-  // Stage 1: Check latest 60 PositionSnapshots
-  const latestPositions = await prisma.positionSnapshot.findMany({
-    where: { symbol: s, platform: 'binance' },
-    orderBy: { fetchedAt: 'desc' },
-    take: 60,
-    select: { markPrice: true, entryPrice: true },
-  });
-
-  const prices = latestPositions
-    .map((p) => (p.markPrice && p.markPrice > 0 ? p.markPrice : p.entryPrice))
-    .filter((v) => Number.isFinite(v) && v > 0);
-
-  if (prices.length > 0) {
-    const avg = prices.reduce((sum, v) => sum + v, 0) / prices.length;
-    return round4(avg);
-  }
-
-  // Stage 2: Check latest Event with price
-  const latestEvent = await prisma.event.findFirst({
-    where: { symbol: s, platform: 'binance', price: { not: null } },
-    orderBy: [{ eventTime: 'desc' }, { fetchedAt: 'desc' }],
-    select: { price: true },
-  });
-
-  if (latestEvent?.price && latestEvent.price > 0) {
-    return round4(latestEvent.price);
-  }
-
-  return null;
-}
-
 /**
  * Compute performance for a position (reusing existing logic)
+ * Accrued funding (positive = paid) is deducted from PnL
  */
 export function computeSimulationPerformance(params: {
   direction: 'LONG' | 'SHORT';
@@ -64,8 +29,9 @@ export function computeSimulationPerformance(params: {
   exitPrice: number;
   leverage: number;
   marginNotional: number;
+  fundingUSDT?: number;
 }) {
-  const { direction, entryPrice, exitPrice, leverage, marginNotional } = params;
+  const { direction, entryPrice, exitPrice, leverage, marginNotional, fundingUSDT = 0 } = params;
   const positionNotional = marginNotional * Math.max(leverage, 1);
 
   const rawMove =
@@ -73,13 +39,14 @@ export function computeSimulationPerformance(params: {
       ? (exitPrice - entryPrice) / entryPrice
       : (entryPrice - exitPrice) / entryPrice;
 
-  const pnlUSDT = positionNotional * rawMove;
+  const pnlUSDT = positionNotional * rawMove - fundingUSDT;
   const roiPct = marginNotional > 0 ? (pnlUSDT / marginNotional) * 100 : 0;
 
   return {
     positionNotional: round4(positionNotional),
     pnlUSDT: round4(pnlUSDT),
     roiPct: round4(roiPct),
+    fundingUSDT: round4(fundingUSDT),
   };
 }
 
@@ -107,10 +74,9 @@ export async function monitorOpenPositions(): Promise<MonitorResult> {
   };
 
   try {
-    // Query all OPEN positions with risk management enabled
+    // Query all OPEN positions with risk management enabled (all platforms)
     const openPositions = await prisma.simulatedPosition.findMany({
       where: {
-        platform: 'binance',
         status: 'OPEN',
         OR: [
           { stopLossPrice: { not: null } },
@@ -127,21 +93,23 @@ export async function monitorOpenPositions(): Promise<MonitorResult> {
       return result;
     }
 
-    // Group positions by symbol for batch price fetching
+    // Group positions by platform + symbol for batch price fetching
     const symbolMap = new Map<string, typeof openPositions>();
     for (const pos of openPositions) {
-      if (!symbolMap.has(pos.symbol)) {
-        symbolMap.set(pos.symbol, []);
+      const key = `${pos.platform}|${pos.symbol}`;
+      if (!symbolMap.has(key)) {
+        symbolMap.set(key, []);
       }
-      symbolMap.get(pos.symbol)!.push(pos);
+      symbolMap.get(key)!.push(pos);
     }
 
-    // Fetch current prices for all unique symbols
+    // Fetch current prices for all unique platform + symbol pairs
     const priceMap = new Map<string, number>();
-    for (const symbol of symbolMap.keys()) {
-      const price = await getCurrentPrice(symbol);
+    for (const [key, positions] of symbolMap) {
+      const { platform, symbol } = positions[0];
+      const price = await getPrice(symbol, null, platform);
       if (price) {
-        priceMap.set(symbol, price);
+        priceMap.set(key, price);
       }
     }
 
@@ -149,7 +117,7 @@ export async function monitorOpenPositions(): Promise<MonitorResult> {
     for (const position of openPositions) {
       result.checked++;
 
-      const currentPrice = priceMap.get(position.symbol);
+      const currentPrice = priceMap.get(`${position.platform}|${position.symbol}`);
       if (!currentPrice) {
         result.errors.push(`No price data for ${position.symbol}`);
         continue;
@@ -312,6 +280,8 @@ async function closePositionWithExecution(
   reason: string
 ): Promise<void> {
   const direction = position.direction as 'LONG' | 'SHORT';
+  const closedAt = new Date();
+  const fundingUSDT = await accrueFunding(position, closedAt);
 
   // Apply execution model
   const executionCost = computeExecutionCost({
@@ -321,6 +291,7 @@ async function closePositionWithExecution(
     positionNotional: position.positionNotional,
     slippageBps: position.slippageBps || 10,
     commissionBps: position.commissionBps || 4,
+    fundingUSDT,
   });
 
   // Update position
@@ -335,7 +306,7 @@ async function closePositionWithExecution(
       roiPct: round4(
         (executionCost.netPnlUSDT / position.marginNotional) * 100
       ),
-      closedAt: new Date(),
+      closedAt,
       closeReason: reason,
     },
   });
@@ -2,22 +2,45 @@
  * Position State Tracking Service (Yol 2)
  *
  * Tracks position lifecycle by comparing snapshots across curl requests.
- * Provides estimated open/close times with ±30-60s uncertainty range.
+ * Provides estimated open/close times with their uncertainty range.
  *
  * How it works:
  * 1. Each curl request (every ~60s) brings new position snapshots
  * 2. Compare current vs previous snapshots to detect:
  *    - NEW positions (just appeared) → create PositionState with firstSeenAt
- *    - EXISTING positions (still there) → update lastSeenAt
+ *    - EXISTING positions (still there) → update lastSeenAt; a size change
+ *      (scale-in / scale-out) is recorded as a PositionLeg
  *    - DISAPPEARED positions (gone) → mark as CLOSED with disappearedAt
  * 3. Calculate estimated times:
  *    - estimatedOpenTime = midpoint between (lastFetchBefore, firstSeenAt)
  *    - estimatedCloseTime = midpoint between (lastSeenAt, disappearedAt)
  *
- * Uncertainty: ±30-60 seconds (half the curl interval)
+ * Uncertainty: half the gap between the two fetches. lastFetchBefore is the
+ * trader's previous successful fetch (LeadTrader.lastFetchedAt), not one
+ * interval ago, so failed cycles widen the window. The bounds are stored as
+ * openWindowStart / openWindowEnd and closeWindowStart / closeWindowEnd:
+ *   - an OPEN event between the fetches collapses the open window to its time
+ *   - without a previous fetch (trader's first) openWindowStart is null: the
+ *     position may be of any age, and estimatedOpenTime falls back to
+ *     firstSeenAt
+ * holdDurationRange turns the bounds into a min / max hold duration.
+ *
+ * Legs: the amount is compared with the previous snapshot's
+ * (currentAmount, else the first-sighting amount). Changes of at least
+ * config.positioning.minLegDeltaPct become an ADD or REDUCE leg with the
+ * mark price at detection and an inferred average entry:
+ *   - ADD:    (previousAmount × previousEntry + deltaAmount × markPrice) / amount
+ *   - REDUCE: previousEntry (reducing doesn't move the average entry)
+ *
+ * Flips: a new state whose opposite side (same trader / symbol) closed
+ * within config.positioning.flipWindowMs is linked to it by a PositionFlip
+ * (FLIP_TO_SHORT / FLIP_TO_LONG). Hidden traders' states are linked the
+ * same way (see hiddenPositionState.ts).
  */
 
+import { Prisma } from '@prisma/client';
 import { prisma } from '../db/prisma.js';
+import { config } from '../config.js';
 import type { PositionInput } from '../schemas/ingest.js';
 
 interface PositionKey {
@@ -30,6 +53,36 @@ interface PositionStateUpdate {
   newPositions: number;
   updatedPositions: number;
   closedPositions: number;
+  legsRecorded: number;
+  flipsDetected: number;
+}
+
+export type PositionLegKind = 'ADD' | 'REDUCE';
+
+export type PositionFlipType = 'FLIP_TO_SHORT' | 'FLIP_TO_LONG';
+
+/** A newly created PositionState that may be the second half of a flip */
+export interface FlipCandidate {
+  id: string;
+  platform: string;
+  leadId: string;
+  symbol: string;
+  direction: string;
+  firstSeenAt: Date;
+  estimatedOpenTime: Date | null;
+  entryPrice: number;
+  amount: number;
+}
+
+/** A detected size change, before it is stored */
+export interface PositionLegDraft {
+  kind: PositionLegKind;
+  previousAmount: number;
+  amount: number;
+  deltaAmount: number;
+  markPrice: number | null;
+  reportedEntryPrice: number | null;
+  inferredEntryPrice: number;
 }
 
 /**
@@ -47,18 +100,124 @@ function parsePositionKey(key: string): PositionKey {
   return { leadId, symbol, direction };
 }
 
+function round8(value: number): number {
+  return Math.round(value * 1e8) / 1e8;
+}
+
+/**
+ * Compare a position's previous size with the current snapshot. Returns
+ * null when the change is below config.positioning.minLegDeltaPct.
+ */
+export function detectPositionLeg(
+  previous: { amount: number; entryPrice: number },
+  current: { size: number; entryPrice: number; markPrice?: number | null }
+): PositionLegDraft | null {
+  const previousAmount = Math.abs(previous.amount);
+  const amount = Math.abs(current.size);
+  const deltaAmount = amount - previousAmount;
+  if (deltaAmount === 0 || amount === 0) return null;
+
+  const deltaPct = previousAmount > 0 ? (Math.abs(deltaAmount) / previousAmount) * 100 : Infinity;
+  if (deltaPct < config.positioning.minLegDeltaPct) return null;
+
+  const markPrice = current.markPrice && current.markPrice > 0 ? current.markPrice : null;
+  const reportedEntryPrice = current.entryPrice > 0 ? current.entryPrice : null;
+  const kind: PositionLegKind = deltaAmount > 0 ? 'ADD' : 'REDUCE';
+
+  let inferredEntryPrice = previous.entryPrice;
+  if (kind === 'ADD') {
+    const fillPrice = markPrice ?? reportedEntryPrice ?? previous.entryPrice;
+    inferredEntryPrice =
+      (previousAmount * previous.entryPrice + deltaAmount * fillPrice) / amount;
+  }
+
+  return {
+    kind,
+    previousAmount,
+    amount,
+    deltaAmount: round8(deltaAmount),
+    markPrice,
+    reportedEntryPrice,
+    inferredEntryPrice: round8(inferredEntryPrice),
+  };
+}
+
+/**
+ * Link each new state to the opposite side of the same trader / symbol if
+ * that side closed within config.positioning.flipWindowMs of the open.
+ * Call after the closes of the same ingest are applied. Returns how many
+ * flips were recorded.
+ */
+export async function linkPositionFlips(
+  opened: FlipCandidate[],
+  source: 'POSITIONS' | 'ORDER_HISTORY'
+): Promise<number> {
+  const windowMs = config.positioning.flipWindowMs;
+  let flips = 0;
+
+  for (const state of opened) {
+    const openedAt = state.estimatedOpenTime ?? state.firstSeenAt;
+    const opposite = state.direction === 'LONG' ? 'SHORT' : 'LONG';
+
+    const closed = await prisma.positionState.findFirst({
+      where: {
+        platform: state.platform,
+        leadId: state.leadId,
+        symbol: state.symbol,
+        direction: opposite,
+        status: 'CLOSED',
+        disappearedAt: { gte: new Date(openedAt.getTime() - windowMs) },
+        flippedInto: { is: null },
+      },
+      orderBy: { disappearedAt: 'desc' },
+    });
+    if (!closed) continue;
+
+    const closedAt = closed.estimatedCloseTime ?? closed.disappearedAt!;
+    const gapMs = openedAt.getTime() - closedAt.getTime();
+    if (Math.abs(gapMs) > windowMs) continue;
+
+    try {
+      await prisma.positionFlip.create({
+        data: {
+          platform: state.platform,
+          leadId: state.leadId,
+          symbol: state.symbol,
+          flipType: state.direction === 'SHORT' ? 'FLIP_TO_SHORT' : 'FLIP_TO_LONG',
+          source,
+          closedStateId: closed.id,
+          openedStateId: state.id,
+          closedAt,
+          openedAt,
+          gapMs,
+          entryPrice: state.entryPrice > 0 ? state.entryPrice : null,
+          amount: state.amount !== 0 ? Math.abs(state.amount) : null,
+        },
+      });
+      flips++;
+    } catch (err) {
+      // Either state was linked by a concurrent ingest
+      if (!(err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002')) throw err;
+    }
+  }
+
+  return flips;
+}
+
 /**
  * Track position states by comparing current snapshot with database state
  *
  * @param positions - Current positions from this curl request
  * @param fetchedAt - Timestamp of this curl request
  * @param platform - Trading platform (default: binance)
+ * @param previousFetchAt - The trader's previous successful fetch (null if unknown)
  * @returns Statistics about state changes
  */
 export async function trackPositionStates(
   positions: PositionInput[],
   fetchedAt: Date,
-  platform: string = 'binance'
+  platform: string = 'binance',
+  previousFetchAt: Date | null = null
 ): Promise<PositionStateUpdate> {
   const currentKeys = new Set(positions.map(getPositionKey));
   const positionMap = new Map(
@@ -94,6 +253,8 @@ export async function trackPositionStates(
   let newCount = 0;
   let updatedCount = 0;
   let closedCount = 0;
+  let legCount = 0;
+  const created: FlipCandidate[] = [];
 
   // ================================================================
   // 1. CREATE new position states
@@ -104,8 +265,11 @@ export async function trackPositionStates(
     // Try to find matching OPEN event from orderHistory for accurate timing
     const openEventType = pos.side === 'LONG' ? 'OPEN_LONG' : 'OPEN_SHORT';
 
-    // Search for recent OPEN events (within last 5 minutes before firstSeenAt)
+    // Search for OPEN events since the previous fetch (at least the last 5 minutes)
     const fiveMinutesAgo = new Date(fetchedAt.getTime() - 5 * 60 * 1000);
+    const searchFrom = previousFetchAt && previousFetchAt < fiveMinutesAgo
+      ? previousFetchAt
+      : fiveMinutesAgo;
     const matchingOpenEvent = await prisma.event.findFirst({
       where: {
         platform,
@@ -113,7 +277,7 @@ export async function trackPositionStates(
         symbol: pos.symbol,
         eventType: openEventType,
         eventTime: {
-          gte: fiveMinutesAgo,
+          gte: searchFrom,
           lte: fetchedAt,
         },
       },
@@ -122,11 +286,18 @@ export async function trackPositionStates(
       },
     });
 
-    // Use Event time if available, otherwise use firstSeenAt as conservative estimate
-    const estimatedOpenTime = matchingOpenEvent?.eventTime || fetchedAt;
+    // Use Event time if available, otherwise the midpoint of the open window
+    // (firstSeenAt as conservative estimate when it has no start)
+    const eventTime = matchingOpenEvent?.eventTime ?? null;
+    const openWindowStart = eventTime ?? previousFetchAt;
+    const openWindowEnd = eventTime ?? fetchedAt;
+    const estimatedOpenTime = eventTime
+      ?? (previousFetchAt
+        ? new Date((previousFetchAt.getTime() + fetchedAt.getTime()) / 2)
+        : fetchedAt);
     const openEventId = matchingOpenEvent?.id || null;
 
-    await prisma.positionState.create({
+    const state = await prisma.positionState.create({
       data: {
         platform,
         leadId: pos.leadId,
@@ -139,33 +310,76 @@ export async function trackPositionStates(
         firstSeenAt: fetchedAt,
         lastSeenAt: fetchedAt,
         estimatedOpenTime,
+        openWindowStart,
+        openWindowEnd,
         openEventId, // Link to Event for accurate timing
       },
     });
 
+    created.push(state);
     newCount++;
   }
 
   // ================================================================
-  // 2. UPDATE still active positions (just update lastSeenAt)
+  // 2. UPDATE still active positions (lastSeenAt, plus a leg on size change)
   // ================================================================
   if (stillActiveKeys.length > 0) {
-    const stillActiveIds = activeStates
-      .filter((s) =>
-        stillActiveKeys.includes(`${s.leadId}|${s.symbol}|${s.direction}`)
-      )
-      .map((s) => s.id);
-
-    const result = await prisma.positionState.updateMany({
-      where: {
-        id: { in: stillActiveIds },
-      },
-      data: {
-        lastSeenAt: fetchedAt,
-      },
-    });
+    const stillActiveIds: string[] = [];
+
+    for (const state of activeStates) {
+      const pos = positionMap.get(`${state.leadId}|${state.symbol}|${state.direction}`);
+      if (!pos) continue;
+
+      const previousEntryPrice = state.currentEntryPrice ?? state.entryPrice;
+      const leg = detectPositionLeg(
+        { amount: state.currentAmount ?? state.amount, entryPrice: previousEntryPrice },
+        pos
+      );
+      if (!leg) {
+        stillActiveIds.push(state.id);
+        continue;
+      }
+
+      await prisma.$transaction([
+        prisma.positionLeg.create({
+          data: {
+            positionStateId: state.id,
+            platform,
+            leadId: state.leadId,
+            symbol: state.symbol,
+            direction: state.direction,
+            ...leg,
+            previousSeenAt: state.lastSeenAt,
+            detectedAt: fetchedAt,
+          },
+        }),
+        prisma.positionState.update({
+          where: { id: state.id },
+          data: {
+            lastSeenAt: fetchedAt,
+            currentAmount: leg.amount,
+            currentEntryPrice: leg.inferredEntryPrice,
+            legCount: { increment: 1 },
+          },
+        }),
+      ]);
+
+      legCount++;
+      updatedCount++;
+    }
+
+    if (stillActiveIds.length > 0) {
+      const result = await prisma.positionState.updateMany({
+        where: {
+          id: { in: stillActiveIds },
+        },
+        data: {
+          lastSeenAt: fetchedAt,
+        },
+      });
 
-    updatedCount = result.count;
+      updatedCount += result.count;
+    }
   }
 
   // ================================================================
@@ -194,16 +408,27 @@ export async function trackPositionStates(
         status: 'CLOSED',
         disappearedAt: fetchedAt,
         estimatedCloseTime,
+        closeWindowStart: state.lastSeenAt,
+        closeWindowEnd: fetchedAt,
       },
     });
 
     closedCount++;
   }
 
+  // ================================================================
+  // 4. LINK flips (a side closed and the other opened within the window)
+  // ================================================================
+  const flipCount = created.length > 0
+    ? await linkPositionFlips(created, 'POSITIONS')
+    : 0;
+
   return {
     newPositions: newCount,
     updatedPositions: updatedCount,
     closedPositions: closedCount,
+    legsRecorded: legCount,
+    flipsDetected: flipCount,
   };
 }
 
@@ -250,6 +475,63 @@ export async function getPositionStateHistory(
   });
 }
 
+/**
+ * Get a position state with its legs (oldest first), or null if unknown
+ */
+export async function getPositionStateWithLegs(id: string) {
+  return prisma.positionState.findUnique({
+    where: { id },
+    include: {
+      legs: { orderBy: { detectedAt: 'asc' } },
+    },
+  });
+}
+
+/**
+ * Get legs detected since `since` across all traders (newest first)
+ */
+export async function getRecentPositionLegs(params: {
+  since: Date;
+  symbol?: string;
+  kind?: PositionLegKind;
+  limit: number;
+}) {
+  return prisma.positionLeg.findMany({
+    where: {
+      detectedAt: { gte: params.since },
+      ...(params.symbol && { symbol: params.symbol }),
+      ...(params.kind && { kind: params.kind }),
+    },
+    include: {
+      positionState: {
+        select: { leverage: true },
+      },
+    },
+    orderBy: { detectedAt: 'desc' },
+    take: params.limit,
+  });
+}
+
+/**
+ * Get flips detected since `since` across all traders (newest first)
+ */
+export async function getRecentPositionFlips(params: {
+  since: Date;
+  platform?: string;
+  symbol?: string;
+  limit?: number;
+}) {
+  return prisma.positionFlip.findMany({
+    where: {
+      openedAt: { gte: params.since },
+      ...(params.platform && { platform: params.platform }),
+      ...(params.symbol && { symbol: params.symbol }),
+    },
+    orderBy: { openedAt: 'desc' },
+    ...(params.limit && { take: params.limit }),
+  });
+}
+
 /**
  * Get recently closed positions (for analysis)
  */
@@ -276,49 +558,79 @@ export async function getRecentlyClosedPositions(
   });
 }
 
-/**
- * Calculate uncertainty range for a position state
- * Returns [earliestPossible, latestPossible] for open/close times
- */
-export function calculateUncertaintyRange(state: {
+/** Open / close bounds of a position state (see calculateUncertaintyRange) */
+interface PositionTimingFields {
   firstSeenAt: Date;
   lastSeenAt: Date;
   disappearedAt: Date | null;
   estimatedOpenTime: Date | null;
   estimatedCloseTime: Date | null;
-}): {
-  openRange: { earliest: Date; latest: Date; uncertainty: number };
-  closeRange: { earliest: Date; latest: Date; uncertainty: number } | null;
-} {
-  // For OPEN: uncertainty is from creation of tracker until firstSeenAt
-  // Conservative: assume opened right at firstSeenAt
-  const openEarliest = state.estimatedOpenTime || state.firstSeenAt;
-  const openLatest = state.firstSeenAt;
-  const openUncertainty =
-    (openLatest.getTime() - openEarliest.getTime()) / 1000; // seconds
-
-  const result: ReturnType<typeof calculateUncertaintyRange> = {
-    openRange: {
-      earliest: openEarliest,
-      latest: openLatest,
-      uncertainty: openUncertainty,
-    },
-    closeRange: null,
+  openWindowStart?: Date | null;
+  openWindowEnd?: Date | null;
+  closeWindowStart?: Date | null;
+  closeWindowEnd?: Date | null;
+}
+
+interface TimeRange {
+  /** null when unbounded (no fetch before the first sighting) */
+  earliest: Date | null;
+  latest: Date;
+  /** seconds; null when unbounded */
+  uncertainty: number | null;
+}
+
+function timeRange(earliest: Date | null, latest: Date): TimeRange {
+  return {
+    earliest,
+    latest,
+    uncertainty: earliest ? (latest.getTime() - earliest.getTime()) / 1000 : null,
   };
+}
 
-  // For CLOSE: uncertainty is from lastSeenAt to disappearedAt
-  if (state.disappearedAt) {
-    const closeEarliest = state.lastSeenAt;
-    const closeLatest = state.disappearedAt;
-    const closeUncertainty =
-      (closeLatest.getTime() - closeEarliest.getTime()) / 1000; // seconds
-
-    result.closeRange = {
-      earliest: closeEarliest,
-      latest: closeLatest,
-      uncertainty: closeUncertainty,
-    };
+/**
+ * Calculate uncertainty range for a position state
+ * Returns [earliestPossible, latestPossible] for open/close times
+ *
+ * States without stored windows (created before they were recorded) fall
+ * back to estimatedOpenTime..firstSeenAt and lastSeenAt..disappearedAt.
+ */
+export function calculateUncertaintyRange(state: PositionTimingFields): {
+  openRange: TimeRange;
+  closeRange: TimeRange | null;
+} {
+  // For OPEN: from the previous fetch (or the open event) until firstSeenAt
+  const openRange = state.openWindowEnd
+    ? timeRange(state.openWindowStart ?? null, state.openWindowEnd)
+    : timeRange(state.estimatedOpenTime || state.firstSeenAt, state.firstSeenAt);
+
+  // For CLOSE: from the last sighting to disappearedAt
+  let closeRange: TimeRange | null = null;
+  if (state.closeWindowEnd) {
+    closeRange = timeRange(state.closeWindowStart ?? state.closeWindowEnd, state.closeWindowEnd);
+  } else if (state.disappearedAt) {
+    closeRange = timeRange(state.lastSeenAt, state.disappearedAt);
   }
 
-  return result;
+  return { openRange, closeRange };
+}
+
+/**
+ * Shortest and longest hold duration (seconds) the open / close windows
+ * allow; an ACTIVE state is held until `now`. maxSeconds is null when the
+ * open window is unbounded.
+ */
+export function holdDurationRange(
+  state: PositionTimingFields,
+  now: Date = new Date()
+): { minSeconds: number; maxSeconds: number | null } {
+  const { openRange, closeRange } = calculateUncertaintyRange(state);
+  const endEarliest = closeRange ? (closeRange.earliest ?? closeRange.latest) : now;
+  const endLatest = closeRange ? closeRange.latest : now;
+
+  return {
+    minSeconds: Math.max(0, Math.floor((endEarliest.getTime() - openRange.latest.getTime()) / 1000)),
+    maxSeconds: openRange.earliest
+      ? Math.max(0, Math.floor((endLatest.getTime() - openRange.earliest.getTime()) / 1000))
+      : null,
+  };
 }
@@ -0,0 +1,229 @@
+/**
+ * Price Feed
+ *
+ * Polls the public USDⓈ-M futures premium-index endpoint
+ * (GET /fapi/v1/premiumIndex, one request for every symbol) and stores a
+ * PriceTick per symbol in the universe:
+ *   - config.priceFeed.symbols, plus
+ *   - symbols held in an ACTIVE PositionState or an OPEN SimulatedPosition
+ *     (config.priceFeed.includeHeldSymbols)
+ *
+ * getPrice(symbol, at?) is the one price lookup for simulation, signal rules
+ * and the position monitor:
+ *   1. the latest tick at or before `at` (default now), if no older than
+ *      config.priceFeed.maxTickAgeMs
+ *   2. else the average mark price of the latest 60 PositionSnapshots
+ *   3. else the latest Event price
+ * Steps 2–3 cover other platforms and symbols outside the universe.
+ *
+ * Run scripts/price-feed-fixture-server.ts and point PRICE_FEED_BASE_URL at it
+ * to poll offline.
+ */
+
+import { prisma } from '../db/prisma.js';
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+import { fetchEndpointJson } from './resilientFetch.js';
+
+// ────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────
+
+/** One element of the /fapi/v1/premiumIndex response (numbers as strings) */
+interface PremiumIndexRow {
+  symbol: string;
+  markPrice: string;
+  indexPrice?: string;
+  lastFundingRate?: string;
+  time: number;
+}
+
+export interface PricePollResult {
+  symbols: number;
+  ticksStored: number;
+  /** Universe symbols the endpoint didn't return */
+  missing: string[];
+  latencyMs: number;
+}
+
+const FEED_PLATFORM = 'binance';
+
+// ────────────────────────────────────────────────────────────
+// Helpers
+// ────────────────────────────────────────────────────────────
+
+function round4(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function toNumber(value: string | undefined): number | null {
+  if (value === undefined || value === '') return null;
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Binance symbols held in an ACTIVE PositionState or an OPEN SimulatedPosition.
+ */
+export async function getHeldSymbols(): Promise<string[]> {
+  const [states, simulated] = await Promise.all([
+    prisma.positionState.findMany({
+      where: { status: 'ACTIVE', platform: FEED_PLATFORM },
+      distinct: ['symbol'],
+      select: { symbol: true },
+    }),
+    prisma.simulatedPosition.findMany({
+      where: { status: 'OPEN' },
+      distinct: ['symbol'],
+      select: { symbol: true },
+    }),
+  ]);
+  return [...new Set([...states, ...simulated].map(({ symbol }) => symbol.toUpperCase()))];
+}
+
+/**
+ * Symbols to poll: the configured list plus held symbols (if enabled).
+ */
+export async function getPriceUniverse(): Promise<string[]> {
+  const universe = new Set(config.priceFeed.symbols);
+  if (config.priceFeed.includeHeldSymbols) {
+    for (const symbol of await getHeldSymbols()) universe.add(symbol);
+  }
+  return [...universe];
+}
+
+// ────────────────────────────────────────────────────────────
+// Polling
+// ────────────────────────────────────────────────────────────
+
+/**
+ * Fetch the premium index once and store a tick per universe symbol.
+ * Throws when the request fails.
+ */
+export async function pollPrices(): Promise<PricePollResult> {
+  const universe = await getPriceUniverse();
+  const res = await fetchEndpointJson<PremiumIndexRow[]>(
+    'premiumIndex',
+    `${config.priceFeed.baseUrl}/fapi/v1/premiumIndex`,
+    { method: 'GET' },
+    config.priceFeed.timeoutMs,
+  );
+  if (!res.success || !Array.isArray(res.data)) {
+    throw new Error(`Premium index request failed: ${res.error ?? 'unexpected response'}`);
+  }
+
+  const wanted = new Set(universe);
+  const ticks = res.data
+    .filter((row) => wanted.has(row.symbol))
+    .map((row) => ({
+      platform: FEED_PLATFORM,
+      symbol: row.symbol,
+      markPrice: toNumber(row.markPrice),
+      indexPrice: toNumber(row.indexPrice),
+      fundingRate: toNumber(row.lastFundingRate),
+      at: new Date(Number.isFinite(row.time) && row.time > 0 ? row.time : Date.now()),
+    }))
+    .filter((t): t is typeof t & { markPrice: number } => t.markPrice !== null && t.markPrice > 0);
+
+  // The exchange timestamp repeats when polled faster than it updates
+  const { count } = await prisma.priceTick.createMany({ data: ticks, skipDuplicates: true });
+
+  const returned = new Set(ticks.map((t) => t.symbol));
+  return {
+    symbols: universe.length,
+    ticksStored: count,
+    missing: universe.filter((s) => !returned.has(s)),
+    latencyMs: res.latencyMs,
+  };
+}
+
+let timer: ReturnType<typeof setInterval> | null = null;
+let polling = false;
+
+/**
+ * Poll every intervalMs (skipped while a poll is in progress).
+ */
+export function startPriceFeedTimer(intervalMs: number): void {
+  if (timer) return;
+
+  const tick = async () => {
+    if (polling) return;
+    polling = true;
+    try {
+      const result = await pollPrices();
+      if (result.missing.length > 0) {
+        logger.debug({ missing: result.missing }, 'Price feed: symbols without a premium index');
+      }
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      logger.warn({ error: msg }, 'Price feed poll failed');
+    } finally {
+      polling = false;
+    }
+  };
+
+  timer = setInterval(() => void tick(), intervalMs);
+  void tick();
+  logger.info({ intervalMs, baseUrl: config.priceFeed.baseUrl }, 'Price feed timer started');
+}
+
+export function stopPriceFeedTimer(): void {
+  if (!timer) return;
+  clearInterval(timer);
+  timer = null;
+}
+
+// ────────────────────────────────────────────────────────────
+// Lookup
+// ────────────────────────────────────────────────────────────
+
+/**
+ * Price of a symbol at `at` (default now), or null when nothing is known.
+ * Ticks come from the Binance feed, so other platforms use their own
+ * snapshots / events.
+ */
+export async function getPrice(
+  symbol: string,
+  at?: Date | null,
+  platform: string = 'binance',
+): Promise<number | null> {
+  const s = symbol.toUpperCase();
+  const ref = at ?? new Date();
+
+  if (platform === FEED_PLATFORM) {
+    const tick = await prisma.priceTick.findFirst({
+      where: {
+        platform,
+        symbol: s,
+        at: { lte: ref, gte: new Date(ref.getTime() - config.priceFeed.maxTickAgeMs) },
+      },
+      orderBy: { at: 'desc' },
+      select: { markPrice: true },
+    });
+    if (tick) return round4(tick.markPrice);
+  }
+
+  const latestPositions = await prisma.positionSnapshot.findMany({
+    where: { symbol: s, platform, ...(at && { fetchedAt: { lte: ref } }) },
+    orderBy: { fetchedAt: 'desc' },
+    take: 60,
+    select: { markPrice: true, entryPrice: true },
+  });
+  const prices = latestPositions
+    .map((p) => (p.markPrice && p.markPrice > 0 ? p.markPrice : p.entryPrice))
+    .filter((v) => Number.isFinite(v) && v > 0);
+  if (prices.length > 0) {
+    return round4(prices.reduce((sum, v) => sum + v, 0) / prices.length);
+  }
+
+  const latestEvent = await prisma.event.findFirst({
+    where: { symbol: s, platform, price: { not: null }, ...(at && { fetchedAt: { lte: ref } }) },
+    orderBy: [{ eventTime: 'desc' }, { fetchedAt: 'desc' }],
+    select: { price: true },
+  });
+  if (latestEvent?.price && latestEvent.price > 0) {
+    return round4(latestEvent.price);
+  }
+
+  return null;
+}
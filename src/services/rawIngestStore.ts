@@ -0,0 +1,211 @@
+/**
+ * RawIngest Delta Storage
+ *
+ * Most scrapes return the same roiSeries, portfolioDetail, assetPreferences
+ * (and often positions / orders) as the minute before, so storing the full
+ * payload per fetch is mostly duplicate data. Instead every object / array
+ * section of a payload is content-hashed (sha256 of canonical JSON) and
+ * stored once in RawIngestSection. A RawIngest row keeps:
+ *   - payload:         the scalar fields only (leadId, fetchedAt, timeRange, ...)
+ *   - sectionHashes:   { section: hash } references
+ *   - changedSections: sections that differ from the trader's previous row
+ *
+ * Readers call hydrateRawIngests() to get the full logical payload back.
+ * Rows written before delta storage (sectionHashes = null) hold the full
+ * payload and pass through untouched.
+ *
+ * Each section keeps refCount, the number of references from RawIngest rows
+ * (a row referencing one hash from two sections counts twice), and
+ * lastUsedAt. A row and its section upserts commit together, and a reused
+ * section is counted up in the same statement that would recreate it, so
+ * retention GC (refCount 0) can never remove a section a new row refers to.
+ */
+
+import { createHash } from 'node:crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db/prisma.js';
+import { config } from '../config.js';
+
+// ────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────
+
+export interface RawIngestInput {
+  leadId: string;
+  platform: string;
+  fetchedAt: Date;
+  payload: Record<string, unknown>;
+  positionsCount: number | null;
+  ordersCount: number | null;
+  timeRange: string | null;
+}
+
+export type SectionHashes = Record<string, string>;
+
+/** Anything selected from RawIngest with payload + sectionHashes */
+interface StoredRawIngest {
+  payload: unknown;
+  sectionHashes?: unknown;
+}
+
+// ────────────────────────────────────────────────────────────
+// Hashing
+// ────────────────────────────────────────────────────────────
+
+/**
+ * JSON with object keys sorted, so equal content always hashes equal
+ * (jsonb does not keep key order).
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Split a payload into inline scalars and hashed sections (non-null objects
+ * and arrays).
+ */
+export function splitPayload(payload: Record<string, unknown>) {
+  const inline: Record<string, unknown> = {};
+  const sections = new Map<string, { hash: string; json: string; content: unknown }>();
+
+  for (const [key, value] of Object.entries(payload)) {
+    if (value !== null && typeof value === 'object') {
+      const json = canonicalJson(value);
+      sections.set(key, { hash: createHash('sha256').update(json).digest('hex'), json, content: value });
+    } else if (value !== undefined) {
+      inline[key] = value;
+    }
+  }
+
+  return { inline, sections };
+}
+
+function asSectionHashes(value: unknown): SectionHashes | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as SectionHashes) : null;
+}
+
+// ────────────────────────────────────────────────────────────
+// Write
+// ────────────────────────────────────────────────────────────
+
+/**
+ * Reference counts per hash over `rows` (one per section reference).
+ */
+export function countSectionRefs(rows: { sectionHashes?: unknown }[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const row of rows) {
+    for (const hash of Object.values(asSectionHashes(row.sectionHashes) ?? {})) {
+      counts.set(hash, (counts.get(hash) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+/**
+ * Store one payload. Every referenced section is upserted: created if
+ * missing, otherwise its refCount goes up and lastUsedAt is refreshed.
+ * changedSections is relative to the trader's previous row.
+ */
+export async function storeRawIngest(input: RawIngestInput) {
+  const { payload, ...fields } = input;
+
+  if (!config.rawIngest.deltaStorage) {
+    return prisma.rawIngest.create({ data: { ...fields, payload: payload as object } });
+  }
+
+  const previous = await prisma.rawIngest.findFirst({
+    where: { leadId: input.leadId, platform: input.platform },
+    orderBy: { fetchedAt: 'desc' },
+    select: { sectionHashes: true },
+  });
+  const previousHashes = asSectionHashes(previous?.sectionHashes) ?? {};
+
+  const { inline, sections } = splitPayload(payload);
+  const sectionHashes: SectionHashes = {};
+  const changedSections: string[] = [];
+  const upserts = new Map<string, { json: string; refs: number }>();
+
+  for (const [name, section] of sections) {
+    sectionHashes[name] = section.hash;
+    const upsert = upserts.get(section.hash) ?? { json: section.json, refs: 0 };
+    upsert.refs++;
+    upserts.set(section.hash, upsert);
+    if (previousHashes[name] !== section.hash) changedSections.push(name);
+  }
+  for (const name of Object.keys(previousHashes)) {
+    if (!sections.has(name)) changedSections.push(name);
+  }
+
+  const row = prisma.rawIngest.create({
+    data: {
+      ...fields,
+      payload: inline as object,
+      sectionHashes,
+      changedSections,
+    },
+  });
+  if (upserts.size === 0) return row;
+
+  const values = Prisma.join(
+    [...upserts].map(([hash, { json, refs }]) =>
+      Prisma.sql`(${hash}, ${json}::jsonb, ${Buffer.byteLength(json)}, ${refs})`),
+  );
+  const [, created] = await prisma.$transaction([
+    prisma.$executeRaw`
+      INSERT INTO "RawIngestSection" ("hash", "content", "sizeBytes", "refCount")
+      VALUES ${values}
+      ON CONFLICT ("hash") DO UPDATE
+      SET "refCount" = "RawIngestSection"."refCount" + EXCLUDED."refCount", "lastUsedAt" = now()
+    `,
+    row,
+  ]);
+  return created;
+}
+
+// ────────────────────────────────────────────────────────────
+// Read
+// ────────────────────────────────────────────────────────────
+
+/**
+ * Replace each row's payload with the full logical payload, loading all
+ * referenced sections in one query. A section that can no longer be found
+ * reads as null.
+ */
+export async function hydrateRawIngests<T extends StoredRawIngest>(rows: T[]): Promise<T[]> {
+  const hashes = new Set<string>();
+  for (const row of rows) {
+    const refs = asSectionHashes(row.sectionHashes);
+    if (refs) Object.values(refs).forEach((h) => hashes.add(h));
+  }
+  if (hashes.size === 0) return rows;
+
+  const sections = await prisma.rawIngestSection.findMany({
+    where: { hash: { in: [...hashes] } },
+    select: { hash: true, content: true },
+  });
+  const contentByHash = new Map(sections.map((s) => [s.hash, s.content]));
+
+  return rows.map((row) => {
+    const refs = asSectionHashes(row.sectionHashes);
+    if (!refs) return row;
+
+    const payload: Record<string, unknown> = { ...(row.payload as Record<string, unknown>) };
+    for (const [name, hash] of Object.entries(refs)) {
+      payload[name] = contentByHash.get(hash) ?? null;
+    }
+    return { ...row, payload };
+  });
+}
+
+export async function hydrateRawIngest<T extends StoredRawIngest>(row: T | null): Promise<T | null> {
+  if (!row) return null;
+  const [hydrated] = await hydrateRawIngests([row]);
+  return hydrated;
+}
@@ -0,0 +1,415 @@
+/**
+ * Resilient Fetch Layer for the Binance scraper
+ *
+ * Wraps every Binance request with:
+ *   - jittered exponential retries for transient failures (timeout, network,
+ *     HTTP 429 / 5xx). A Retry-After up to retry.maxDelayMs is waited out in
+ *     full; a longer one, or one on the last attempt, opens the endpoint's
+ *     breaker until then instead of retrying early
+ *   - a circuit breaker per endpoint (positions, orderHistory, roiSeries, ...)
+ *     that short-circuits requests for a cooldown after repeated failures,
+ *     then lets a single probe through (HALF_OPEN) before closing again
+ *   - per-endpoint success / failure / latency stats, exposed on /health
+ *
+ * Permanent failures (other 4xx, success=false bodies) are returned without
+ * retrying and don't count against the breaker — they're trader-specific,
+ * not a sign the endpoint is down.
+ */
+
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+
+// ────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────
+
+export type ScraperEndpoint =
+  | 'leadCommon'
+  | 'portfolioDetail'
+  | 'positions'
+  | 'roiSeries'
+  | 'assetPreferences'
+  | 'orderHistory'
+  | 'leaderboard'
+  | 'leaderboardDetail' // discovery's portfolio detail, served from config.discovery.baseUrl
+  | 'premiumIndex'
+  | 'klines'
+  | 'fundingRate';
+
+export type BreakerState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+export interface FetchResult<T> {
+  success: boolean;
+  data: T | null;
+  error?: string;
+  status?: number;
+  attempts: number;
+  latencyMs: number;
+  /** True when the breaker rejected the request without calling Binance */
+  shortCircuited?: boolean;
+}
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface BreakerPolicy {
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+interface EndpointStats {
+  state: BreakerState;
+  consecutiveFailures: number;
+  openedAt: number | null;
+  openUntil: number | null;
+  probeInFlight: boolean;
+  requests: number;
+  successes: number;
+  failures: number;
+  retries: number;
+  shortCircuited: number;
+  totalLatencyMs: number;
+  maxLatencyMs: number;
+  lastLatencyMs: number | null;
+  lastError: string | null;
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+}
+
+interface AttemptResult<T> {
+  success: boolean;
+  data: T | null;
+  error?: string;
+  status?: number;
+  transient: boolean;
+  retryAfterMs?: number;
+}
+
+// ────────────────────────────────────────────────────────────
+// State
+// ────────────────────────────────────────────────────────────
+
+const endpointStats = new Map<ScraperEndpoint, EndpointStats>();
+
+let retryPolicy: RetryPolicy = { ...config.scraper.retry };
+let breakerPolicy: BreakerPolicy = { ...config.scraper.breaker };
+
+/**
+ * Override retry / breaker policies (e.g. for a local stand-in server).
+ */
+export function configureResilience(policies: {
+  retry?: Partial<RetryPolicy>;
+  breaker?: Partial<BreakerPolicy>;
+}): void {
+  retryPolicy = { ...retryPolicy, ...policies.retry };
+  breakerPolicy = { ...breakerPolicy, ...policies.breaker };
+}
+
+/**
+ * Clear all breaker state and stats.
+ */
+export function resetEndpointHealth(): void {
+  endpointStats.clear();
+}
+
+function getStats(endpoint: ScraperEndpoint): EndpointStats {
+  let stats = endpointStats.get(endpoint);
+  if (!stats) {
+    stats = {
+      state: 'CLOSED',
+      consecutiveFailures: 0,
+      openedAt: null,
+      openUntil: null,
+      probeInFlight: false,
+      requests: 0,
+      successes: 0,
+      failures: 0,
+      retries: 0,
+      shortCircuited: 0,
+      totalLatencyMs: 0,
+      maxLatencyMs: 0,
+      lastLatencyMs: null,
+      lastError: null,
+      lastSuccessAt: null,
+      lastFailureAt: null,
+    };
+    endpointStats.set(endpoint, stats);
+  }
+  return stats;
+}
+
+// ────────────────────────────────────────────────────────────
+// Helpers
+// ────────────────────────────────────────────────────────────
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into ms.
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(seconds * 1000, 0);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * Full-jitter exponential backoff: random(0, min(max, base * 2^attempt)).
+ */
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(retryPolicy.maxDelayMs, retryPolicy.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Single HTTP attempt with timeout (covering the body read too). Classifies
+ * failures as transient or not.
+ */
+async function attemptFetch<T>(
+  url: string,
+  options: RequestInit,
+  timeoutMs: number,
+): Promise<AttemptResult<T>> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const res = await fetch(url, {
+      headers: { 'Content-Type': 'application/json' },
+      signal: controller.signal,
+      ...options,
+    });
+
+    if (!res.ok) {
+      // Release the connection before a retry goes out on the same endpoint
+      await res.body?.cancel().catch(() => {});
+      return {
+        success: false,
+        data: null,
+        error: `HTTP ${res.status}`,
+        status: res.status,
+        transient: res.status === 429 || res.status >= 500,
+        retryAfterMs: parseRetryAfter(res.headers.get('retry-after')),
+      };
+    }
+
+    const json = (await res.json()) as { success?: boolean; data?: T };
+    if (json.success === false) {
+      return {
+        success: false,
+        data: null,
+        error: 'Binance API returned success=false',
+        status: res.status,
+        transient: false,
+      };
+    }
+
+    return {
+      success: true,
+      data: json.data ?? (json as unknown as T),
+      status: res.status,
+      transient: false,
+    };
+  } catch (err) {
+    const message = controller.signal.aborted
+      ? `Timeout after ${timeoutMs}ms`
+      : err instanceof Error ? err.message : String(err);
+    // Timeouts and network errors are worth retrying; bad JSON is too (truncated body)
+    return { success: false, data: null, error: message, transient: true };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Ask the breaker whether a request may go out. Moves OPEN → HALF_OPEN once
+ * the cooldown has passed and admits exactly one probe.
+ */
+function admit(stats: EndpointStats): boolean {
+  if (stats.state === 'CLOSED') return true;
+
+  if (stats.state === 'OPEN') {
+    if (stats.openUntil !== null && Date.now() < stats.openUntil) return false;
+    stats.state = 'HALF_OPEN';
+  }
+
+  // HALF_OPEN: one probe at a time
+  if (stats.probeInFlight) return false;
+  stats.probeInFlight = true;
+  return true;
+}
+
+function closeBreaker(stats: EndpointStats): void {
+  stats.state = 'CLOSED';
+  stats.consecutiveFailures = 0;
+  stats.openedAt = null;
+  stats.openUntil = null;
+}
+
+function recordSuccess(stats: EndpointStats): void {
+  stats.successes++;
+  stats.lastSuccessAt = Date.now();
+  stats.probeInFlight = false;
+  closeBreaker(stats);
+}
+
+function openBreaker(
+  endpoint: ScraperEndpoint,
+  stats: EndpointStats,
+  openMs: number,
+  error: string | undefined,
+): void {
+  const now = Date.now();
+  stats.state = 'OPEN';
+  stats.openedAt = now;
+  stats.openUntil = now + openMs;
+  logger.warn(
+    {
+      endpoint,
+      consecutiveFailures: stats.consecutiveFailures,
+      cooldownSec: Math.round(openMs / 1000),
+      error,
+    },
+    'Circuit breaker opened for Binance endpoint',
+  );
+}
+
+/**
+ * Count a failed request. A Retry-After on the final response opens the
+ * breaker until then, so no caller hits the endpoint before the server allows.
+ */
+function recordFailure(
+  endpoint: ScraperEndpoint,
+  stats: EndpointStats,
+  error: string | undefined,
+  transient: boolean,
+  retryAfterMs?: number,
+): void {
+  stats.failures++;
+  stats.lastError = error ?? null;
+  stats.lastFailureAt = Date.now();
+  const wasProbe = stats.state === 'HALF_OPEN';
+  stats.probeInFlight = false;
+
+  if (!transient) {
+    // Endpoint answered; a failed probe still proves it's reachable
+    if (wasProbe) closeBreaker(stats);
+    return;
+  }
+
+  stats.consecutiveFailures++;
+  if (retryAfterMs !== undefined) {
+    openBreaker(endpoint, stats, retryAfterMs, error);
+  } else if (wasProbe || stats.consecutiveFailures >= breakerPolicy.failureThreshold) {
+    openBreaker(endpoint, stats, breakerPolicy.cooldownMs, error);
+  }
+}
+
+// ────────────────────────────────────────────────────────────
+// Public API
+// ────────────────────────────────────────────────────────────
+
+/**
+ * Fetch a Binance endpoint with retries and the endpoint's circuit breaker.
+ */
+export async function fetchEndpointJson<T = unknown>(
+  endpoint: ScraperEndpoint,
+  url: string,
+  options: RequestInit = {},
+  timeoutMs: number = 15_000,
+): Promise<FetchResult<T>> {
+  const stats = getStats(endpoint);
+
+  if (!admit(stats)) {
+    stats.shortCircuited++;
+    return {
+      success: false,
+      data: null,
+      error: `Circuit open for ${endpoint}`,
+      attempts: 0,
+      latencyMs: 0,
+      shortCircuited: true,
+    };
+  }
+
+  const t0 = performance.now();
+  let attempts = 0;
+  let result: AttemptResult<T>;
+
+  for (;;) {
+    attempts++;
+    stats.requests++;
+    result = await attemptFetch<T>(url, options, timeoutMs);
+
+    if (result.success || !result.transient || attempts > retryPolicy.maxRetries) break;
+    // Asked to wait longer than we would: the breaker holds off until then
+    if (result.retryAfterMs !== undefined && result.retryAfterMs > retryPolicy.maxDelayMs) break;
+
+    stats.retries++;
+    await sleep(result.retryAfterMs ?? backoffDelay(attempts - 1));
+  }
+
+  const latencyMs = Math.round(performance.now() - t0);
+  stats.totalLatencyMs += latencyMs;
+  stats.maxLatencyMs = Math.max(stats.maxLatencyMs, latencyMs);
+  stats.lastLatencyMs = latencyMs;
+
+  if (result.success) {
+    recordSuccess(stats);
+  } else {
+    recordFailure(endpoint, stats, result.error, result.transient, result.retryAfterMs);
+  }
+
+  return {
+    success: result.success,
+    data: result.data,
+    error: result.error,
+    status: result.status,
+    attempts,
+    latencyMs,
+  };
+}
+
+/**
+ * Snapshot of breaker state and stats per endpoint (for /health).
+ */
+export function getEndpointHealth() {
+  const toIso = (ms: number | null) => (ms === null ? null : new Date(ms).toISOString());
+  const endpoints: Record<string, unknown> = {};
+
+  for (const [endpoint, s] of endpointStats) {
+    const completed = s.successes + s.failures;
+    endpoints[endpoint] = {
+      state: s.state,
+      consecutiveFailures: s.consecutiveFailures,
+      openUntil: toIso(s.openUntil),
+      requests: s.requests,
+      successes: s.successes,
+      failures: s.failures,
+      retries: s.retries,
+      shortCircuited: s.shortCircuited,
+      successRate: completed > 0 ? Math.round((s.successes / completed) * 1000) / 1000 : null,
+      avgLatencyMs: completed > 0 ? Math.round(s.totalLatencyMs / completed) : null,
+      maxLatencyMs: s.maxLatencyMs,
+      lastLatencyMs: s.lastLatencyMs,
+      lastError: s.lastError,
+      lastSuccessAt: toIso(s.lastSuccessAt),
+      lastFailureAt: toIso(s.lastFailureAt),
+    };
+  }
+
+  const openCount = [...endpointStats.values()].filter((s) => s.state !== 'CLOSED').length;
+
+  return {
+    status: openCount > 0 ? 'degraded' : 'ok',
+    openBreakers: openCount,
+    retryPolicy,
+    breakerPolicy,
+    endpoints,
+  };
+}
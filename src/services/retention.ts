@@ -0,0 +1,641 @@
+/**
+ * Retention Service
+ *
+ * Keeps the time-series tables bounded (config.retention, per table):
+ *   - PositionSnapshot: full resolution for fullResolutionDays, then the
+ *     latest snapshot per trader/symbol/side/hour until hourlyDays; older
+ *     snapshots are deleted
+ *   - RawIngest: rows older than archiveAfterDays are written (with their
+ *     full, hydrated payload) to <archiveDir>/raw-ingest/<day>.ndjson.gz and
+ *     deleted; RawIngestSection rows no longer referenced (refCount 0) are removed
+ *   - PositionState: CLOSED states older than archiveClosedAfterDays are
+ *     archived the same way to <archiveDir>/position-state/ (with their
+ *     PositionLegs, which are deleted along with the state)
+ *   - IngestIdempotencyKey: expired keys are deleted
+ *   - PriceTick: ticks older than keepDays are deleted
+ *   - Kline: 1m candles older than oneMinuteDays and 5m candles older than
+ *     fiveMinuteDays are deleted
+ *   - FundingRate: settlements older than keepDays are deleted
+ *   - TraderCopierSample: samples older than keepDays are deleted
+ *
+ * Archive files are gzip members appended per batch (gunzip / zcat read
+ * them as one stream). A crash between append and delete can leave a row in
+ * both the archive and the table; the next run archives it again, so dedupe
+ * archives by id.
+ *
+ * Each run is persisted in RetentionRun; GET /admin/retention/report
+ * summarizes table sizes, archive files and bytes reclaimed.
+ */
+
+import { appendFile, mkdir, readdir, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import { gzip } from 'node:zlib';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db/prisma.js';
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+import { countSectionRefs, hydrateRawIngests } from './rawIngestStore.js';
+
+const gzipAsync = promisify(gzip);
+
+// ────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────
+
+export interface RetentionPolicy {
+  batchSize: number;
+  archiveDir: string;
+  positionSnapshot: { fullResolutionDays: number; hourlyDays: number };
+  rawIngest: { archiveAfterDays: number };
+  positionState: { archiveClosedAfterDays: number };
+  priceTick: { keepDays: number };
+  kline: { oneMinuteDays: number; fiveMinuteDays: number };
+  fundingRate: { keepDays: number };
+  copierSample: { keepDays: number };
+}
+
+export interface TableRetentionResult {
+  table: string;
+  /** Rows removed by hourly downsampling (PositionSnapshot) */
+  downsampled: number;
+  /** All rows removed, including downsampled and archived ones */
+  deleted: number;
+  archived: number;
+  bytesReclaimed: number;
+  archiveFiles: string[];
+  error: string | null;
+}
+
+type RetentionTrigger = 'SCHEDULED' | 'MANUAL';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Tables the report sizes (includes RawIngestSection, which RawIngest GC shrinks) */
+const REPORT_TABLES = ['PositionSnapshot', 'RawIngest', 'RawIngestSection', 'PositionState', 'PriceTick', 'Kline', 'FundingRate', 'TraderCopierSample'] as const;
+
+/** Row count per report table; keyed so a listed table can't lack a count */
+const REPORT_COUNTS: Record<(typeof REPORT_TABLES)[number], () => Promise<number>> = {
+  PositionSnapshot: () => prisma.positionSnapshot.count(),
+  RawIngest: () => prisma.rawIngest.count(),
+  RawIngestSection: () => prisma.rawIngestSection.count(),
+  PositionState: () => prisma.positionState.count(),
+  PriceTick: () => prisma.priceTick.count(),
+  Kline: () => prisma.kline.count(),
+  FundingRate: () => prisma.fundingRate.count(),
+  TraderCopierSample: () => prisma.traderCopierSample.count(),
+};
+
+// ────────────────────────────────────────────────────────────
+// Helpers
+// ────────────────────────────────────────────────────────────
+
+function emptyResult(table: string): TableRetentionResult {
+  return { table, downsampled: 0, deleted: 0, archived: 0, bytesReclaimed: 0, archiveFiles: [], error: null };
+}
+
+function cutoffFor(days: number, now: number): Date | null {
+  return days > 0 ? new Date(now - days * DAY_MS) : null;
+}
+
+function isoDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Append records to <archiveDir>/<dir>/<day>.ndjson.gz, one gzip member per
+ * day per call. Returns the files written.
+ */
+async function appendArchive(
+  archiveDir: string,
+  dir: string,
+  records: { day: string; record: unknown }[],
+): Promise<string[]> {
+  const byDay = new Map<string, string[]>();
+  for (const { day, record } of records) {
+    const lines = byDay.get(day) ?? [];
+    lines.push(JSON.stringify(record));
+    byDay.set(day, lines);
+  }
+
+  const target = path.join(archiveDir, dir);
+  await mkdir(target, { recursive: true });
+
+  const files: string[] = [];
+  for (const [day, lines] of byDay) {
+    const file = path.join(target, `${day}.ndjson.gz`);
+    await appendFile(file, await gzipAsync(`${lines.join('\n')}\n`));
+    files.push(file);
+  }
+  return files;
+}
+
+/**
+ * Run a `WITH deleted AS (DELETE ... RETURNING pg_column_size(...) AS bytes)`
+ * statement and read back the row count and bytes.
+ */
+async function deleteCounting(deleteSql: Prisma.Sql): Promise<{ rows: number; bytes: number }> {
+  const [res] = await prisma.$queryRaw<{ rows: number; bytes: number }[]>`
+    WITH deleted AS (${deleteSql})
+    SELECT COUNT(*)::int AS rows, COALESCE(SUM(bytes), 0)::float8 AS bytes FROM deleted
+  `;
+  return res ?? { rows: 0, bytes: 0 };
+}
+
+// ────────────────────────────────────────────────────────────
+// PositionSnapshot: downsample + delete
+// ────────────────────────────────────────────────────────────
+
+async function retainPositionSnapshots(policy: RetentionPolicy, now: number): Promise<TableRetentionResult> {
+  const result = emptyResult('PositionSnapshot');
+  const fullCutoff = cutoffFor(policy.positionSnapshot.fullResolutionDays, now);
+  const hourlyCutoff = cutoffFor(policy.positionSnapshot.hourlyDays, now);
+
+  // 1. Delete everything past the hourly window, in batches
+  if (hourlyCutoff) {
+    for (;;) {
+      const { rows, bytes } = await deleteCounting(Prisma.sql`
+        DELETE FROM "PositionSnapshot" p
+        WHERE p.id IN (
+          SELECT id FROM "PositionSnapshot"
+          WHERE "fetchedAt" < ${hourlyCutoff}
+          LIMIT ${policy.batchSize}
+        )
+        RETURNING pg_column_size(p.*) AS bytes
+      `);
+      result.deleted += rows;
+      result.bytesReclaimed += bytes;
+      if (rows < policy.batchSize) break;
+    }
+  }
+
+  // 2. Downsample [hourlyCutoff, fullCutoff) to the latest snapshot per hour, one day at a time
+  if (fullCutoff) {
+    const oldest = await prisma.positionSnapshot.aggregate({
+      where: { fetchedAt: { lt: fullCutoff } },
+      _min: { fetchedAt: true },
+    });
+    const oldestMs = oldest._min.fetchedAt?.getTime();
+
+    if (oldestMs !== undefined) {
+      const start = Math.max(Math.floor(oldestMs / HOUR_MS) * HOUR_MS, hourlyCutoff?.getTime() ?? 0);
+      for (let from = start; from < fullCutoff.getTime(); from += DAY_MS) {
+        const to = Math.min(from + DAY_MS, fullCutoff.getTime());
+        const { rows, bytes } = await deleteCounting(Prisma.sql`
+          DELETE FROM "PositionSnapshot" p
+          USING (
+            SELECT id, ROW_NUMBER() OVER (
+              PARTITION BY platform, "leadId", symbol, side, date_trunc('hour', "fetchedAt")
+              ORDER BY "fetchedAt" DESC
+            ) AS rn
+            FROM "PositionSnapshot"
+            WHERE "fetchedAt" >= ${new Date(from)} AND "fetchedAt" < ${new Date(to)}
+          ) ranked
+          WHERE p.id = ranked.id AND ranked.rn > 1
+          RETURNING pg_column_size(p.*) AS bytes
+        `);
+        result.downsampled += rows;
+        result.deleted += rows;
+        result.bytesReclaimed += bytes;
+      }
+    }
+  }
+
+  return result;
+}
+
+// ────────────────────────────────────────────────────────────
+// RawIngest: archive + delete + section GC
+// ────────────────────────────────────────────────────────────
+
+async function retainRawIngest(policy: RetentionPolicy, now: number): Promise<TableRetentionResult> {
+  const result = emptyResult('RawIngest');
+  const cutoff = cutoffFor(policy.rawIngest.archiveAfterDays, now);
+  if (!cutoff) return result;
+
+  const files = new Set<string>();
+  for (;;) {
+    const rows = await prisma.$queryRaw<Array<{
+      id: string;
+      fetchedAt: Date;
+      payload: unknown;
+      sectionHashes: unknown;
+      rowBytes: number;
+    }>>`
+      SELECT r.*, pg_column_size(r.*)::int AS "rowBytes"
+      FROM "RawIngest" r
+      WHERE r."fetchedAt" < ${cutoff}
+      ORDER BY r."fetchedAt"
+      LIMIT ${policy.batchSize}
+    `;
+    if (rows.length === 0) break;
+
+    const hydrated = await hydrateRawIngests(rows);
+    const written = await appendArchive(
+      policy.archiveDir,
+      'raw-ingest',
+      hydrated.map(({ sectionHashes: _refs, rowBytes: _bytes, ...row }) => ({ day: isoDay(row.fetchedAt), record: row })),
+    );
+    written.forEach((f) => files.add(f));
+
+    // Rows and their section references go together
+    const refs = countSectionRefs(rows);
+    const [{ count }] = await prisma.$transaction([
+      prisma.rawIngest.deleteMany({ where: { id: { in: rows.map((r) => r.id) } } }),
+      ...(refs.size > 0
+        ? [prisma.$executeRaw`
+            UPDATE "RawIngestSection" s
+            SET "refCount" = GREATEST(s."refCount" - v.refs, 0)
+            FROM (VALUES ${Prisma.join([...refs].map(([hash, n]) => Prisma.sql`(${hash}, ${n}::int)`))}) AS v(hash, refs)
+            WHERE s."hash" = v.hash
+          `]
+        : []),
+    ]);
+    result.archived += rows.length;
+    result.deleted += count;
+    result.bytesReclaimed += rows.reduce((sum, r) => sum + r.rowBytes, 0);
+
+    if (rows.length < policy.batchSize) break;
+  }
+  result.archiveFiles = [...files];
+
+  // Sections no row references any more (refCount, see rawIngestStore.ts).
+  // storeRawIngest counts a reused section up in the statement that would
+  // recreate it, so a concurrent ingest either keeps it alive or re-inserts
+  // it; the grace period is a second line of defence.
+  const { rows: sections, bytes } = await deleteCounting(Prisma.sql`
+    DELETE FROM "RawIngestSection" s
+    WHERE s."refCount" <= 0 AND s."lastUsedAt" < ${new Date(now - HOUR_MS)}
+    RETURNING pg_column_size(s.*) AS bytes
+  `);
+  result.bytesReclaimed += bytes;
+  if (sections > 0) logger.debug({ sections }, 'Removed unreferenced RawIngest sections');
+
+  return result;
+}
+
+// ────────────────────────────────────────────────────────────
+// PositionState: archive + delete closed states
+// ────────────────────────────────────────────────────────────
+
+async function retainPositionStates(policy: RetentionPolicy, now: number): Promise<TableRetentionResult> {
+  const result = emptyResult('PositionState');
+  const cutoff = cutoffFor(policy.positionState.archiveClosedAfterDays, now);
+  if (!cutoff) return result;
+
+  const files = new Set<string>();
+  for (;;) {
+    const rows = await prisma.$queryRaw<Array<{ id: string; disappearedAt: Date; rowBytes: number }>>`
+      SELECT s.*, pg_column_size(s.*)::int AS "rowBytes",
+        (SELECT COALESCE(json_agg(l ORDER BY l."detectedAt"), '[]'::json)
+         FROM "PositionLeg" l WHERE l."positionStateId" = s.id) AS legs
+      FROM "PositionState" s
+      WHERE s.status = 'CLOSED' AND s."disappearedAt" < ${cutoff}
+      ORDER BY s."disappearedAt"
+      LIMIT ${policy.batchSize}
+    `;
+    if (rows.length === 0) break;
+
+    const written = await appendArchive(
+      policy.archiveDir,
+      'position-state',
+      rows.map(({ rowBytes: _bytes, ...row }) => ({ day: isoDay(row.disappearedAt), record: row })),
+    );
+    written.forEach((f) => files.add(f));
+
+    const { count } = await prisma.positionState.deleteMany({ where: { id: { in: rows.map((r) => r.id) } } });
+    result.archived += rows.length;
+    result.deleted += count;
+    result.bytesReclaimed += rows.reduce((sum, r) => sum + r.rowBytes, 0);
+
+    if (rows.length < policy.batchSize) break;
+  }
+  result.archiveFiles = [...files];
+
+  return result;
+}
+
+// ────────────────────────────────────────────────────────────
+// IngestIdempotencyKey: delete expired keys
+// ────────────────────────────────────────────────────────────
+
+async function purgeIdempotencyKeys(policy: RetentionPolicy, now: number): Promise<TableRetentionResult> {
+  const result = emptyResult('IngestIdempotencyKey');
+  const cutoff = new Date(now);
+
+  for (;;) {
+    const { rows, bytes } = await deleteCounting(Prisma.sql`
+      DELETE FROM "IngestIdempotencyKey" k
+      WHERE k.key IN (
+        SELECT key FROM "IngestIdempotencyKey"
+        WHERE "expiresAt" < ${cutoff}
+        LIMIT ${policy.batchSize}
+      )
+      RETURNING pg_column_size(k.*) AS bytes
+    `);
+    result.deleted += rows;
+    result.bytesReclaimed += bytes;
+    if (rows < policy.batchSize) break;
+  }
+
+  return result;
+}
+
+// ────────────────────────────────────────────────────────────
+// PriceTick: delete
+// ────────────────────────────────────────────────────────────
+
+async function retainPriceTicks(policy: RetentionPolicy, now: number): Promise<TableRetentionResult> {
+  const result = emptyResult('PriceTick');
+  const cutoff = cutoffFor(policy.priceTick.keepDays, now);
+  if (!cutoff) return result;
+
+  for (;;) {
+    const { rows, bytes } = await deleteCounting(Prisma.sql`
+      DELETE FROM "PriceTick" t
+      WHERE t.id IN (
+        SELECT id FROM "PriceTick"
+        WHERE "at" < ${cutoff}
+        LIMIT ${policy.batchSize}
+      )
+      RETURNING pg_column_size(t.*) AS bytes
+    `);
+    result.deleted += rows;
+    result.bytesReclaimed += bytes;
+    if (rows < policy.batchSize) break;
+  }
+
+  return result;
+}
+
+// ────────────────────────────────────────────────────────────
+// Kline: delete per interval
+// ────────────────────────────────────────────────────────────
+
+async function retainKlines(policy: RetentionPolicy, now: number): Promise<TableRetentionResult> {
+  const result = emptyResult('Kline');
+  const intervals: [string, number][] = [
+    ['1m', policy.kline.oneMinuteDays],
+    ['5m', policy.kline.fiveMinuteDays],
+  ];
+
+  for (const [interval, days] of intervals) {
+    const cutoff = cutoffFor(days, now);
+    if (!cutoff) continue;
+
+    for (;;) {
+      const { rows, bytes } = await deleteCounting(Prisma.sql`
+        DELETE FROM "Kline" k
+        WHERE k.id IN (
+          SELECT id FROM "Kline"
+          WHERE "interval" = ${interval} AND "openTime" < ${cutoff}
+          LIMIT ${policy.batchSize}
+        )
+        RETURNING pg_column_size(k.*) AS bytes
+      `);
+      result.deleted += rows;
+      result.bytesReclaimed += bytes;
+      if (rows < policy.batchSize) break;
+    }
+  }
+
+  return result;
+}
+
+// ────────────────────────────────────────────────────────────
+// FundingRate: delete
+// ────────────────────────────────────────────────────────────
+
+async function retainFundingRates(policy: RetentionPolicy, now: number): Promise<TableRetentionResult> {
+  const result = emptyResult('FundingRate');
+  const cutoff = cutoffFor(policy.fundingRate.keepDays, now);
+  if (!cutoff) return result;
+
+  for (;;) {
+    const { rows, bytes } = await deleteCounting(Prisma.sql`
+      DELETE FROM "FundingRate" f
+      WHERE f.id IN (
+        SELECT id FROM "FundingRate"
+        WHERE "fundingTime" < ${cutoff}
+        LIMIT ${policy.batchSize}
+      )
+      RETURNING pg_column_size(f.*) AS bytes
+    `);
+    result.deleted += rows;
+    result.bytesReclaimed += bytes;
+    if (rows < policy.batchSize) break;
+  }
+
+  return result;
+}
+
+// ────────────────────────────────────────────────────────────
+// TraderCopierSample: delete
+// ────────────────────────────────────────────────────────────
+
+async function retainCopierSamples(policy: RetentionPolicy, now: number): Promise<TableRetentionResult> {
+  const result = emptyResult('TraderCopierSample');
+  const cutoff = cutoffFor(policy.copierSample.keepDays, now);
+  if (!cutoff) return result;
+
+  for (;;) {
+    const { rows, bytes } = await deleteCounting(Prisma.sql`
+      DELETE FROM "TraderCopierSample" s
+      WHERE s.id IN (
+        SELECT id FROM "TraderCopierSample"
+        WHERE "sampledAt" < ${cutoff}
+        LIMIT ${policy.batchSize}
+      )
+      RETURNING pg_column_size(s.*) AS bytes
+    `);
+    result.deleted += rows;
+    result.bytesReclaimed += bytes;
+    if (rows < policy.batchSize) break;
+  }
+
+  return result;
+}
+
+// ────────────────────────────────────────────────────────────
+// Runs
+// ────────────────────────────────────────────────────────────
+
+let running = false;
+let timer: ReturnType<typeof setInterval> | null = null;
+
+export function retentionPolicy(): RetentionPolicy {
+  const { batchSize, archiveDir, positionSnapshot, rawIngest, positionState, priceTick, kline, fundingRate, copierSample } = config.retention;
+  return { batchSize, archiveDir, positionSnapshot, rawIngest, positionState, priceTick, kline, fundingRate, copierSample };
+}
+
+export function isRetentionRunning(): boolean {
+  return running;
+}
+
+/**
+ * Start a retention run in the background. Returns null if one is already
+ * running.
+ */
+export async function startRetention(
+  trigger: RetentionTrigger,
+  policy: RetentionPolicy = retentionPolicy(),
+) {
+  if (running) return null;
+  running = true;
+
+  try {
+    const run = await prisma.retentionRun.create({
+      data: { trigger, status: 'RUNNING', startedAt: new Date() },
+    });
+
+    executeRun(run.id, run.startedAt, policy)
+      .catch((err) => {
+        const msg = err instanceof Error ? err.message : String(err);
+        logger.error({ runId: run.id, error: msg }, 'Retention run failed');
+      })
+      .finally(() => {
+        running = false;
+      });
+
+    return run;
+  } catch (err) {
+    running = false;
+    throw err;
+  }
+}
+
+async function executeRun(runId: string, startedAt: Date, policy: RetentionPolicy): Promise<void> {
+  const now = startedAt.getTime();
+  logger.info({ runId, policy }, '🧹 Retention run starting');
+
+  const steps: [string, () => Promise<TableRetentionResult>][] = [
+    ['PositionSnapshot', () => retainPositionSnapshots(policy, now)],
+    ['RawIngest', () => retainRawIngest(policy, now)],
+    ['PositionState', () => retainPositionStates(policy, now)],
+    ['IngestIdempotencyKey', () => purgeIdempotencyKeys(policy, now)],
+    ['PriceTick', () => retainPriceTicks(policy, now)],
+    ['Kline', () => retainKlines(policy, now)],
+    ['FundingRate', () => retainFundingRates(policy, now)],
+    ['TraderCopierSample', () => retainCopierSamples(policy, now)],
+  ];
+
+  // A failing table doesn't stop the others
+  const tables: TableRetentionResult[] = [];
+  for (const [table, step] of steps) {
+    try {
+      tables.push(await step());
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      logger.warn({ runId, table, error: msg }, 'Retention step failed');
+      tables.push({ ...emptyResult(table), error: msg });
+    }
+  }
+
+  const failed = tables.filter((t) => t.error);
+  const completedAt = new Date();
+  const totals = {
+    rowsDeleted: tables.reduce((sum, t) => sum + t.deleted, 0),
+    rowsArchived: tables.reduce((sum, t) => sum + t.archived, 0),
+    bytesReclaimed: tables.reduce((sum, t) => sum + t.bytesReclaimed, 0),
+  };
+
+  await prisma.retentionRun.update({
+    where: { id: runId },
+    data: {
+      status: failed.length > 0 ? 'FAILED' : 'COMPLETED',
+      completedAt,
+      durationMs: completedAt.getTime() - now,
+      ...totals,
+      tables: tables as unknown as Prisma.InputJsonValue,
+      error: failed.length > 0 ? failed.map((t) => `${t.table}: ${t.error}`).join('; ') : null,
+    },
+  });
+
+  logger.info({ runId, ...totals, failed: failed.map((t) => t.table) }, '✅ Retention run completed');
+}
+
+/**
+ * Run retention every intervalMs (skipped while a run is in progress).
+ */
+export function startRetentionTimer(intervalMs: number): void {
+  if (timer) return;
+  timer = setInterval(() => {
+    startRetention('SCHEDULED').catch((err) => {
+      const msg = err instanceof Error ? err.message : String(err);
+      logger.warn({ error: msg }, 'Could not start scheduled retention run');
+    });
+  }, intervalMs);
+  logger.info({ intervalMs }, 'Retention timer started');
+}
+
+export function stopRetentionTimer(): void {
+  if (!timer) return;
+  clearInterval(timer);
+  timer = null;
+}
+
+// ────────────────────────────────────────────────────────────
+// Report
+// ────────────────────────────────────────────────────────────
+
+async function archiveStats(archiveDir: string) {
+  const dirs: Record<string, { files: number; bytes: number }> = {};
+  for (const dir of ['raw-ingest', 'position-state']) {
+    const stats = { files: 0, bytes: 0 };
+    try {
+      for (const name of await readdir(path.join(archiveDir, dir))) {
+        stats.files++;
+        stats.bytes += (await stat(path.join(archiveDir, dir, name))).size;
+      }
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+    }
+    dirs[dir] = stats;
+  }
+  return dirs;
+}
+
+/**
+ * Table row counts and sizes, archive files, recent runs and all-time totals.
+ */
+export async function getRetentionReport(recentRuns: number = 10) {
+  const policy = retentionPolicy();
+
+  const [counts, sizes, totals, runs, archive] = await Promise.all([
+    Promise.all(REPORT_TABLES.map((table) => REPORT_COUNTS[table]())),
+    prisma.$queryRaw<Array<{ table: string; totalBytes: number }>>`
+      SELECT relname AS "table", pg_total_relation_size(oid)::float8 AS "totalBytes"
+      FROM pg_class
+      WHERE relkind = 'r' AND relname IN (${Prisma.join([...REPORT_TABLES])})
+    `,
+    prisma.retentionRun.aggregate({
+      _count: { _all: true },
+      _sum: { rowsDeleted: true, rowsArchived: true, bytesReclaimed: true },
+    }),
+    prisma.retentionRun.findMany({ orderBy: { startedAt: 'desc' }, take: recentRuns }),
+    archiveStats(policy.archiveDir),
+  ]);
+
+  const sizeByTable = new Map(sizes.map((s) => [s.table, s.totalBytes]));
+
+  return {
+    enabled: config.retention.enabled,
+    intervalMs: config.retention.intervalMs,
+    running,
+    policy,
+    tables: REPORT_TABLES.map((table, i) => ({
+      table,
+      rows: counts[i],
+      totalBytes: sizeByTable.get(table) ?? null,
+    })),
+    archive: { dir: policy.archiveDir, ...archive },
+    totals: {
+      runs: totals._count._all,
+      rowsDeleted: totals._sum.rowsDeleted ?? 0,
+      rowsArchived: totals._sum.rowsArchived ?? 0,
+      bytesReclaimed: totals._sum.bytesReclaimed ?? 0,
+    },
+    recentRuns: runs,
+  };
+}
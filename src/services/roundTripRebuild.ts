@@ -0,0 +1,110 @@
+/**
+ * Round Trip Rebuild
+ *
+ * Background job that rebuilds the TradeRoundTrip history of every trader
+ * (or the given ones) from stored events and refreshes their TraderScore.
+ * Ingest keeps trips current on its own; run this once after deploying
+ * and after backfilling order history (POST /admin/round-trips/rebuild).
+ */
+
+import { prisma } from '../db/prisma.js';
+import { logger } from '../utils/logger.js';
+import { rebuildRoundTrips } from './tradeRoundTrip.js';
+import { updateTraderScore } from './traderScore.js';
+import { updateTraderWeight } from './traderWeight.js';
+
+// ────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────
+
+export interface RoundTripRebuildJob {
+  status: 'RUNNING' | 'COMPLETED' | 'FAILED';
+  leadIds: string[];
+  startedAt: string;
+  completedAt: string | null;
+  tradersDone: number;
+  roundTrips: number;
+  failed: { leadId: string; error: string }[];
+  error: string | null;
+}
+
+// ────────────────────────────────────────────────────────────
+// Rebuild job
+// ────────────────────────────────────────────────────────────
+
+let currentRebuild: RoundTripRebuildJob | null = null;
+
+/**
+ * Latest rebuild job (running or finished).
+ */
+export function getRoundTripRebuild(): RoundTripRebuildJob | null {
+  return currentRebuild;
+}
+
+/**
+ * Rebuild the round trips of `leadIds` (default: every trader with events)
+ * and refresh their TraderScore in the background. Returns null if a
+ * rebuild is already running.
+ */
+export async function startRoundTripRebuild(params: {
+  leadIds?: string[];
+}): Promise<RoundTripRebuildJob | null> {
+  const leadIds = params.leadIds?.length
+    ? params.leadIds
+    : (await prisma.leadTrader.findMany({ select: { id: true } })).map((t) => t.id);
+
+  // Checked after the trader lookup so nothing awaits between check and start
+  if (currentRebuild?.status === 'RUNNING') return null;
+
+  const job: RoundTripRebuildJob = {
+    status: 'RUNNING',
+    leadIds,
+    startedAt: new Date().toISOString(),
+    completedAt: null,
+    tradersDone: 0,
+    roundTrips: 0,
+    failed: [],
+    error: null,
+  };
+  currentRebuild = job;
+
+  runRebuild(job).catch((err) => {
+    job.status = 'FAILED';
+    job.error = err instanceof Error ? err.message : String(err);
+    job.completedAt = new Date().toISOString();
+    logger.error({ error: job.error }, 'Round trip rebuild failed');
+  });
+
+  return job;
+}
+
+async function runRebuild(job: RoundTripRebuildJob): Promise<void> {
+  logger.info({ traders: job.leadIds.length }, '🔁 Round trip rebuild starting');
+
+  const traders = await prisma.leadTrader.findMany({
+    where: { id: { in: job.leadIds } },
+    select: { id: true, platform: true },
+  });
+  const platformByLead = new Map(traders.map((t) => [t.id, t.platform]));
+
+  for (const leadId of job.leadIds) {
+    try {
+      const platform = platformByLead.get(leadId);
+      if (!platform) throw new Error('Unknown trader');
+      job.roundTrips += await rebuildRoundTrips(leadId, platform);
+      await updateTraderScore(leadId, platform);
+      await updateTraderWeight(leadId, platform);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      job.failed.push({ leadId, error: msg });
+    }
+    job.tradersDone++;
+  }
+
+  job.status = 'COMPLETED';
+  job.completedAt = new Date().toISOString();
+  logger.info(
+    { roundTrips: job.roundTrips, failed: job.failed.length },
+    '✅ Round trip rebuild completed',
+  );
+}
@@ -6,35 +6,85 @@
  *
  * Architecture:
  *   scheduler → binanceScraper.scrapeTraders()
- *       → for each trader:
+ *       → for each trader: ingestPlatformPayload(binanceAdapter, payload)
  *           1. upsertLeadTrader
- *           2. transformBinancePayload → insertPositionSnapshots + insertEvents
+ *           2. normalize positions/orders → insertPositionSnapshots + insertEvents
  *           3. prisma.rawIngest.create (stores full payload for dashboard)
  *           4. recomputeAggregations + updateTraderScore
+ *
+ * Order history is fetched as a delta since each trader's persisted
+ * high-water mark (see orderBackfill.ts) once the scheduler has seen a full
+ * page for that trader; the delta is merged into the cached recent orders so
+ * the stored payload keeps its "latest orders" shape.
+ *
+ * With adaptive cadence enabled the timer ticks every cadence.tickMs and each
+ * tick only scrapes traders whose own next-due time has passed (see
+ * cadencePlanner.ts); intervalMs then sets how often cadences are re-planned.
+ *
+ * Every cycle and per-trader attempt is persisted (see scrapeHistory.ts).
+ *
+ * The running instance is registered with setActiveScheduler() so the
+ * /admin/scheduler routes can pause/resume it, trigger a cycle, scrape a
+ * single trader on demand and change intervalMs / concurrency at runtime.
  */
 
-import { scrapeTraders, type BinanceScraperPayload } from './binanceScraper.js';
-import { upsertLeadTrader } from './leadTrader.js';
-import { insertPositionSnapshots } from './position.js';
-import { insertEvents } from './event.js';
-import { recomputeAggregations } from './aggregation.js';
-import { updateTraderScore } from './traderScore.js';
-import { updateTraderWeight } from './traderWeight.js';
+import {
+  scrapeTraders,
+  fetchOrderHistoryChunked,
+  REQUESTS_PER_SCRAPE,
+  type BinanceScraperPayload,
+  type RawOrder,
+} from './binanceScraper.js';
+import {
+  getOrderCursors,
+  advanceOrderCursor,
+  mergeRecentOrders,
+  ingestBackfilledOrders,
+} from './orderBackfill.js';
 import { monitorOpenPositions } from './positionMonitor.js';
-import { trackPositionStates } from './positionState.js';
-import { trackHiddenPositionStates } from './hiddenPositionState.js';
-import { transformBinancePayload, type BinanceRawPayload } from '../schemas/ingest.js';
-import { prisma } from '../db/prisma.js';
+import { binanceAdapter } from './binanceAdapter.js';
+import { ingestPlatformPayload, type IngestOptions, type IngestStats } from './platformIngest.js';
+import { getEnabledLeadIds } from './traderRoster.js';
+import {
+  loadTraderActivity,
+  maxTradersPerTick,
+  pickDueTraders,
+  planCadences,
+  type TraderCadence,
+} from './cadencePlanner.js';
+import {
+  startCycleRecord,
+  finishCycleRecord,
+  pruneScrapeHistory,
+  classifyAttempt,
+  type ScrapeAttemptRecord,
+} from './scrapeHistory.js';
+import { cycleFixtureKey, type EndpointRequester } from './scrapeFixtures.js';
 import { logger } from '../utils/logger.js';
 
 // ────────────────────────────────────────────────────────────
 // Types
 // ────────────────────────────────────────────────────────────
 
+export interface CadenceConfig {
+  /** Plan a per-trader interval from activity instead of scraping everyone every cycle */
+  enabled: boolean;
+  /** How often the scheduler wakes up to look for due traders */
+  tickMs: number;
+  /** Interval for the most active traders */
+  minIntervalMs: number;
+  /** Interval for dormant traders */
+  maxIntervalMs: number;
+  /** Global cap on Binance requests per minute */
+  requestBudgetPerMinute: number;
+}
+
 export interface SchedulerConfig {
   /** Interval between scrape cycles in milliseconds (default: 60_000) */
   intervalMs: number;
-  /** Trader portfolio IDs to scrape */
+  /** Adaptive per-trader cadence */
+  cadence: CadenceConfig;
+  /** Fallback trader list, used only until the TrackedTrader roster can be read */
   leadIds: string[];
   /** Max traders to scrape in parallel per batch (default: 5) */
   concurrency: number;
@@ -44,10 +94,22 @@ export interface SchedulerConfig {
   orderPageSize: number;
   /** Timeout per endpoint in ms (default: 15_000) */
   timeoutMs: number;
+  /** Window size for chunked order-history fetches in ms (default: 24h) */
+  orderChunkMs: number;
+  /** How far before the high-water mark delta fetches start, in ms (default: 5 min) */
+  orderOverlapMs: number;
+  /** Days of ScrapeCycle / ScrapeAttempt history to keep; 0 keeps everything (default: 14) */
+  historyRetentionDays: number;
+  /** Record every endpoint response here, keyed by cycle and leadId (null = off) */
+  recordDir: string | null;
 }
 
+/** What started a cycle: the timer, POST /admin/scheduler/run, or a single-trader scrape */
+export type CycleTrigger = 'SCHEDULED' | 'RUN_NOW' | 'MANUAL';
+
 export interface CycleResult {
   cycle: number;
+  trigger: CycleTrigger;
   startedAt: string;
   completedAt: string;
   durationMs: number;
@@ -56,100 +118,135 @@ export interface CycleResult {
   totalPositionsInserted: number;
   totalEventsInserted: number;
   totalEventsSkipped: number;
+  attempts: ScrapeAttemptRecord[];
+}
+
+export interface SchedulerSettings {
+  intervalMs?: number;
+  concurrency?: number;
 }
 
+const HISTORY_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
 // ────────────────────────────────────────────────────────────
 // Pipeline: process a single scraped trader payload
 // ────────────────────────────────────────────────────────────
 
-async function processTraderPayload(
+/**
+ * Run one scraped payload through the full ingest pipeline. Also used to
+ * replay recorded fixtures (scrapeReplay.ts).
+ */
+export async function processTraderPayload(
   payload: BinanceScraperPayload,
-): Promise<{
-  positionsInserted: number;
-  eventsInserted: number;
-  eventsSkipped: number;
-  positionStateUpdate: {
-    newPositions: number;
-    updatedPositions: number;
-    closedPositions: number;
-  };
-  hiddenPositionStateUpdate: {
-    newPositions: number;
-    closedPositions: number;
-  };
-}> {
-  const { leadId, fetchedAt } = payload;
-  const fetchedAtDate = new Date(fetchedAt);
-
-  // 1. Upsert lead trader record (FAZ 0: extract positionShow + nickname)
-  const portfolioDetail = (payload as any).portfolioDetail as Record<string, unknown> | null;
-  const positionShow = typeof portfolioDetail?.positionShow === 'boolean'
-    ? portfolioDetail.positionShow as boolean
-    : undefined;
-  const nickname = typeof portfolioDetail?.nickname === 'string'
-    ? portfolioDetail.nickname as string
-    : undefined;
-
-  await upsertLeadTrader(leadId, 'binance', { positionShow, nickname });
-
-  // 2. Transform raw Binance format → normalized format for DB storage
-  const normalized = transformBinancePayload(payload as unknown as BinanceRawPayload);
-
-  // 3. Insert position snapshots
-  const positionsInserted = await insertPositionSnapshots(
-    normalized.positions,
-    fetchedAtDate,
-  );
+  options: IngestOptions = {},
+): Promise<IngestStats> {
+  return ingestPlatformPayload(binanceAdapter, payload, options);
+}
 
-  // 3b. YOL 2: Track position states for VISIBLE traders
-  const positionStateUpdate = await trackPositionStates(
-    normalized.positions,
-    fetchedAtDate,
-    'binance'
-  );
+/** Order settings and cache the delta merge / cursor sync work with */
+export interface OrderSyncContext
+  extends Pick<SchedulerConfig, 'orderPageSize' | 'timeoutMs' | 'orderChunkMs' | 'orderOverlapMs'> {
+  /** Latest known orders per trader; presence enables delta order fetches */
+  recentOrders: Map<string, RawOrder[]>;
+}
 
-  // 4. Insert events (with deduplication)
-  const { inserted: eventsInserted, skipped: eventsSkipped } =
-    await insertEvents(normalized.events, fetchedAtDate);
+/**
+ * Ingest one scraped payload the way a cycle does: merge the order delta,
+ * run the pipeline, then advance the order cursor (filling a gap through
+ * `request`, the scrape's requester). Also used by fixture replay, which
+ * pins the pipeline clock with options.now.
+ */
+export async function ingestScrapedPayload(
+  payload: BinanceScraperPayload,
+  cursor: number | undefined,
+  ctx: OrderSyncContext,
+  request?: EndpointRequester,
+  options: IngestOptions = {},
+): Promise<{ stats: IngestStats; fetchedOrders: RawOrder[] }> {
+  const fetchedOrders = mergeOrderDelta(payload, ctx);
+  const stats = await processTraderPayload(payload, options);
+  await syncOrderCursor(payload, fetchedOrders, cursor, ctx, request);
+  return { stats, fetchedOrders };
+}
 
-  // 4b. FAZ 1+2: Track HIDDEN trader positions from orderHistory events
-  const hiddenPositionStateUpdate = await trackHiddenPositionStates(
-    leadId,
-    normalized.events,
-    fetchedAtDate,
-    'binance'
+/**
+ * In delta mode, fold the freshly fetched orders into the cached recent
+ * orders so the payload carries the full recent window again.
+ * Returns the orders that were actually fetched this cycle.
+ */
+function mergeOrderDelta(payload: BinanceScraperPayload, ctx: OrderSyncContext): RawOrder[] {
+  const fetched = payload.orderHistory.allOrders;
+  if (!payload.orderHistoryDelta) return fetched;
+
+  const merged = mergeRecentOrders(
+    fetched,
+    ctx.recentOrders.get(payload.leadId) ?? [],
+    payload.startTime,
+    ctx.orderPageSize,
   );
+  payload.orderHistory = { total: merged.length, allOrders: merged };
+  return fetched;
+}
+
+/**
+ * Advance the trader's high-water mark and refresh the recent-order cache.
+ * A full page that doesn't reach back to the mark means orders were
+ * missed (e.g. after a restart), so the gap is filled with a chunked fetch.
+ */
+async function syncOrderCursor(
+  payload: BinanceScraperPayload,
+  fetchedOrders: RawOrder[],
+  cursor: number | undefined,
+  ctx: OrderSyncContext,
+  request?: EndpointRequester,
+): Promise<void> {
+  const { leadId } = payload;
+  const delta = payload.orderHistoryDelta;
+
+  if (delta) {
+    ctx.recentOrders.set(leadId, payload.orderHistory.allOrders);
+    // A failed window may hide orders older than the newest one we got
+    if (delta.failedWindows === 0) await advanceOrderCursor(leadId, fetchedOrders);
+    return;
+  }
+
+  if (fetchedOrders.length === 0) return;
 
-  // 5. Store the COMPLETE raw payload (dashboard reads from this)
-  const positionsCount = payload.activePositions?.length || 0;
-  const ordersCount = payload.orderHistory?.allOrders?.length || 0;
+  const oldest = Math.min(...fetchedOrders.map((o) => o.orderUpdateTime));
+  const pageFull = fetchedOrders.length >= Math.min(ctx.orderPageSize, 100);
+  let gapFilled = true;
 
-  await prisma.rawIngest.create({
-    data: {
+  if (cursor !== undefined && pageFull && oldest > cursor) {
+    const gap = await fetchOrderHistoryChunked(
       leadId,
-      platform: 'binance',
-      fetchedAt: fetchedAtDate,
-      payload: payload as unknown as object,
-      positionsCount,
-      ordersCount,
-      timeRange: payload.timeRange || null,
-    },
-  });
-
-  // 6. Recompute aggregations + update trader score
-  await recomputeAggregations('binance');
-  await updateTraderScore(leadId, 'binance');
-
-  // 7. FAZ 0: Update consensus weight
-  await updateTraderWeight(leadId, 'binance');
-
-  return {
-    positionsInserted,
-    eventsInserted,
-    eventsSkipped,
-    positionStateUpdate,
-    hiddenPositionStateUpdate,
-  };
+      Math.max(cursor - ctx.orderOverlapMs, payload.startTime),
+      oldest,
+      {
+        pageSize: ctx.orderPageSize,
+        timeoutMs: ctx.timeoutMs,
+        chunkMs: ctx.orderChunkMs,
+        request,
+      },
+    );
+    const { inserted } = await ingestBackfilledOrders(
+      leadId,
+      gap.allOrders,
+      new Date(payload.fetchedAt),
+    );
+    gapFilled = gap.failedWindows === 0;
+    logger.info(
+      { leadId, orders: gap.allOrders.length, events: inserted, failedWindows: gap.failedWindows },
+      'Filled order history gap since high-water mark',
+    );
+  }
+
+  ctx.recentOrders.set(leadId, fetchedOrders);
+  if (gapFilled) await advanceOrderCursor(leadId, fetchedOrders);
+}
+
+interface ScheduledTrader extends TraderCadence {
+  nextDueAt: number;
+  lastScrapedAt: number | null;
 }
 
 // ────────────────────────────────────────────────────────────
@@ -161,9 +258,20 @@ export class BinanceScheduler {
   private timer: ReturnType<typeof setInterval> | null = null;
   private cycleCount = 0;
   private running = false;
+  /** Roster used by the latest cycle (re-read from TrackedTrader every cycle) */
+  private leadIds: string[];
+  /** Latest known orders per trader; presence enables delta order fetches */
+  private recentOrders = new Map<string, RawOrder[]>();
+  /** Per-trader cadence and next-due time (adaptive cadence only) */
+  private schedule = new Map<string, ScheduledTrader>();
+  private cadencePlan = { plannedAt: 0, plannedRequestsPerMinute: 0, budgetScale: 1 };
+  private lastHistoryPruneAt = 0;
+  private pausedAt: number | null = null;
+  private lastCycle: CycleResult | null = null;
 
   constructor(config: SchedulerConfig) {
     this.config = config;
+    this.leadIds = [...config.leadIds];
   }
 
   /**
@@ -180,11 +288,14 @@ export class BinanceScheduler {
       return;
     }
 
-    const { leadIds, intervalMs } = this.config;
+    const { intervalMs, cadence } = this.config;
+    const tickMs = this.tickMs();
     logger.info(
       {
-        traders: leadIds.length,
+        roster: 'TrackedTrader',
         intervalSec: Math.round(intervalMs / 1000),
+        adaptiveCadence: cadence.enabled,
+        tickSec: Math.round(tickMs / 1000),
         concurrency: this.config.concurrency,
       },
       '🚀 Binance scraper scheduler starting',
@@ -194,9 +305,17 @@ export class BinanceScheduler {
     this.runCycle();
 
     // Schedule subsequent cycles
+    this.startTimer();
+  }
+
+  private tickMs(): number {
+    return this.config.cadence.enabled ? this.config.cadence.tickMs : this.config.intervalMs;
+  }
+
+  private startTimer(): void {
     this.timer = setInterval(() => {
       this.runCycle();
-    }, intervalMs);
+    }, this.tickMs());
   }
 
   /**
@@ -210,22 +329,124 @@ export class BinanceScheduler {
     }
   }
 
+  // ────────────────────────────────────────────────────────────
+  // Runtime control (/admin/scheduler)
+  // ────────────────────────────────────────────────────────────
+
+  /**
+   * Stop the timer without shutting down. An in-flight cycle finishes.
+   * Returns false if the scheduler is not ticking (disabled or already paused).
+   */
+  pause(): boolean {
+    if (!this.timer) return false;
+    clearInterval(this.timer);
+    this.timer = null;
+    this.pausedAt = Date.now();
+    logger.info({ cycle: this.cycleCount }, '⏸️  Scraper scheduler paused');
+    return true;
+  }
+
+  /**
+   * Restart the timer after pause(). The next cycle runs on the next tick.
+   * Returns false if the scheduler was not paused.
+   */
+  resume(): boolean {
+    if (this.pausedAt === null || this.timer) return false;
+    this.pausedAt = null;
+    this.startTimer();
+    logger.info({ tickSec: Math.round(this.tickMs() / 1000) }, '▶️  Scraper scheduler resumed');
+    return true;
+  }
+
+  /**
+   * Start a cycle over the whole enabled roster right away, ignoring
+   * per-trader due times. Works while paused or disabled.
+   * Returns false if a cycle is already running.
+   */
+  runNow(): boolean {
+    if (this.running) return false;
+    void this.runCycle({ trigger: 'RUN_NOW' });
+    return true;
+  }
+
+  /**
+   * Scrape one trader now and push it through processTraderPayload.
+   * The trader doesn't have to be on the roster. Resolves to null if a cycle
+   * is already running.
+   */
+  async scrapeTraderNow(leadId: string): Promise<CycleResult | null> {
+    if (this.running) return null;
+    return this.runCycle({ trigger: 'MANUAL', leadIds: [leadId] });
+  }
+
+  /**
+   * Change intervalMs / concurrency. A changed interval re-arms the timer
+   * when it drives the tick (adaptive cadence off) and forces a cadence re-plan.
+   */
+  updateSettings(settings: SchedulerSettings): void {
+    const intervalChanged =
+      settings.intervalMs !== undefined && settings.intervalMs !== this.config.intervalMs;
+
+    if (settings.intervalMs !== undefined) this.config.intervalMs = settings.intervalMs;
+    if (settings.concurrency !== undefined) this.config.concurrency = settings.concurrency;
+
+    if (intervalChanged) {
+      this.cadencePlan.plannedAt = 0;
+      if (this.timer && !this.config.cadence.enabled) {
+        clearInterval(this.timer);
+        this.startTimer();
+      }
+    }
+
+    logger.info(
+      { intervalMs: this.config.intervalMs, concurrency: this.config.concurrency },
+      'Scheduler settings updated',
+    );
+  }
+
+  // ────────────────────────────────────────────────────────────
+  // Cycle
+  // ────────────────────────────────────────────────────────────
+
   /**
-   * Run a single scrape cycle for all configured traders.
+   * Run a single scrape cycle. Timer ticks scrape the due traders; RUN_NOW
+   * scrapes the whole roster and MANUAL the given leadIds.
+   * Resolves to null if another cycle is running or nothing was due.
    */
-  private async runCycle(): Promise<void> {
+  private async runCycle(
+    options: { trigger?: CycleTrigger; leadIds?: string[] } = {},
+  ): Promise<CycleResult | null> {
+    const trigger = options.trigger ?? 'SCHEDULED';
+
     if (this.running) {
-      logger.warn('Previous cycle still running, skipping this tick');
-      return;
+      logger.warn({ trigger }, 'Previous cycle still running, skipping this tick');
+      return null;
     }
 
     this.running = true;
+    let leadIds: string[];
+    if (options.leadIds) {
+      leadIds = options.leadIds;
+    } else if (trigger === 'RUN_NOW') {
+      leadIds = await this.refreshRoster();
+    } else {
+      leadIds = await this.selectDueTraders(await this.refreshRoster());
+    }
+    if (leadIds.length === 0) {
+      this.running = false;
+      return null;
+    }
+
     this.cycleCount++;
     const cycle = this.cycleCount;
-    const startedAt = new Date().toISOString();
+    const startedAtDate = new Date();
+    const startedAt = startedAtDate.toISOString();
     const t0 = performance.now();
 
-    logger.info({ cycle, traders: this.config.leadIds.length }, '🔄 Scrape cycle starting');
+    logger.info({ cycle, trigger, traders: leadIds.length }, '🔄 Scrape cycle starting');
+
+    const cycleId = await startCycleRecord(cycle, startedAtDate, leadIds.length, trigger);
+    const attempts: ScrapeAttemptRecord[] = [];
 
     let tradersProcessed = 0;
     let tradersErrored = 0;
@@ -233,32 +454,73 @@ export class BinanceScheduler {
     let totalEventsInserted = 0;
     let totalEventsSkipped = 0;
 
+    const { recordDir } = this.config;
+    const record = recordDir ? { dir: recordDir, cycleKey: cycleFixtureKey(cycle, startedAtDate) } : undefined;
+
     try {
+      const cursors = await getOrderCursors(leadIds);
+
       // Scrape all traders with concurrency control
       const results = await scrapeTraders(
-        this.config.leadIds,
+        leadIds,
         this.config.concurrency,
-        {
-          orderPageSize: this.config.orderPageSize,
-          timeoutMs: this.config.timeoutMs,
+        (leadId) => {
+          const cursor = cursors.get(leadId);
+          const useDelta = cursor !== undefined && this.recentOrders.has(leadId);
+          return {
+            orderPageSize: this.config.orderPageSize,
+            timeoutMs: this.config.timeoutMs,
+            orderChunkMs: this.config.orderChunkMs,
+            ...(useDelta && { orderSince: cursor - this.config.orderOverlapMs }),
+            ...(record && { record }),
+          };
         },
       );
 
       // Process each scraped payload through the ingest pipeline
       for (const result of results) {
+        this.markScraped(result.leadId);
+
+        const endpoints = result.endpoints ?? [];
+
         if (result.error || !result.payload) {
           tradersErrored++;
           logger.error({ leadId: result.leadId, error: result.error }, 'Trader scrape failed');
+          attempts.push({
+            leadId: result.leadId,
+            status: 'SCRAPE_FAILED',
+            endpoints,
+            error: result.error ?? 'No payload',
+            latencyMs: result.latencyMs,
+          });
           continue;
         }
 
+        const positionsCount = result.payload.activePositions?.length ?? 0;
+
         try {
-          const stats = await processTraderPayload(result.payload);
+          const { stats, fetchedOrders } = await ingestScrapedPayload(
+            result.payload,
+            cursors.get(result.leadId),
+            { ...this.config, recentOrders: this.recentOrders },
+            result.request,
+          );
           tradersProcessed++;
           totalPositionsInserted += stats.positionsInserted;
           totalEventsInserted += stats.eventsInserted;
           totalEventsSkipped += stats.eventsSkipped;
 
+          attempts.push({
+            leadId: result.leadId,
+            status: classifyAttempt(endpoints),
+            endpoints,
+            latencyMs: result.latencyMs,
+            positionsCount,
+            ordersCount: fetchedOrders.length,
+            eventsInserted: stats.eventsInserted,
+            eventsSkipped: stats.eventsSkipped,
+          });
+
           logger.debug(
             {
               leadId: result.leadId,
@@ -271,6 +533,14 @@ export class BinanceScheduler {
           tradersErrored++;
           const msg = err instanceof Error ? err.message : String(err);
           logger.error({ leadId: result.leadId, error: msg }, 'Pipeline processing failed');
+          attempts.push({
+            leadId: result.leadId,
+            status: 'PIPELINE_FAILED',
+            endpoints,
+            error: msg,
+            latencyMs: result.latencyMs,
+            positionsCount,
+          });
         }
       }
     } catch (err) {
@@ -295,24 +565,47 @@ export class BinanceScheduler {
       logger.error({ cycle, error: msg }, 'Position monitoring failed');
     }
 
+    const durationMs = Math.round(performance.now() - t0);
+    const completedAt = new Date();
+
+    if (cycleId) {
+      await finishCycleRecord(
+        cycleId,
+        {
+          completedAt,
+          durationMs,
+          tradersProcessed,
+          tradersErrored,
+          positionsInserted: totalPositionsInserted,
+          eventsInserted: totalEventsInserted,
+          eventsSkipped: totalEventsSkipped,
+        },
+        attempts,
+      );
+    }
+    await this.pruneHistory();
+
     this.running = false;
 
-    const durationMs = Math.round(performance.now() - t0);
     const cycleResult: CycleResult = {
       cycle,
+      trigger,
       startedAt,
-      completedAt: new Date().toISOString(),
+      completedAt: completedAt.toISOString(),
       durationMs,
       tradersProcessed,
       tradersErrored,
       totalPositionsInserted,
       totalEventsInserted,
       totalEventsSkipped,
+      attempts,
     };
+    this.lastCycle = cycleResult;
 
     logger.info(
       {
         cycle: cycleResult.cycle,
+        trigger,
         duration: `${(durationMs / 1000).toFixed(1)}s`,
         processed: tradersProcessed,
         errored: tradersErrored,
@@ -321,17 +614,190 @@ export class BinanceScheduler {
       },
       `✅ Scrape cycle #${cycle} completed`,
     );
+
+    return cycleResult;
+  }
+
+  /**
+   * Apply the scrape-history retention setting, at most once an hour.
+   */
+  private async pruneHistory(): Promise<void> {
+    const now = Date.now();
+    if (now - this.lastHistoryPruneAt < HISTORY_PRUNE_INTERVAL_MS) return;
+    this.lastHistoryPruneAt = now;
+
+    try {
+      await pruneScrapeHistory(this.config.historyRetentionDays);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      logger.warn({ error: msg }, 'Scrape history pruning failed');
+    }
+  }
+
+  /**
+   * Re-read the enabled roster. Keeps the previous roster if the DB read fails
+   * so a transient DB error doesn't empty a cycle.
+   */
+  private async refreshRoster(): Promise<string[]> {
+    try {
+      this.leadIds = await getEnabledLeadIds('binance');
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      logger.warn({ error: msg, traders: this.leadIds.length }, 'Roster reload failed, using previous roster');
+    }
+    return this.leadIds;
+  }
+
+  /**
+   * Pick the traders to scrape this tick. Without adaptive cadence that's the
+   * whole roster; otherwise only traders whose next-due time has passed, most
+   * overdue first, capped at this tick's share of the request budget.
+   */
+  private async selectDueTraders(roster: string[]): Promise<string[]> {
+    const { cadence, intervalMs } = this.config;
+    if (!cadence.enabled) return roster;
+
+    const now = Date.now();
+    const hasUnplanned = roster.some((leadId) => !this.schedule.has(leadId));
+    if (hasUnplanned || now - this.cadencePlan.plannedAt >= intervalMs) {
+      await this.replanCadences(roster);
+    }
+
+    const maxPerTick = maxTradersPerTick(cadence.requestBudgetPerMinute, cadence.tickMs, REQUESTS_PER_SCRAPE);
+    const scheduled = roster
+      .map((leadId) => this.schedule.get(leadId))
+      .filter((s): s is ScheduledTrader => s !== undefined);
+    return pickDueTraders(scheduled, now, maxPerTick);
+  }
+
+  /**
+   * Re-score roster activity and assign each trader a new interval. Next-due
+   * times are re-anchored on the last scrape; unseen traders are due now.
+   */
+  private async replanCadences(roster: string[]): Promise<void> {
+    const { cadence } = this.config;
+    const now = Date.now();
+
+    try {
+      const activity = await loadTraderActivity(roster, 'binance');
+      const plan = planCadences(activity, {
+        minIntervalMs: cadence.minIntervalMs,
+        maxIntervalMs: cadence.maxIntervalMs,
+        requestBudgetPerMinute: cadence.requestBudgetPerMinute,
+        requestsPerScrape: REQUESTS_PER_SCRAPE,
+      });
+
+      const next = new Map<string, ScheduledTrader>();
+      for (const [leadId, planned] of plan.cadences) {
+        const lastScrapedAt = this.schedule.get(leadId)?.lastScrapedAt ?? null;
+        next.set(leadId, {
+          ...planned,
+          lastScrapedAt,
+          nextDueAt: lastScrapedAt === null ? now : lastScrapedAt + planned.intervalMs,
+        });
+      }
+      this.schedule = next;
+      this.cadencePlan = {
+        plannedAt: now,
+        plannedRequestsPerMinute: plan.plannedRequestsPerMinute,
+        budgetScale: plan.budgetScale,
+      };
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      logger.warn({ error: msg }, 'Cadence planning failed, keeping previous cadences');
+
+      // New traders still need a slot; give them the base interval
+      for (const leadId of roster) {
+        if (this.schedule.has(leadId)) continue;
+        this.schedule.set(leadId, {
+          leadId,
+          score: 0,
+          intervalMs: this.config.intervalMs,
+          activity: { leadId, eventsPerHour: 0, openPositions: 0, consensusSymbols: 0 },
+          lastScrapedAt: null,
+          nextDueAt: now,
+        });
+      }
+      this.cadencePlan.plannedAt = now;
+    }
+  }
+
+  /** Record a scrape attempt and push the trader's next-due time out */
+  private markScraped(leadId: string): void {
+    const entry = this.schedule.get(leadId);
+    if (!entry) return;
+    const now = Date.now();
+    entry.lastScrapedAt = now;
+    entry.nextDueAt = now + entry.intervalMs;
   }
 
   /** Get current status */
   getStatus() {
+    const last = this.lastCycle;
     return {
       enabled: this.config.enabled,
       running: this.running,
+      paused: this.pausedAt !== null,
+      pausedAt: this.pausedAt === null ? null : new Date(this.pausedAt).toISOString(),
       cycleCount: this.cycleCount,
-      traderCount: this.config.leadIds.length,
+      lastCycle: last && {
+        cycle: last.cycle,
+        trigger: last.trigger,
+        startedAt: last.startedAt,
+        completedAt: last.completedAt,
+        durationMs: last.durationMs,
+        tradersProcessed: last.tradersProcessed,
+        tradersErrored: last.tradersErrored,
+      },
+      traderCount: this.leadIds.length,
       intervalMs: this.config.intervalMs,
       concurrency: this.config.concurrency,
+      cadence: this.getCadenceStatus(),
+    };
+  }
+
+  private getCadenceStatus() {
+    const { cadence } = this.config;
+    if (!cadence.enabled) return { enabled: false as const };
+
+    const toIso = (ms: number | null) => (ms === null ? null : new Date(ms).toISOString());
+    return {
+      enabled: true as const,
+      tickMs: cadence.tickMs,
+      minIntervalMs: cadence.minIntervalMs,
+      maxIntervalMs: cadence.maxIntervalMs,
+      requestBudgetPerMinute: cadence.requestBudgetPerMinute,
+      plannedRequestsPerMinute: this.cadencePlan.plannedRequestsPerMinute,
+      budgetScale: this.cadencePlan.budgetScale,
+      plannedAt: toIso(this.cadencePlan.plannedAt || null),
+      traders: [...this.schedule.values()]
+        .sort((a, b) => a.intervalMs - b.intervalMs)
+        .map((s) => ({
+          leadId: s.leadId,
+          score: s.score,
+          intervalMs: s.intervalMs,
+          nextDueAt: toIso(s.nextDueAt),
+          lastScrapedAt: toIso(s.lastScrapedAt),
+          activity: {
+            eventsPerHour: s.activity.eventsPerHour,
+            openPositions: s.activity.openPositions,
+            consensusSymbols: s.activity.consensusSymbols,
+          },
+        })),
     };
   }
 }
+
+// ────────────────────────────────────────────────────────────
+// Active instance (for /admin/scheduler)
+// ────────────────────────────────────────────────────────────
+
+let activeScheduler: BinanceScheduler | null = null;
+
+export function setActiveScheduler(scheduler: BinanceScheduler | null): void {
+  activeScheduler = scheduler;
+}
+
+export function getActiveScheduler(): BinanceScheduler | null {
+  return activeScheduler;
+}
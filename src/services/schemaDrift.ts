@@ -0,0 +1,310 @@
+/**
+ * Payload Schema Drift
+ *
+ * Checks raw platform payloads against the versioned field spec in
+ * schemas/payloadSpec.ts and records every difference in SchemaDriftEvent:
+ *   - NEW_FIELD:     a field the spec doesn't know
+ *   - MISSING_FIELD: a required field absent from the section (from every
+ *                    checked row, for array sections)
+ *   - TYPE_CHANGE:   a non-null value of a type the spec doesn't accept
+ * One row per (platform, spec version, section, field, kind) keeps
+ * firstSeenAt / lastSeenAt and an occurrence count, so a Binance API change
+ * shows up as a new row the first time a payload carries it.
+ *
+ * Sections that are null or empty (failed endpoint, no open positions) are
+ * skipped. Writes for the same drift are throttled to one per
+ * config.schemaDrift.writeIntervalMs; occurrences in between are added to
+ * the next write, so counts are approximate across restarts.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db/prisma.js';
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+import {
+  getPayloadSpec,
+  type JsonType,
+  type PayloadSpec,
+  type PayloadSpecSection,
+} from '../schemas/payloadSpec.js';
+
+// ────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────
+
+export type DriftKind = 'NEW_FIELD' | 'MISSING_FIELD' | 'TYPE_CHANGE';
+
+export interface DriftFinding {
+  section: string;
+  endpoint: string;
+  field: string;
+  kind: DriftKind;
+  expectedType: string | null;
+  observedType: string | null;
+  /** Example value (truncated), null for MISSING_FIELD */
+  sample: unknown;
+}
+
+export interface SchemaDriftFilters {
+  platform?: string;
+  kind?: DriftKind;
+  endpoint?: string;
+  /** Only events seen within the last sinceHours */
+  sinceHours?: number;
+  /** Include events recorded against older spec versions */
+  allVersions?: boolean;
+  limit?: number;
+}
+
+interface FieldRule {
+  types: JsonType[];
+  optional: boolean;
+}
+
+const MAX_SAMPLE_CHARS = 300;
+
+// ────────────────────────────────────────────────────────────
+// Detection
+// ────────────────────────────────────────────────────────────
+
+function parseRule(rule: string): FieldRule {
+  const optional = rule.endsWith('?');
+  const types = (optional ? rule.slice(0, -1) : rule).split('|') as JsonType[];
+  return { types, optional };
+}
+
+function jsonTypeOf(value: unknown): JsonType | null {
+  if (value === null || value === undefined) return null;
+  if (Array.isArray(value)) return 'array';
+  const type = typeof value;
+  return type === 'string' || type === 'number' || type === 'boolean' ? type : 'object';
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return jsonTypeOf(value) === 'object';
+}
+
+/**
+ * Objects a section path points at: one object for 'a.b', every object
+ * element for 'a.b[]', the payload itself for ''. Empty when the section is
+ * null / absent / empty.
+ */
+function resolveSection(payload: Record<string, unknown>, path: string, maxRows: number): Record<string, unknown>[] {
+  if (path === '') return [payload];
+
+  const isRows = path.endsWith('[]');
+  let value: unknown = payload;
+  for (const key of (isRows ? path.slice(0, -2) : path).split('.')) {
+    value = isRecord(value) ? value[key] : undefined;
+  }
+
+  if (!isRows) return isRecord(value) ? [value] : [];
+  return Array.isArray(value) ? value.slice(0, maxRows).filter(isRecord) : [];
+}
+
+function sampleOf(value: unknown): unknown {
+  const json = JSON.stringify(value);
+  if (json === undefined) return null;
+  return json.length <= MAX_SAMPLE_CHARS ? value : `${json.slice(0, MAX_SAMPLE_CHARS)}…`;
+}
+
+function checkSection(
+  name: string,
+  section: PayloadSpecSection,
+  rows: Record<string, unknown>[],
+): DriftFinding[] {
+  const findings: DriftFinding[] = [];
+  const base = { section: name, endpoint: section.endpoint };
+
+  for (const [field, ruleText] of Object.entries(section.fields)) {
+    const rule = parseRule(ruleText);
+    const present = rows.filter((row) => field in row);
+
+    if (present.length === 0) {
+      if (!rule.optional) {
+        findings.push({ ...base, field, kind: 'MISSING_FIELD', expectedType: ruleText, observedType: null, sample: null });
+      }
+      continue;
+    }
+
+    for (const row of present) {
+      const observed = jsonTypeOf(row[field]);
+      if (observed !== null && !rule.types.includes(observed)) {
+        findings.push({
+          ...base,
+          field,
+          kind: 'TYPE_CHANGE',
+          expectedType: ruleText,
+          observedType: observed,
+          sample: sampleOf(row[field]),
+        });
+        break;
+      }
+    }
+  }
+
+  const seen = new Set<string>();
+  for (const row of rows) {
+    for (const [field, value] of Object.entries(row)) {
+      if (field in section.fields || seen.has(field)) continue;
+      seen.add(field);
+      findings.push({
+        ...base,
+        field,
+        kind: 'NEW_FIELD',
+        expectedType: null,
+        observedType: jsonTypeOf(value),
+        sample: sampleOf(value),
+      });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Compare one payload against a spec. Pure; nothing is recorded.
+ */
+export function detectDrift(
+  spec: PayloadSpec,
+  payload: Record<string, unknown>,
+  maxRows: number = config.schemaDrift.maxRowsChecked,
+): DriftFinding[] {
+  return Object.entries(spec.sections).flatMap(([name, section]) => {
+    const rows = resolveSection(payload, section.path, maxRows);
+    return rows.length > 0 ? checkSection(name, section, rows) : [];
+  });
+}
+
+// ────────────────────────────────────────────────────────────
+// Recording
+// ────────────────────────────────────────────────────────────
+
+/** Per drift key: occurrences not yet written, and when it was last written */
+const writeState = new Map<string, { pending: number; lastWrittenAt: number }>();
+
+async function recordFinding(
+  platform: string,
+  specVersion: number,
+  finding: DriftFinding,
+  leadId: string | null,
+  now: Date,
+): Promise<void> {
+  const stateKey = [platform, specVersion, finding.section, finding.field, finding.kind].join('|');
+  const state = writeState.get(stateKey);
+
+  if (state && now.getTime() - state.lastWrittenAt < config.schemaDrift.writeIntervalMs) {
+    state.pending++;
+    return;
+  }
+  if (!state) {
+    logger.warn(
+      { platform, specVersion, section: finding.section, field: finding.field, kind: finding.kind, leadId },
+      'Payload schema drift detected',
+    );
+  }
+
+  const occurrences = 1 + (state?.pending ?? 0);
+  const observed = {
+    observedType: finding.observedType,
+    sample: finding.sample === null ? Prisma.DbNull : (finding.sample as Prisma.InputJsonValue),
+    lastSeenAt: now,
+    lastLeadId: leadId,
+  };
+
+  await prisma.schemaDriftEvent.upsert({
+    where: {
+      platform_specVersion_section_field_kind: {
+        platform,
+        specVersion,
+        section: finding.section,
+        field: finding.field,
+        kind: finding.kind,
+      },
+    },
+    create: {
+      platform,
+      specVersion,
+      section: finding.section,
+      endpoint: finding.endpoint,
+      field: finding.field,
+      kind: finding.kind,
+      expectedType: finding.expectedType,
+      occurrences,
+      firstSeenAt: now,
+      ...observed,
+    },
+    update: {
+      occurrences: { increment: occurrences },
+      ...observed,
+    },
+  });
+  writeState.set(stateKey, { pending: 0, lastWrittenAt: now.getTime() });
+}
+
+/**
+ * Check a raw payload and record any drift. Platforms without a spec and
+ * non-object payloads are skipped. Never throws: drift tracking must not
+ * fail an ingest.
+ */
+export async function checkPayloadDrift(
+  platform: string,
+  payload: unknown,
+  leadId: string | null = null,
+): Promise<DriftFinding[]> {
+  const spec = getPayloadSpec(platform);
+  if (!config.schemaDrift.enabled || !spec || !isRecord(payload)) return [];
+
+  try {
+    const findings = detectDrift(spec, payload);
+    const now = new Date();
+    for (const finding of findings) {
+      await recordFinding(platform, spec.version, finding, leadId, now);
+    }
+    return findings;
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    logger.warn({ platform, leadId, error: msg }, 'Schema drift check failed');
+    return [];
+  }
+}
+
+// ────────────────────────────────────────────────────────────
+// Read
+// ────────────────────────────────────────────────────────────
+
+/**
+ * Recorded drift, most recently seen first, with per-kind counts.
+ */
+export async function listSchemaDrift(filters: SchemaDriftFilters = {}) {
+  const platform = filters.platform ?? 'binance';
+  const spec = getPayloadSpec(platform);
+
+  const where: Prisma.SchemaDriftEventWhereInput = {
+    platform,
+    ...(filters.kind && { kind: filters.kind }),
+    ...(filters.endpoint && { endpoint: filters.endpoint }),
+    ...(filters.sinceHours && { lastSeenAt: { gte: new Date(Date.now() - filters.sinceHours * 60 * 60 * 1000) } }),
+    ...(!filters.allVersions && spec && { specVersion: spec.version }),
+  };
+
+  const [events, byKind] = await Promise.all([
+    prisma.schemaDriftEvent.findMany({
+      where,
+      orderBy: { lastSeenAt: 'desc' },
+      take: filters.limit ?? 100,
+    }),
+    prisma.schemaDriftEvent.groupBy({
+      by: ['kind'],
+      where,
+      _count: { _all: true },
+    }),
+  ]);
+
+  return {
+    platform,
+    specVersion: spec?.version ?? null,
+    counts: Object.fromEntries(byKind.map((k) => [k.kind, k._count._all])),
+    events,
+  };
+}
@@ -0,0 +1,214 @@
+/**
+ * Scrape Fixtures (record & replay)
+ *
+ * Recorder mode (SCRAPER_RECORD_DIR) writes every Binance endpoint response
+ * the scraper receives to disk, keyed by cycle and leadId:
+ *
+ *   <dir>/<cycleKey>/<leadId>/meta.json            clock + scraper options
+ *   <dir>/<cycleKey>/<leadId>/<endpoint>.<seq>.json one file per request
+ *
+ * <seq> counts requests per endpoint within one trader scrape (chunked order
+ * history and the scheduler's order gap fill after it make several
+ * orderHistory requests, always in the same order for the same responses).
+ * Replay serves those files back in the same sequence, with the clock pinned
+ * to the recorded fetch time, so a scrape can be fed through the ingest
+ * pipeline offline and deterministically (see scrapeReplay.ts).
+ */
+
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fetchEndpointJson, type FetchResult, type ScraperEndpoint } from './resilientFetch.js';
+import { logger } from '../utils/logger.js';
+
+// ────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────
+
+/** Signature shared by fetchEndpointJson, the recorder and the replay source */
+export type EndpointRequester = <T = unknown>(
+  endpoint: ScraperEndpoint,
+  url: string,
+  options?: RequestInit,
+  timeoutMs?: number,
+) => Promise<FetchResult<T>>;
+
+/** Where the recorder writes one trader scrape */
+export interface FixtureTarget {
+  dir: string;
+  cycleKey: string;
+}
+
+export interface FixtureMeta {
+  leadId: string;
+  cycleKey: string;
+  /** Clock value (epoch ms) the scrape ran with */
+  now: number;
+  recordedAt: string;
+  options: {
+    timeRange: string;
+    orderPageSize: number;
+    timeoutMs: number;
+    orderSince?: number;
+    orderChunkMs?: number;
+  };
+}
+
+export interface RecordedResponse {
+  endpoint: ScraperEndpoint;
+  seq: number;
+  url: string;
+  method: string;
+  body: unknown;
+  result: FetchResult<unknown>;
+}
+
+export interface TraderFixture {
+  meta: FixtureMeta;
+  responses: RecordedResponse[];
+}
+
+// ────────────────────────────────────────────────────────────
+// Keys & paths
+// ────────────────────────────────────────────────────────────
+
+/**
+ * Directory name for a cycle: sortable start time plus the in-process cycle
+ * number (which restarts at 1 with every process).
+ */
+export function cycleFixtureKey(cycle: number, startedAt: Date): string {
+  const stamp = startedAt.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}Z$/, 'Z');
+  return `${stamp}-c${String(cycle).padStart(6, '0')}`;
+}
+
+function traderDir(target: FixtureTarget, leadId: string): string {
+  return path.join(target.dir, target.cycleKey, leadId);
+}
+
+// ────────────────────────────────────────────────────────────
+// Recorder
+// ────────────────────────────────────────────────────────────
+
+/**
+ * Wrap fetchEndpointJson so each response is also written to the fixture dir.
+ * Write failures are logged and never fail the scrape.
+ */
+export function createRecorder(
+  target: FixtureTarget,
+  leadId: string,
+  meta: Omit<FixtureMeta, 'leadId' | 'cycleKey' | 'recordedAt'>,
+): EndpointRequester {
+  const dir = traderDir(target, leadId);
+  const seqs = new Map<ScraperEndpoint, number>();
+
+  const ready = mkdir(dir, { recursive: true })
+    .then(() => writeJson(path.join(dir, 'meta.json'), {
+      leadId,
+      cycleKey: target.cycleKey,
+      recordedAt: new Date().toISOString(),
+      ...meta,
+    } satisfies FixtureMeta))
+    .then(() => true)
+    .catch((err) => {
+      logger.warn({ leadId, dir, error: errorMessage(err) }, 'Fixture recorder could not write meta');
+      return false;
+    });
+
+  return async <T = unknown>(
+    endpoint: ScraperEndpoint,
+    url: string,
+    options: RequestInit = {},
+    timeoutMs?: number,
+  ): Promise<FetchResult<T>> => {
+    const seq = seqs.get(endpoint) ?? 0;
+    seqs.set(endpoint, seq + 1);
+
+    const result = await fetchEndpointJson<T>(endpoint, url, options, timeoutMs);
+
+    if (await ready) {
+      const recorded: RecordedResponse = {
+        endpoint,
+        seq,
+        url,
+        method: options.method ?? 'GET',
+        body: typeof options.body === 'string' ? JSON.parse(options.body) : null,
+        result,
+      };
+      await writeJson(path.join(dir, `${endpoint}.${seq}.json`), recorded).catch((err) => {
+        logger.warn({ leadId, endpoint, seq, error: errorMessage(err) }, 'Fixture recorder write failed');
+      });
+    }
+
+    return result;
+  };
+}
+
+// ────────────────────────────────────────────────────────────
+// Replay
+// ────────────────────────────────────────────────────────────
+
+/**
+ * Serve recorded responses in recorded order. A request with no recording
+ * left fails like a permanent error instead of reaching Binance.
+ */
+export function createReplayRequester(fixture: TraderFixture): EndpointRequester {
+  const byKey = new Map(fixture.responses.map((r) => [`${r.endpoint}.${r.seq}`, r]));
+  const seqs = new Map<ScraperEndpoint, number>();
+
+  return async <T = unknown>(endpoint: ScraperEndpoint): Promise<FetchResult<T>> => {
+    const seq = seqs.get(endpoint) ?? 0;
+    seqs.set(endpoint, seq + 1);
+
+    const recorded = byKey.get(`${endpoint}.${seq}`);
+    if (!recorded) {
+      return {
+        success: false,
+        data: null,
+        error: `No recorded response for ${endpoint}.${seq}`,
+        attempts: 0,
+        latencyMs: 0,
+      };
+    }
+    return recorded.result as FetchResult<T>;
+  };
+}
+
+export async function loadTraderFixture(
+  target: FixtureTarget,
+  leadId: string,
+): Promise<TraderFixture> {
+  const dir = traderDir(target, leadId);
+  const files = await readdir(dir);
+  const meta = JSON.parse(await readFile(path.join(dir, 'meta.json'), 'utf8')) as FixtureMeta;
+
+  const responses: RecordedResponse[] = [];
+  for (const file of files) {
+    if (file === 'meta.json' || !file.endsWith('.json')) continue;
+    responses.push(JSON.parse(await readFile(path.join(dir, file), 'utf8')) as RecordedResponse);
+  }
+
+  return { meta, responses };
+}
+
+/** Recorded cycle keys, oldest first */
+export async function listFixtureCycles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  return entries.filter((e) => e.isDirectory()).map((e) => e.name).sort();
+}
+
+/** Traders recorded in a cycle */
+export async function listFixtureTraders(target: FixtureTarget): Promise<string[]> {
+  const entries = await readdir(path.join(target.dir, target.cycleKey), { withFileTypes: true });
+  return entries.filter((e) => e.isDirectory()).map((e) => e.name).sort();
+}
+
+// ────────────────────────────────────────────────────────────
+// Helpers
+// ────────────────────────────────────────────────────────────
+
+async function writeJson(file: string, value: unknown): Promise<void> {
+  await writeFile(file, JSON.stringify(value, null, 2));
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
@@ -0,0 +1,199 @@
+/**
+ * Scrape History Service
+ *
+ * Persists every scheduler cycle (ScrapeCycle) and every trader attempt in it
+ * (ScrapeAttempt) with per-endpoint outcome, error, latency and ingest counts,
+ * so failures and stale traders can be diagnosed after the fact via
+ * /admin/scheduler/*.
+ *
+ * Recording is best-effort: a failed write is logged and never breaks the
+ * scrape cycle. Rows older than config.scraper.historyRetentionDays are pruned
+ * by the scheduler.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db/prisma.js';
+import { logger } from '../utils/logger.js';
+import type { EndpointOutcome } from './binanceScraper.js';
+import type { CycleTrigger } from './scheduler.js';
+
+// ────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────
+
+export type ScrapeAttemptStatus = 'SUCCESS' | 'PARTIAL' | 'SCRAPE_FAILED' | 'PIPELINE_FAILED';
+
+export interface ScrapeAttemptRecord {
+  leadId: string;
+  status: ScrapeAttemptStatus;
+  endpoints: EndpointOutcome[];
+  error?: string | null;
+  latencyMs?: number | null;
+  positionsCount?: number | null;
+  ordersCount?: number | null;
+  eventsInserted?: number | null;
+  eventsSkipped?: number | null;
+}
+
+export interface ScrapeCycleTotals {
+  completedAt: Date;
+  durationMs: number;
+  tradersProcessed: number;
+  tradersErrored: number;
+  positionsInserted: number;
+  eventsInserted: number;
+  eventsSkipped: number;
+}
+
+// ────────────────────────────────────────────────────────────
+// Recording
+// ────────────────────────────────────────────────────────────
+
+/**
+ * Classify an attempt from its endpoint outcomes: SUCCESS when every endpoint
+ * answered, PARTIAL when some failed but a payload was still ingested.
+ */
+export function classifyAttempt(endpoints: EndpointOutcome[]): ScrapeAttemptStatus {
+  return endpoints.every((e) => e.success) ? 'SUCCESS' : 'PARTIAL';
+}
+
+/**
+ * Create the cycle row at cycle start. Returns null if the write failed.
+ */
+export async function startCycleRecord(
+  cycle: number,
+  startedAt: Date,
+  tradersScheduled: number,
+  trigger: CycleTrigger = 'SCHEDULED',
+  platform: string = 'binance',
+): Promise<string | null> {
+  try {
+    const row = await prisma.scrapeCycle.create({
+      data: { cycle, trigger, platform, startedAt, tradersScheduled },
+      select: { id: true },
+    });
+    return row.id;
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    logger.warn({ cycle, error: msg }, 'Failed to record scrape cycle start');
+    return null;
+  }
+}
+
+/**
+ * Store cycle totals and all trader attempts for the cycle.
+ */
+export async function finishCycleRecord(
+  cycleId: string,
+  totals: ScrapeCycleTotals,
+  attempts: ScrapeAttemptRecord[],
+  platform: string = 'binance',
+): Promise<void> {
+  try {
+    await prisma.$transaction([
+      prisma.scrapeCycle.update({ where: { id: cycleId }, data: totals }),
+      prisma.scrapeAttempt.createMany({
+        data: attempts.map((a) => ({
+          cycleId,
+          leadId: a.leadId,
+          platform,
+          status: a.status,
+          endpoints: a.endpoints as unknown as Prisma.InputJsonValue,
+          failedEndpoints: a.endpoints.filter((e) => !e.success).map((e) => e.endpoint),
+          error: a.error ?? null,
+          latencyMs: a.latencyMs ?? null,
+          positionsCount: a.positionsCount ?? null,
+          ordersCount: a.ordersCount ?? null,
+          eventsInserted: a.eventsInserted ?? null,
+          eventsSkipped: a.eventsSkipped ?? null,
+        })),
+      }),
+    ]);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    logger.warn({ cycleId, attempts: attempts.length, error: msg }, 'Failed to record scrape cycle');
+  }
+}
+
+/**
+ * Delete cycles (and their attempts, via cascade) older than retentionDays.
+ * retentionDays <= 0 keeps everything.
+ */
+export async function pruneScrapeHistory(retentionDays: number): Promise<number> {
+  if (retentionDays <= 0) return 0;
+
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  const { count } = await prisma.scrapeCycle.deleteMany({
+    where: { startedAt: { lt: cutoff } },
+  });
+
+  if (count > 0) {
+    logger.info({ deleted: count, retentionDays }, 'Pruned scrape history');
+  }
+  return count;
+}
+
+// ────────────────────────────────────────────────────────────
+// Queries
+// ────────────────────────────────────────────────────────────
+
+/**
+ * Most recent cycles first, optionally with their attempts.
+ */
+export async function listScrapeCycles(options: {
+  limit: number;
+  offset: number;
+  includeAttempts: boolean;
+  platform?: string;
+}) {
+  const where = { platform: options.platform ?? 'binance' };
+
+  const [cycles, total] = await Promise.all([
+    prisma.scrapeCycle.findMany({
+      where,
+      orderBy: { startedAt: 'desc' },
+      take: options.limit,
+      skip: options.offset,
+      include: options.includeAttempts
+        ? { attempts: { orderBy: { leadId: 'asc' } } }
+        : { _count: { select: { attempts: true } } },
+    }),
+    prisma.scrapeCycle.count({ where }),
+  ]);
+
+  return { cycles, total };
+}
+
+/**
+ * A trader's attempts, newest first, plus when it last produced fresh data.
+ */
+export async function listTraderAttempts(
+  leadId: string,
+  options: { limit: number; status?: ScrapeAttemptStatus },
+) {
+  const [attempts, lastSuccess, lastFailure] = await Promise.all([
+    prisma.scrapeAttempt.findMany({
+      where: { leadId, ...(options.status && { status: options.status }) },
+      orderBy: { createdAt: 'desc' },
+      take: options.limit,
+      include: { cycle: { select: { cycle: true, trigger: true, startedAt: true } } },
+    }),
+    prisma.scrapeAttempt.findFirst({
+      where: { leadId, status: { in: ['SUCCESS', 'PARTIAL'] } },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true },
+    }),
+    prisma.scrapeAttempt.findFirst({
+      where: { leadId, status: { in: ['SCRAPE_FAILED', 'PIPELINE_FAILED'] } },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true, error: true },
+    }),
+  ]);
+
+  return {
+    attempts,
+    lastSuccessAt: lastSuccess?.createdAt ?? null,
+    lastFailureAt: lastFailure?.createdAt ?? null,
+    lastError: lastFailure?.error ?? null,
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * Scrape Replay
+ *
+ * Feeds recorded scraper fixtures (see scrapeFixtures.ts) through the
+ * scheduler's ingest path (ingestScrapedPayload) offline. Each trader scrape
+ * is rebuilt from its recorded responses with the clock pinned to the
+ * recorded fetch time, for the scraper and the ingest pipeline alike
+ * (liquidation re-checks, score and metric lookbacks), so the same fixtures
+ * always produce the same payload and results — a position-state or
+ * hidden-state bug seen live can be reproduced against a scratch database.
+ *
+ * Order deltas are merged into a recent-order cache carried across the
+ * replayed cycles, and a recorded order gap fill is served from the fixture
+ * like the rest of the scrape.
+ *
+ * Replay writes to whatever DATABASE_URL points at; never run it against
+ * production data.
+ */
+
+import { config } from '../config.js';
+import { scrapeTraderDetailed, type EndpointOutcome, type RawOrder } from './binanceScraper.js';
+import { getOrderCursors } from './orderBackfill.js';
+import { ingestScrapedPayload } from './scheduler.js';
+import type { IngestStats } from './platformIngest.js';
+import {
+  listFixtureCycles,
+  listFixtureTraders,
+  loadTraderFixture,
+  type FixtureTarget,
+} from './scrapeFixtures.js';
+import { logger } from '../utils/logger.js';
+
+// ────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────
+
+export interface ReplayOptions {
+  /** Only replay these traders (default: every trader recorded in the cycle) */
+  leadIds?: string[];
+  /** Override the clock; defaults to each fixture's recorded time */
+  now?: (recordedNow: number) => number;
+  /** Recent orders per trader carried between replayed scrapes (default: a new cache per call) */
+  recentOrders?: Map<string, RawOrder[]>;
+}
+
+export interface TraderReplayResult {
+  cycleKey: string;
+  leadId: string;
+  fetchedAt: string;
+  endpoints: EndpointOutcome[];
+  stats?: IngestStats;
+  error?: string;
+}
+
+// ────────────────────────────────────────────────────────────
+// Replay
+// ────────────────────────────────────────────────────────────
+
+/**
+ * Rebuild one recorded trader scrape and ingest it.
+ */
+export async function replayTraderFixture(
+  target: FixtureTarget,
+  leadId: string,
+  options: Pick<ReplayOptions, 'now' | 'recentOrders'> = {},
+): Promise<TraderReplayResult> {
+  const fixture = await loadTraderFixture(target, leadId);
+  const recordedNow = fixture.meta.now;
+  const now = options.now ? options.now(recordedNow) : recordedNow;
+  const { orderPageSize, timeoutMs, orderChunkMs } = fixture.meta.options;
+
+  const { payload, endpoints, request } = await scrapeTraderDetailed(leadId, {
+    ...fixture.meta.options,
+    replay: fixture,
+    now: () => now,
+  });
+
+  try {
+    const cursors = await getOrderCursors([leadId]);
+    const { stats } = await ingestScrapedPayload(
+      payload,
+      cursors.get(leadId),
+      {
+        orderPageSize,
+        timeoutMs,
+        orderChunkMs: orderChunkMs ?? config.scraper.orderChunkHours * 60 * 60 * 1000,
+        orderOverlapMs: config.scraper.orderOverlapMs,
+        recentOrders: options.recentOrders ?? new Map(),
+      },
+      request,
+      { now: new Date(now) },
+    );
+    return { cycleKey: target.cycleKey, leadId, fetchedAt: payload.fetchedAt, endpoints, stats };
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    logger.error({ cycleKey: target.cycleKey, leadId, error: msg }, 'Fixture replay failed');
+    return { cycleKey: target.cycleKey, leadId, fetchedAt: payload.fetchedAt, endpoints, error: msg };
+  }
+}
+
+/**
+ * Replay every trader recorded in one cycle, in leadId order.
+ */
+export async function replayFixtureCycle(
+  target: FixtureTarget,
+  options: ReplayOptions = {},
+): Promise<TraderReplayResult[]> {
+  const recorded = await listFixtureTraders(target);
+  const recentOrders = options.recentOrders ?? new Map<string, RawOrder[]>();
+  const leadIds = options.leadIds
+    ? recorded.filter((id) => options.leadIds!.includes(id))
+    : recorded;
+
+  const results: TraderReplayResult[] = [];
+  for (const leadId of leadIds) {
+    results.push(await replayTraderFixture(target, leadId, { ...options, recentOrders }));
+  }
+  return results;
+}
+
+/**
+ * Replay recorded cycles in chronological order (all of them, or from/to
+ * cycle keys inclusive), so state carried between cycles builds up as it did live.
+ */
+export async function replayFixtureDir(
+  dir: string,
+  options: ReplayOptions & { fromCycle?: string; toCycle?: string } = {},
+): Promise<TraderReplayResult[]> {
+  const cycles = (await listFixtureCycles(dir)).filter(
+    (key) =>
+      (!options.fromCycle || key >= options.fromCycle) &&
+      (!options.toCycle || key <= options.toCycle),
+  );
+
+  const recentOrders = options.recentOrders ?? new Map<string, RawOrder[]>();
+  const results: TraderReplayResult[] = [];
+  for (const cycleKey of cycles) {
+    results.push(...(await replayFixtureCycle({ dir, cycleKey }, { ...options, recentOrders })));
+  }
+  return results;
+}
@@ -0,0 +1,322 @@
+/**
+ * Trade Round Trips
+ *
+ * Rebuilds a trader's trades from Event rows: per symbol / side, open fills
+ * are replayed in time order and a round trip runs from the first open fill
+ * until close fills bring the size back to zero. Each TradeRoundTrip holds:
+ *   - openFills / closeFills and volume-weighted entryPrice / exitPrice
+ *   - openedSize, closedSize and maxSize (peak size while open)
+ *   - realizedPnl (sum over close fills) and holdSeconds
+ *   - partiallyClosed: it was closed in more than one fill (or is still
+ *     OPEN after a close fill)
+ *
+ * Close fills with no open fill before them (history that starts mid-
+ * position) are skipped. A close larger than the remaining size closes the
+ * trip.
+ *
+ * A close fill without realizedPnl (Binance events stored before losing
+ * closes kept their signed totalPnl) is priced from the trip's entry VWAP:
+ * (fill price − entry) × closed size, negated for SHORT.
+ *
+ * Trips of the symbols in an ingest's events are rebuilt after the events
+ * are stored; win rate, sample size and TraderScore are computed from
+ * CLOSED trips (see traderMetrics.ts). Existing history is rebuilt by
+ * roundTripRebuild.ts.
+ */
+
+import { prisma } from '../db/prisma.js';
+
+// ────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────
+
+/** Event fields needed to rebuild round trips */
+export interface RoundTripFill {
+  eventKey: string;
+  eventType: string;
+  symbol: string;
+  time: Date;
+  price: number | null;
+  amount: number | null;
+  realizedPnl: number | null;
+}
+
+export interface RoundTrip {
+  symbol: string;
+  direction: 'LONG' | 'SHORT';
+  status: 'OPEN' | 'CLOSED';
+  openFills: number;
+  closeFills: number;
+  openedAt: Date;
+  closedAt: Date | null;
+  entryPrice: number;
+  exitPrice: number | null;
+  openedSize: number;
+  closedSize: number;
+  maxSize: number;
+  realizedPnl: number;
+  holdSeconds: number | null;
+  partiallyClosed: boolean;
+  firstEventKey: string;
+  lastEventKey: string;
+}
+
+export interface RoundTripBuild {
+  trips: RoundTrip[];
+  /** Close fills with no open trip to close */
+  orphanCloses: number;
+}
+
+/** Remaining size at or below this share of the peak counts as flat */
+const FLAT_EPSILON = 1e-6;
+
+/** How far back CLOSED trips feed the trader metrics */
+const METRICS_LOOKBACK_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function round8(value: number): number {
+  return Math.round(value * 1e8) / 1e8;
+}
+
+// ────────────────────────────────────────────────────────────
+// Reconstruction
+// ────────────────────────────────────────────────────────────
+
+interface OpenTrip {
+  trip: RoundTrip;
+  size: number;
+  entryNotional: number;
+  entryQty: number;
+  exitNotional: number;
+  exitQty: number;
+}
+
+function finish(open: OpenTrip): RoundTrip {
+  const { trip } = open;
+  return {
+    ...trip,
+    entryPrice: open.entryQty > 0 ? round8(open.entryNotional / open.entryQty) : 0,
+    exitPrice: open.exitQty > 0 ? round8(open.exitNotional / open.exitQty) : null,
+    openedSize: round8(trip.openedSize),
+    closedSize: round8(trip.closedSize),
+    maxSize: round8(trip.maxSize),
+    realizedPnl: round8(trip.realizedPnl),
+    partiallyClosed: trip.status === 'CLOSED' ? trip.closeFills > 1 : trip.closeFills > 0,
+  };
+}
+
+/**
+ * Rebuild round trips from one trader's fills. Pure; fills may be in any
+ * order (they are sorted by time, then eventKey).
+ */
+export function buildRoundTrips(fills: RoundTripFill[]): RoundTripBuild {
+  const sorted = [...fills].sort(
+    (a, b) => a.time.getTime() - b.time.getTime() || a.eventKey.localeCompare(b.eventKey),
+  );
+  const openTrips = new Map<string, OpenTrip>();
+  const trips: RoundTrip[] = [];
+  let orphanCloses = 0;
+
+  for (const fill of sorted) {
+    const match = /^(OPEN|CLOSE)_(LONG|SHORT)$/.exec(fill.eventType);
+    if (!match) continue;
+    const [, action, direction] = match as unknown as [string, 'OPEN' | 'CLOSE', 'LONG' | 'SHORT'];
+    const key = `${fill.symbol}|${direction}`;
+    const amount = Math.abs(fill.amount ?? 0);
+    const price = fill.price && fill.price > 0 ? fill.price : null;
+    let open = openTrips.get(key);
+
+    if (action === 'OPEN') {
+      if (!open) {
+        open = {
+          trip: {
+            symbol: fill.symbol,
+            direction,
+            status: 'OPEN',
+            openFills: 0,
+            closeFills: 0,
+            openedAt: fill.time,
+            closedAt: null,
+            entryPrice: 0,
+            exitPrice: null,
+            openedSize: 0,
+            closedSize: 0,
+            maxSize: 0,
+            realizedPnl: 0,
+            holdSeconds: null,
+            partiallyClosed: false,
+            firstEventKey: fill.eventKey,
+            lastEventKey: fill.eventKey,
+          },
+          size: 0,
+          entryNotional: 0,
+          entryQty: 0,
+          exitNotional: 0,
+          exitQty: 0,
+        };
+        openTrips.set(key, open);
+      }
+      open.trip.openFills++;
+      open.trip.openedSize += amount;
+      open.trip.lastEventKey = fill.eventKey;
+      open.size += amount;
+      open.trip.maxSize = Math.max(open.trip.maxSize, open.size);
+      if (price !== null && amount > 0) {
+        open.entryNotional += price * amount;
+        open.entryQty += amount;
+      }
+      continue;
+    }
+
+    if (!open) {
+      orphanCloses++;
+      continue;
+    }
+
+    const closed = Math.min(amount, open.size);
+    const entry = open.entryQty > 0 ? open.entryNotional / open.entryQty : null;
+    const fillPnl = fill.realizedPnl
+      ?? (price !== null && entry !== null
+        ? (price - entry) * closed * (direction === 'SHORT' ? -1 : 1)
+        : 0);
+    open.trip.closeFills++;
+    open.trip.closedSize += closed;
+    open.trip.realizedPnl += fillPnl;
+    open.trip.lastEventKey = fill.eventKey;
+    open.size -= closed;
+    if (price !== null && closed > 0) {
+      open.exitNotional += price * closed;
+      open.exitQty += closed;
+    }
+
+    if (open.size <= open.trip.maxSize * FLAT_EPSILON) {
+      open.trip.status = 'CLOSED';
+      open.trip.closedAt = fill.time;
+      open.trip.holdSeconds = Math.max(
+        0,
+        Math.round((fill.time.getTime() - open.trip.openedAt.getTime()) / 1000),
+      );
+      trips.push(finish(open));
+      openTrips.delete(key);
+    }
+  }
+
+  for (const open of openTrips.values()) trips.push(finish(open));
+  trips.sort((a, b) => a.openedAt.getTime() - b.openedAt.getTime());
+
+  return { trips, orphanCloses };
+}
+
+// ────────────────────────────────────────────────────────────
+// Persistence
+// ────────────────────────────────────────────────────────────
+
+/**
+ * Replace a trader's round trips (only `symbols`, if given) with ones
+ * rebuilt from its stored events. Returns how many trips were stored.
+ */
+export async function rebuildRoundTrips(
+  leadId: string,
+  platform: string = 'binance',
+  symbols?: string[],
+): Promise<number> {
+  const symbolFilter = symbols ? { symbol: { in: symbols } } : {};
+
+  const events = await prisma.event.findMany({
+    where: {
+      platform,
+      leadId,
+      eventType: { in: ['OPEN_LONG', 'OPEN_SHORT', 'CLOSE_LONG', 'CLOSE_SHORT'] },
+      ...symbolFilter,
+    },
+    select: {
+      eventKey: true,
+      eventType: true,
+      symbol: true,
+      eventTime: true,
+      fetchedAt: true,
+      price: true,
+      amount: true,
+      realizedPnl: true,
+    },
+  });
+
+  const { trips } = buildRoundTrips(
+    events.map(({ eventTime, fetchedAt, ...e }) => ({ ...e, time: eventTime ?? fetchedAt })),
+  );
+
+  await prisma.$transaction([
+    prisma.tradeRoundTrip.deleteMany({ where: { platform, leadId, ...symbolFilter } }),
+    prisma.tradeRoundTrip.createMany({
+      data: trips.map((t) => ({ platform, leadId, ...t })),
+    }),
+  ]);
+
+  return trips.length;
+}
+
+/**
+ * CLOSED trips of a trader closed in the last METRICS_LOOKBACK_DAYS, oldest
+ * first (input for computeTraderMetrics).
+ */
+export async function getMetricRoundTrips(
+  leadId: string,
+  platform: string = 'binance',
+  now: Date = new Date(),
+) {
+  return prisma.tradeRoundTrip.findMany({
+    where: {
+      platform,
+      leadId,
+      status: 'CLOSED',
+      closedAt: { gte: new Date(now.getTime() - METRICS_LOOKBACK_DAYS * DAY_MS), lte: now },
+    },
+    orderBy: { closedAt: 'asc' },
+    select: { closedAt: true, realizedPnl: true },
+  });
+}
+
+/**
+ * Realized PnL of a trader's CLOSED trips closed in the `days` days before
+ * `now` (input for updateTraderScore).
+ */
+export async function getRoundTripPnlSum(
+  leadId: string,
+  platform: string = 'binance',
+  days: number = 30,
+  now: Date = new Date(),
+): Promise<number> {
+  const result = await prisma.tradeRoundTrip.aggregate({
+    where: {
+      platform,
+      leadId,
+      status: 'CLOSED',
+      closedAt: { gte: new Date(now.getTime() - days * DAY_MS), lte: now },
+    },
+    _sum: { realizedPnl: true },
+  });
+  return result._sum.realizedPnl ?? 0;
+}
+
+/**
+ * A trader's round trips, newest first.
+ */
+export async function listRoundTrips(params: {
+  leadId: string;
+  platform: string;
+  status?: 'OPEN' | 'CLOSED';
+  symbol?: string;
+  limit: number;
+}) {
+  return prisma.tradeRoundTrip.findMany({
+    where: {
+      platform: params.platform,
+      leadId: params.leadId,
+      ...(params.status && { status: params.status }),
+      ...(params.symbol && { symbol: params.symbol }),
+    },
+    orderBy: { openedAt: 'desc' },
+    take: params.limit,
+  });
+}
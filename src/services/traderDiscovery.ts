@@ -0,0 +1,483 @@
+/**
+ * Lead-Trader Discovery
+ *
+ * Pulls the Binance copy-trading leaderboard (home-page query-list) and
+ * screens every listed trader against configurable admission criteria:
+ *   1. listing: ROI, max drawdown and AUM straight from the leaderboard row
+ *   2. detail:  days active (portfolio startTime) and positionShow, from
+ *               lead-portfolio/detail, only for rows that passed step 1
+ *
+ * Traders that pass land in TraderCandidate with status CANDIDATE. Nothing
+ * is scraped until an operator approves them into the TrackedTrader roster
+ * (POST /admin/discovery/candidates/:leadId/approve). Already tracked traders
+ * are skipped, and re-discovery refreshes a candidate's metrics without
+ * touching a review decision.
+ *
+ * Runs are kept in memory (latest only) like order backfills. The base URL is
+ * config.discovery.baseUrl, so the job runs offline against
+ * scripts/leaderboard-fixture-server.ts.
+ */
+
+import { prisma } from '../db/prisma.js';
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+import { fetchEndpointJson } from './resilientFetch.js';
+import { addTrackedTrader, getTrackedTrader } from './traderRoster.js';
+
+// ────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────
+
+export interface AdmissionCriteria {
+  minRoiPct: number;
+  minDaysActive: number;
+  maxDrawdownPct: number;
+  minAumUsdt: number;
+  requirePositionShow: boolean;
+}
+
+export type RejectionReason =
+  | 'LOW_ROI'
+  | 'HIGH_DRAWDOWN'
+  | 'LOW_AUM'
+  | 'TOO_NEW'
+  | 'POSITIONS_HIDDEN'
+  | 'INACTIVE'
+  | 'DETAIL_UNAVAILABLE';
+
+/** One leaderboard row, with the fields discovery screens on */
+export interface LeaderboardEntry {
+  leadId: string;
+  nickname: string | null;
+  roiPct: number | null;
+  maxDrawdownPct: number | null;
+  aumUsdt: number | null;
+  copierCount: number | null;
+  positionShow: boolean | null;
+  raw: Record<string, unknown>;
+}
+
+export interface DetailScreening {
+  daysActive: number | null;
+  positionShow: boolean | null;
+  reasons: RejectionReason[];
+}
+
+export type CandidateStatus = 'CANDIDATE' | 'APPROVED' | 'REJECTED';
+export type DiscoveryStatus = 'RUNNING' | 'COMPLETED' | 'FAILED';
+
+export interface DiscoveryOptions {
+  trigger: 'SCHEDULED' | 'MANUAL';
+  criteria: AdmissionCriteria;
+  maxPages: number;
+  pageSize: number;
+  timeRange: string;
+  timeoutMs: number;
+}
+
+export interface DiscoveryRun {
+  status: DiscoveryStatus;
+  trigger: DiscoveryOptions['trigger'];
+  criteria: AdmissionCriteria;
+  timeRange: string;
+  startedAt: string;
+  completedAt: string | null;
+  pagesFetched: number;
+  listed: number;
+  alreadyTracked: number;
+  detailsFetched: number;
+  admitted: number;
+  newCandidates: number;
+  /** Rejections per reason (a trader can fail several criteria) */
+  rejections: Partial<Record<RejectionReason, number>>;
+  error: string | null;
+}
+
+export interface ApproveCandidateInput {
+  tags?: string[];
+  notes?: string | null;
+  scrapePriority?: number;
+}
+
+// ────────────────────────────────────────────────────────────
+// Leaderboard client
+// ────────────────────────────────────────────────────────────
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function leaderboardUrl(): string {
+  return `${config.discovery.baseUrl}/friendly/future/copy-trade/home-page/query-list`;
+}
+
+function portfolioDetailUrl(leadId: string): string {
+  return `${config.discovery.baseUrl}/friendly/future/copy-trade/lead-portfolio/detail?portfolioId=${leadId}`;
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Map a raw leaderboard row. Rows without a portfolio id are dropped.
+ */
+export function parseLeaderboardRow(row: Record<string, unknown>): LeaderboardEntry | null {
+  const leadId = row.leadPortfolioId ?? row.portfolioId;
+  if (typeof leadId !== 'string' && typeof leadId !== 'number') return null;
+
+  return {
+    leadId: String(leadId),
+    nickname: typeof row.nickname === 'string' ? row.nickname : null,
+    roiPct: toNumber(row.roi),
+    maxDrawdownPct: toNumber(row.mdd),
+    aumUsdt: toNumber(row.aum),
+    copierCount: toNumber(row.currentCopyCount),
+    positionShow: typeof row.positionShow === 'boolean' ? row.positionShow : null,
+    raw: row,
+  };
+}
+
+/**
+ * Fetch one leaderboard page. Returns null when the request failed.
+ */
+async function fetchLeaderboardPage(
+  pageNumber: number,
+  options: DiscoveryOptions,
+): Promise<{ entries: LeaderboardEntry[]; total: number | null } | null> {
+  const res = await fetchEndpointJson<{ total?: number; list?: Record<string, unknown>[] }>(
+    'leaderboard',
+    leaderboardUrl(),
+    {
+      method: 'POST',
+      body: JSON.stringify({
+        pageNumber,
+        pageSize: options.pageSize,
+        timeRange: options.timeRange,
+        dataType: 'ROI',
+        order: 'DESC',
+        favoriteOnly: false,
+        hideFull: false,
+        nickname: '',
+        portfolioType: 'PUBLIC',
+      }),
+    },
+    options.timeoutMs,
+  );
+
+  if (!res.success || !res.data) {
+    logger.warn({ pageNumber, error: res.error }, 'Leaderboard page fetch failed');
+    return null;
+  }
+
+  const rows = Array.isArray(res.data.list) ? res.data.list : [];
+  return {
+    entries: rows
+      .map(parseLeaderboardRow)
+      .filter((e): e is LeaderboardEntry => e !== null),
+    total: toNumber(res.data.total),
+  };
+}
+
+// ────────────────────────────────────────────────────────────
+// Admission criteria
+// ────────────────────────────────────────────────────────────
+
+/**
+ * Screen a leaderboard row on the criteria the listing carries.
+ * Missing metrics fail their criterion.
+ */
+export function screenListing(entry: LeaderboardEntry, criteria: AdmissionCriteria): RejectionReason[] {
+  const reasons: RejectionReason[] = [];
+  if (entry.roiPct === null || entry.roiPct < criteria.minRoiPct) reasons.push('LOW_ROI');
+  if (entry.maxDrawdownPct === null || entry.maxDrawdownPct > criteria.maxDrawdownPct) {
+    reasons.push('HIGH_DRAWDOWN');
+  }
+  if (entry.aumUsdt === null || entry.aumUsdt < criteria.minAumUsdt) reasons.push('LOW_AUM');
+  if (criteria.requirePositionShow && entry.positionShow === false) reasons.push('POSITIONS_HIDDEN');
+  return reasons;
+}
+
+/**
+ * Screen a portfolio detail on days active and positionShow. A null detail
+ * (fetch failed) rejects with DETAIL_UNAVAILABLE; the next run retries.
+ */
+export function screenDetail(
+  detail: Record<string, unknown> | null,
+  criteria: AdmissionCriteria,
+  now: number,
+): DetailScreening {
+  if (!detail) return { daysActive: null, positionShow: null, reasons: ['DETAIL_UNAVAILABLE'] };
+
+  const reasons: RejectionReason[] = [];
+  const startTime = toNumber(detail.startTime);
+  const daysActive = startTime !== null ? Math.floor((now - startTime) / DAY_MS) : null;
+  const positionShow = typeof detail.positionShow === 'boolean' ? detail.positionShow : null;
+
+  if (daysActive === null || daysActive < criteria.minDaysActive) reasons.push('TOO_NEW');
+  if (criteria.requirePositionShow && positionShow !== true) reasons.push('POSITIONS_HIDDEN');
+  if (typeof detail.status === 'string' && detail.status !== 'ACTIVE') reasons.push('INACTIVE');
+
+  return { daysActive, positionShow, reasons };
+}
+
+// ────────────────────────────────────────────────────────────
+// Discovery runs
+// ────────────────────────────────────────────────────────────
+
+let lastRun: DiscoveryRun | null = null;
+let timer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Latest discovery run (running or finished), or null if none ran yet.
+ */
+export function getDiscoveryRun(): DiscoveryRun | null {
+  return lastRun;
+}
+
+/**
+ * Default run options from config.discovery, with criteria overrides.
+ */
+export function discoveryOptions(
+  overrides: Partial<Omit<DiscoveryOptions, 'criteria'>> & { criteria?: Partial<AdmissionCriteria> } = {},
+): DiscoveryOptions {
+  const criteria = Object.fromEntries(
+    Object.entries(overrides.criteria ?? {}).filter(([, v]) => v !== undefined),
+  );
+  return {
+    trigger: overrides.trigger ?? 'MANUAL',
+    maxPages: overrides.maxPages ?? config.discovery.maxPages,
+    pageSize: overrides.pageSize ?? config.discovery.pageSize,
+    timeRange: overrides.timeRange ?? config.discovery.timeRange,
+    timeoutMs: overrides.timeoutMs ?? config.scraper.timeoutMs,
+    criteria: { ...config.discovery.criteria, ...criteria },
+  };
+}
+
+/**
+ * Start a discovery run in the background. Returns null if one is already
+ * running.
+ */
+export function startDiscovery(options: DiscoveryOptions): DiscoveryRun | null {
+  if (lastRun?.status === 'RUNNING') return null;
+
+  const run: DiscoveryRun = {
+    status: 'RUNNING',
+    trigger: options.trigger,
+    criteria: options.criteria,
+    timeRange: options.timeRange,
+    startedAt: new Date().toISOString(),
+    completedAt: null,
+    pagesFetched: 0,
+    listed: 0,
+    alreadyTracked: 0,
+    detailsFetched: 0,
+    admitted: 0,
+    newCandidates: 0,
+    rejections: {},
+    error: null,
+  };
+  lastRun = run;
+
+  runDiscovery(run, options).catch((err) => {
+    run.status = 'FAILED';
+    run.error = err instanceof Error ? err.message : String(err);
+    run.completedAt = new Date().toISOString();
+    logger.error({ error: run.error }, 'Leaderboard discovery failed');
+  });
+
+  return run;
+}
+
+async function runDiscovery(run: DiscoveryRun, options: DiscoveryOptions): Promise<void> {
+  logger.info({ maxPages: options.maxPages, criteria: options.criteria }, '🔎 Leaderboard discovery starting');
+
+  const tracked = new Set(
+    (await prisma.trackedTrader.findMany({ where: { platform: 'binance' }, select: { leadId: true } }))
+      .map((t) => t.leadId),
+  );
+
+  // 1. Walk the leaderboard (ROI-ranked) and screen on the listing
+  const seen = new Set<string>();
+  const shortlisted: LeaderboardEntry[] = [];
+  for (let page = 1; page <= options.maxPages; page++) {
+    const result = await fetchLeaderboardPage(page, options);
+    if (!result) {
+      if (page === 1) throw new Error('Leaderboard unavailable');
+      break;
+    }
+    run.pagesFetched++;
+
+    for (const entry of result.entries) {
+      if (seen.has(entry.leadId)) continue;
+      seen.add(entry.leadId);
+      run.listed++;
+      if (tracked.has(entry.leadId)) {
+        run.alreadyTracked++;
+        continue;
+      }
+      const reasons = screenListing(entry, options.criteria);
+      if (reasons.length > 0) {
+        countRejections(run, reasons);
+        continue;
+      }
+      shortlisted.push(entry);
+    }
+
+    const exhausted = result.entries.length < options.pageSize
+      || (result.total !== null && page * options.pageSize >= result.total);
+    if (exhausted) break;
+  }
+
+  // 2. Portfolio detail for the shortlist: days active + positionShow
+  for (const entry of shortlisted) {
+    const res = await fetchEndpointJson<Record<string, unknown>>(
+      'leaderboardDetail',
+      portfolioDetailUrl(entry.leadId),
+      {},
+      options.timeoutMs,
+    );
+    if (res.success) run.detailsFetched++;
+
+    const screening = screenDetail(res.success ? res.data : null, options.criteria, Date.now());
+    if (screening.reasons.length > 0) {
+      countRejections(run, screening.reasons);
+      continue;
+    }
+
+    run.admitted++;
+    if (await upsertCandidate(entry, screening)) run.newCandidates++;
+  }
+
+  run.status = 'COMPLETED';
+  run.completedAt = new Date().toISOString();
+
+  logger.info(
+    {
+      listed: run.listed,
+      alreadyTracked: run.alreadyTracked,
+      admitted: run.admitted,
+      newCandidates: run.newCandidates,
+      rejections: run.rejections,
+    },
+    '✅ Leaderboard discovery completed',
+  );
+}
+
+function countRejections(run: DiscoveryRun, reasons: RejectionReason[]): void {
+  for (const reason of reasons) {
+    run.rejections[reason] = (run.rejections[reason] ?? 0) + 1;
+  }
+}
+
+/**
+ * Insert or refresh a candidate. The review status of an existing row is
+ * kept. Returns true if the candidate is new.
+ */
+async function upsertCandidate(entry: LeaderboardEntry, screening: DetailScreening): Promise<boolean> {
+  const metrics = {
+    nickname: entry.nickname,
+    roiPct: entry.roiPct,
+    maxDrawdownPct: entry.maxDrawdownPct,
+    aumUsdt: entry.aumUsdt,
+    daysActive: screening.daysActive,
+    positionShow: screening.positionShow,
+    copierCount: entry.copierCount === null ? null : Math.round(entry.copierCount),
+    listing: entry.raw as object,
+  };
+
+  const existing = await prisma.traderCandidate.findUnique({
+    where: { leadId: entry.leadId },
+    select: { leadId: true },
+  });
+
+  await prisma.traderCandidate.upsert({
+    where: { leadId: entry.leadId },
+    create: { leadId: entry.leadId, platform: 'binance', ...metrics },
+    update: { ...metrics, lastSeenAt: new Date() },
+  });
+
+  return !existing;
+}
+
+/**
+ * Run discovery every intervalMs (scheduled runs skip while one is running).
+ */
+export function startDiscoveryTimer(intervalMs: number): void {
+  if (timer) return;
+  timer = setInterval(() => {
+    startDiscovery(discoveryOptions({ trigger: 'SCHEDULED' }));
+  }, intervalMs);
+  logger.info({ intervalMs }, 'Leaderboard discovery timer started');
+}
+
+export function stopDiscoveryTimer(): void {
+  if (!timer) return;
+  clearInterval(timer);
+  timer = null;
+}
+
+// ────────────────────────────────────────────────────────────
+// Candidate review
+// ────────────────────────────────────────────────────────────
+
+/**
+ * List candidates, most recently seen first.
+ */
+export async function listCandidates(
+  filter: { platform?: string; status?: CandidateStatus; limit?: number } = {},
+) {
+  return prisma.traderCandidate.findMany({
+    where: {
+      platform: filter.platform ?? 'binance',
+      ...(filter.status && { status: filter.status }),
+    },
+    orderBy: [{ lastSeenAt: 'desc' }, { roiPct: 'desc' }],
+    take: filter.limit ?? 100,
+  });
+}
+
+export async function getCandidate(leadId: string) {
+  return prisma.traderCandidate.findUnique({ where: { leadId } });
+}
+
+/**
+ * Approve a candidate into the tracked roster (tagged "discovered"). A trader
+ * that got tracked in the meantime keeps its roster entry. Returns null if
+ * the leadId is not a candidate.
+ */
+export async function approveCandidate(leadId: string, input: ApproveCandidateInput = {}) {
+  const candidate = await getCandidate(leadId);
+  if (!candidate) return null;
+
+  const added = await addTrackedTrader({
+    leadId,
+    platform: candidate.platform,
+    tags: [...new Set(['discovered', ...(input.tags ?? [])])],
+    notes: input.notes ?? null,
+    scrapePriority: input.scrapePriority,
+  });
+  const trader = added ?? (await getTrackedTrader(leadId));
+
+  const updated = await prisma.traderCandidate.update({
+    where: { leadId },
+    data: { status: 'APPROVED', reviewedAt: new Date(), reviewNote: input.notes ?? null },
+  });
+
+  logger.info({ leadId, alreadyTracked: !added }, 'Discovery candidate approved into roster');
+  return { candidate: updated, trader, alreadyTracked: !added };
+}
+
+/**
+ * Reject a candidate. Later runs keep refreshing its metrics but leave it
+ * REJECTED. Returns null if the leadId is not a candidate.
+ */
+export async function rejectCandidate(leadId: string, note: string | null = null) {
+  const candidate = await getCandidate(leadId);
+  if (!candidate) return null;
+
+  return prisma.traderCandidate.update({
+    where: { leadId },
+    data: { status: 'REJECTED', reviewedAt: new Date(), reviewNote: note },
+  });
+}
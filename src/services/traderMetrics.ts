@@ -5,6 +5,14 @@
  * Computes qualityScore, winRate, confidence, and behavioral metrics
  * from a raw ingest payload.
  *
+ * Trades: when the caller passes the trader's CLOSED round trips
+ * (tradeRoundTrip.ts), each round trip is one trade, so a position closed
+ * in five fills counts once. Without them (no events stored yet) every
+ * closing order in the payload counts as a trade.
+ *
+ * Liquidations: LIQUIDATED position states of the last 30 days
+ * (liquidation.ts) cost 10 quality points each, at most 30.
+ *
  * Used by:
  *   - GET /signals/metrics/:leadId (route handler)
  *   - traderWeight.ts (consensus weight pipeline)
@@ -14,12 +22,24 @@
 // Types
 // ────────────────────────────────────────────────────────────
 
+/** A CLOSED TradeRoundTrip, as far as the metrics need it */
+export interface RoundTripOutcome {
+  closedAt: Date | null;
+  realizedPnl: number;
+}
+
+/** A LIQUIDATED PositionState, as far as the metrics need it */
+export interface LiquidationOutcome {
+  liquidatedAt: Date;
+}
+
 export interface TraderMetricsResult {
   nickname: string;
   qualityScore: number;       // 0-100
   confidence: 'low' | 'medium' | 'high';
   winRate: number | null;     // 0.0-1.0, null = insufficient data
   sampleSize: number;         // closed trades in 7d window
+  tradeBasis: 'ROUND_TRIPS' | 'ORDERS';
   positionsVisible: boolean;
   avgLeverage: number | null;
   totalRealizedPnl: number;
@@ -41,6 +61,7 @@ export interface TraderMetricsResult {
     breakevens: number;
     winRate: number | null; // percentage (0-100), null if insufficient
     winRateNote?: string;
+    basis: 'ROUND_TRIPS' | 'ORDERS';
   };
   streaks: {
     maxConsecutiveLosses: number;
@@ -52,6 +73,11 @@ export interface TraderMetricsResult {
     isEstimated: boolean;
     note?: string;
   };
+  liquidations: {
+    count7d: number;
+    count30d: number;
+    lastLiquidatedAt: string | null;
+  };
   dataAvailability: {
     positionsVisible: boolean;
     ordersCount: number;
@@ -64,10 +90,16 @@ export interface TraderMetricsResult {
 // ────────────────────────────────────────────────────────────
 
 /**
- * Compute all trader metrics from a raw ingest payload.
+ * Compute all trader metrics from a raw ingest payload (and the trader's
+ * closed round trips and liquidations, if any), as of `now`.
  * This is a pure function that takes a payload and returns metrics.
  */
-export function computeTraderMetrics(payload: unknown): TraderMetricsResult {
+export function computeTraderMetrics(
+  payload: unknown,
+  roundTrips: RoundTripOutcome[] = [],
+  liquidations: LiquidationOutcome[] = [],
+  now: Date = new Date(),
+): TraderMetricsResult {
   const p = payload as Record<string, any>;
   const orders: any[] = p?.orderHistory?.allOrders || [];
   const positions: any[] = p?.activePositions || [];
@@ -77,23 +109,30 @@ export function computeTraderMetrics(payload: unknown): TraderMetricsResult {
   const nickname = portfolio.nickname || 'Unknown';
 
   // Time ranges
-  const now = Date.now();
-  const day7 = now - 7 * 24 * 60 * 60 * 1000;
-  const day30 = now - 30 * 24 * 60 * 60 * 1000;
+  const nowMs = now.getTime();
+  const day7 = nowMs - 7 * 24 * 60 * 60 * 1000;
+  const day30 = nowMs - 30 * 24 * 60 * 60 * 1000;
 
   // ═══════════════════════════════════════════════════════════
   // TRADES / CLOSES CALCULATION
   // ═══════════════════════════════════════════════════════════
 
-  // Only CLOSE events count as "trades" for win rate
-  const closingTrades = orders.filter(
+  // A trade is a closed round trip, else (no round trips yet) a CLOSE order
+  const closingOrders = orders.filter(
     (o: any) =>
       (o.side === 'SELL' && o.positionSide === 'LONG') ||
       (o.side === 'BUY' && o.positionSide === 'SHORT'),
   );
 
-  const closingTrades7d = closingTrades.filter((o: any) => o.orderTime >= day7);
-  const closingTrades30d = closingTrades.filter((o: any) => o.orderTime >= day30);
+  const tradeBasis: 'ROUND_TRIPS' | 'ORDERS' =
+    roundTrips.length > 0 ? 'ROUND_TRIPS' : 'ORDERS';
+  const closingTrades: { time: number; pnl: number | null }[] =
+    tradeBasis === 'ROUND_TRIPS'
+      ? roundTrips.map((t) => ({ time: t.closedAt?.getTime() ?? 0, pnl: t.realizedPnl }))
+      : closingOrders.map((o: any) => ({ time: o.orderTime, pnl: o.totalPnl }));
+
+  const closingTrades7d = closingTrades.filter((t) => t.time >= day7);
+  const closingTrades30d = closingTrades.filter((t) => t.time >= day30);
 
   const orders7d = orders.filter((o: any) => o.orderTime >= day7);
   const orders30d = orders.filter((o: any) => o.orderTime >= day30);
@@ -102,10 +141,10 @@ export function computeTraderMetrics(payload: unknown): TraderMetricsResult {
   // WIN RATE with proper categorization
   // ═══════════════════════════════════════════════════════════
 
-  const wins = closingTrades.filter((o: any) => o.totalPnl > 0);
-  const losses = closingTrades.filter((o: any) => o.totalPnl < 0);
+  const wins = closingTrades.filter((t) => (t.pnl ?? 0) > 0);
+  const losses = closingTrades.filter((t) => (t.pnl ?? 0) < 0);
   const breakevens = closingTrades.filter(
-    (o: any) => o.totalPnl === 0 || o.totalPnl === null,
+    (t) => t.pnl === 0 || t.pnl === null,
   );
 
   const tradesWithResult = wins.length + losses.length;
@@ -120,16 +159,15 @@ export function computeTraderMetrics(payload: unknown): TraderMetricsResult {
   let consecutiveWins = 0;
   let maxConsecutiveWins = 0;
 
-  const sortedCloses = [...closingTrades].sort(
-    (a: any, b: any) => a.orderTime - b.orderTime,
-  );
+  const sortedCloses = [...closingTrades].sort((a, b) => a.time - b.time);
 
-  for (const order of sortedCloses) {
-    if (order.totalPnl < 0) {
+  for (const trade of sortedCloses) {
+    const pnl = trade.pnl ?? 0;
+    if (pnl < 0) {
       consecutiveLosses++;
       consecutiveWins = 0;
       maxConsecutiveLosses = Math.max(maxConsecutiveLosses, consecutiveLosses);
-    } else if (order.totalPnl > 0) {
+    } else if (pnl > 0) {
       consecutiveWins++;
       consecutiveLosses = 0;
       maxConsecutiveWins = Math.max(maxConsecutiveWins, consecutiveWins);
@@ -141,7 +179,7 @@ export function computeTraderMetrics(payload: unknown): TraderMetricsResult {
   // ═══════════════════════════════════════════════════════════
 
   const totalRealizedPnl = closingTrades.reduce(
-    (sum: number, o: any) => sum + (o.totalPnl || 0),
+    (sum, t) => sum + (t.pnl || 0),
     0,
   );
   const avgPnlPerTrade =
@@ -157,6 +195,17 @@ export function computeTraderMetrics(payload: unknown): TraderMetricsResult {
       positions.length
     : null;
 
+  // ═══════════════════════════════════════════════════════════
+  // LIQUIDATIONS
+  // ═══════════════════════════════════════════════════════════
+
+  const liquidations30d = liquidations.filter((l) => l.liquidatedAt.getTime() >= day30);
+  const liquidations7d = liquidations30d.filter((l) => l.liquidatedAt.getTime() >= day7);
+  const lastLiquidation = liquidations30d.reduce<Date | null>(
+    (latest, l) => (!latest || l.liquidatedAt > latest ? l.liquidatedAt : latest),
+    null,
+  );
+
   // ═══════════════════════════════════════════════════════════
   // QUALITY SCORE with BREAKDOWN
   // ═══════════════════════════════════════════════════════════
@@ -210,6 +259,13 @@ export function computeTraderMetrics(payload: unknown): TraderMetricsResult {
     qualityScore += lossesContrib;
   }
 
+  // Liquidations penalty (max -30)
+  if (liquidations30d.length > 0) {
+    const liquidationsContrib = -Math.min(liquidations30d.length, 3) * 10;
+    scoreBreakdown.liquidations = liquidationsContrib;
+    qualityScore += liquidationsContrib;
+  }
+
   qualityScore = Math.min(Math.max(Math.round(qualityScore), 0), 100);
 
   // ═══════════════════════════════════════════════════════════
@@ -232,6 +288,7 @@ export function computeTraderMetrics(payload: unknown): TraderMetricsResult {
     confidence,
     winRate,
     sampleSize: closedSample7d,
+    tradeBasis,
     positionsVisible: !!positionsVisible,
     avgLeverage,
     totalRealizedPnl: Math.round(totalRealizedPnl * 100) / 100,
@@ -254,6 +311,7 @@ export function computeTraderMetrics(payload: unknown): TraderMetricsResult {
       winRate: winRate !== null ? Math.round(winRate * 100) : null,
       winRateNote:
         winRate === null ? 'Insufficient closed trades' : undefined,
+      basis: tradeBasis,
     },
 
     streaks: {
@@ -276,6 +334,12 @@ export function computeTraderMetrics(payload: unknown): TraderMetricsResult {
         : 'Leverage unknown (positions hidden)',
     },
 
+    liquidations: {
+      count7d: liquidations7d.length,
+      count30d: liquidations30d.length,
+      lastLiquidatedAt: lastLiquidation?.toISOString() ?? null,
+    },
+
     dataAvailability: {
       positionsVisible: !!positionsVisible,
       ordersCount: orders.length,
@@ -0,0 +1,289 @@
+/**
+ * Trader Profile History
+ *
+ * upsertLeadTrader keeps only the latest positionShow / nickname, so every
+ * ingest also compares the payload's profile (adapter.readProfile) with the
+ * trader's latest TraderProfileSnapshot and stores a new snapshot when a
+ * tracked field changed:
+ *   - positionShow, nickname, copierCount, maxCopyCount, profitSharingRate,
+ *     badgeName, status: any change
+ *   - aumAmount, marginBalance: a move of at least
+ *     config.profileHistory.minBalanceChangePct of the previous value
+ * A field the payload doesn't report keeps its previous value. Each snapshot
+ * holds the whole profile after the change plus changedFields / changes
+ * ({ field: { from, to } }); a trader's first snapshot has no changes.
+ *
+ * Visibility changes (positionShow true ↔ false) are listed with the
+ * trader's realized PnL over the days before the change, since traders
+ * often hide positions after a losing streak (insights anomalies).
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db/prisma.js';
+import { config } from '../config.js';
+import type { PlatformProfile } from './platformAdapter.js';
+
+// ────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────
+
+export const PROFILE_FIELDS = [
+  'positionShow',
+  'nickname',
+  'aumAmount',
+  'marginBalance',
+  'copierCount',
+  'maxCopyCount',
+  'profitSharingRate',
+  'badgeName',
+  'status',
+] as const;
+
+export type ProfileField = (typeof PROFILE_FIELDS)[number];
+
+export interface ProfileState {
+  positionShow: boolean | null;
+  nickname: string | null;
+  aumAmount: number | null;
+  marginBalance: number | null;
+  copierCount: number | null;
+  maxCopyCount: number | null;
+  profitSharingRate: number | null;
+  badgeName: string | null;
+  status: string | null;
+}
+
+export type ProfileChanges = Partial<
+  Record<ProfileField, { from: ProfileState[ProfileField]; to: ProfileState[ProfileField] }>
+>;
+
+export interface ProfileDiff {
+  state: ProfileState;
+  changedFields: ProfileField[];
+  changes: ProfileChanges;
+}
+
+export interface VisibilityChange {
+  leadId: string;
+  nickname: string | null;
+  changedAt: Date;
+  positionShow: boolean;
+  /** Realized PnL of round trips closed in the LOSS_LOOKBACK_DAYS before the change */
+  recentRealizedPnl: number;
+  recentTrades: number;
+  recentLosses: number;
+}
+
+/** Fields compared against minBalanceChangePct instead of any change */
+const BALANCE_FIELDS = new Set<ProfileField>(['aumAmount', 'marginBalance']);
+
+/** Integer columns (copier counts may arrive as numeric strings) */
+const INT_FIELDS = new Set<ProfileField>(['copierCount', 'maxCopyCount']);
+
+/** How far before a visibility change round trips count as "recent" */
+const LOSS_LOOKBACK_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PROFILE_SELECT = Object.fromEntries(PROFILE_FIELDS.map((f) => [f, true])) as Record<ProfileField, true>;
+
+const EMPTY_STATE: ProfileState = {
+  positionShow: null,
+  nickname: null,
+  aumAmount: null,
+  marginBalance: null,
+  copierCount: null,
+  maxCopyCount: null,
+  profitSharingRate: null,
+  badgeName: null,
+  status: null,
+};
+
+// ────────────────────────────────────────────────────────────
+// Diff
+// ────────────────────────────────────────────────────────────
+
+function isChange(field: ProfileField, from: unknown, to: unknown, minBalanceChangePct: number): boolean {
+  if (from === to) return false;
+  if (BALANCE_FIELDS.has(field) && typeof from === 'number' && typeof to === 'number') {
+    if (from === 0) return to !== 0;
+    return (Math.abs(to - from) / Math.abs(from)) * 100 >= minBalanceChangePct;
+  }
+  return true;
+}
+
+/**
+ * Compare a payload profile with the latest snapshot. Pure; returns null
+ * when nothing to store (no tracked change, or no tracked field reported on
+ * a trader's first profile).
+ */
+export function diffProfile(
+  previous: ProfileState | null,
+  profile: PlatformProfile,
+  minBalanceChangePct: number = config.profileHistory.minBalanceChangePct,
+): ProfileDiff | null {
+  const state: ProfileState = { ...(previous ?? EMPTY_STATE) };
+  const changedFields: ProfileField[] = [];
+  const changes: ProfileChanges = {};
+  let reported = false;
+
+  for (const field of PROFILE_FIELDS) {
+    let value = profile[field];
+    if (value === undefined) continue;
+    if (INT_FIELDS.has(field) && typeof value === 'number') value = Math.round(value);
+    reported = true;
+
+    const from = state[field];
+    if (!isChange(field, from, value, minBalanceChangePct)) continue;
+    (state as Record<ProfileField, unknown>)[field] = value;
+    if (previous) {
+      changedFields.push(field);
+      changes[field] = { from, to: value };
+    }
+  }
+
+  if (previous ? changedFields.length === 0 : !reported) return null;
+  return { state, changedFields, changes };
+}
+
+/**
+ * Round-trip results of the LOSS_LOOKBACK_DAYS before a visibility change.
+ * Pure; `trips` may include other traders' and later trips.
+ */
+export function summarizeVisibilityChange(
+  change: { leadId: string; nickname: string | null; capturedAt: Date; positionShow: boolean },
+  trips: { leadId: string; closedAt: Date | null; realizedPnl: number }[],
+): VisibilityChange {
+  const until = change.capturedAt.getTime();
+  const from = until - LOSS_LOOKBACK_DAYS * DAY_MS;
+  const recent = trips.filter((t) => {
+    const closed = t.closedAt?.getTime();
+    return t.leadId === change.leadId && closed !== undefined && closed <= until && closed > from;
+  });
+  return {
+    leadId: change.leadId,
+    nickname: change.nickname,
+    changedAt: change.capturedAt,
+    positionShow: change.positionShow,
+    recentRealizedPnl: Math.round(recent.reduce((sum, t) => sum + t.realizedPnl, 0) * 100) / 100,
+    recentTrades: recent.length,
+    recentLosses: recent.filter((t) => t.realizedPnl < 0).length,
+  };
+}
+
+/**
+ * Insights severity of a visibility change: hiding after a net loss over
+ * losing trips is HIGH, other hides MEDIUM, showing again LOW.
+ */
+export function visibilityChangeSeverity(change: VisibilityChange): 'HIGH' | 'MEDIUM' | 'LOW' {
+  if (change.positionShow) return 'LOW';
+  return change.recentLosses > 0 && change.recentRealizedPnl < 0 ? 'HIGH' : 'MEDIUM';
+}
+
+// ────────────────────────────────────────────────────────────
+// Recording
+// ────────────────────────────────────────────────────────────
+
+/**
+ * Store a snapshot if the profile changed since the trader's latest one.
+ * A payload older than the latest snapshot (late batch ingest) is ignored.
+ * Returns the changed fields ([] for a first snapshot), or null when
+ * nothing was stored.
+ */
+export async function recordProfileSnapshot(
+  leadId: string,
+  platform: string,
+  profile: PlatformProfile,
+  capturedAt: Date,
+): Promise<ProfileField[] | null> {
+  const latest = await prisma.traderProfileSnapshot.findFirst({
+    where: { leadId },
+    orderBy: { capturedAt: 'desc' },
+    select: { ...PROFILE_SELECT, capturedAt: true },
+  });
+
+  let previous: ProfileState | null = null;
+  if (latest) {
+    const { capturedAt: latestAt, ...state } = latest;
+    if (capturedAt.getTime() <= latestAt.getTime()) return null;
+    previous = state;
+  }
+
+  const diff = diffProfile(previous, profile);
+  if (!diff) return null;
+
+  await prisma.traderProfileSnapshot.create({
+    data: {
+      platform,
+      leadId,
+      capturedAt,
+      ...diff.state,
+      changedFields: diff.changedFields,
+      changes: diff.changedFields.length > 0 ? (diff.changes as Prisma.InputJsonObject) : Prisma.DbNull,
+    },
+  });
+
+  return diff.changedFields;
+}
+
+// ────────────────────────────────────────────────────────────
+// Queries
+// ────────────────────────────────────────────────────────────
+
+/**
+ * A trader's profile snapshots, newest first (only those that changed
+ * `field`, if given).
+ */
+export async function getProfileHistory(params: {
+  leadId: string;
+  field?: ProfileField;
+  limit: number;
+}) {
+  return prisma.traderProfileSnapshot.findMany({
+    where: {
+      leadId: params.leadId,
+      ...(params.field && { changedFields: { has: params.field } }),
+    },
+    orderBy: { capturedAt: 'desc' },
+    take: params.limit,
+  });
+}
+
+/**
+ * positionShow changes since `since`, newest first, each with the trader's
+ * round-trip results over the LOSS_LOOKBACK_DAYS before it.
+ */
+export async function getVisibilityChanges(params: {
+  since: Date;
+  platform?: string;
+}): Promise<VisibilityChange[]> {
+  const snapshots = await prisma.traderProfileSnapshot.findMany({
+    where: {
+      ...(params.platform && { platform: params.platform }),
+      capturedAt: { gte: params.since },
+      changedFields: { has: 'positionShow' },
+    },
+    orderBy: { capturedAt: 'desc' },
+    select: { leadId: true, nickname: true, capturedAt: true, positionShow: true, changes: true },
+  });
+
+  // Only known → known flips; a first report (from null) isn't a change of mind
+  const flips = snapshots.filter((s) => {
+    const change = (s.changes as ProfileChanges | null)?.positionShow;
+    return typeof change?.from === 'boolean' && typeof s.positionShow === 'boolean';
+  });
+  if (flips.length === 0) return [];
+
+  const lookbackMs = LOSS_LOOKBACK_DAYS * DAY_MS;
+  const earliest = Math.min(...flips.map((s) => s.capturedAt.getTime())) - lookbackMs;
+  const trips = await prisma.tradeRoundTrip.findMany({
+    where: {
+      leadId: { in: [...new Set(flips.map((s) => s.leadId))] },
+      status: 'CLOSED',
+      closedAt: { gte: new Date(earliest) },
+    },
+    select: { leadId: true, closedAt: true, realizedPnl: true },
+  });
+
+  return flips.map((s) => summarizeVisibilityChange({ ...s, positionShow: s.positionShow! }, trips));
+}
@@ -0,0 +1,127 @@
+/**
+ * Tracked Trader Roster Service
+ *
+ * The scraper's trader list lives in the TrackedTrader table so traders can
+ * be added, paused or removed at runtime via /admin/traders. The scheduler
+ * re-reads the enabled roster at the start of every cycle.
+ *
+ * SCRAPER_LEAD_IDS (config.scraper.leadIds) is only used to seed an empty
+ * roster on first start.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db/prisma.js';
+import { logger } from '../utils/logger.js';
+
+export interface TrackedTraderInput {
+  leadId: string;
+  platform?: string;
+  enabled?: boolean;
+  tags?: string[];
+  notes?: string | null;
+  scrapePriority?: number;
+}
+
+export type TrackedTraderPatch = Omit<TrackedTraderInput, 'leadId' | 'platform'>;
+
+/**
+ * List roster entries, highest scrape priority first.
+ */
+export async function listTrackedTraders(
+  filter: { platform?: string; enabled?: boolean; tag?: string } = {},
+) {
+  return prisma.trackedTrader.findMany({
+    where: {
+      platform: filter.platform ?? 'binance',
+      ...(filter.enabled !== undefined && { enabled: filter.enabled }),
+      ...(filter.tag && { tags: { has: filter.tag } }),
+    },
+    orderBy: [{ scrapePriority: 'desc' }, { addedAt: 'asc' }],
+  });
+}
+
+/**
+ * Get the leadIds the scheduler should scrape this cycle.
+ */
+export async function getEnabledLeadIds(platform: string = 'binance'): Promise<string[]> {
+  const rows = await prisma.trackedTrader.findMany({
+    where: { platform, enabled: true },
+    orderBy: [{ scrapePriority: 'desc' }, { addedAt: 'asc' }],
+    select: { leadId: true },
+  });
+  return rows.map((r) => r.leadId);
+}
+
+export async function getTrackedTrader(leadId: string) {
+  return prisma.trackedTrader.findUnique({ where: { leadId } });
+}
+
+/**
+ * Add a trader to the roster. Returns null if the leadId is already tracked.
+ */
+export async function addTrackedTrader(input: TrackedTraderInput) {
+  try {
+    return await prisma.trackedTrader.create({
+      data: {
+        leadId: input.leadId,
+        platform: input.platform ?? 'binance',
+        enabled: input.enabled ?? true,
+        tags: input.tags ?? [],
+        notes: input.notes ?? null,
+        scrapePriority: input.scrapePriority ?? 0,
+      },
+    });
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') {
+      return null;
+    }
+    throw err;
+  }
+}
+
+/**
+ * Update a roster entry. Returns null if the leadId is not tracked.
+ */
+export async function updateTrackedTrader(leadId: string, patch: TrackedTraderPatch) {
+  const existing = await getTrackedTrader(leadId);
+  if (!existing) return null;
+
+  return prisma.trackedTrader.update({
+    where: { leadId },
+    data: {
+      ...(patch.enabled !== undefined && { enabled: patch.enabled }),
+      ...(patch.tags !== undefined && { tags: patch.tags }),
+      ...(patch.notes !== undefined && { notes: patch.notes }),
+      ...(patch.scrapePriority !== undefined && { scrapePriority: patch.scrapePriority }),
+    },
+  });
+}
+
+/**
+ * Remove a trader from the roster. Collected data (LeadTrader, snapshots,
+ * events) is kept. Returns false if the leadId was not tracked.
+ */
+export async function removeTrackedTrader(leadId: string): Promise<boolean> {
+  const result = await prisma.trackedTrader.deleteMany({ where: { leadId } });
+  return result.count > 0;
+}
+
+/**
+ * One-time seed: populate an empty roster from SCRAPER_LEAD_IDS.
+ * Does nothing once the roster has any entries.
+ */
+export async function seedTrackedTraders(
+  leadIds: readonly string[],
+  platform: string = 'binance',
+): Promise<number> {
+  const existing = await prisma.trackedTrader.count({ where: { platform } });
+  if (existing > 0 || leadIds.length === 0) return 0;
+
+  const result = await prisma.trackedTrader.createMany({
+    data: leadIds.map((leadId) => ({ leadId, platform, tags: ['seed'] })),
+    skipDuplicates: true,
+  });
+
+  logger.info({ seeded: result.count }, 'Seeded tracked trader roster from SCRAPER_LEAD_IDS');
+  return result.count;
+}
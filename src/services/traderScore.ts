@@ -1,5 +1,5 @@
 import { prisma } from '../db/prisma.js';
-import { getRealizedPnlSum } from './event.js';
+import { getRoundTripPnlSum } from './tradeRoundTrip.js';
 
 /**
  * Normalize score to 0-100 range
@@ -18,14 +18,16 @@ function normalizeScore(pnlSum: number): number {
 }
 
 /**
- * Update trader score based on realized PnL
+ * Update trader score based on the realized PnL of round trips closed in
+ * the 30 days before `now`
  */
 export async function updateTraderScore(
     leadId: string,
-    platform: string = 'binance'
+    platform: string = 'binance',
+    now: Date = new Date()
 ): Promise<number> {
-    // Get realized PnL sum for last 30 days
-    const pnlSum = await getRealizedPnlSum(leadId, platform, 30);
+    // Realized PnL of CLOSED round trips, by close time
+    const pnlSum = await getRoundTripPnlSum(leadId, platform, 30, now);
     const score30d = normalizeScore(pnlSum);
 
     // Upsert trader score
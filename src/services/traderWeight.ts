@@ -4,16 +4,21 @@
  * Computes and persists the consensus weight for each trader.
  *
  * Formula:
- *   traderWeight = baseWeight × (0.7 + 0.3 × winAdj) × availabilityPenalty
+ *   traderWeight = baseWeight × (0.7 + 0.3 × winAdj) × availabilityPenalty × liquidationPenalty
  *
  *   baseWeight         = (qualityScore / 100) × confidenceFactor
  *   confidenceFactor   = high:1.0, medium:0.7, low:0.4
  *   winAdj             = clamp(winRate ?? 0, 0, 1)
  *   availabilityPenalty = positionShow===true ? 1.0 : 0.6
+ *   liquidationPenalty = max(0.25, 1 − 0.25 × liquidations in 30d)
  */
 
 import { prisma } from '../db/prisma.js';
 import { computeTraderMetrics } from './traderMetrics.js';
+import { toReaderPayload } from './platformAdapter.js';
+import { hydrateRawIngest } from './rawIngestStore.js';
+import { getMetricRoundTrips } from './tradeRoundTrip.js';
+import { getMetricLiquidations } from './liquidation.js';
 import { logger } from '../utils/logger.js';
 
 // ────────────────────────────────────────────────────────────
@@ -25,6 +30,7 @@ export interface TraderWeightInput {
   confidence: 'low' | 'medium' | 'high';
   winRate: number | null;                   // 0.0-1.0
   positionShow: boolean | null;             // null = unknown → treated as hidden
+  liquidations30d?: number;                 // LIQUIDATED positions in the last 30 days
 }
 
 export interface TraderWeightResult {
@@ -34,6 +40,7 @@ export interface TraderWeightResult {
     confidenceFactor: number;
     winAdj: number;
     availabilityPenalty: number;
+    liquidationPenalty: number;
   };
 }
 
@@ -47,6 +54,10 @@ const CONFIDENCE_FACTORS: Record<string, number> = {
   low: 0.4,
 };
 
+/** Weight lost per liquidation, and the floor of the liquidation penalty */
+const LIQUIDATION_PENALTY_STEP = 0.25;
+const MIN_LIQUIDATION_PENALTY = 0.25;
+
 // ────────────────────────────────────────────────────────────
 // Pure computation
 // ────────────────────────────────────────────────────────────
@@ -59,8 +70,12 @@ export function computeTraderWeight(input: TraderWeightInput): TraderWeightResul
   const baseWeight = (input.qualityScore / 100) * confidenceFactor;
   const winAdj = Math.min(Math.max(input.winRate ?? 0, 0), 1);
   const availabilityPenalty = input.positionShow === true ? 1.0 : 0.6;
+  const liquidationPenalty = Math.max(
+    MIN_LIQUIDATION_PENALTY,
+    1 - LIQUIDATION_PENALTY_STEP * (input.liquidations30d ?? 0),
+  );
 
-  const traderWeight = baseWeight * (0.7 + 0.3 * winAdj) * availabilityPenalty;
+  const traderWeight = baseWeight * (0.7 + 0.3 * winAdj) * availabilityPenalty * liquidationPenalty;
 
   return {
     traderWeight: Math.round(traderWeight * 10000) / 10000, // 4 decimal precision
@@ -69,6 +84,7 @@ export function computeTraderWeight(input: TraderWeightInput): TraderWeightResul
       confidenceFactor,
       winAdj: Math.round(winAdj * 10000) / 10000,
       availabilityPenalty,
+      liquidationPenalty,
     },
   };
 }
@@ -81,7 +97,8 @@ export function computeTraderWeight(input: TraderWeightInput): TraderWeightResul
  * Compute metrics + weight for a trader and persist to TraderScore.
  *
  * 1. Reads latest RawIngest payload
- * 2. Computes metrics via computeTraderMetrics
+ * 2. Computes metrics via computeTraderMetrics (trades = closed round trips,
+ *    plus liquidations)
  * 3. Reads positionShow from LeadTrader
  * 4. Computes weight via computeTraderWeight
  * 5. Persists to TraderScore
@@ -91,12 +108,13 @@ export function computeTraderWeight(input: TraderWeightInput): TraderWeightResul
 export async function updateTraderWeight(
   leadId: string,
   platform: string = 'binance',
+  now: Date = new Date(),
 ): Promise<number | null> {
-  // 1. Get latest raw ingest
-  const latestIngest = await prisma.rawIngest.findFirst({
-    where: { leadId },
+  // 1. Get latest raw ingest (as of now)
+  const latestIngest = await hydrateRawIngest(await prisma.rawIngest.findFirst({
+    where: { leadId, fetchedAt: { lte: now } },
     orderBy: { fetchedAt: 'desc' },
-  });
+  }));
 
   if (!latestIngest) {
     logger.debug({ leadId }, 'No ingest data for weight computation');
@@ -104,7 +122,14 @@ export async function updateTraderWeight(
   }
 
   // 2. Compute metrics
-  const metrics = computeTraderMetrics(latestIngest.payload);
+  const roundTrips = await getMetricRoundTrips(leadId, platform, now);
+  const liquidations = await getMetricLiquidations(leadId, platform, now);
+  const metrics = computeTraderMetrics(
+    toReaderPayload(latestIngest.platform, latestIngest.payload),
+    roundTrips,
+    liquidations,
+    now,
+  );
 
   // 3. Get positionShow from LeadTrader
   const trader = await prisma.leadTrader.findUnique({
@@ -120,6 +145,7 @@ export async function updateTraderWeight(
     confidence: metrics.confidence,
     winRate: metrics.winRate,
     positionShow,
+    liquidations30d: metrics.liquidations.count30d,
   });
 
   // 5. Persist to TraderScore
@@ -130,6 +156,7 @@ export async function updateTraderWeight(
       confidence: metrics.confidence,
       winRate: metrics.winRate,
       sampleSize: metrics.sampleSize,
+      liquidations: metrics.liquidations.count30d,
       traderWeight,
     },
     create: {
@@ -140,6 +167,7 @@ export async function updateTraderWeight(
       confidence: metrics.confidence,
       winRate: metrics.winRate,
       sampleSize: metrics.sampleSize,
+      liquidations: metrics.liquidations.count30d,
       traderWeight,
     },
   });
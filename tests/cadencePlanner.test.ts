@@ -0,0 +1,69 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  maxTradersPerTick,
+  pickDueTraders,
+  planCadences,
+  scoreActivity,
+  type TraderActivity,
+} from '../src/services/cadencePlanner.js';
+
+const MINUTE_MS = 60 * 1000;
+
+function activity(leadId: string, eventsPerHour: number, openPositions: number, consensusSymbols: number): TraderActivity {
+  return { leadId, eventsPerHour, openPositions, consensusSymbols };
+}
+
+const options = {
+  minIntervalMs: MINUTE_MS,
+  maxIntervalMs: 16 * MINUTE_MS,
+  requestBudgetPerMinute: 1000,
+  requestsPerScrape: 6,
+};
+
+test('activity factors saturate, so the score stays within 0..1', () => {
+  assert.equal(scoreActivity(activity('a', 0, 0, 0)), 0);
+  assert.equal(scoreActivity(activity('a', 6, 5, 3)), 1);
+  assert.equal(scoreActivity(activity('a', 600, 50, 30)), 1);
+  assert.equal(scoreActivity(activity('a', 3, 0, 0)), 0.25);
+});
+
+test('intervals run geometrically from max (dormant) to min (fully active)', () => {
+  const plan = planCadences(
+    [activity('dormant', 0, 0, 0), activity('half', 6, 0, 0), activity('busy', 6, 5, 3)],
+    options,
+  );
+  assert.equal(plan.budgetScale, 1);
+  assert.equal(plan.cadences.get('dormant')!.intervalMs, 16 * MINUTE_MS);
+  assert.equal(plan.cadences.get('half')!.intervalMs, 4 * MINUTE_MS);
+  assert.equal(plan.cadences.get('busy')!.intervalMs, MINUTE_MS);
+});
+
+test('intervals stretch uniformly to fit the request budget', () => {
+  // Two fully active traders want 2 × 6 requests a minute; the budget allows 6
+  const plan = planCadences(
+    [activity('a', 6, 5, 3), activity('b', 6, 5, 3)],
+    { ...options, requestBudgetPerMinute: 6 },
+  );
+  assert.equal(plan.budgetScale, 2);
+  assert.equal(plan.plannedRequestsPerMinute, 6);
+  assert.equal(plan.cadences.get('a')!.intervalMs, 2 * MINUTE_MS);
+  assert.equal(plan.cadences.get('b')!.intervalMs, 2 * MINUTE_MS);
+});
+
+test('a tick takes the most overdue traders first, within its budget', () => {
+  const now = 100 * MINUTE_MS;
+  const schedule = [
+    { leadId: 'later', nextDueAt: now + MINUTE_MS },
+    { leadId: 'due', nextDueAt: now },
+    { leadId: 'overdue', nextDueAt: now - 5 * MINUTE_MS },
+    { leadId: 'slightly', nextDueAt: now - MINUTE_MS },
+  ];
+  assert.deepEqual(pickDueTraders(schedule, now, 10), ['overdue', 'slightly', 'due']);
+  assert.deepEqual(pickDueTraders(schedule, now, 2), ['overdue', 'slightly']);
+
+  // 60 requests a minute, 10s ticks, 6 requests per scrape → 1 trader; never 0
+  assert.equal(maxTradersPerTick(60, 10_000, 6), 1);
+  assert.equal(maxTradersPerTick(600, 10_000, 6), 16);
+  assert.equal(maxTradersPerTick(1, 10_000, 6), 1);
+});
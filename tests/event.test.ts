@@ -0,0 +1,71 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { parseEventTimeText, resolveEventTime } from '../src/services/event.js';
+import { normalizeBinanceOrders } from '../src/schemas/ingest.js';
+
+const iso = (date: Date | null) => date?.toISOString() ?? null;
+
+test('event time text is read in a non-UTC zone', () => {
+  const fetchedAt = new Date('2026-07-02T00:00:00Z');
+  // Istanbul is UTC+3 all year
+  assert.equal(iso(parseEventTimeText('07-01, 12:00:00', fetchedAt, 'Europe/Istanbul')), '2026-07-01T09:00:00.000Z');
+  assert.equal(iso(parseEventTimeText('07-01, 12:00:00', fetchedAt, 'UTC')), '2026-07-01T12:00:00.000Z');
+});
+
+test('event time text takes the offset in force on its own side of a DST switch', () => {
+  const fetchedAt = new Date('2026-03-10T00:00:00Z');
+  // New York springs forward at 02:00 local on 2026-03-08 (EST −5 → EDT −4)
+  const ny = (text: string) => iso(parseEventTimeText(text, fetchedAt, 'America/New_York'));
+  assert.equal(ny('03-07, 12:00:00'), '2026-03-07T17:00:00.000Z');
+  assert.equal(ny('03-08, 01:30:00'), '2026-03-08T06:30:00.000Z');
+  assert.equal(ny('03-08, 03:30:00'), '2026-03-08T07:30:00.000Z');
+  assert.equal(ny('03-09, 12:00:00'), '2026-03-09T16:00:00.000Z');
+
+  // London falls back at 02:00 local on 2026-10-25 (BST +1 → GMT)
+  const london = (text: string) => iso(parseEventTimeText(text, new Date('2026-10-27T00:00:00Z'), 'Europe/London'));
+  assert.equal(london('10-24, 12:00:00'), '2026-10-24T11:00:00.000Z');
+  assert.equal(london('10-26, 12:00:00'), '2026-10-26T12:00:00.000Z');
+});
+
+test('event time text after the fetch belongs to the previous year', () => {
+  const fetchedAt = new Date('2026-01-01T01:00:00Z');
+  assert.equal(iso(parseEventTimeText('12-31, 23:00:00', fetchedAt, 'UTC')), '2025-12-31T23:00:00.000Z');
+  assert.equal(parseEventTimeText('not a time', fetchedAt, 'UTC'), null);
+  assert.equal(parseEventTimeText(null, fetchedAt, 'UTC'), null);
+});
+
+test('the order epoch is preferred over the text', () => {
+  const fetchedAt = new Date('2026-07-02T00:00:00Z');
+  const epoch = Date.parse('2026-07-01T08:15:30Z');
+
+  assert.deepEqual(resolveEventTime({ eventTimeMs: epoch, eventTimeText: '01-01, 00:00:00' }, fetchedAt), {
+    eventTime: new Date(epoch),
+    eventTimeSource: 'ORDER_EPOCH',
+  });
+  // No usable epoch: falls back to the text (EVENT_TIME_TEXT_TZ, UTC by default)
+  assert.deepEqual(resolveEventTime({ eventTimeMs: null, eventTimeText: '07-01, 08:15:30' }, fetchedAt), {
+    eventTime: new Date(epoch),
+    eventTimeSource: 'TEXT',
+  });
+  assert.equal(resolveEventTime({ eventTimeMs: 0, eventTimeText: '07-01, 08:15:30' }, fetchedAt).eventTimeSource, 'TEXT');
+});
+
+test('Binance event text is formatted from the resolved epoch', () => {
+  const orderTime = Date.parse('2026-07-01T08:15:30Z');
+  const base = { symbol: 'BTCUSDT', side: 'BUY', positionSide: 'LONG', avgPrice: 100, executedQty: 1, totalPnl: 0 };
+  const [fromOrderTime, noTime] = normalizeBinanceOrders({
+    leadId: 'L1',
+    fetchedAt: '2026-07-02T00:00:00Z',
+    orderHistory: {
+      allOrders: [
+        { ...base, orderTime, orderUpdateTime: Number.NaN },
+        { ...base, avgPrice: 101, orderUpdateTime: Number.NaN },
+      ],
+    },
+  });
+
+  assert.equal(fromOrderTime.eventTimeMs, orderTime);
+  assert.equal(fromOrderTime.eventTimeText, '07-01, 08:15:30');
+  assert.equal(noTime.eventTimeMs, null);
+  assert.equal(noTime.eventTimeText, null);
+});
@@ -0,0 +1,35 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { candlesCoverTrade, type ExcursionCandle, type ExcursionTrade } from '../src/services/excursion.js';
+
+const MINUTE_MS = 60 * 1000;
+const T0 = Date.UTC(2026, 0, 1, 12, 0);
+
+function candle(minute: number): ExcursionCandle {
+  const openMs = T0 + minute * MINUTE_MS;
+  return { openTime: new Date(openMs), closeTime: new Date(openMs + MINUTE_MS - 1), high: 101, low: 99 };
+}
+
+// Open 12:00:30, close 12:04:30 → candles 12:00 .. 12:04
+const trade: ExcursionTrade = {
+  symbol: 'BTCUSDT',
+  direction: 'LONG',
+  entryPrice: 100,
+  openedAt: new Date(T0 + 30 * 1000),
+  closedAt: new Date(T0 + 4 * MINUTE_MS + 30 * 1000),
+};
+
+test('a full run of candles covers the trade', () => {
+  assert.equal(candlesCoverTrade(trade, [0, 1, 2, 3, 4].map(candle)), true);
+});
+
+test('candles missing in the middle do not cover the trade', () => {
+  assert.equal(candlesCoverTrade(trade, [0, 1, 3, 4].map(candle)), false);
+  assert.equal(candlesCoverTrade(trade, [0, 4].map(candle)), false);
+});
+
+test('candles short of either end do not cover the trade', () => {
+  assert.equal(candlesCoverTrade(trade, [1, 2, 3, 4].map(candle)), false);
+  assert.equal(candlesCoverTrade(trade, [0, 1, 2, 3].map(candle)), false);
+  assert.equal(candlesCoverTrade(trade, []), false);
+});
@@ -0,0 +1,48 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyDisappearance, estimateLiquidationPrice } from '../src/services/liquidation.js';
+
+test('liquidation price comes from entry / leverage on both margin types', () => {
+  // 10x long at 100: margin per unit 10 → (100 - 10) / (1 - 0.004)
+  const long = estimateLiquidationPrice({ side: 'LONG', entryPrice: 100, leverage: 10 }, 0.004);
+  assert.equal(long, Math.round((90 / 0.996) * 1e8) / 1e8);
+
+  // 10x short at 100 → (100 + 10) / (1 + 0.004)
+  const short = estimateLiquidationPrice({ side: 'SHORT', entryPrice: 100, leverage: 10 }, 0.004);
+  assert.equal(short, Math.round((110 / 1.004) * 1e8) / 1e8);
+
+  // Same leverage, same estimate regardless of marginType / marginUSDT
+  const snapshot = { side: 'LONG', entryPrice: 100, leverage: 10, marginType: 'ISOLATED', marginUSDT: 999 };
+  assert.equal(estimateLiquidationPrice(snapshot, 0.004), long);
+});
+
+test('liquidation price is null without entry or leverage, or at 1x long', () => {
+  assert.equal(estimateLiquidationPrice({ side: 'LONG', entryPrice: 100, leverage: null }), null);
+  assert.equal(estimateLiquidationPrice({ side: 'LONG', entryPrice: 0, leverage: 10 }), null);
+  assert.equal(estimateLiquidationPrice({ side: 'LONG', entryPrice: 100, leverage: 1 }, 0.004), null);
+});
+
+test('a close order wins over everything else', () => {
+  assert.equal(classifyDisappearance({
+    direction: 'LONG', marginType: 'ISOLATED', hasCloseOrder: true, liquidationPrice: 90, worstPrice: 80,
+  }), 'CLOSED_BY_ORDER');
+});
+
+test('an ISOLATED position is LIQUIDATED when the worst price reaches the estimate', () => {
+  const base = { marginType: 'ISOLATED', hasCloseOrder: false, proximityPct: 1 };
+  assert.equal(classifyDisappearance({ ...base, direction: 'LONG', liquidationPrice: 90, worstPrice: 90.8 }), 'LIQUIDATED');
+  assert.equal(classifyDisappearance({ ...base, direction: 'LONG', liquidationPrice: 90, worstPrice: 91 }), 'UNKNOWN');
+  assert.equal(classifyDisappearance({ ...base, direction: 'SHORT', liquidationPrice: 110, worstPrice: 109 }), 'LIQUIDATED');
+  assert.equal(classifyDisappearance({ ...base, direction: 'SHORT', liquidationPrice: 110, worstPrice: 108 }), 'UNKNOWN');
+  assert.equal(classifyDisappearance({ ...base, direction: 'LONG', liquidationPrice: null, worstPrice: 80 }), 'UNKNOWN');
+  assert.equal(classifyDisappearance({ ...base, direction: 'LONG', liquidationPrice: 90, worstPrice: null }), 'UNKNOWN');
+});
+
+test('a CROSS position without a close order stays UNKNOWN', () => {
+  assert.equal(classifyDisappearance({
+    direction: 'LONG', marginType: 'CROSS', hasCloseOrder: false, liquidationPrice: 90, worstPrice: 50, proximityPct: 1,
+  }), 'UNKNOWN');
+  assert.equal(classifyDisappearance({
+    direction: 'LONG', marginType: null, hasCloseOrder: false, liquidationPrice: 90, worstPrice: 50, proximityPct: 1,
+  }), 'UNKNOWN');
+});
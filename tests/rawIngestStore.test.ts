@@ -0,0 +1,14 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { countSectionRefs, splitPayload } from '../src/services/rawIngestStore.js';
+
+test('identical sections share one hash and count once per reference', () => {
+  const { sections } = splitPayload({ leadId: 'L1', activePositions: [], orderHistory: [], roiSeries: [1, 2] });
+  const sectionHashes = Object.fromEntries([...sections].map(([name, s]) => [name, s.hash]));
+  assert.equal(sectionHashes.activePositions, sectionHashes.orderHistory);
+
+  const refs = countSectionRefs([{ sectionHashes }, { sectionHashes }, { sectionHashes: null }]);
+  assert.equal(refs.get(sectionHashes.activePositions), 4);
+  assert.equal(refs.get(sectionHashes.roiSeries), 2);
+  assert.equal(refs.size, 2);
+});
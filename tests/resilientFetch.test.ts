@@ -0,0 +1,118 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  configureResilience,
+  fetchEndpointJson,
+  getEndpointHealth,
+  resetEndpointHealth,
+} from '../src/services/resilientFetch.js';
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+function breakerState(endpoint: string): string {
+  return (getEndpointHealth().endpoints[endpoint] as { state: string }).state;
+}
+
+test('breaker goes CLOSED → OPEN → HALF_OPEN → CLOSED against a flaky server', async (t) => {
+  let failing = true;
+  let hits = 0;
+  const server = createServer((_req, res) => {
+    hits++;
+    res.writeHead(failing ? 503 : 200, { 'Content-Type': 'application/json' });
+    res.end(failing ? 'upstream down' : JSON.stringify({ success: true, data: { ok: true } }));
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  t.after(() => server.close());
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/positions`;
+
+  resetEndpointHealth();
+  configureResilience({
+    retry: { maxRetries: 1, baseDelayMs: 1, maxDelayMs: 5 },
+    breaker: { failureThreshold: 2, cooldownMs: 100 },
+  });
+
+  // A 503 is retried once, then counts as one failure
+  const first = await fetchEndpointJson('positions', url, {}, 1000);
+  assert.equal(first.success, false);
+  assert.equal(first.attempts, 2);
+  assert.equal(breakerState('positions'), 'CLOSED');
+
+  await fetchEndpointJson('positions', url, {}, 1000);
+  assert.equal(breakerState('positions'), 'OPEN');
+
+  // Short-circuited during the cooldown: no request reaches the server
+  const before = hits;
+  const blocked = await fetchEndpointJson('positions', url, {}, 1000);
+  assert.equal(blocked.shortCircuited, true);
+  assert.equal(hits, before);
+
+  // After the cooldown one probe goes out; a failed probe reopens at once
+  await sleep(120);
+  const probe = fetchEndpointJson('positions', url, {}, 1000);
+  assert.equal(breakerState('positions'), 'HALF_OPEN');
+  const concurrent = await fetchEndpointJson('positions', url, {}, 1000);
+  assert.equal(concurrent.shortCircuited, true);
+  assert.equal((await probe).success, false);
+  assert.equal(breakerState('positions'), 'OPEN');
+
+  // A successful probe closes it again
+  failing = false;
+  await sleep(120);
+  const recovered = await fetchEndpointJson<{ ok: boolean }>('positions', url, {}, 1000);
+  assert.deepEqual(recovered.data, { ok: true });
+  assert.equal(breakerState('positions'), 'CLOSED');
+});
+
+test('a long Retry-After opens the breaker until then instead of retrying', async (t) => {
+  let hits = 0;
+  const server = createServer((_req, res) => {
+    hits++;
+    res.writeHead(429, { 'Retry-After': '1' });
+    res.end('slow down');
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  t.after(() => server.close());
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/roiSeries`;
+
+  resetEndpointHealth();
+  configureResilience({
+    retry: { maxRetries: 1, baseDelayMs: 1, maxDelayMs: 5 },
+    breaker: { failureThreshold: 5, cooldownMs: 100 },
+  });
+
+  const first = await fetchEndpointJson('roiSeries', url, {}, 1000);
+  assert.equal(first.success, false);
+  assert.equal(first.attempts, 1);
+  assert.equal(breakerState('roiSeries'), 'OPEN');
+
+  // Still held off after the usual cooldown would have passed
+  await sleep(150);
+  const blocked = await fetchEndpointJson('roiSeries', url, {}, 1000);
+  assert.equal(blocked.shortCircuited, true);
+  assert.equal(hits, 1);
+});
+
+test('a stalled body times out under the request timeout', async (t) => {
+  const server = createServer((_req, res) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.write('{"success":true,"data":');
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  t.after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/leadCommon`;
+
+  resetEndpointHealth();
+  configureResilience({
+    retry: { maxRetries: 0, baseDelayMs: 1, maxDelayMs: 5 },
+    breaker: { failureThreshold: 5, cooldownMs: 100 },
+  });
+
+  const result = await fetchEndpointJson('leadCommon', url, {}, 100);
+  assert.equal(result.success, false);
+  assert.match(result.error ?? '', /Timeout after 100ms/);
+});
@@ -0,0 +1,70 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { fetchOrderHistoryChunked, scrapeTraderDetailed } from '../src/services/binanceScraper.js';
+import { listFixtureCycles, listFixtureTraders, loadTraderFixture } from '../src/services/scrapeFixtures.js';
+import { computeTraderMetrics } from '../src/services/traderMetrics.js';
+
+const DIR = new URL('../fixtures/scrape-replay', import.meta.url).pathname;
+const HOUR_MS = 60 * 60 * 1000;
+
+async function loadOnly() {
+  const [cycleKey] = await listFixtureCycles(DIR);
+  const [leadId] = await listFixtureTraders({ dir: DIR, cycleKey });
+  return { leadId, fixture: await loadTraderFixture({ dir: DIR, cycleKey }, leadId) };
+}
+
+test('a recorded scrape is rebuilt at the recorded time', async () => {
+  const { leadId, fixture } = await loadOnly();
+  const { payload, endpoints } = await scrapeTraderDetailed(leadId, { ...fixture.meta.options, replay: fixture });
+
+  assert.equal(payload.fetchedAt, new Date(fixture.meta.now).toISOString());
+  assert.equal(payload.endTime, fixture.meta.now);
+  assert.deepEqual(payload.activePositions.map((p) => p.symbol), ['BTCUSDT']);
+  assert.deepEqual(payload.orderHistory.allOrders.map((o) => o.symbol), ['BTCUSDT', 'ETHUSDT']);
+  assert.ok(endpoints.every((e) => e.success));
+});
+
+test('the scrape requester serves the recorded gap fill next, then runs dry', async () => {
+  const { leadId, fixture } = await loadOnly();
+  const { payload, request } = await scrapeTraderDetailed(leadId, { ...fixture.meta.options, replay: fixture });
+  const oldest = Math.min(...payload.orderHistory.allOrders.map((o) => o.orderUpdateTime));
+
+  // orderHistory.1: the gap between the high-water mark and the page's oldest order
+  const gap = await fetchOrderHistoryChunked(leadId, oldest - 6 * HOUR_MS, oldest, {
+    pageSize: fixture.meta.options.orderPageSize,
+    chunkMs: 24 * HOUR_MS,
+    request,
+  });
+  assert.equal(gap.requests, 1);
+  assert.equal(gap.failedWindows, 0);
+  assert.deepEqual(gap.allOrders.map((o) => `${o.symbol} ${o.side}`), ['ETHUSDT SELL']);
+
+  // Nothing recorded past it: fails instead of reaching Binance
+  const extra = await request('orderHistory', 'unused');
+  assert.equal(extra.success, false);
+  assert.equal(extra.error, 'No recorded response for orderHistory.2');
+
+  // A failed window is reported by its range so a backfill can say what is missing
+  const dry = await fetchOrderHistoryChunked(leadId, oldest - 12 * HOUR_MS, oldest, {
+    pageSize: fixture.meta.options.orderPageSize,
+    chunkMs: 6 * HOUR_MS,
+    request,
+  });
+  assert.equal(dry.failedWindows, 2);
+  assert.deepEqual(dry.failedRanges, [
+    [oldest - 12 * HOUR_MS, oldest - 6 * HOUR_MS],
+    [oldest - 6 * HOUR_MS, oldest],
+  ]);
+});
+
+test('metrics windows follow the pinned clock, not wall time', async () => {
+  const { leadId, fixture } = await loadOnly();
+  const { payload } = await scrapeTraderDetailed(leadId, { ...fixture.meta.options, replay: fixture });
+  const now = new Date(fixture.meta.now);
+  const trips = [{ closedAt: new Date(now.getTime() - 2 * HOUR_MS), realizedPnl: 12.5 }];
+
+  const pinned = computeTraderMetrics(payload, trips, [], now);
+  const later = computeTraderMetrics(payload, trips, [], new Date(now.getTime() + 40 * 24 * HOUR_MS));
+  assert.equal(pinned.sampleSize, 1);
+  assert.equal(later.sampleSize, 0);
+});
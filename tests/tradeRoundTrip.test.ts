@@ -0,0 +1,48 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { buildRoundTrips, type RoundTripFill } from '../src/services/tradeRoundTrip.js';
+import { normalizeBinanceOrders } from '../src/schemas/ingest.js';
+
+const at = (minute: number) => new Date(Date.UTC(2026, 0, 1, 0, minute));
+
+function fill(key: string, eventType: string, minute: number, price: number, amount: number, realizedPnl: number | null = null): RoundTripFill {
+  return { eventKey: key, eventType, symbol: 'BTCUSDT', time: at(minute), price, amount, realizedPnl };
+}
+
+test('losing close with a signed realizedPnl makes a losing trip', () => {
+  const { trips } = buildRoundTrips([
+    fill('a', 'OPEN_LONG', 0, 100, 1),
+    fill('b', 'CLOSE_LONG', 10, 90, 1, -10),
+  ]);
+  assert.equal(trips.length, 1);
+  assert.equal(trips[0].status, 'CLOSED');
+  assert.equal(trips[0].realizedPnl, -10);
+});
+
+test('close fills without realizedPnl are priced from the entry VWAP', () => {
+  const { trips } = buildRoundTrips([
+    fill('a', 'OPEN_LONG', 0, 100, 1),
+    fill('b', 'OPEN_LONG', 1, 110, 1),
+    fill('c', 'CLOSE_LONG', 5, 95, 2),
+    fill('d', 'OPEN_SHORT', 6, 200, 1),
+    fill('e', 'CLOSE_SHORT', 7, 210, 1),
+  ]);
+  const [long, short] = trips;
+  assert.equal(long.entryPrice, 105);
+  assert.equal(long.realizedPnl, -20);
+  assert.equal(short.realizedPnl, -10);
+});
+
+test('Binance close orders keep a negative totalPnl; opens carry none', () => {
+  const events = normalizeBinanceOrders({
+    leadId: 'L1',
+    fetchedAt: at(0).toISOString(),
+    orderHistory: {
+      allOrders: [
+        { symbol: 'BTCUSDT', side: 'BUY', positionSide: 'LONG', avgPrice: 100, executedQty: 1, totalPnl: 0, orderTime: at(0).getTime(), orderUpdateTime: at(0).getTime() },
+        { symbol: 'BTCUSDT', side: 'SELL', positionSide: 'LONG', avgPrice: 90, executedQty: 1, totalPnl: -10, orderTime: at(5).getTime(), orderUpdateTime: at(5).getTime() },
+      ],
+    },
+  } as never);
+  assert.deepEqual(events.map((e) => [e.eventType, e.realizedPnl]), [['OPEN_LONG', null], ['CLOSE_LONG', -10]]);
+});
@@ -0,0 +1,52 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { buildRoundTrips, type RoundTripFill } from '../src/services/tradeRoundTrip.js';
+import { summarizeVisibilityChange, visibilityChangeSeverity } from '../src/services/traderProfile.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const hiddenAt = new Date(Date.UTC(2026, 0, 10));
+
+function tripsOf(leadId: string, fills: Omit<RoundTripFill, 'symbol'>[]) {
+  return buildRoundTrips(fills.map((f) => ({ ...f, symbol: 'ETHUSDT' })))
+    .trips.map((t) => ({ leadId, closedAt: t.closedAt, realizedPnl: t.realizedPnl }));
+}
+
+const before = (days: number) => new Date(hiddenAt.getTime() - days * DAY_MS);
+const hide = { leadId: 'L1', nickname: 'alice', capturedAt: hiddenAt, positionShow: false };
+
+test('hiding positions after a losing round trip is a HIGH anomaly', () => {
+  const trips = tripsOf('L1', [
+    { eventKey: 'a', eventType: 'OPEN_LONG', time: before(3), price: 3000, amount: 1, realizedPnl: null },
+    { eventKey: 'b', eventType: 'CLOSE_LONG', time: before(2), price: 2800, amount: 1, realizedPnl: -200 },
+  ]);
+  const change = summarizeVisibilityChange(hide, trips);
+
+  assert.equal(change.recentLosses, 1);
+  assert.equal(change.recentRealizedPnl, -200);
+  assert.equal(visibilityChangeSeverity(change), 'HIGH');
+});
+
+test('a loss priced from the entry VWAP (no stored PnL) also counts', () => {
+  const trips = tripsOf('L1', [
+    { eventKey: 'a', eventType: 'OPEN_SHORT', time: before(3), price: 3000, amount: 2, realizedPnl: null },
+    { eventKey: 'b', eventType: 'CLOSE_SHORT', time: before(1), price: 3100, amount: 2, realizedPnl: null },
+  ]);
+  const change = summarizeVisibilityChange(hide, trips);
+
+  assert.equal(change.recentRealizedPnl, -200);
+  assert.equal(visibilityChangeSeverity(change), 'HIGH');
+});
+
+test('hiding after wins, or losses outside the lookback, is MEDIUM; showing is LOW', () => {
+  const trips = tripsOf('L1', [
+    { eventKey: 'a', eventType: 'OPEN_LONG', time: before(20), price: 3000, amount: 1, realizedPnl: null },
+    { eventKey: 'b', eventType: 'CLOSE_LONG', time: before(10), price: 2500, amount: 1, realizedPnl: -500 },
+    { eventKey: 'c', eventType: 'OPEN_LONG', time: before(3), price: 2500, amount: 1, realizedPnl: null },
+    { eventKey: 'd', eventType: 'CLOSE_LONG', time: before(2), price: 2600, amount: 1, realizedPnl: 100 },
+  ]);
+  const change = summarizeVisibilityChange(hide, trips);
+
+  assert.equal(change.recentTrades, 1);
+  assert.equal(visibilityChangeSeverity(change), 'MEDIUM');
+  assert.equal(visibilityChangeSeverity(summarizeVisibilityChange({ ...hide, positionShow: true }, trips)), 'LOW');
+});